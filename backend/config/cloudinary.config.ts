@@ -260,11 +260,13 @@ export class CloudinaryConfigService {
    */
   async deleteFile(
     publicId: string,
-    resourceType: string = "image"
+    resourceType: string = "image",
+    type: "upload" | "private" = "upload"
   ): Promise<void> {
     try {
       await cloudinary.uploader.destroy(publicId, {
         resource_type: resourceType as any,
+        type,
       });
       console.log(`File ${publicId} deleted successfully`);
     } catch (error) {
@@ -343,10 +345,15 @@ export class CloudinaryConfigService {
   /**
    * Get file metadata
    */
-  async getFileMetadata(publicId: string, resourceType: string = "image") {
+  async getFileMetadata(
+    publicId: string,
+    resourceType: string = "image",
+    type: "upload" | "private" = "upload"
+  ) {
     try {
       const result = await cloudinary.api.resource(publicId, {
         resource_type: resourceType as any,
+        type,
       });
 
       const extension = result.format;
@@ -387,11 +394,13 @@ export class CloudinaryConfigService {
    */
   async fileExists(
     publicId: string,
-    resourceType: string = "image"
+    resourceType: string = "image",
+    type: "upload" | "private" = "upload"
   ): Promise<boolean> {
     try {
       await cloudinary.api.resource(publicId, {
         resource_type: resourceType as any,
+        type,
       });
       return true;
     } catch (error) {
@@ -422,23 +431,75 @@ export class CloudinaryConfigService {
   }
 
   /**
-   * Update file access mode (public/private)
+   * List one page of files in a folder
+   */
+  async listFilesPage(
+    folderPath: string,
+    resourceType: string = "image",
+    options?: {
+      type?: "upload" | "private";
+      maxResults?: number;
+      nextCursor?: string;
+    }
+  ): Promise<{ resources: any[]; nextCursor?: string }> {
+    try {
+      const result = await cloudinary.api.resources({
+        type: options?.type || "upload",
+        prefix: folderPath,
+        resource_type: resourceType as any,
+        max_results: options?.maxResults || 500,
+        ...(options?.nextCursor && { next_cursor: options.nextCursor }),
+      });
+
+      return {
+        resources: result.resources,
+        nextCursor: result.next_cursor || undefined,
+      };
+    } catch (error) {
+      console.error("Failed to list files:", error);
+      throw new Error(`Failed to list files: ${error}`);
+    }
+  }
+
+  /**
+   * Generate an expiring download URL, which also works for private files
+   */
+  generatePrivateDownloadUrl(
+    publicId: string,
+    format: string,
+    options?: {
+      resourceType?: string;
+      type?: "upload" | "private";
+      expiresAt?: number; // Unix seconds
+      attachment?: boolean;
+    }
+  ): string {
+    return cloudinary.utils.private_download_url(publicId, format, {
+      resource_type: (options?.resourceType || "image") as any,
+      type: options?.type || "private",
+      expires_at: options?.expiresAt,
+      attachment: options?.attachment,
+    });
+  }
+
+  /**
+   * Update file access mode (public/private). Returns the new secure URL.
    */
   async updateFileAccess(
     publicId: string,
     isPublic: boolean,
     resourceType: string = "image"
-  ): Promise<void> {
+  ): Promise<string> {
     try {
-      const newType = isPublic ? "upload" : "private";
-
-      // Cloudinary doesn't have a direct "make public/private" method
-      // We need to update the resource type
-      await cloudinary.uploader.rename(publicId, publicId, {
+      // Cloudinary doesn't have a direct "make public/private" method;
+      // renaming in place can move a resource to another delivery type
+      const result = await cloudinary.uploader.rename(publicId, publicId, {
         resource_type: resourceType as any,
-        type: newType,
+        type: isPublic ? "private" : "upload",
+        to_type: isPublic ? "upload" : "private",
         overwrite: true,
       });
+      return result.secure_url;
     } catch (error) {
       console.error("Failed to update file access:", error);
       throw new Error(`Failed to update file access: ${error}`);
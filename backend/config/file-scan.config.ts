@@ -0,0 +1,46 @@
+// config/file-scan.config.ts
+import { FileScannerName } from "../types/file-scan.types";
+
+const SCANNER_NAMES: FileScannerName[] = ["clamav", "none"];
+
+export interface ClamAvConfig {
+  host: string;
+  port: number;
+  socketPath?: string; // Unix socket; used instead of host and port when set
+  timeoutMs: number;
+}
+
+export interface FileScanConfig {
+  scanner: FileScannerName;
+  clamav: ClamAvConfig;
+}
+
+/**
+ * Scanner settings from environment variables. ClamAV is used when
+ * FILE_SCANNER says so or a clamd address is set.
+ *
+ * clamd refuses streams over its StreamMaxLength (25MB by default);
+ * raise it to the 100MB upload limit or larger files stay quarantined.
+ */
+export const loadFileScanConfig = (): FileScanConfig => {
+  const clamav: ClamAvConfig = {
+    host: process.env.CLAMAV_HOST || "127.0.0.1",
+    port: Number(process.env.CLAMAV_PORT || 3310),
+    socketPath: process.env.CLAMAV_SOCKET,
+    timeoutMs: Number(process.env.CLAMAV_TIMEOUT_MS || 60_000),
+  };
+
+  const configured = process.env.FILE_SCANNER?.trim().toLowerCase();
+  const scanner = (configured ||
+    (process.env.CLAMAV_HOST || process.env.CLAMAV_SOCKET
+      ? "clamav"
+      : "none")) as FileScannerName;
+
+  if (!SCANNER_NAMES.includes(scanner)) {
+    throw new Error(
+      `Invalid FILE_SCANNER "${process.env.FILE_SCANNER}". Use one of: ${SCANNER_NAMES.join(", ")}`
+    );
+  }
+
+  return { scanner, clamav };
+};
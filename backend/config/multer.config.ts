@@ -17,7 +17,9 @@ const diskStorage = multer.diskStorage({
   },
 });
 
-// File filter for validation
+// File filter for validation. The mimetype is whatever the client
+// claims; storageService.upload checks the content against it and
+// scans it before anything is stored.
 const fileFilter = (
   req: Express.Request,
   file: Express.Multer.File,
@@ -0,0 +1,139 @@
+// config/storage.config.ts
+import { StorageDriverName } from "../types/storage.types";
+
+const DRIVER_NAMES: StorageDriverName[] = ["local", "s3", "cloudinary", "gcs"];
+
+export interface LocalStorageConfig {
+  root: string; // Public files go under <root>/public, private ones under <root>/private
+  publicBaseUrl: string; // Prefix for public URLs; empty for same-origin paths
+  signingSecret: string;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // MinIO and most S3-compatible servers need this
+  publicBaseUrl?: string;
+}
+
+export interface GcsStorageConfig {
+  bucket: string;
+  projectId?: string;
+  keyFilename?: string; // Falls back to Application Default Credentials
+  publicBaseUrl?: string;
+}
+
+export interface StorageConfig {
+  defaultDriver: StorageDriverName;
+  labelDrivers: Record<string, StorageDriverName>; // File label -> driver
+  local: LocalStorageConfig;
+  s3?: S3StorageConfig;
+  gcs?: GcsStorageConfig;
+  cloudinaryEnabled: boolean;
+}
+
+const parseDriverName = (value: string, source: string): StorageDriverName => {
+  const name = value.trim().toLowerCase() as StorageDriverName;
+  if (!DRIVER_NAMES.includes(name)) {
+    throw new Error(
+      `Invalid storage driver "${value}" in ${source}. Use one of: ${DRIVER_NAMES.join(", ")}`
+    );
+  }
+  return name;
+};
+
+/**
+ * "id_image:s3,profile_picture:local" -> { id_image: "s3", profile_picture: "local" }
+ */
+const parseLabelDrivers = (
+  value: string | undefined
+): Record<string, StorageDriverName> => {
+  const labelDrivers: Record<string, StorageDriverName> = {};
+  if (!value) return labelDrivers;
+
+  for (const entry of value.split(",")) {
+    if (!entry.trim()) continue;
+
+    const [label, driver] = entry.split(":").map((part) => part?.trim());
+    if (!label || !driver) {
+      throw new Error(
+        `Invalid STORAGE_LABEL_DRIVERS entry "${entry}". Use label:driver`
+      );
+    }
+    labelDrivers[label] = parseDriverName(driver, "STORAGE_LABEL_DRIVERS");
+  }
+
+  return labelDrivers;
+};
+
+/**
+ * Storage settings from environment variables. A driver is only
+ * available when its settings are present; local disk always is.
+ */
+export const loadStorageConfig = (): StorageConfig => {
+  const cloudinaryEnabled = !!(
+    process.env.CLOUDINARY_CLOUD_NAME &&
+    process.env.CLOUDINARY_API_KEY &&
+    process.env.CLOUDINARY_API_SECRET
+  );
+
+  const s3: S3StorageConfig | undefined = process.env.S3_BUCKET
+    ? {
+        endpoint:
+          process.env.S3_ENDPOINT ||
+          `https://s3.${process.env.S3_REGION || "us-east-1"}.amazonaws.com`,
+        region: process.env.S3_REGION || "us-east-1",
+        bucket: process.env.S3_BUCKET,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === "true"
+          : !!process.env.S3_ENDPOINT,
+        publicBaseUrl: process.env.S3_PUBLIC_URL,
+      }
+    : undefined;
+
+  if (s3 && (!s3.accessKeyId || !s3.secretAccessKey)) {
+    throw new Error(
+      "S3 storage configuration missing: S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required with S3_BUCKET"
+    );
+  }
+
+  const gcs: GcsStorageConfig | undefined = process.env.GCS_BUCKET
+    ? {
+        bucket: process.env.GCS_BUCKET,
+        projectId: process.env.GCS_PROJECT_ID,
+        keyFilename: process.env.GCS_KEY_FILE,
+        publicBaseUrl: process.env.GCS_PUBLIC_URL,
+      }
+    : undefined;
+
+  const defaultDriver = process.env.STORAGE_DEFAULT_DRIVER
+    ? parseDriverName(
+        process.env.STORAGE_DEFAULT_DRIVER,
+        "STORAGE_DEFAULT_DRIVER"
+      )
+    : cloudinaryEnabled
+    ? "cloudinary"
+    : "local";
+
+  return {
+    defaultDriver,
+    labelDrivers: parseLabelDrivers(process.env.STORAGE_LABEL_DRIVERS),
+    local: {
+      root: process.env.LOCAL_STORAGE_ROOT || "uploads",
+      publicBaseUrl: (process.env.LOCAL_STORAGE_PUBLIC_URL || "").replace(
+        /\/+$/,
+        ""
+      ),
+      signingSecret:
+        process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "",
+    },
+    s3,
+    gcs,
+    cloudinaryEnabled,
+  };
+};
@@ -0,0 +1,38 @@
+// controllers/audit/audit-log.controller.ts
+
+import { AuditLogHandlers } from "./handlers/audit-log.handlers";
+
+/**
+ * Audit Log Controller
+ *
+ * Handles HTTP requests for the admin audit log endpoints.
+ */
+export class AuditLogController {
+  private auditLogHandler: AuditLogHandlers;
+
+  public listAuditLogs;
+  public exportAuditLogs;
+  public getEntityAuditLog;
+
+  constructor() {
+    this.auditLogHandler = new AuditLogHandlers();
+
+    this.listAuditLogs = this.auditLogHandler.listAuditLogs.bind(
+      this.auditLogHandler
+    );
+    this.exportAuditLogs = this.auditLogHandler.exportAuditLogs.bind(
+      this.auditLogHandler
+    );
+    this.getEntityAuditLog = this.auditLogHandler.getEntityAuditLog.bind(
+      this.auditLogHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const auditLogController = new AuditLogController();
+
+export const { listAuditLogs, exportAuditLogs, getEntityAuditLog } =
+  auditLogController;
+
+export default AuditLogController;
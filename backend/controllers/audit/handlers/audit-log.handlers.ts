@@ -0,0 +1,191 @@
+// controllers/audit/handlers/audit-log.handlers.ts
+import { Request, Response } from "express";
+import {
+  AuditLogService,
+  auditLogService,
+} from "../../../services/audit/audit-log.service";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditLogFilters,
+} from "../../../types/audit-log.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Audit Log Handlers
+ * Admin queries over the audit log, globally, per record and as CSV
+ */
+export class AuditLogHandlers {
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.auditLogService = auditLogService;
+  }
+
+  /**
+   * Filters from the query string; sends a 400 and returns null when
+   * one is invalid
+   */
+  private parseFilters(req: Request, res: Response): AuditLogFilters | null {
+    const { actorId, action, entityType, entityId, ip, from, to } =
+      req.query as Record<string, string | undefined>;
+
+    if (actorId && !validateObjectId(actorId)) {
+      res.status(400).json({ success: false, message: "Invalid actor ID" });
+      return null;
+    }
+
+    const actions = action
+      ? action.split(",").map((value) => value.trim()).filter(Boolean)
+      : [];
+    const validActions = Object.values(AuditAction) as string[];
+    const unknownAction = actions.find((value) => !validActions.includes(value));
+    if (unknownAction) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid action: ${unknownAction}`,
+      });
+      return null;
+    }
+
+    if (
+      entityType &&
+      !Object.values(AuditEntityType).includes(entityType as AuditEntityType)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid entity type. Must be one of: ${Object.values(
+          AuditEntityType
+        ).join(", ")}`,
+      });
+      return null;
+    }
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (fromDate === null || toDate === null) {
+      res.status(400).json({
+        success: false,
+        message: "'from' and 'to' must be valid dates",
+      });
+      return null;
+    }
+
+    return {
+      actorId,
+      actions: actions as AuditAction[],
+      entityType: entityType as AuditEntityType | undefined,
+      entityId,
+      ip,
+      from: fromDate,
+      to: toDate,
+    };
+  }
+
+  /**
+   * GET /api/admin/audit-logs?actorId=&action=&entityType=&entityId=&ip=&from=&to=&page=1&limit=50
+   * Search the audit log, newest first. `action` takes a comma-separated list.
+   */
+  async listAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const filters = this.parseFilters(req, res);
+      if (!filters) return;
+
+      const result = await this.auditLogService.list(
+        filters,
+        parsePagination(req, 50)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Audit log retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to retrieve audit log");
+    }
+  }
+
+  /**
+   * GET /api/admin/audit-logs/export?<same filters as the list>
+   * Download matching entries as CSV
+   */
+  async exportAuditLogs(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const filters = this.parseFilters(req, res);
+      if (!filters) return;
+
+      const csv = await this.auditLogService.exportCsv(filters);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="audit-log-${date}.csv"`
+      );
+      res.status(200).send(csv);
+    } catch (error) {
+      handleError(res, error, "Failed to export audit log");
+    }
+  }
+
+  /**
+   * GET /api/admin/audit-logs/:entityType/:entityId?page=1&limit=50
+   * History of one record, newest first
+   */
+  async getEntityAuditLog(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { entityType, entityId } = req.params;
+
+      if (
+        !Object.values(AuditEntityType).includes(entityType as AuditEntityType)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid entity type. Must be one of: ${Object.values(
+            AuditEntityType
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      const result = await this.auditLogService.listForEntity(
+        entityType as AuditEntityType,
+        entityId,
+        parsePagination(req, 50)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Audit log retrieved successfully",
+        data: { entityType, entityId, ...result },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to retrieve audit log");
+    }
+  }
+}
@@ -1,7 +1,23 @@
 // controllers/auth.controller.ts (Refactored)
 import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
 import { authService, getUserResponse } from "../services/auth.service";
-import { generateTokenAndSetCookie } from "../utils/generateTokenAndSetCookie";
+import { sessionService } from "../services/session.service";
+import { twoFactorService } from "../services/two-factor.service";
+import {
+  RefreshTokenRequestBody,
+  SessionRevokeReason,
+} from "../types/session.types";
+import {
+  clearAuthCookies,
+  generateTokenAndSetCookie,
+  getSessionMetadata,
+  REFRESH_TOKEN_COOKIE,
+  setRefreshTokenCookie,
+  startSessionAndSetCookies,
+} from "../utils/generateTokenAndSetCookie";
+import { getAuditContext } from "../utils/controller-utils/controller.utils";
 import {
   SignupRequestBody,
   LoginRequestBody,
@@ -11,6 +27,11 @@ import {
   ResendVerificationRequestBody,
   AuthResponse,
   AuthenticatedRequest,
+  TwoFactorLoginRequestBody,
+  TwoFactorChallengeRequestBody,
+  TwoFactorCodeRequestBody,
+  DisableTwoFactorRequestBody,
+  TwoFactorMethod,
 } from "../types/user.types";
 
 // Helper functions for consistent responses
@@ -98,10 +119,64 @@ const handleAsync = (fn: Function) => async (req: Request, res: Response) => {
         message: "Deleted user not found",
       },
       INVALID_ROLE: { status: 400, message: "Invalid system role" },
+      INVALID_REFRESH_TOKEN: {
+        status: 401,
+        message: "Invalid or expired refresh token",
+      },
+      REFRESH_TOKEN_REUSED: {
+        status: 401,
+        message: "Refresh token was already used; the session has been revoked",
+      },
+      SESSION_NOT_FOUND: { status: 404, message: "Session not found" },
+      INVALID_TWO_FACTOR_CHALLENGE: {
+        status: 401,
+        message: "Sign-in attempt expired, please log in again",
+      },
+      INVALID_TWO_FACTOR_CODE: {
+        status: 401,
+        message: "Invalid verification code",
+      },
+      TWO_FACTOR_LOCKED: {
+        status: 429,
+        message: "Too many invalid codes, please try again later",
+      },
+      TWO_FACTOR_NOT_ENABLED: {
+        status: 400,
+        message: "Two-factor authentication is not enabled",
+      },
+      TWO_FACTOR_ALREADY_ENABLED: {
+        status: 400,
+        message: "Two-factor authentication is already enabled",
+      },
+      TWO_FACTOR_SETUP_NOT_STARTED: {
+        status: 400,
+        message: "Start two-factor setup first",
+      },
+      OAUTH_NO_TWO_FACTOR: {
+        status: 400,
+        message:
+          "Two-factor authentication is managed by your sign-in provider for OAuth accounts",
+      },
+      TWO_FACTOR_REQUIRED_FOR_ADMIN: {
+        status: 403,
+        message: "Admins cannot disable two-factor authentication",
+      },
+      ACCOUNT_LOCKED: {
+        status: 429,
+        message:
+          "Account temporarily locked after too many failed sign-in attempts",
+      },
+      TOO_MANY_LOGIN_ATTEMPTS: {
+        status: 429,
+        message: "Too many failed sign-in attempts, please try again later",
+      },
     };
 
     const errorInfo = errorMessages[error.message];
     if (errorInfo) {
+      if (error.retryAfter) {
+        res.set("Retry-After", String(error.retryAfter));
+      }
       // Handle special case for email not verified
       if (error.message === "EMAIL_NOT_VERIFIED") {
         return res.status(errorInfo.status).json({
@@ -118,6 +193,29 @@ const handleAsync = (fn: Function) => async (req: Request, res: Response) => {
   }
 };
 
+// Session of the access token on the request, if it is valid
+const getAccessTokenSessionId = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  const token =
+    req.cookies?.token ||
+    (header?.startsWith("Bearer ") ? header.substring(7) : undefined);
+
+  if (!token || !process.env.JWT_SECRET) return undefined;
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET) as {
+      sessionId?: string;
+    };
+    return decoded.sessionId;
+  } catch {
+    return undefined;
+  }
+};
+
+const getRefreshToken = (req: Request): string | undefined =>
+  req.cookies?.[REFRESH_TOKEN_COOKIE] ||
+  (req.body as RefreshTokenRequestBody | undefined)?.refreshToken;
+
 // Permission middleware helpers
 const requireAdmin = (req: AuthenticatedRequest, res: Response): boolean => {
   const user = req.user;
@@ -156,16 +254,17 @@ export const signup = handleAsync(
 
     const user = await authService.signup({ name, email, password });
 
-    // Generate token with all user flags
-    const token = generateTokenAndSetCookie(res, user._id.toString(), {
-      isEmailVerified: user.isEmailVerified,
-      isAdmin: user.isAdmin,
-      isSuperAdmin: user.isSuperAdmin,
-    });
+    // Start a session and set access and refresh tokens
+    const { token, refreshToken } = await startSessionAndSetCookies(
+      req,
+      res,
+      user
+    );
 
     sendSuccessResponse(res, 201, "User created successfully", {
       user: getUserResponse(user),
       token,
+      refreshToken,
     });
   }
 );
@@ -179,31 +278,109 @@ export const login = handleAsync(
 
     if (!validateRequired({ email, password }, res)) return;
 
-    const user = await authService.login({ email, password });
+    const user = await authService.login({ email, password }, req.ip);
 
-    // Generate token with all user flags
-    const token = generateTokenAndSetCookie(res, user._id.toString(), {
-      isEmailVerified: user.isEmailVerified,
-      isAdmin: user.isAdmin,
-      isSuperAdmin: user.isSuperAdmin,
+    // With 2FA on, the password only earns a challenge for the second step
+    if (user.twoFactor?.enabled) {
+      return sendSuccessResponse(res, 200, "Two-factor authentication required", {
+        requiresTwoFactor: true,
+        ...twoFactorService.createLoginChallenge(user),
+      });
+    }
+
+    // Start a session and set access and refresh tokens
+    const { token, refreshToken } = await startSessionAndSetCookies(
+      req,
+      res,
+      user
+    );
+
+    sendSuccessResponse(res, 200, "Login successful", {
+      user: getUserResponse(user),
+      token,
+      refreshToken,
     });
+  }
+);
+
+export const verifyTwoFactorLogin = handleAsync(
+  async (
+    req: Request<{}, AuthResponse, TwoFactorLoginRequestBody>,
+    res: Response<AuthResponse>
+  ) => {
+    const { challengeToken, code, method } = req.body;
+
+    if (!validateRequired({ challengeToken, code }, res)) return;
+
+    if (method && !Object.values(TwoFactorMethod).includes(method)) {
+      return sendErrorResponse(
+        res,
+        400,
+        `method must be one of: ${Object.values(TwoFactorMethod).join(", ")}`
+      );
+    }
+
+    const user = await twoFactorService.verifyLoginChallenge(
+      challengeToken,
+      String(code),
+      method
+    );
+
+    // Start a session and set access and refresh tokens
+    const { token, refreshToken } = await startSessionAndSetCookies(
+      req,
+      res,
+      user
+    );
 
     sendSuccessResponse(res, 200, "Login successful", {
       user: getUserResponse(user),
       token,
+      refreshToken,
     });
   }
 );
 
+export const sendTwoFactorEmailCode = handleAsync(
+  async (
+    req: Request<{}, AuthResponse, TwoFactorChallengeRequestBody>,
+    res: Response<AuthResponse>
+  ) => {
+    const { challengeToken } = req.body;
+
+    if (!validateRequired({ challengeToken }, res)) return;
+
+    await twoFactorService.sendLoginEmailCode(challengeToken);
+
+    sendSuccessResponse(res, 200, "A sign-in code has been sent to your email");
+  }
+);
+
 export const logout = handleAsync(
   async (req: AuthenticatedRequest, res: Response) => {
-    const userId = req.userId;
+    // End the session named by the refresh token, or by the access token
+    const refreshToken = getRefreshToken(req);
+    const accessSessionId = getAccessTokenSessionId(req);
+
+    const session = refreshToken
+      ? await sessionService.revokeByRefreshToken(
+          refreshToken,
+          SessionRevokeReason.LOGOUT
+        )
+      : accessSessionId
+      ? await sessionService.revokeSessionById(
+          accessSessionId,
+          SessionRevokeReason.LOGOUT
+        )
+      : null;
+
+    const userId = req.userId || session?.userId.toString();
 
     if (userId) {
       await authService.logout(userId);
     }
 
-    res.clearCookie("token");
+    clearAuthCookies(res);
     sendSuccessResponse(res, 200, "Logout successful");
   }
 );
@@ -303,38 +480,197 @@ export const changePassword = handleAsync(
     )
       return;
 
-    await authService.changePassword(userId!, currentPassword, newPassword);
+    await authService.changePassword(
+      userId!,
+      currentPassword,
+      newPassword,
+      req.sessionId
+    );
 
-    sendSuccessResponse(res, 200, "Password changed successfully");
+    sendSuccessResponse(
+      res,
+      200,
+      "Password changed successfully. Other sessions have been signed out."
+    );
   }
 );
 
 // TOKEN MANAGEMENT
 export const refreshToken = handleAsync(
-  async (req: AuthenticatedRequest, res: Response) => {
-    const userId = req.userId;
-    const user = await authService.refreshToken(userId!);
+  async (req: Request, res: Response) => {
+    const presented = getRefreshToken(req);
+
+    if (!presented) {
+      return sendErrorResponse(res, 401, "Refresh token required");
+    }
+
+    let rotation;
+    try {
+      rotation = await sessionService.rotateRefreshToken(
+        presented,
+        getSessionMetadata(req)
+      );
+    } catch (error) {
+      clearAuthCookies(res);
+      throw error;
+    }
+
+    const { session, refreshToken: nextRefreshToken } = rotation;
+    const user = await authService.refreshToken(session.userId.toString());
 
-    // Generate token with all user flags
+    // New short-lived access token for the same session
     const token = generateTokenAndSetCookie(res, user._id.toString(), {
       isEmailVerified: user.isEmailVerified,
       isAdmin: user.isAdmin,
       isSuperAdmin: user.isSuperAdmin,
+      sessionId: session._id.toString(),
     });
+    setRefreshTokenCookie(res, nextRefreshToken);
 
     sendSuccessResponse(res, 200, "Token refreshed successfully", {
       user: getUserResponse(user),
       token,
+      refreshToken: nextRefreshToken,
+    });
+  }
+);
+
+// SESSION MANAGEMENT
+export const getMySessions = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const sessions = await sessionService.listActiveSessions(req.userId!);
+
+    sendSuccessResponse(res, 200, "Sessions retrieved successfully", {
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        device: session.device,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.sessionId,
+      })),
+    });
+  }
+);
+
+export const revokeMySession = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { sessionId } = req.params;
+
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      return sendErrorResponse(res, 400, "Valid session ID is required");
+    }
+
+    await sessionService.revokeSession(req.userId!, sessionId);
+
+    if (sessionId === req.sessionId) {
+      clearAuthCookies(res);
+    }
+
+    sendSuccessResponse(res, 200, "Session revoked successfully");
+  }
+);
+
+export const revokeAllMySessions = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    // ?exceptCurrent=true keeps the caller signed in
+    const keepCurrent = req.query.exceptCurrent === "true";
+
+    const revoked = await sessionService.revokeAllSessions(
+      req.userId!,
+      SessionRevokeReason.USER_REVOKED,
+      keepCurrent ? req.sessionId : undefined
+    );
+
+    if (!keepCurrent) {
+      clearAuthCookies(res);
+    }
+
+    sendSuccessResponse(res, 200, "Sessions revoked successfully", {
+      revoked,
     });
   }
 );
 
+// TWO-FACTOR AUTHENTICATION
+export const getTwoFactorStatus = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const status = await twoFactorService.getStatus(req.userId!);
+
+    sendSuccessResponse(res, 200, "Two-factor status retrieved successfully", {
+      twoFactor: status,
+    });
+  }
+);
+
+export const startTwoFactorSetup = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const setup = await twoFactorService.startTotpSetup(req.userId!);
+
+    sendSuccessResponse(
+      res,
+      200,
+      "Scan the QR code with your authenticator app, then confirm a code",
+      setup
+    );
+  }
+);
+
+export const confirmTwoFactorSetup = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { code } = req.body as TwoFactorCodeRequestBody;
+
+    if (!validateRequired({ code }, res)) return;
+
+    const { backupCodes } = await twoFactorService.confirmTotpSetup(
+      req.userId!,
+      String(code)
+    );
+
+    sendSuccessResponse(
+      res,
+      200,
+      "Two-factor authentication enabled. Store your backup codes somewhere safe.",
+      { backupCodes }
+    );
+  }
+);
+
+export const regenerateBackupCodes = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { code } = req.body as TwoFactorCodeRequestBody;
+
+    if (!validateRequired({ code }, res)) return;
+
+    const { backupCodes } = await twoFactorService.regenerateBackupCodes(
+      req.userId!,
+      String(code)
+    );
+
+    sendSuccessResponse(res, 200, "Backup codes regenerated", { backupCodes });
+  }
+);
+
+export const disableTwoFactor = handleAsync(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { password, code } = req.body as DisableTwoFactorRequestBody;
+
+    if (!validateRequired({ password, code }, res)) return;
+
+    await twoFactorService.disable(req.userId!, password, String(code));
+
+    sendSuccessResponse(res, 200, "Two-factor authentication disabled");
+  }
+);
+
 // ACCOUNT MANAGEMENT
 export const deleteAccount = handleAsync(
   async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.userId;
     await authService.deleteAccount(userId!);
-    res.clearCookie("token");
+    clearAuthCookies(res);
 
     sendSuccessResponse(res, 200, "Account deleted successfully");
   }
@@ -358,7 +694,7 @@ export const permanentlyDeleteAccount = handleAsync(
   async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.userId;
     await authService.permanentlyDeleteAccount(userId!);
-    res.clearCookie("token");
+    clearAuthCookies(res);
 
     sendSuccessResponse(res, 200, "Account permanently deleted");
   }
@@ -397,7 +733,11 @@ export const updateUserRole = handleAsync(
 
     if (!validateRequired({ systemRole }, res)) return;
 
-    const user = await authService.updateUserRole(userId, systemRole);
+    const user = await authService.updateUserRole(
+      userId,
+      systemRole,
+      getAuditContext(req)
+    );
 
     sendSuccessResponse(res, 200, "User role updated successfully", {
       user: getUserResponse(user),
@@ -425,7 +765,7 @@ export const deleteUser = handleAsync(
     const { userId } = req.params;
     const adminId = req.userId;
 
-    await authService.deleteUser(userId, adminId);
+    await authService.deleteUser(userId, adminId, getAuditContext(req));
 
     sendSuccessResponse(res, 200, "User deleted successfully");
   }
@@ -436,7 +776,10 @@ export const restoreUser = handleAsync(
     if (!requireSuperAdmin(req, res)) return;
 
     const { userId } = req.params;
-    const user = await authService.restoreUser(userId);
+    const user = await authService.restoreUser(
+      userId,
+      getAuditContext(req)
+    );
 
     sendSuccessResponse(res, 200, "User restored successfully", {
       user: getUserResponse(user),
@@ -5,6 +5,7 @@ import {
   handleError,
   validateObjectId,
   AuthenticatedRequest,
+  getAuditContext,
 } from "../../../utils/controller-utils/controller.utils";
 
 /**
@@ -217,7 +218,8 @@ export class CategoryAdminHandler {
       const result = await this.categoryService.bulkUpdateCategories(
         categoryIds,
         updates,
-        userId
+        userId,
+        getAuditContext(req)
       );
 
       return res.status(200).json({
@@ -248,7 +250,8 @@ export class CategoryAdminHandler {
 
       const category = await this.categoryService.toggleActiveStatus(
         id,
-        userId
+        userId,
+        getAuditContext(req)
       );
 
       if (!category) {
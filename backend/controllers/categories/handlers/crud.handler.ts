@@ -5,6 +5,7 @@ import {
   handleError,
   validateObjectId,
   AuthenticatedRequest,
+  getAuditContext,
 } from "../../../utils/controller-utils/controller.utils";
 
 /**
@@ -44,7 +45,8 @@ export class CategoryCRUDHandler {
 
       const category = await this.categoryService.createCategory(
         categoryData,
-        userId
+        userId,
+        getAuditContext(req)
       );
 
       return res.status(201).json({
@@ -91,7 +93,8 @@ export class CategoryCRUDHandler {
       const category = await this.categoryService.updateCategory(
         id,
         updates,
-        userId
+        userId,
+        getAuditContext(req)
       );
 
       if (!category) {
@@ -174,7 +177,11 @@ export class CategoryCRUDHandler {
         });
       }
 
-      await this.categoryService.deleteCategory(id, userId);
+      await this.categoryService.deleteCategory(
+        id,
+        userId,
+        getAuditContext(req)
+      );
 
       return res.status(200).json({
         success: true,
@@ -200,7 +207,10 @@ export class CategoryCRUDHandler {
         });
       }
 
-      const category = await this.categoryService.restoreCategory(id);
+      const category = await this.categoryService.restoreCategory(
+        id,
+        getAuditContext(req)
+      );
 
       if (!category) {
         return res.status(404).json({
@@ -237,7 +247,10 @@ export class CategoryCRUDHandler {
         });
       }
 
-      await this.categoryService.permanentlyDeleteCategory(id);
+      await this.categoryService.permanentlyDeleteCategory(
+        id,
+        getAuditContext(req)
+      );
 
       return res.status(200).json({
         success: true,
@@ -0,0 +1,79 @@
+// controllers/files/attachment.controller.ts
+
+import { AttachmentHandlers } from "./handlers/attachment.handlers";
+
+/**
+ * Attachment Controller
+ *
+ * Handles HTTP requests for files attached to users, categories,
+ * services, providers and clients.
+ */
+export class AttachmentController {
+  private attachmentHandler: AttachmentHandlers;
+
+  public uploadAttachments;
+  public listAttachments;
+  public getAttachmentHistory;
+  public getAttachmentStats;
+  public cleanupArchivedAttachments;
+  public getAttachment;
+  public updateAttachment;
+  public archiveAttachment;
+  public restoreAttachment;
+  public deleteAttachment;
+
+  constructor() {
+    this.attachmentHandler = new AttachmentHandlers();
+
+    // Label-wide operations
+    this.uploadAttachments = this.attachmentHandler.upload.bind(
+      this.attachmentHandler
+    );
+    this.listAttachments = this.attachmentHandler.list.bind(
+      this.attachmentHandler
+    );
+    this.getAttachmentHistory = this.attachmentHandler.getHistory.bind(
+      this.attachmentHandler
+    );
+    this.getAttachmentStats = this.attachmentHandler.getStats.bind(
+      this.attachmentHandler
+    );
+    this.cleanupArchivedAttachments =
+      this.attachmentHandler.cleanupArchived.bind(this.attachmentHandler);
+
+    // Single file operations
+    this.getAttachment = this.attachmentHandler.get.bind(
+      this.attachmentHandler
+    );
+    this.updateAttachment = this.attachmentHandler.updateMetadata.bind(
+      this.attachmentHandler
+    );
+    this.archiveAttachment = this.attachmentHandler.archive.bind(
+      this.attachmentHandler
+    );
+    this.restoreAttachment = this.attachmentHandler.restore.bind(
+      this.attachmentHandler
+    );
+    this.deleteAttachment = this.attachmentHandler.delete.bind(
+      this.attachmentHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const attachmentController = new AttachmentController();
+
+export const {
+  uploadAttachments,
+  listAttachments,
+  getAttachmentHistory,
+  getAttachmentStats,
+  cleanupArchivedAttachments,
+  getAttachment,
+  updateAttachment,
+  archiveAttachment,
+  restoreAttachment,
+  deleteAttachment,
+} = attachmentController;
+
+export default AttachmentController;
@@ -0,0 +1,39 @@
+// controllers/files/file-access.controller.ts
+
+import { FileAccessHandlers } from "./handlers/file-access.handlers";
+
+/**
+ * File Access Controller
+ *
+ * Handles HTTP requests for reading files by ID, including signed
+ * links to private files and their access log.
+ */
+export class FileAccessController {
+  private fileAccessHandler: FileAccessHandlers;
+
+  public getFileUrl;
+  public streamFileContent;
+  public getFileAccessLog;
+
+  constructor() {
+    this.fileAccessHandler = new FileAccessHandlers();
+
+    this.getFileUrl = this.fileAccessHandler.getUrl.bind(
+      this.fileAccessHandler
+    );
+    this.streamFileContent = this.fileAccessHandler.streamContent.bind(
+      this.fileAccessHandler
+    );
+    this.getFileAccessLog = this.fileAccessHandler.getAccessLog.bind(
+      this.fileAccessHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const fileAccessController = new FileAccessController();
+
+export const { getFileUrl, streamFileContent, getFileAccessLog } =
+  fileAccessController;
+
+export default FileAccessController;
@@ -0,0 +1,393 @@
+// controllers/files/handlers/attachment.handlers.ts
+import { Request, Response } from "express";
+import {
+  AttachmentService,
+  AttachmentTarget,
+  attachmentService,
+} from "../../../services/files/attachment.service";
+import {
+  AttachmentActor,
+  UpdateAttachmentRequestBody,
+} from "../../../types/files.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import { handleError } from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * Attachment Handlers
+ * Files attached to an entity under a label:
+ * /api/files/:entityType/:entityId/:label
+ */
+export class AttachmentHandlers {
+  private attachmentService: AttachmentService;
+
+  constructor() {
+    this.attachmentService = attachmentService;
+  }
+
+  private handleAttachmentError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message.endsWith("not found")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Not allowed")) {
+      res.status(403).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Cannot")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Invalid")) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  private getTarget(req: Request): AttachmentTarget {
+    const { entityType, entityId, label } = req.params as Record<
+      string,
+      string
+    >;
+    return { entityType, entityId, label };
+  }
+
+  private getActor(req: AuthenticatedRequest): AttachmentActor | null {
+    const user = req.user;
+    if (!user?._id) return null;
+
+    return {
+      userId: user._id.toString(),
+      isAdmin: !!(user.isAdmin || user.isSuperAdmin),
+    };
+  }
+
+  /**
+   * Signed-in actor; sends 401 and returns null otherwise
+   */
+  private requireActor(
+    req: AuthenticatedRequest,
+    res: Response
+  ): AttachmentActor | null {
+    const actor = this.getActor(req);
+
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+    }
+
+    return actor;
+  }
+
+  /**
+   * POST /api/files/:entityType/:entityId/:label
+   * Upload one or more files (multipart field "files"). Provider and
+   * client IDs may be the user's ID before the profile exists.
+   */
+  async upload(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const uploads = ((req.files as Express.Multer.File[]) || []).map(
+        (file) => ({
+          buffer: file.buffer,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        })
+      );
+
+      const { files, linked } = await this.attachmentService.upload(
+        this.getTarget(req),
+        uploads,
+        actor
+      );
+
+      res.status(201).json({
+        success: true,
+        message: linked
+          ? `${files.length} file(s) uploaded successfully`
+          : `${files.length} file(s) uploaded; they will be linked once the profile is created`,
+        data: { files, linked },
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to upload files");
+    }
+  }
+
+  /**
+   * GET /api/files/:entityType/:entityId/:label
+   * Active files and the label's upload limits
+   */
+  async list(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.attachmentService.list(
+        this.getTarget(req),
+        this.getActor(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Files retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to retrieve files");
+    }
+  }
+
+  /**
+   * GET /api/files/:entityType/:entityId/:label/history?page=1&limit=20
+   * Archived files, most recently archived first
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const { page, limit } = parsePagination(req, 20);
+      const { history, total } = await this.attachmentService.getHistory(
+        this.getTarget(req),
+        actor,
+        { limit, skip: (page - 1) * limit }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File history retrieved successfully",
+        data: {
+          history,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to retrieve file history");
+    }
+  }
+
+  /**
+   * GET /api/files/:entityType/:entityId/:label/stats
+   */
+  async getStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const stats = await this.attachmentService.getStats(
+        this.getTarget(req),
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File statistics retrieved successfully",
+        data: stats,
+      });
+    } catch (error) {
+      this.handleAttachmentError(
+        res,
+        error,
+        "Failed to retrieve file statistics"
+      );
+    }
+  }
+
+  /**
+   * DELETE /api/files/:entityType/:entityId/:label/archived?daysOld=30
+   * Permanently delete files archived more than daysOld days ago
+   */
+  async cleanupArchived(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const daysOld = Number(req.query.daysOld ?? 30);
+      if (!Number.isFinite(daysOld) || daysOld < 0) {
+        res.status(400).json({
+          success: false,
+          message: "daysOld must be a non-negative number",
+        });
+        return;
+      }
+
+      const deletedCount = await this.attachmentService.cleanupArchived(
+        this.getTarget(req),
+        daysOld,
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `${deletedCount} archived file(s) deleted`,
+        data: { deletedCount },
+      });
+    } catch (error) {
+      this.handleAttachmentError(
+        res,
+        error,
+        "Failed to clean up archived files"
+      );
+    }
+  }
+
+  /**
+   * GET /api/files/:entityType/:entityId/:label/:fileId
+   */
+  async get(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const file = await this.attachmentService.get(
+        this.getTarget(req),
+        req.params.fileId as string,
+        this.getActor(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File retrieved successfully",
+        data: file,
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to retrieve file");
+    }
+  }
+
+  /**
+   * PATCH /api/files/:entityType/:entityId/:label/:fileId
+   * Update a file's description and tags
+   */
+  async updateMetadata(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const { description, tags } = req.body as UpdateAttachmentRequestBody;
+
+      if (
+        tags !== undefined &&
+        (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string"))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "Tags must be an array of strings",
+        });
+        return;
+      }
+
+      const file = await this.attachmentService.updateMetadata(
+        this.getTarget(req),
+        req.params.fileId as string,
+        { description, tags },
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File updated successfully",
+        data: file,
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to update file");
+    }
+  }
+
+  /**
+   * POST /api/files/:entityType/:entityId/:label/:fileId/archive
+   * Unlink a file from its entity and keep it in history
+   */
+  async archive(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const file = await this.attachmentService.archive(
+        this.getTarget(req),
+        req.params.fileId as string,
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File archived successfully",
+        data: file,
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to archive file");
+    }
+  }
+
+  /**
+   * POST /api/files/:entityType/:entityId/:label/:fileId/restore
+   */
+  async restore(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const result = await this.attachmentService.restore(
+        this.getTarget(req),
+        req.params.fileId as string,
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File restored successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to restore file");
+    }
+  }
+
+  /**
+   * DELETE /api/files/:entityType/:entityId/:label/:fileId
+   * Permanently delete a file and its stored bytes
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      await this.attachmentService.delete(
+        this.getTarget(req),
+        req.params.fileId as string,
+        actor
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File deleted successfully",
+      });
+    } catch (error) {
+      this.handleAttachmentError(res, error, "Failed to delete file");
+    }
+  }
+}
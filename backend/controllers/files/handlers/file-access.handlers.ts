@@ -0,0 +1,169 @@
+// controllers/files/handlers/file-access.handlers.ts
+import { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import {
+  FileAccessService,
+  fileAccessService,
+} from "../../../services/files/file-access.service";
+import { AttachmentActor } from "../../../types/files.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+  setFileHeaders,
+} from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * File Access Handlers
+ * Reading files by ID, with access checks and logging for private files
+ */
+export class FileAccessHandlers {
+  private fileAccessService: FileAccessService;
+
+  constructor() {
+    this.fileAccessService = fileAccessService;
+  }
+
+  private handleAccessError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message.endsWith("not found")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Not allowed")) {
+      res.status(403).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Cannot")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Invalid")) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * Signed-in actor; sends 401 and returns null otherwise
+   */
+  private requireActor(
+    req: AuthenticatedRequest,
+    res: Response
+  ): AttachmentActor | null {
+    const user = req.user;
+
+    if (!user?._id) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+      return null;
+    }
+
+    return {
+      userId: user._id.toString(),
+      isAdmin: !!(user.isAdmin || user.isSuperAdmin),
+    };
+  }
+
+  /**
+   * GET /api/files/:fileId/url?download=true
+   * Link to a file's bytes; short-lived and signed if the file is private
+   */
+  async getUrl(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const result = await this.fileAccessService.getAccessUrl(
+        req.params.fileId as string,
+        actor,
+        { download: req.query.download === "true" },
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File link created successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleAccessError(res, error, "Failed to create file link");
+    }
+  }
+
+  /**
+   * GET /api/files/:fileId/content?download=true
+   * Stream a file's bytes through the server
+   */
+  async streamContent(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const actor = this.requireActor(req, res);
+      if (!actor) return;
+
+      const { file, stream } = await this.fileAccessService.openStream(
+        req.params.fileId as string,
+        actor,
+        getAuditContext(req)
+      );
+
+      setFileHeaders(res, file.mimeType || stream.contentType, {
+        fileName: file.fileName,
+        download: req.query.download === "true",
+      });
+      if (stream.size) res.setHeader("Content-Length", String(stream.size));
+      res.setHeader(
+        "Cache-Control",
+        file.visibility === "private" ? "private, no-store" : "public, max-age=3600"
+      );
+
+      await pipeline(stream.body, res);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("File stream interrupted:", error);
+        res.destroy();
+        return;
+      }
+      this.handleAccessError(res, error, "Failed to read file");
+    }
+  }
+
+  /**
+   * GET /api/files/:fileId/access-log?page=1&limit=20
+   * Who read a private file, newest first. Admin only.
+   */
+  async getAccessLog(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.fileAccessService.getAccessLog(
+        req.params.fileId as string,
+        parsePagination(req, 20)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "File access log retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleAccessError(res, error, "Failed to retrieve file access log");
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// controllers/files/handlers/local-storage.handler.ts
+import { Request, Response } from "express";
+import path from "path";
+import { storageService } from "../../../services/files/storage/storage.service";
+import {
+  handleError,
+  setFileHeaders,
+} from "../../../utils/controller-utils/controller.utils";
+
+/**
+ * Serves files from local disk storage through signed URLs
+ */
+export class LocalStorageHandler {
+  /**
+   * GET /api/files/local/*key?expires=&signature=&download=&type=
+   * The signature stands in for authentication
+   */
+  download = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { key: segments } = req.params as { key: string | string[] };
+      const key = Array.isArray(segments) ? segments.join("/") : segments;
+      const { expires, signature, download, type } = req.query;
+
+      if (typeof expires !== "string" || typeof signature !== "string") {
+        res.status(403).json({ success: false, message: "Invalid file link" });
+        return;
+      }
+
+      const downloadName = typeof download === "string" ? download : undefined;
+      const contentType = typeof type === "string" ? type : undefined;
+      const filePath = await storageService
+        .getLocalDriver()
+        .verifySignedRequest(key, expires, signature, downloadName, contentType);
+
+      if (!filePath) {
+        res.status(403).json({
+          success: false,
+          message: "File link is invalid or has expired",
+        });
+        return;
+      }
+
+      res.setHeader("Cache-Control", "private, no-store");
+      // sendFile keeps these rather than guessing from the key's extension
+      setFileHeaders(res, contentType, {
+        fileName: downloadName,
+        download: !!downloadName,
+      });
+      res.sendFile(path.resolve(filePath));
+    } catch (error) {
+      handleError(res, error, "Failed to download file");
+    }
+  };
+}
@@ -0,0 +1,113 @@
+// controllers/files/handlers/quarantine.handlers.ts
+import { Request, Response } from "express";
+import {
+  QuarantineService,
+  quarantineService,
+} from "../../../services/files/quarantine.service";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+} from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * Quarantine Handlers
+ * Admin review of uploads the malware scanner couldn't check
+ */
+export class QuarantineHandlers {
+  private quarantineService: QuarantineService;
+
+  constructor() {
+    this.quarantineService = quarantineService;
+  }
+
+  private handleQuarantineError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message.endsWith("not found")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Invalid")) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * GET /api/files/quarantine?page=1&limit=20
+   * Quarantined files, oldest first
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.quarantineService.list(
+        parsePagination(req, 20)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Quarantined files retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleQuarantineError(
+        res,
+        error,
+        "Failed to retrieve quarantined files"
+      );
+    }
+  }
+
+  /**
+   * POST /api/files/quarantine/:fileId/rescan
+   * Scan a quarantined file now. Clean files are released; infected
+   * ones are deleted.
+   */
+  async rescan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.quarantineService.rescanById(
+        req.params.fileId as string,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `File scanned: ${result.scan.verdict}`,
+        data: result,
+      });
+    } catch (error) {
+      this.handleQuarantineError(res, error, "Failed to rescan file");
+    }
+  }
+
+  /**
+   * DELETE /api/files/quarantine/:fileId
+   * Delete a quarantined file and its bytes
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await this.quarantineService.delete(
+        req.params.fileId as string,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Quarantined file deleted successfully",
+      });
+    } catch (error) {
+      this.handleQuarantineError(res, error, "Failed to delete file");
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// controllers/files/quarantine.controller.ts
+
+import { QuarantineHandlers } from "./handlers/quarantine.handlers";
+
+/**
+ * Quarantine Controller
+ *
+ * Handles admin HTTP requests for uploads held back until they pass a
+ * malware scan.
+ */
+export class QuarantineController {
+  private quarantineHandler: QuarantineHandlers;
+
+  public listQuarantinedFiles;
+  public rescanQuarantinedFile;
+  public deleteQuarantinedFile;
+
+  constructor() {
+    this.quarantineHandler = new QuarantineHandlers();
+
+    this.listQuarantinedFiles = this.quarantineHandler.list.bind(
+      this.quarantineHandler
+    );
+    this.rescanQuarantinedFile = this.quarantineHandler.rescan.bind(
+      this.quarantineHandler
+    );
+    this.deleteQuarantinedFile = this.quarantineHandler.delete.bind(
+      this.quarantineHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const quarantineController = new QuarantineController();
+
+export const {
+  listQuarantinedFiles,
+  rescanQuarantinedFile,
+  deleteQuarantinedFile,
+} = quarantineController;
+
+export default QuarantineController;
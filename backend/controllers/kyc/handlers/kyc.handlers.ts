@@ -0,0 +1,418 @@
+// controllers/kyc/handlers/kyc.handlers.ts
+import { Request, Response } from "express";
+import {
+  KycService,
+  kycService,
+} from "../../../services/profiles/kyc.service";
+import { idType } from "../../../types/base.types";
+import {
+  ApproveKycRequestBody,
+  KycOwnerType,
+  KycRejectionReason,
+  KycStatus,
+  RejectKycRequestBody,
+} from "../../../types/kyc.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * KYC Handlers
+ * ID document submissions by clients and providers, and the admin
+ * review queue
+ */
+export class KycHandlers {
+  private kycService: KycService;
+
+  constructor() {
+    this.kycService = kycService;
+  }
+
+  private handleKycError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message.endsWith("not found")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Cannot")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.startsWith("Invalid") ||
+      message.startsWith("Add your") ||
+      message.startsWith("Upload at least")
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  private getUserId(req: AuthenticatedRequest, res: Response): string | null {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+      return null;
+    }
+
+    return userId.toString();
+  }
+
+  /**
+   * Admin ID and a valid submission ID; sends the error response and
+   * returns null otherwise
+   */
+  private getReviewTarget(
+    req: AuthenticatedRequest,
+    res: Response
+  ): { adminId: string; submissionId: string } | null {
+    const adminId = req.user?._id;
+    const { submissionId } = req.params;
+
+    if (!adminId) {
+      res.status(401).json({
+        success: false,
+        message: "Admin authentication required",
+      });
+      return null;
+    }
+
+    if (!validateObjectId(submissionId)) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid submission ID format",
+      });
+      return null;
+    }
+
+    return { adminId: adminId.toString(), submissionId };
+  }
+
+  private async getMine(
+    req: AuthenticatedRequest,
+    res: Response,
+    ownerType: KycOwnerType
+  ): Promise<void> {
+    try {
+      const userId = this.getUserId(req, res);
+      if (!userId) return;
+
+      const kyc = await this.kycService.getMine(userId, ownerType);
+
+      res.status(200).json({
+        success: true,
+        message: "ID verification status retrieved successfully",
+        data: kyc,
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to retrieve ID verification");
+    }
+  }
+
+  private async submitMine(
+    req: AuthenticatedRequest,
+    res: Response,
+    ownerType: KycOwnerType
+  ): Promise<void> {
+    try {
+      const userId = this.getUserId(req, res);
+      if (!userId) return;
+
+      const submission = await this.kycService.submit(
+        userId,
+        ownerType,
+        getAuditContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "ID submitted for verification",
+        data: { submission },
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to submit ID for verification");
+    }
+  }
+
+  /**
+   * GET /api/clients/me/kyc
+   * Current client's ID verification status and past submissions
+   */
+  async getMyClientKyc(req: AuthenticatedRequest, res: Response) {
+    return this.getMine(req, res, KycOwnerType.CLIENT);
+  }
+
+  /**
+   * POST /api/clients/me/kyc
+   * Send the current client's ID details and images for review
+   */
+  async submitMyClientKyc(req: AuthenticatedRequest, res: Response) {
+    return this.submitMine(req, res, KycOwnerType.CLIENT);
+  }
+
+  /**
+   * GET /api/providers/me/kyc
+   * Current provider's ID verification status and past submissions
+   */
+  async getMyProviderKyc(req: AuthenticatedRequest, res: Response) {
+    return this.getMine(req, res, KycOwnerType.PROVIDER);
+  }
+
+  /**
+   * POST /api/providers/me/kyc
+   * Send the current provider's ID details and images for review
+   */
+  async submitMyProviderKyc(req: AuthenticatedRequest, res: Response) {
+    return this.submitMine(req, res, KycOwnerType.PROVIDER);
+  }
+
+  /**
+   * GET /api/admin/kyc?status=submitted,in_review&ownerType=&idType=&duplicates=true&page=1&limit=20
+   * Review queue, oldest first, with linked ID images and duplicate matches
+   */
+  async getKycQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status, ownerType, idType: type, duplicates } =
+        req.query as Record<string, string | undefined>;
+
+      const statuses = status
+        ? status.split(",").map((value) => value.trim()).filter(Boolean)
+        : [];
+      const validStatuses = Object.values(KycStatus) as string[];
+      const unknownStatus = statuses.find(
+        (value) => !validStatuses.includes(value)
+      );
+      if (unknownStatus) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid status: ${unknownStatus}`,
+        });
+        return;
+      }
+
+      if (
+        ownerType &&
+        !Object.values(KycOwnerType).includes(ownerType as KycOwnerType)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid owner type. Must be one of: ${Object.values(
+            KycOwnerType
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      if (type && !Object.values(idType).includes(type as idType)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid ID type. Must be one of: ${Object.values(
+            idType
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      const result = await this.kycService.listQueue(
+        {
+          statuses: statuses as KycStatus[],
+          ownerType: ownerType as KycOwnerType | undefined,
+          idType: type as idType | undefined,
+          duplicatesOnly: duplicates === "true",
+        },
+        parsePagination(req, 20)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "KYC queue retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to retrieve KYC queue");
+    }
+  }
+
+  /**
+   * GET /api/admin/kyc/:submissionId
+   * One submission with its images, duplicates and review history
+   */
+  async getKycSubmission(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+
+      if (!validateObjectId(submissionId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid submission ID format",
+        });
+        return;
+      }
+
+      const submission = await this.kycService.getSubmission(submissionId);
+
+      res.status(200).json({
+        success: true,
+        message: "KYC submission retrieved successfully",
+        data: { submission },
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to retrieve KYC submission");
+    }
+  }
+
+  /**
+   * POST /api/admin/kyc/:submissionId/start-review
+   * Claim a submission for review
+   */
+  async startKycReview(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const target = this.getReviewTarget(req, res);
+      if (!target) return;
+
+      const submission = await this.kycService.startReview(
+        target.submissionId,
+        target.adminId,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "KYC review started",
+        data: { submission },
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to start KYC review");
+    }
+  }
+
+  /**
+   * POST /api/admin/kyc/:submissionId/approve
+   * Approve the document and mark the profile's ID verified
+   */
+  async approveKyc(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const target = this.getReviewTarget(req, res);
+      if (!target) return;
+
+      const { notes }: ApproveKycRequestBody = req.body || {};
+
+      const submission = await this.kycService.approve(
+        target.submissionId,
+        target.adminId,
+        notes,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "ID approved successfully",
+        data: { submission },
+      });
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to approve ID");
+    }
+  }
+
+  private async decline(
+    req: AuthenticatedRequest,
+    res: Response,
+    status: KycStatus.REJECTED | KycStatus.NEEDS_RESUBMISSION
+  ): Promise<void> {
+    const target = this.getReviewTarget(req, res);
+    if (!target) return;
+
+    const { reason, details, notes }: RejectKycRequestBody = req.body || {};
+
+    if (!reason) {
+      res.status(400).json({
+        success: false,
+        message: `A reason is required. Must be one of: ${Object.values(
+          KycRejectionReason
+        ).join(", ")}`,
+      });
+      return;
+    }
+
+    const submission =
+      status === KycStatus.REJECTED
+        ? await this.kycService.reject(
+            target.submissionId,
+            target.adminId,
+            reason,
+            details,
+            notes,
+            getAuditContext(req)
+          )
+        : await this.kycService.requestResubmission(
+            target.submissionId,
+            target.adminId,
+            reason,
+            details,
+            notes,
+            getAuditContext(req)
+          );
+
+    res.status(200).json({
+      success: true,
+      message:
+        status === KycStatus.REJECTED
+          ? "ID rejected"
+          : "Resubmission requested",
+      data: { submission },
+    });
+  }
+
+  /**
+   * POST /api/admin/kyc/:submissionId/reject
+   * Refuse the document with a reason
+   */
+  async rejectKyc(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await this.decline(req, res, KycStatus.REJECTED);
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to reject ID");
+    }
+  }
+
+  /**
+   * POST /api/admin/kyc/:submissionId/request-resubmission
+   * Ask the owner to fix their ID details or images and submit again
+   */
+  async requestKycResubmission(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      await this.decline(req, res, KycStatus.NEEDS_RESUBMISSION);
+    } catch (error) {
+      this.handleKycError(res, error, "Failed to request ID resubmission");
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// controllers/kyc/kyc.controller.ts
+
+import { KycHandlers } from "./handlers/kyc.handlers";
+
+/**
+ * KYC Controller
+ *
+ * Handles HTTP requests for ID document submissions and the admin
+ * review queue.
+ */
+export class KycController {
+  private kycHandler: KycHandlers;
+
+  public getMyClientKyc;
+  public submitMyClientKyc;
+  public getMyProviderKyc;
+  public submitMyProviderKyc;
+  public getKycQueue;
+  public getKycSubmission;
+  public startKycReview;
+  public approveKyc;
+  public rejectKyc;
+  public requestKycResubmission;
+
+  constructor() {
+    this.kycHandler = new KycHandlers();
+
+    // Owner operations
+    this.getMyClientKyc = this.kycHandler.getMyClientKyc.bind(this.kycHandler);
+    this.submitMyClientKyc = this.kycHandler.submitMyClientKyc.bind(
+      this.kycHandler
+    );
+    this.getMyProviderKyc = this.kycHandler.getMyProviderKyc.bind(
+      this.kycHandler
+    );
+    this.submitMyProviderKyc = this.kycHandler.submitMyProviderKyc.bind(
+      this.kycHandler
+    );
+
+    // Admin review
+    this.getKycQueue = this.kycHandler.getKycQueue.bind(this.kycHandler);
+    this.getKycSubmission = this.kycHandler.getKycSubmission.bind(
+      this.kycHandler
+    );
+    this.startKycReview = this.kycHandler.startKycReview.bind(this.kycHandler);
+    this.approveKyc = this.kycHandler.approveKyc.bind(this.kycHandler);
+    this.rejectKyc = this.kycHandler.rejectKyc.bind(this.kycHandler);
+    this.requestKycResubmission = this.kycHandler.requestKycResubmission.bind(
+      this.kycHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const kycController = new KycController();
+
+export const {
+  getMyClientKyc,
+  submitMyClientKyc,
+  getMyProviderKyc,
+  submitMyProviderKyc,
+  getKycQueue,
+  getKycSubmission,
+  startKycReview,
+  approveKyc,
+  rejectKyc,
+  requestKycResubmission,
+} = kycController;
+
+export default KycController;
@@ -0,0 +1,68 @@
+// controllers/messaging/conversation.controller.ts
+
+import { ConversationHandlers } from "./handlers/conversation.handlers";
+
+/**
+ * Conversation Controller
+ *
+ * Handles HTTP requests for task and booking conversations
+ * between customers and providers.
+ */
+export class ConversationController {
+  private conversationHandler: ConversationHandlers;
+
+  // Threads
+  public getMyConversations;
+  public openTaskConversation;
+  public getBookingConversation;
+  public getConversation;
+
+  // Messages
+  public getMessages;
+  public sendMessage;
+  public markConversationRead;
+
+  constructor() {
+    this.conversationHandler = new ConversationHandlers();
+
+    this.getMyConversations = this.conversationHandler.getMyConversations.bind(
+      this.conversationHandler
+    );
+    this.openTaskConversation =
+      this.conversationHandler.openTaskConversation.bind(
+        this.conversationHandler
+      );
+    this.getBookingConversation =
+      this.conversationHandler.getBookingConversation.bind(
+        this.conversationHandler
+      );
+    this.getConversation = this.conversationHandler.getConversation.bind(
+      this.conversationHandler
+    );
+    this.getMessages = this.conversationHandler.getMessages.bind(
+      this.conversationHandler
+    );
+    this.sendMessage = this.conversationHandler.sendMessage.bind(
+      this.conversationHandler
+    );
+    this.markConversationRead =
+      this.conversationHandler.markConversationRead.bind(
+        this.conversationHandler
+      );
+  }
+}
+
+// Create and export a singleton instance
+const conversationController = new ConversationController();
+
+export const {
+  getMyConversations,
+  openTaskConversation,
+  getBookingConversation,
+  getConversation,
+  getMessages,
+  sendMessage,
+  markConversationRead,
+} = conversationController;
+
+export default ConversationController;
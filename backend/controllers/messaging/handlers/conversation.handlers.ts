@@ -0,0 +1,417 @@
+// controllers/messaging/handlers/conversation.handlers.ts
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { storageService } from "../../../services/files/storage/storage.service";
+import {
+  CONVERSATION_ENTITY_TYPE,
+  ConversationService,
+  conversationService,
+  MessageAttachmentUpload,
+  MESSAGE_ATTACHMENT_LABEL,
+} from "../../../services/messaging/conversation.service";
+import {
+  ConversationViewer,
+  OpenTaskConversationRequestBody,
+  SendMessageRequestBody,
+} from "../../../types/messaging.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_MESSAGE_LENGTH = 2000;
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * Conversation Handlers
+ * Task and booking threads between a customer and a provider
+ */
+export class ConversationHandlers {
+  private conversationService: ConversationService;
+
+  constructor() {
+    this.conversationService = conversationService;
+  }
+
+  private getViewer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): ConversationViewer | null {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+      return null;
+    }
+
+    return {
+      userId: req.userId,
+      isAdmin: !!(req.user?.isAdmin || req.user?.isSuperAdmin),
+    };
+  }
+
+  private sendConversationError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message.endsWith("not found")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Only the")) {
+      res.status(403).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message === "providerId is required" ||
+      message === "Provider is not linked to this task" ||
+      message.startsWith("Message must") ||
+      message.startsWith("Invalid image") ||
+      message.startsWith("Invalid file") ||
+      error.name === "ValidationError"
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * GET /api/conversations?page&limit
+   * The current user's threads with unread counts
+   */
+  async getMyConversations(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const result = await this.conversationService.listConversations(
+        viewer.userId,
+        parsePagination(req, 20)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Conversations retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to retrieve conversations");
+    }
+  }
+
+  /**
+   * POST /api/conversations/tasks/:taskId
+   * Open (or return) the thread for a task. Customers pass `providerId`.
+   */
+  async openTaskConversation(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { taskId } = req.params;
+      const { providerId } = (req.body || {}) as OpenTaskConversationRequestBody;
+
+      if (!validateObjectId(taskId)) {
+        res.status(400).json({ success: false, message: "Invalid task ID" });
+        return;
+      }
+
+      if (providerId !== undefined && !validateObjectId(providerId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid provider ID",
+        });
+        return;
+      }
+
+      const conversation = await this.conversationService.openTaskConversation(
+        taskId,
+        viewer.userId,
+        providerId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Conversation retrieved successfully",
+        data: { conversation },
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to open conversation");
+    }
+  }
+
+  /**
+   * GET /api/conversations/bookings/:bookingId
+   */
+  async getBookingConversation(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { bookingId } = req.params;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      const conversation =
+        await this.conversationService.getBookingConversation(
+          bookingId,
+          viewer
+        );
+
+      res.status(200).json({
+        success: true,
+        message: "Conversation retrieved successfully",
+        data: { conversation },
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to retrieve conversation");
+    }
+  }
+
+  /**
+   * GET /api/conversations/:conversationId
+   */
+  async getConversation(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { conversationId } = req.params;
+
+      if (!validateObjectId(conversationId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid conversation ID",
+        });
+        return;
+      }
+
+      const conversation = await this.conversationService.getConversation(
+        conversationId,
+        viewer
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Conversation retrieved successfully",
+        data: { conversation },
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to retrieve conversation");
+    }
+  }
+
+  /**
+   * GET /api/conversations/:conversationId/messages?page&limit
+   * Newest first; contact details masked until the booking is confirmed
+   */
+  async getMessages(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { conversationId } = req.params;
+
+      if (!validateObjectId(conversationId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid conversation ID",
+        });
+        return;
+      }
+
+      const result = await this.conversationService.listMessages(
+        conversationId,
+        viewer,
+        parsePagination(req, 50)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Messages retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to retrieve messages");
+    }
+  }
+
+  /**
+   * POST /api/conversations/:conversationId/messages
+   * Text in `body`; files in multipart field `attachments`
+   */
+  async sendMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { conversationId } = req.params;
+      const { body } = (req.body || {}) as SendMessageRequestBody;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      if (!validateObjectId(conversationId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid conversation ID",
+        });
+        return;
+      }
+
+      if (body !== undefined && typeof body !== "string") {
+        res.status(400).json({
+          success: false,
+          message: "'body' must be a string",
+        });
+        return;
+      }
+
+      const text = body?.trim() || "";
+
+      if (!text && files.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "Message must have text or attachments",
+        });
+        return;
+      }
+
+      if (text.length > MAX_MESSAGE_LENGTH) {
+        res.status(400).json({
+          success: false,
+          message: `Message must be at most ${MAX_MESSAGE_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (files.length > MAX_ATTACHMENTS) {
+        res.status(400).json({
+          success: false,
+          message: `Maximum ${MAX_ATTACHMENTS} attachments per message`,
+        });
+        return;
+      }
+
+      const oversized = files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+      if (oversized) {
+        res.status(400).json({
+          success: false,
+          message: `${oversized.originalname} must be under ${
+            MAX_ATTACHMENT_SIZE / (1024 * 1024)
+          }MB`,
+        });
+        return;
+      }
+
+      // Check access before uploading anything
+      const conversation = await this.conversationService.getConversation(
+        conversationId,
+        viewer
+      );
+
+      const attachments: MessageAttachmentUpload[] = [];
+
+      for (const file of files) {
+        const uploadResult = await storageService.upload(file.buffer, {
+          label: MESSAGE_ATTACHMENT_LABEL,
+          folder: `conversations/${conversation._id}`,
+          fileName: file.originalname,
+          contentType: file.mimetype,
+          isPublic: false, // Only the two parties and admins
+          uploaderId: viewer.userId,
+        });
+
+        attachments.push({
+          uploaderId: new Types.ObjectId(viewer.userId),
+          ...storageService.toFileFields(uploadResult),
+          fileName: file.originalname,
+          tags: [CONVERSATION_ENTITY_TYPE, MESSAGE_ATTACHMENT_LABEL, viewer.userId],
+          description: "Message attachment",
+        });
+      }
+
+      const message = await this.conversationService.sendMessage(
+        conversationId,
+        viewer.userId,
+        text,
+        attachments
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Message sent successfully",
+        data: { message },
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to send message");
+    }
+  }
+
+  /**
+   * PATCH /api/conversations/:conversationId/read
+   * Mark the other party's messages as read
+   */
+  async markConversationRead(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const viewer = this.getViewer(req, res);
+      if (!viewer) return;
+
+      const { conversationId } = req.params;
+
+      if (!validateObjectId(conversationId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid conversation ID",
+        });
+        return;
+      }
+
+      const updated = await this.conversationService.markRead(
+        conversationId,
+        viewer.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Conversation marked as read",
+        data: { updated },
+      });
+    } catch (error: any) {
+      this.sendConversationError(res, error, "Failed to mark conversation as read");
+    }
+  }
+}
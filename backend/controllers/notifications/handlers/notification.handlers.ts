@@ -0,0 +1,205 @@
+// controllers/notifications/handlers/notification.handlers.ts
+import { Request, Response } from "express";
+import { ProfileModel } from "../../../models/profiles/userProfile.model";
+import {
+  NotificationInboxService,
+  notificationInboxService,
+} from "../../../services/notifications/notification-inbox.service";
+import {
+  NotificationStreamService,
+  notificationStreamService,
+} from "../../../services/notifications/notification-stream.service";
+import { NotificationStreamEvent } from "../../../types/notification.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * Notification Handlers
+ * In-app inbox, read state and the live update stream
+ */
+export class NotificationHandlers {
+  private inboxService: NotificationInboxService;
+  private streamService: NotificationStreamService;
+
+  constructor() {
+    this.inboxService = notificationInboxService;
+    this.streamService = notificationStreamService;
+  }
+
+  private requireUser(req: AuthenticatedRequest, res: Response): string | null {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+      return null;
+    }
+
+    return req.userId;
+  }
+
+  /**
+   * GET /api/notifications?page=1&limit=20&unread=true
+   * List the current user's notifications, newest first
+   */
+  async listNotifications(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const { page, limit } = parsePagination(req, 20);
+      const unreadOnly = req.query.unread === "true";
+
+      const result = await this.inboxService.listNotifications(userId, {
+        page,
+        limit,
+        unreadOnly,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Notifications retrieved successfully",
+        data: result,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to retrieve notifications");
+    }
+  }
+
+  /**
+   * GET /api/notifications/unread-count
+   */
+  async getUnreadCount(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const unreadCount = await this.inboxService.countUnread(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Unread count retrieved successfully",
+        data: { unreadCount },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to retrieve unread count");
+    }
+  }
+
+  /**
+   * PATCH /api/notifications/:notificationId/read
+   */
+  async markNotificationRead(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const { notificationId } = req.params;
+
+      if (!validateObjectId(notificationId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid notification ID",
+        });
+        return;
+      }
+
+      const notification = await this.inboxService.markRead(
+        userId,
+        notificationId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Notification marked as read",
+        data: { notification },
+      });
+    } catch (error: any) {
+      if (error.message === "Notification not found") {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      handleError(res, error, "Failed to mark notification as read");
+    }
+  }
+
+  /**
+   * PATCH /api/notifications/read-all
+   */
+  async markAllNotificationsRead(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const updated = await this.inboxService.markAllRead(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "All notifications marked as read",
+        data: { updated },
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to mark notifications as read");
+    }
+  }
+
+  /**
+   * GET /api/notifications/stream
+   * Server-Sent Events stream of new notifications, unread counts
+   * and dashboard metrics
+   */
+  async streamNotifications(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const profile = await ProfileModel.findOne({ userId })
+        .select("role")
+        .lean();
+
+      this.streamService.connect(userId, profile?.role, res);
+
+      // Bring the client up to date straight away
+      const unreadCount = await this.inboxService.countUnread(userId);
+      this.streamService.send(userId, NotificationStreamEvent.UNREAD_COUNT, {
+        unreadCount,
+      });
+      await this.streamService.pushDashboard(userId);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Notification stream error:", error);
+        res.end();
+        return;
+      }
+
+      handleError(res, error, "Failed to open notification stream");
+    }
+  }
+}
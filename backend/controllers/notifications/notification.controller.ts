@@ -0,0 +1,58 @@
+// controllers/notifications/notification.controller.ts
+
+import { NotificationHandlers } from "./handlers/notification.handlers";
+
+/**
+ * Notification Controller
+ *
+ * Handles HTTP requests for the in-app notification inbox
+ * and its real-time stream.
+ */
+export class NotificationController {
+  private notificationHandler: NotificationHandlers;
+
+  // Inbox
+  public listNotifications;
+  public getUnreadCount;
+  public markNotificationRead;
+  public markAllNotificationsRead;
+
+  // Real-time
+  public streamNotifications;
+
+  constructor() {
+    this.notificationHandler = new NotificationHandlers();
+
+    this.listNotifications = this.notificationHandler.listNotifications.bind(
+      this.notificationHandler
+    );
+    this.getUnreadCount = this.notificationHandler.getUnreadCount.bind(
+      this.notificationHandler
+    );
+    this.markNotificationRead =
+      this.notificationHandler.markNotificationRead.bind(
+        this.notificationHandler
+      );
+    this.markAllNotificationsRead =
+      this.notificationHandler.markAllNotificationsRead.bind(
+        this.notificationHandler
+      );
+    this.streamNotifications =
+      this.notificationHandler.streamNotifications.bind(
+        this.notificationHandler
+      );
+  }
+}
+
+// Create and export a singleton instance
+const notificationController = new NotificationController();
+
+export const {
+  listNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  streamNotifications,
+} = notificationController;
+
+export default NotificationController;
@@ -1,6 +1,6 @@
 // controllers/oauth.controller.ts
 import { Request, Response } from "express";
-import { generateTokenAndSetCookie } from "../utils/generateTokenAndSetCookie";
+import { startSessionAndSetCookies } from "../utils/generateTokenAndSetCookie";
 import {
   GoogleAuthRequestBody,
   AppleAuthRequestBody,
@@ -9,6 +9,7 @@ import {
   AuthenticatedRequest,
 } from "../types/user.types";
 import { oAuthService } from "../services/oauth.service";
+import { twoFactorService } from "../services/two-factor.service";
 import { User } from "../models/user.model";
 
 export const googleAuth = async (
@@ -43,21 +44,28 @@ export const googleAuth = async (
       return;
     }
 
-    // Generate JWT token with admin flags
-    const token = generateTokenAndSetCookie(
-      res, 
-      completeUser._id.toString(),
-      {
-        isEmailVerified: completeUser.isEmailVerified,
-        isAdmin: completeUser.isAdmin,
-        isSuperAdmin: completeUser.isSuperAdmin,
-      }
+    // With 2FA on, the provider's token only earns a challenge
+    if (completeUser.twoFactor?.enabled) {
+      res.status(200).json({
+        message: "Two-factor authentication required",
+        requiresTwoFactor: true,
+        ...twoFactorService.createLoginChallenge(completeUser),
+      });
+      return;
+    }
+
+    // Start a session and set access and refresh tokens
+    const { token, refreshToken } = await startSessionAndSetCookies(
+      req,
+      res,
+      completeUser
     );
 
     res.status(200).json({
       message: "Google authentication successful",
       user: result.user,
       token,
+      refreshToken,
       hasProfile: result.hasProfile,
       profile: null,
     });
@@ -102,21 +110,28 @@ export const appleAuth = async (
       return;
     }
 
-    // Generate JWT token with admin flags
-    const token = generateTokenAndSetCookie(
-      res, 
-      completeUser._id.toString(),
-      {
-        isEmailVerified: completeUser.isEmailVerified,
-        isAdmin: completeUser.isAdmin,
-        isSuperAdmin: completeUser.isSuperAdmin,
-      }
+    // With 2FA on, the provider's token only earns a challenge
+    if (completeUser.twoFactor?.enabled) {
+      res.status(200).json({
+        message: "Two-factor authentication required",
+        requiresTwoFactor: true,
+        ...twoFactorService.createLoginChallenge(completeUser),
+      });
+      return;
+    }
+
+    // Start a session and set access and refresh tokens
+    const { token, refreshToken } = await startSessionAndSetCookies(
+      req,
+      res,
+      completeUser
     );
 
     res.status(200).json({
       message: "Apple authentication successful",
       user: result.user,
       token,
+      refreshToken,
       hasProfile: result.hasProfile,
       profile: null,
     });
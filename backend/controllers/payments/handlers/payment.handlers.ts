@@ -0,0 +1,412 @@
+// controllers/payments/handlers/payment.handlers.ts
+import { Request, Response } from "express";
+import { BookingModel } from "../../../models/booking.model";
+import {
+  PaymentService,
+  paymentService,
+} from "../../../services/payments/payment.service";
+import { UserRole } from "../../../types/base.types";
+import {
+  InitiateBookingPaymentRequestBody,
+  MobileMoneyNetwork,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+  PayoutProviderRequestBody,
+  RefundBookingRequestBody,
+} from "../../../types/payment.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+import { normalizeGhanaPhone } from "../../../utils/phone.utils";
+import { getBookingActor } from "../../tasks/handlers/unified-booking.handler";
+
+/**
+ * Payment Handlers
+ * Booking collections, ledger views, refunds/payouts and gateway callbacks
+ */
+export class PaymentHandlers {
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.paymentService = paymentService;
+  }
+
+  private sendPaymentError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (
+      message === "Booking not found" ||
+      message === "Payment transaction not found" ||
+      message.startsWith("Payment gateway not found")
+    ) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.includes("already pending") || message.includes("already been paid")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.startsWith("Cannot pay") ||
+      message.startsWith("Nothing is") ||
+      message.startsWith("No ") ||
+      message.startsWith("Refund cannot") ||
+      message.includes("does not require a deposit") ||
+      message.includes("can only be paid out")
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  private validateWallet(
+    network: MobileMoneyNetwork,
+    phoneNumber: string
+  ): string | null {
+    if (!Object.values(MobileMoneyNetwork).includes(network)) {
+      return `Invalid network. Must be one of: ${Object.values(
+        MobileMoneyNetwork
+      ).join(", ")}`;
+    }
+
+    if (!normalizeGhanaPhone(phoneNumber)) {
+      return "A valid Ghana mobile money number is required";
+    }
+
+    return null;
+  }
+
+  /**
+   * POST /api/payments/bookings/:bookingId/pay
+   * Customer pays the deposit or balance by mobile money
+   */
+  async payForBooking(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const userId = req.userId;
+      const { type, network, phoneNumber } =
+        req.body as InitiateBookingPaymentRequestBody;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (
+        type !== PaymentTransactionType.DEPOSIT &&
+        type !== PaymentTransactionType.BALANCE
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "'type' must be DEPOSIT or BALANCE",
+        });
+        return;
+      }
+
+      const walletError = this.validateWallet(network, phoneNumber);
+      if (walletError) {
+        res.status(400).json({ success: false, message: walletError });
+        return;
+      }
+
+      const actor = await getBookingActor(userId);
+      const booking = await BookingModel.findById(bookingId).select("clientId");
+
+      if (!booking) {
+        res.status(404).json({
+          success: false,
+          message: "Booking not found",
+        });
+        return;
+      }
+
+      if (
+        actor?.role !== UserRole.CUSTOMER ||
+        booking.clientId.toString() !== actor.actorId
+      ) {
+        res.status(403).json({
+          success: false,
+          message: "Only the customer can pay for this booking",
+        });
+        return;
+      }
+
+      const transaction = await this.paymentService.initiateBookingPayment(
+        bookingId,
+        userId,
+        type,
+        network,
+        normalizeGhanaPhone(phoneNumber)!
+      );
+
+      const failed = transaction.status === PaymentTransactionStatus.FAILED;
+
+      res.status(failed ? 402 : 202).json({
+        success: !failed,
+        message: failed
+          ? `Payment failed: ${transaction.failureReason}`
+          : "Payment initiated. Approve the prompt on your phone to complete it",
+        data: { transaction },
+      });
+    } catch (error: any) {
+      this.sendPaymentError(res, error, "Failed to initiate payment");
+    }
+  }
+
+  /**
+   * GET /api/payments/bookings/:bookingId
+   * Ledger and totals for a booking (parties and admins)
+   */
+  async getBookingPayments(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (!req.user?.isAdmin && !req.user?.isSuperAdmin) {
+        const actor = await getBookingActor(userId);
+        const booking = await BookingModel.findById(bookingId).select(
+          "clientId providerId"
+        );
+
+        if (!booking) {
+          res.status(404).json({
+            success: false,
+            message: "Booking not found",
+          });
+          return;
+        }
+
+        const partyId =
+          actor?.role === UserRole.CUSTOMER
+            ? booking.clientId
+            : booking.providerId;
+
+        if (!actor || partyId.toString() !== actor.actorId) {
+          res.status(403).json({
+            success: false,
+            message: "Forbidden: You don't have access to this booking",
+          });
+          return;
+        }
+      }
+
+      const ledger = await this.paymentService.getBookingLedger(bookingId);
+
+      res.status(200).json({
+        success: true,
+        message: "Booking payments retrieved successfully",
+        data: ledger,
+      });
+    } catch (error: any) {
+      this.sendPaymentError(res, error, "Failed to retrieve booking payments");
+    }
+  }
+
+  /**
+   * POST /api/payments/callbacks/:gateway
+   * Webhook-style callback from a payment gateway (signature verified)
+   */
+  async handleGatewayCallback(req: Request, res: Response): Promise<void> {
+    try {
+      const { gateway } = req.params;
+
+      const result = await this.paymentService.handleGatewayCallback(
+        gateway,
+        req.headers,
+        req.body,
+        req.rawBody
+      );
+
+      res.status(200).json({
+        success: true,
+        message: result.applied
+          ? "Callback applied"
+          : "Callback already processed",
+        data: {
+          reference: result.transaction.reference,
+          status: result.transaction.status,
+        },
+      });
+    } catch (error: any) {
+      const message: string = error.message || "";
+
+      if (
+        message === "Invalid callback signature" ||
+        message.startsWith("Malformed") ||
+        message.startsWith("Unknown callback")
+      ) {
+        res.status(400).json({ success: false, message });
+        return;
+      }
+
+      this.sendPaymentError(res, error, "Failed to process callback");
+    }
+  }
+
+  // ── Admin ───────────────────────────────────────────────────────────────
+
+  /**
+   * POST /api/payments/admin/bookings/:bookingId/refund
+   */
+  async refundBooking(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const { amount, reason } = req.body as RefundBookingRequestBody;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          message: "Refund reason is required",
+        });
+        return;
+      }
+
+      if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+        res.status(400).json({
+          success: false,
+          message: "'amount' must be a positive number",
+        });
+        return;
+      }
+
+      const transaction = await this.paymentService.refundBooking(
+        bookingId,
+        req.userId!,
+        reason,
+        amount,
+        getAuditContext(req)
+      );
+
+      res.status(202).json({
+        success: true,
+        message: "Refund initiated",
+        data: { transaction },
+      });
+    } catch (error: any) {
+      this.sendPaymentError(res, error, "Failed to refund booking");
+    }
+  }
+
+  /**
+   * POST /api/payments/admin/bookings/:bookingId/payout
+   */
+  async payoutProvider(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const { network, phoneNumber } = req.body as PayoutProviderRequestBody;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      const walletError = this.validateWallet(network, phoneNumber);
+      if (walletError) {
+        res.status(400).json({ success: false, message: walletError });
+        return;
+      }
+
+      const transaction = await this.paymentService.payoutProvider(
+        bookingId,
+        req.userId!,
+        network,
+        normalizeGhanaPhone(phoneNumber)!,
+        getAuditContext(req)
+      );
+
+      res.status(202).json({
+        success: true,
+        message: "Payout initiated",
+        data: { transaction },
+      });
+    } catch (error: any) {
+      this.sendPaymentError(res, error, "Failed to pay out provider");
+    }
+  }
+
+  /**
+   * GET /api/payments/admin/transactions?type&status&page&limit
+   */
+  async getTransactions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { type, status, page = "1", limit = "20" } = req.query;
+
+      const result = await this.paymentService.listTransactions({
+        type: type as PaymentTransactionType | undefined,
+        status: status as PaymentTransactionStatus | undefined,
+        page: Number(page),
+        limit: Math.min(Number(limit), 100),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Transactions retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendPaymentError(res, error, "Failed to retrieve transactions");
+    }
+  }
+}
+
+export default new PaymentHandlers();
@@ -0,0 +1,61 @@
+// controllers/payments/payment.controller.ts
+
+import { PaymentHandlers } from "./handlers/payment.handlers";
+
+/**
+ * Payment Controller
+ *
+ * Handles HTTP requests for booking payments, the payment ledger
+ * and gateway callbacks.
+ */
+export class PaymentController {
+  private paymentHandler: PaymentHandlers;
+
+  // Customer / Party Operations
+  public payForBooking;
+  public getBookingPayments;
+
+  // Gateway Callbacks
+  public handleGatewayCallback;
+
+  // Admin Operations
+  public refundBooking;
+  public payoutProvider;
+  public getTransactions;
+
+  constructor() {
+    this.paymentHandler = new PaymentHandlers();
+
+    this.payForBooking = this.paymentHandler.payForBooking.bind(
+      this.paymentHandler
+    );
+    this.getBookingPayments = this.paymentHandler.getBookingPayments.bind(
+      this.paymentHandler
+    );
+    this.handleGatewayCallback =
+      this.paymentHandler.handleGatewayCallback.bind(this.paymentHandler);
+    this.refundBooking = this.paymentHandler.refundBooking.bind(
+      this.paymentHandler
+    );
+    this.payoutProvider = this.paymentHandler.payoutProvider.bind(
+      this.paymentHandler
+    );
+    this.getTransactions = this.paymentHandler.getTransactions.bind(
+      this.paymentHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const paymentController = new PaymentController();
+
+export const {
+  payForBooking,
+  getBookingPayments,
+  handleGatewayCallback,
+  refundBooking,
+  payoutProvider,
+  getTransactions,
+} = paymentController;
+
+export default PaymentController;
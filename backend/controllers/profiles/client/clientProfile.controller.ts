@@ -59,6 +59,8 @@ export class ClientProfileController {
 
   // Verification Operations
   public updateVerificationStatus;
+  public getMyPhoneVerification;
+  public requestPhoneCode;
   public verifyPhone;
   public verifyEmail;
   public verifyId;
@@ -186,6 +188,13 @@ export class ClientProfileController {
       this.verificationHandler.updateVerificationStatus.bind(
         this.verificationHandler
       );
+    this.getMyPhoneVerification =
+      this.verificationHandler.getMyPhoneVerification.bind(
+        this.verificationHandler
+      );
+    this.requestPhoneCode = this.verificationHandler.requestPhoneCode.bind(
+      this.verificationHandler
+    );
     this.verifyPhone = this.verificationHandler.verifyPhone.bind(
       this.verificationHandler
     );
@@ -268,6 +277,8 @@ export const {
 
   // Verification Operations
   updateVerificationStatus,
+  getMyPhoneVerification,
+  requestPhoneCode,
   verifyPhone,
   verifyEmail,
   verifyId,
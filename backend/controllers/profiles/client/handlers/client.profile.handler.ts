@@ -10,6 +10,7 @@ import {
 } from "../../../../types/profiles/client.profile.types";
 import { AuthenticatedRequest } from "../../../../types/user.types";
 import {
+  getAuditContext,
   handleError,
   validateObjectId,
 } from "../../../../utils/controller-utils/controller.utils";
@@ -89,6 +90,15 @@ export class ClientProfileHandlers {
         return;
       }
 
+      // Bad ID type or Ghana Card number
+      if (error.message.startsWith("Invalid")) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
       handleError(res, error, "Failed to create client profile");
     }
   }
@@ -309,7 +319,8 @@ export class ClientProfileHandlers {
       // Update profile
       const updatedClient = await clientProfileService.updateClientProfile(
         clientProfile._id.toString(),
-        updateData
+        updateData,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -362,7 +373,8 @@ export class ClientProfileHandlers {
 
       const updatedClient = await clientProfileService.updateClientProfile(
         clientId,
-        updateData
+        updateData,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -413,7 +425,8 @@ export class ClientProfileHandlers {
 
       await clientProfileService.deleteClientProfile(
         clientId,
-        userId.toString()
+        userId.toString(),
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -461,7 +474,10 @@ export class ClientProfileHandlers {
         return;
       }
 
-      await clientProfileService.restoreClientProfile(clientId);
+      await clientProfileService.restoreClientProfile(
+        clientId,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
@@ -524,7 +540,8 @@ export class ClientProfileHandlers {
           idType,
           idNumber,
           replaceImages: replaceImages || false,
-        }
+        },
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -549,6 +566,14 @@ export class ClientProfileHandlers {
         return;
       }
 
+      if (error.message?.startsWith("Invalid")) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
       handleError(res, error, "Failed to update ID details");
     }
   }
@@ -603,7 +628,8 @@ export class ClientProfileHandlers {
           idType,
           idNumber,
           replaceImages: replaceImages || false,
-        }
+        },
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -628,6 +654,14 @@ export class ClientProfileHandlers {
         return;
       }
 
+      if (error.message?.startsWith("Invalid")) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
       handleError(res, error, "Failed to update ID details");
     }
   }
@@ -11,6 +11,7 @@ import {
 } from "../../../../types/profiles/client.profile.types";
 import { AuthenticatedRequest } from "../../../../types/user.types";
 import {
+  getAuditContext,
   handleError,
   validateObjectId,
 } from "../../../../utils/controller-utils/controller.utils";
@@ -185,7 +186,11 @@ export class ClientManagementHandlers {
         return;
       }
 
-      const client = await clientProfileService.manageAddress(clientId, data);
+      const client = await clientProfileService.manageAddress(
+        clientId,
+        data,
+        getAuditContext(req)
+      );
 
       const actionMessages = {
         add: "Address added successfully",
@@ -240,7 +245,8 @@ export class ClientManagementHandlers {
 
       const client = await clientProfileService.manageAddress(
         clientProfile._id.toString(),
-        data
+        data,
+        getAuditContext(req)
       );
 
       const actionMessages = {
@@ -289,7 +295,8 @@ export class ClientManagementHandlers {
 
       const client = await clientProfileService.addPaymentMethod(
         clientId,
-        data
+        data,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -323,7 +330,8 @@ export class ClientManagementHandlers {
 
       const client = await clientProfileService.removePaymentMethod(
         clientId,
-        paymentMethodId
+        paymentMethodId,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -1,8 +1,20 @@
 // handlers/profiles/client/verification.handler.ts
 import { Response } from "express";
 import { clientProfileService } from "../../../../services/profiles/client.profile.service";
+import { kycService } from "../../../../services/profiles/kyc.service";
+import { phoneVerificationService } from "../../../../services/profiles/phone-verification.service";
+import {
+  ApproveKycRequestBody,
+  KycOwnerType,
+} from "../../../../types/kyc.types";
+import {
+  ConfirmPhoneCodeRequestBody,
+  PhoneOwnerType,
+  RequestPhoneCodeRequestBody,
+} from "../../../../types/phone-verification.types";
 import { AuthenticatedRequest } from "../../../../types/user.types";
 import {
+  getAuditContext,
   handleError,
   validateObjectId,
 } from "../../../../utils/controller-utils/controller.utils";
@@ -53,7 +65,8 @@ export class ClientVerificationHandlers {
 
       const client = await clientProfileService.updateVerificationStatus(
         clientId,
-        verificationData
+        verificationData,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -75,34 +88,157 @@ export class ClientVerificationHandlers {
     }
   }
 
+  private handlePhoneVerificationError(
+    res: Response,
+    error: any,
+    fallback: string
+  ) {
+    const message: string = error.message || "";
+
+    if (message === "Client profile not found") {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Too many") || message.startsWith("Please wait")) {
+      res.status(429).json({ success: false, message });
+      return;
+    }
+
+    if (message === "Phone number is already verified") {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.startsWith("Invalid") ||
+      message.startsWith("No ") ||
+      message.startsWith("Verification code has expired")
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * GET /api/clients/me/verify-phone
+   * Verification state of the current client's phone numbers
+   */
+  async getMyPhoneVerification(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const phones = await phoneVerificationService.getStatus(
+        userId.toString(),
+        PhoneOwnerType.CLIENT
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Phone verification status retrieved successfully",
+        data: { phones },
+      });
+    } catch (error) {
+      this.handlePhoneVerificationError(
+        res,
+        error,
+        "Failed to retrieve phone verification status"
+      );
+    }
+  }
+
   /**
-   * POST /api/clients/:clientId/verify-phone
-   * Verify phone number
+   * POST /api/clients/me/verify-phone/request
+   * Text a one-time code to the current client's primary (profile mobile)
+   * or secondary number
+   */
+  async requestPhoneCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const { field }: RequestPhoneCodeRequestBody = req.body || {};
+
+      const result = await phoneVerificationService.requestCode(
+        userId.toString(),
+        PhoneOwnerType.CLIENT,
+        field
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Verification code sent",
+        data: result,
+      });
+    } catch (error) {
+      this.handlePhoneVerificationError(
+        res,
+        error,
+        "Failed to send verification code"
+      );
+    }
+  }
+
+  /**
+   * POST /api/clients/me/verify-phone
+   * Verify phone number with the code that was texted to it
    */
   async verifyPhone(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { clientId } = req.params;
+      const userId = req.user?._id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
 
-      if (!validateObjectId(clientId)) {
+      const { field, code }: ConfirmPhoneCodeRequestBody = req.body || {};
+
+      if (!code) {
         res.status(400).json({
           success: false,
-          message: "Invalid client ID format",
+          message: "Verification code is required",
         });
         return;
       }
 
-      const client = await clientProfileService.updateVerificationStatus(
-        clientId,
-        { phoneVerified: true }
+      const phone = await phoneVerificationService.confirmCode(
+        userId.toString(),
+        PhoneOwnerType.CLIENT,
+        code,
+        field
       );
 
       res.status(200).json({
         success: true,
         message: "Phone verified successfully",
-        data: { client },
+        data: { phone },
       });
     } catch (error) {
-      handleError(res, error, "Failed to verify phone");
+      this.handlePhoneVerificationError(res, error, "Failed to verify phone");
     }
   }
 
@@ -124,7 +260,8 @@ export class ClientVerificationHandlers {
 
       const client = await clientProfileService.updateVerificationStatus(
         clientId,
-        { emailVerified: true }
+        { emailVerified: true },
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -139,11 +276,22 @@ export class ClientVerificationHandlers {
 
   /**
    * POST /api/clients/:clientId/verify-id
-   * Verify ID document
+   * Verify ID document by approving the client's KYC submission, so the
+   * decision has a review record
    */
   async verifyId(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { clientId } = req.params;
+      const adminId = req.user?._id;
+      const { notes }: ApproveKycRequestBody = req.body || {};
+
+      if (!adminId) {
+        res.status(401).json({
+          success: false,
+          message: "Admin authentication required",
+        });
+        return;
+      }
 
       if (!validateObjectId(clientId)) {
         res.status(400).json({
@@ -153,17 +301,42 @@ export class ClientVerificationHandlers {
         return;
       }
 
-      const client = await clientProfileService.updateVerificationStatus(
+      const submission = await kycService.approveForProfile(
+        KycOwnerType.CLIENT,
         clientId,
-        { idVerified: true }
+        adminId.toString(),
+        notes,
+        getAuditContext(req)
       );
+      const client = await clientProfileService.getClientProfile(clientId);
 
       res.status(200).json({
         success: true,
         message: "ID verified successfully",
-        data: { client },
+        data: { client, submission },
       });
-    } catch (error) {
+    } catch (error: any) {
+      const message: string = error.message || "";
+
+      if (message === "Client profile not found") {
+        res.status(404).json({ success: false, message });
+        return;
+      }
+
+      if (message.startsWith("Cannot")) {
+        res.status(409).json({ success: false, message });
+        return;
+      }
+
+      if (
+        message.startsWith("Invalid") ||
+        message.startsWith("Add your") ||
+        message.startsWith("Upload at least")
+      ) {
+        res.status(400).json({ success: false, message });
+        return;
+      }
+
       handleError(res, error, "Failed to verify ID");
     }
   }
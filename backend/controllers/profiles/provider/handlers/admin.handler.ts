@@ -1,13 +1,23 @@
 // handlers/profiles/provider/provider-admin.handlers.ts
 import { Response } from "express";
-import { Types } from "mongoose";
 import { ProviderModel } from "../../../../models/profiles/provider.model";
+import { auditLogService } from "../../../../services/audit/audit-log.service";
+import { providerApprovalService } from "../../../../services/profiles/provider-approval.service";
 import { ProviderProfileService } from "../../../../services/profiles/provider.profile.service";
-import { PopulationLevel } from "../../../../types/profiles/providerProfile.types";
+import { AuditEntityType } from "../../../../types/audit-log.types";
+import {
+  ApproveProviderRequestBody,
+  PopulationLevel,
+  ProviderApprovalStatus,
+  RejectProviderRequestBody,
+  SuspendProviderRequestBody,
+  UnsuspendProviderRequestBody,
+} from "../../../../types/profiles/providerProfile.types";
 import { AuthenticatedRequest } from "../../../../types/user.types";
 import {
   validateObjectId,
   handleError,
+  getAuditContext,
 } from "../../../../utils/controller-utils/controller.utils";
 
 /**
@@ -23,10 +33,30 @@ export class ProviderAdminHandlers {
     this.providerService = new ProviderProfileService();
   }
 
+  private handleApprovalError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message === "Provider profile not found") {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Cannot") || message.startsWith("Only rejected")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Invalid suspension duration")) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
   /**
    * POST /api/admin/providers/:providerId/approve
-   * Approve a provider profile (admin only)
-   * Note: Implement approval fields in your provider model as needed
+   * Approve a pending provider profile (admin only)
    */
   async approveProvider(
     req: AuthenticatedRequest,
@@ -35,7 +65,7 @@ export class ProviderAdminHandlers {
     try {
       const { providerId } = req.params;
       const adminId = req.user?._id;
-      const { notes } = req.body;
+      const { notes }: ApproveProviderRequestBody = req.body || {};
 
       if (!adminId) {
         res.status(401).json({
@@ -53,44 +83,29 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      const provider = await ProviderModel.findOne({
-        _id: new Types.ObjectId(providerId),
-        isDeleted: false,
-      });
-
-      if (!provider) {
-        res.status(404).json({
-          success: false,
-          message: "Provider profile not found",
-        });
-        return;
-      }
-
-      // TODO: Add approval logic based on your requirements
-      // You may want to add approval fields to your provider model:
-      // - approvalStatus: 'pending' | 'approved' | 'rejected'
-      // - approvedBy: ObjectId reference to admin
-      // - approvedAt: Date
-      // - approvalNotes: string
+      const provider = await providerApprovalService.approve(
+        providerId,
+        adminId.toString(),
+        notes,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
         message: "Provider profile approved successfully",
         data: {
           providerId,
-          approvedBy: adminId,
-          approvedAt: new Date(),
-          notes: notes || null,
+          ...providerApprovalService.getApprovalState(provider),
         },
       });
     } catch (error) {
-      handleError(res, error, "Failed to approve provider");
+      this.handleApprovalError(res, error, "Failed to approve provider");
     }
   }
 
   /**
    * POST /api/admin/providers/:providerId/reject
-   * Reject a provider profile with reason (admin only)
+   * Reject a pending provider profile with reason (admin only)
    */
   async rejectProvider(
     req: AuthenticatedRequest,
@@ -99,7 +114,7 @@ export class ProviderAdminHandlers {
     try {
       const { providerId } = req.params;
       const adminId = req.user?._id;
-      const { reason } = req.body;
+      const { reason, notes }: RejectProviderRequestBody = req.body || {};
 
       if (!adminId) {
         res.status(401).json({
@@ -125,40 +140,31 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      const provider = await ProviderModel.findOne({
-        _id: new Types.ObjectId(providerId),
-        isDeleted: false,
-      });
-
-      if (!provider) {
-        res.status(404).json({
-          success: false,
-          message: "Provider profile not found",
-        });
-        return;
-      }
-
-      // TODO: Implement rejection logic
-      // Consider adding notification to provider about rejection
+      const provider = await providerApprovalService.reject(
+        providerId,
+        adminId.toString(),
+        reason,
+        notes,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
         message: "Provider profile rejected",
         data: {
           providerId,
-          rejectedBy: adminId,
-          rejectedAt: new Date(),
-          reason,
+          ...providerApprovalService.getApprovalState(provider),
         },
       });
     } catch (error) {
-      handleError(res, error, "Failed to reject provider");
+      this.handleApprovalError(res, error, "Failed to reject provider");
     }
   }
 
   /**
    * POST /api/admin/providers/:providerId/suspend
-   * Suspend a provider profile (admin only)
+   * Suspend an approved provider for `duration` days, or indefinitely
+   * (admin only)
    */
   async suspendProvider(
     req: AuthenticatedRequest,
@@ -167,7 +173,7 @@ export class ProviderAdminHandlers {
     try {
       const { providerId } = req.params;
       const adminId = req.user?._id;
-      const { reason, duration } = req.body;
+      const { reason, duration }: SuspendProviderRequestBody = req.body || {};
 
       if (!adminId) {
         res.status(401).json({
@@ -193,47 +199,30 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      const provider = await ProviderModel.findOne({
-        _id: new Types.ObjectId(providerId),
-        isDeleted: false,
-      });
-
-      if (!provider) {
-        res.status(404).json({
-          success: false,
-          message: "Provider profile not found",
-        });
-        return;
-      }
-
-      // TODO: Implement suspension logic
-      // Consider adding suspension fields to provider model:
-      // - suspensionStatus: boolean
-      // - suspendedBy: ObjectId
-      // - suspendedAt: Date
-      // - suspensionReason: string
-      // - suspensionDuration: string
-      // - suspensionEndsAt: Date
+      const provider = await providerApprovalService.suspend(
+        providerId,
+        adminId.toString(),
+        reason,
+        duration,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
         message: "Provider profile suspended",
         data: {
           providerId,
-          suspendedBy: adminId,
-          suspendedAt: new Date(),
-          reason,
-          duration: duration || "indefinite",
+          ...providerApprovalService.getApprovalState(provider),
         },
       });
     } catch (error) {
-      handleError(res, error, "Failed to suspend provider");
+      this.handleApprovalError(res, error, "Failed to suspend provider");
     }
   }
 
   /**
    * POST /api/admin/providers/:providerId/unsuspend
-   * Unsuspend a provider profile (admin only)
+   * Lift a provider's active suspension (admin only)
    */
   async unsuspendProvider(
     req: AuthenticatedRequest,
@@ -242,6 +231,7 @@ export class ProviderAdminHandlers {
     try {
       const { providerId } = req.params;
       const adminId = req.user?._id;
+      const { notes }: UnsuspendProviderRequestBody = req.body || {};
 
       if (!adminId) {
         res.status(401).json({
@@ -259,29 +249,23 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      const provider = await ProviderModel.findById(providerId);
-
-      if (!provider) {
-        res.status(404).json({
-          success: false,
-          message: "Provider profile not found",
-        });
-        return;
-      }
-
-      // TODO: Implement unsuspension logic
+      const provider = await providerApprovalService.unsuspend(
+        providerId,
+        adminId.toString(),
+        notes,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
         message: "Provider profile unsuspended successfully",
         data: {
           providerId,
-          unsuspendedBy: adminId,
-          unsuspendedAt: new Date(),
+          ...providerApprovalService.getApprovalState(provider),
         },
       });
     } catch (error) {
-      handleError(res, error, "Failed to unsuspend provider");
+      this.handleApprovalError(res, error, "Failed to unsuspend provider");
     }
   }
 
@@ -345,7 +329,8 @@ export class ProviderAdminHandlers {
             try {
               await this.providerService.deleteProviderProfile(
                 providerId,
-                adminId.toString()
+                adminId.toString(),
+                getAuditContext(req)
               );
               results.success++;
             } catch (error: any) {
@@ -361,7 +346,10 @@ export class ProviderAdminHandlers {
         case "restore":
           for (const providerId of providerIds) {
             try {
-              await this.providerService.restoreProviderProfile(providerId);
+              await this.providerService.restoreProviderProfile(
+                providerId,
+                getAuditContext(req)
+              );
               results.success++;
             } catch (error: any) {
               results.failed++;
@@ -387,7 +375,8 @@ export class ProviderAdminHandlers {
               await this.providerService.updateProviderProfile(
                 providerId,
                 data,
-                adminId.toString()
+                adminId.toString(),
+                getAuditContext(req)
               );
               results.success++;
             } catch (error: any) {
@@ -574,6 +563,7 @@ export class ProviderAdminHandlers {
         sortBy = "createdAt",
         sortOrder = "desc",
         populationLevel = "minimal",
+        approvalStatus,
       } = req.query;
 
       if (!adminId) {
@@ -589,6 +579,22 @@ export class ProviderAdminHandlers {
         query.isDeleted = false;
       }
 
+      // Review queue: ?approvalStatus=pending
+      if (approvalStatus) {
+        if (
+          !Object.values(ProviderApprovalStatus).includes(
+            approvalStatus as ProviderApprovalStatus
+          )
+        ) {
+          res.status(400).json({
+            success: false,
+            message: `Invalid approval status. Use one of: ${Object.values(ProviderApprovalStatus).join(", ")}`,
+          });
+          return;
+        }
+        query["approval.status"] = approvalStatus;
+      }
+
       const sort: any = {};
       sort[sortBy as string] = sortOrder === "desc" ? -1 : 1;
 
@@ -642,9 +648,8 @@ export class ProviderAdminHandlers {
   }
 
   /**
-   * GET /api/admin/providers/:providerId/audit-log
-   * Get audit log for a provider (admin only)
-   * TODO: Implement actual audit logging system
+   * GET /api/admin/providers/:providerId/audit-log?page=1&limit=50
+   * Recorded changes to a provider profile, newest first (admin only)
    */
   async getProviderAuditLog(
     req: AuthenticatedRequest,
@@ -670,7 +675,7 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      // Verify provider exists
+      // Deleted profiles keep their history
       const provider = await ProviderModel.findById(providerId);
       if (!provider) {
         res.status(404).json({
@@ -680,15 +685,14 @@ export class ProviderAdminHandlers {
         return;
       }
 
-      // TODO: Implement actual audit log retrieval
-      // This would integrate with your audit logging system
-      // Consider tracking:
-      // - Profile creation
-      // - Profile updates (what changed)
-      // - Image additions/removals
-      // - Service additions/removals
-      // - Admin actions (approvals, suspensions, etc.)
-      // - Location updates
+      const page = Math.max(Number(req.query.page) || 1, 1);
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+
+      const { entries, pagination } = await auditLogService.listForEntity(
+        AuditEntityType.PROVIDER_PROFILE,
+        providerId,
+        { page, limit }
+      );
 
       res.status(200).json({
         success: true,
@@ -696,14 +700,8 @@ export class ProviderAdminHandlers {
         data: {
           providerId,
           businessName: provider.businessName,
-          auditLog: [
-            // Placeholder - implement actual audit log entries
-            {
-              action: "profile_created",
-              timestamp: provider.createdAt,
-              performedBy: "system",
-            },
-          ],
+          auditLog: entries,
+          pagination,
         },
       });
     } catch (error) {
@@ -737,6 +735,7 @@ export class ProviderAdminHandlers {
         deletedProviders,
         companyTrained,
         withLocation,
+        pendingApproval,
       ] = await Promise.all([
         ProviderModel.countDocuments({}),
         ProviderModel.countDocuments({ isDeleted: false }),
@@ -749,6 +748,10 @@ export class ProviderAdminHandlers {
           "locationData.gpsCoordinates": { $exists: true },
           isDeleted: false,
         }),
+        ProviderModel.countDocuments({
+          "approval.status": ProviderApprovalStatus.PENDING,
+          isDeleted: false,
+        }),
       ]);
 
       res.status(200).json({
@@ -760,6 +763,7 @@ export class ProviderAdminHandlers {
           deletedProviders,
           companyTrained,
           withLocation,
+          pendingApproval,
           timestamp: new Date(),
         },
       });
@@ -0,0 +1,240 @@
+// handlers/profiles/provider/availability.handlers.ts
+import { Response } from "express";
+import { ProviderProfileService } from "../../../../services/profiles/provider.profile.service";
+import { ProviderAvailabilityService } from "../../../../services/profiles/provider-availability.service";
+import { AddBlackoutDateRequestBody } from "../../../../types/availability.types";
+import { PopulationLevel } from "../../../../types/profiles/providerProfile.types";
+import { AuthenticatedRequest } from "../../../../types/user.types";
+import {
+  handleError,
+  validateObjectId,
+} from "../../../../utils/controller-utils/controller.utils";
+
+const DEFAULT_RANGE_DAYS = 7;
+
+/**
+ * Provider Availability Handlers
+ * Calendar availability and provider-declared blackout dates
+ */
+export class ProviderAvailabilityHandlers {
+  private providerService: ProviderProfileService;
+  private availabilityService: ProviderAvailabilityService;
+
+  constructor() {
+    this.providerService = new ProviderProfileService();
+    this.availabilityService = new ProviderAvailabilityService();
+  }
+
+  /**
+   * GET /api/providers/:providerId/availability?from&to&slotMinutes
+   * Get free slots for a provider, so customers can pick a real time
+   * before requesting them
+   */
+  async getProviderAvailability(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { providerId } = req.params;
+      const { from, to, slotMinutes = "60" } = req.query;
+
+      if (!validateObjectId(providerId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid provider ID",
+        });
+        return;
+      }
+
+      const fromDate = from ? new Date(from as string) : new Date();
+      const toDate = to
+        ? new Date(to as string)
+        : new Date(fromDate.getTime() + (DEFAULT_RANGE_DAYS - 1) * 86400000);
+
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid 'from' or 'to' date. Use YYYY-MM-DD",
+        });
+        return;
+      }
+
+      const slotLength = Number(slotMinutes);
+      if (!Number.isInteger(slotLength) || slotLength < 15 || slotLength > 480) {
+        res.status(400).json({
+          success: false,
+          message: "slotMinutes must be an integer between 15 and 480",
+        });
+        return;
+      }
+
+      const availability = await this.availabilityService.getAvailability(
+        providerId,
+        fromDate,
+        toDate,
+        slotLength
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Provider availability retrieved successfully",
+        data: availability,
+      });
+    } catch (error: any) {
+      if (error.message === "Provider not found") {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      if (
+        error.message.includes("Date range") ||
+        error.message.includes("must be on or after")
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      handleError(res, error, "Failed to retrieve provider availability");
+    }
+  }
+
+  /**
+   * POST /api/providers/me/blackout-dates
+   * Declare a period the current provider is unavailable
+   */
+  async addMyBlackoutDate(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const body: AddBlackoutDateRequestBody = req.body;
+
+      if (!body.startDate || !body.endDate) {
+        res.status(400).json({
+          success: false,
+          message: "startDate and endDate are required",
+        });
+        return;
+      }
+
+      const provider = await this.providerService.getProviderByUserId(
+        userId.toString(),
+        PopulationLevel.NONE
+      );
+
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          message: "Provider profile not found",
+        });
+        return;
+      }
+
+      const blackoutDates = await this.availabilityService.addBlackoutDate(
+        provider._id,
+        body
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Blackout date added successfully",
+        data: { blackoutDates },
+      });
+    } catch (error: any) {
+      if (
+        error.message.includes("Invalid blackout") ||
+        error.message.includes("must be before")
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      handleError(res, error, "Failed to add blackout date");
+    }
+  }
+
+  /**
+   * DELETE /api/providers/me/blackout-dates/:blackoutId
+   * Remove one of the current provider's blackout dates
+   */
+  async removeMyBlackoutDate(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+      const { blackoutId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(blackoutId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid blackout ID",
+        });
+        return;
+      }
+
+      const provider = await this.providerService.getProviderByUserId(
+        userId.toString(),
+        PopulationLevel.NONE
+      );
+
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          message: "Provider profile not found",
+        });
+        return;
+      }
+
+      const blackoutDates = await this.availabilityService.removeBlackoutDate(
+        provider._id,
+        blackoutId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Blackout date removed successfully",
+        data: { blackoutDates },
+      });
+    } catch (error: any) {
+      if (error.message === "Blackout date not found") {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      handleError(res, error, "Failed to remove blackout date");
+    }
+  }
+}
+
+export default new ProviderAvailabilityHandlers();
@@ -0,0 +1,165 @@
+// handlers/profiles/provider/phone-verification.handlers.ts
+import { Response } from "express";
+import { phoneVerificationService } from "../../../../services/profiles/phone-verification.service";
+import {
+  ConfirmPhoneCodeRequestBody,
+  PhoneOwnerType,
+  RequestPhoneCodeRequestBody,
+} from "../../../../types/phone-verification.types";
+import { AuthenticatedRequest } from "../../../../types/user.types";
+import { handleError } from "../../../../utils/controller-utils/controller.utils";
+
+/**
+ * Provider Phone Verification Handlers
+ * One-time codes proving the current provider owns their contact numbers
+ */
+export class ProviderPhoneVerificationHandlers {
+  private getUserId(req: AuthenticatedRequest, res: Response): string | null {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+      return null;
+    }
+
+    return userId.toString();
+  }
+
+  private handlePhoneVerificationError(
+    res: Response,
+    error: any,
+    fallback: string
+  ) {
+    const message: string = error.message || "";
+
+    if (message === "Provider profile not found") {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Too many") || message.startsWith("Please wait")) {
+      res.status(429).json({ success: false, message });
+      return;
+    }
+
+    if (message === "Phone number is already verified") {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.startsWith("Invalid") ||
+      message.startsWith("No ") ||
+      message.startsWith("Verification code has expired")
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * GET /api/providers/me/verify-phone
+   * Verification state of the current provider's contact numbers
+   */
+  async getMyPhoneVerification(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.getUserId(req, res);
+      if (!userId) return;
+
+      const phones = await phoneVerificationService.getStatus(
+        userId,
+        PhoneOwnerType.PROVIDER
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Phone verification status retrieved successfully",
+        data: { phones },
+      });
+    } catch (error: any) {
+      this.handlePhoneVerificationError(
+        res,
+        error,
+        "Failed to retrieve phone verification status"
+      );
+    }
+  }
+
+  /**
+   * POST /api/providers/me/verify-phone/request
+   * Text a one-time code to primaryContact or secondaryContact
+   */
+  async requestMyPhoneCode(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = this.getUserId(req, res);
+      if (!userId) return;
+
+      const { field }: RequestPhoneCodeRequestBody = req.body || {};
+
+      const result = await phoneVerificationService.requestCode(
+        userId,
+        PhoneOwnerType.PROVIDER,
+        field
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Verification code sent",
+        data: result,
+      });
+    } catch (error: any) {
+      this.handlePhoneVerificationError(
+        res,
+        error,
+        "Failed to send verification code"
+      );
+    }
+  }
+
+  /**
+   * POST /api/providers/me/verify-phone
+   * Confirm a contact number with the code texted to it
+   */
+  async verifyMyPhone(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req, res);
+      if (!userId) return;
+
+      const { field, code }: ConfirmPhoneCodeRequestBody = req.body || {};
+
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          message: "Verification code is required",
+        });
+        return;
+      }
+
+      const phone = await phoneVerificationService.confirmCode(
+        userId,
+        PhoneOwnerType.PROVIDER,
+        code,
+        field
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Phone verified successfully",
+        data: { phone },
+      });
+    } catch (error: any) {
+      this.handlePhoneVerificationError(res, error, "Failed to verify phone");
+    }
+  }
+}
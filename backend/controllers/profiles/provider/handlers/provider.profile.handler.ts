@@ -1,16 +1,22 @@
 // handlers/profiles/provider/provider-profile.handlers.ts
 import { Response } from "express";
+import { providerApprovalService } from "../../../../services/profiles/provider-approval.service";
 import { ProviderProfileService } from "../../../../services/profiles/provider.profile.service";
 import {
   CreateProviderProfileRequestBody,
   PopulationLevel,
+  ResubmitProviderRequestBody,
   UpdateProviderProfileRequestBody,
 } from "../../../../types/profiles/providerProfile.types";
+import { UpdateNotificationPreferencesRequestBody } from "../../../../types/notification.types";
+import { ContactDetails } from "../../../../types/base.types";
 import { AuthenticatedRequest } from "../../../../types/user.types";
 import {
+  getAuditContext,
   handleError,
   validateObjectId,
 } from "../../../../utils/controller-utils/controller.utils";
+import { normalizeGhanaPhone } from "../../../../utils/phone.utils";
 
 /**
  * Provider Profile Handlers
@@ -24,6 +30,35 @@ export class ProviderProfileHandlers {
     this.providerService = new ProviderProfileService();
   }
 
+  /**
+   * Normalize contact phone numbers to +233XXXXXXXXX in place,
+   * answering 400 if one isn't a Ghana mobile number
+   */
+  private normalizeContactNumbers(
+    contactInfo: Partial<ContactDetails> | undefined,
+    res: Response
+  ): boolean {
+    if (!contactInfo) return true;
+
+    for (const field of ["primaryContact", "secondaryContact"] as const) {
+      const value = contactInfo[field];
+      if (!value) continue;
+
+      const normalized = normalizeGhanaPhone(value);
+      if (!normalized) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid Ghana phone number for ${field}. Use +233XXXXXXXXX or 0XXXXXXXXX`,
+        });
+        return false;
+      }
+
+      contactInfo[field] = normalized;
+    }
+
+    return true;
+  }
+
   /**
    * POST /api/providers
    * Create a new provider profile
@@ -55,6 +90,10 @@ export class ProviderProfileHandlers {
         return;
       }
 
+      if (!this.normalizeContactNumbers(profileData.providerContactInfo, res)) {
+        return;
+      }
+
       if (!profileData.locationData || !profileData.locationData.ghanaPostGPS) {
         res.status(400).json({
           success: false,
@@ -115,7 +154,10 @@ export class ProviderProfileHandlers {
         return;
       }
 
-      if (error.message.includes("Some services are invalid")) {
+      if (
+        error.message.includes("Some services are invalid") ||
+        error.message.startsWith("Invalid")
+      ) {
         res.status(400).json({
           success: false,
           message: error.message,
@@ -283,6 +325,10 @@ export class ProviderProfileHandlers {
 
       const updateData: UpdateProviderProfileRequestBody = req.body;
 
+      if (!this.normalizeContactNumbers(updateData.providerContactInfo, res)) {
+        return;
+      }
+
       // Validate service offerings if provided
       if (
         updateData.serviceOfferings &&
@@ -317,7 +363,8 @@ export class ProviderProfileHandlers {
       const updatedProvider = await this.providerService.updateProviderProfile(
         providerProfile._id.toString(),
         updateData,
-        userId.toString()
+        userId.toString(),
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -377,6 +424,10 @@ export class ProviderProfileHandlers {
 
       const updateData: UpdateProviderProfileRequestBody = req.body;
 
+      if (!this.normalizeContactNumbers(updateData.providerContactInfo, res)) {
+        return;
+      }
+
       // Validate service offerings if provided
       if (
         updateData.serviceOfferings &&
@@ -396,7 +447,8 @@ export class ProviderProfileHandlers {
       const updatedProvider = await this.providerService.updateProviderProfile(
         providerId,
         updateData,
-        userId.toString()
+        userId.toString(),
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -413,7 +465,11 @@ export class ProviderProfileHandlers {
         return;
       }
 
-      if (error.message.includes("Some services are invalid")) {
+      // ValidationError covers malformed fields such as HH:MM working hours
+      if (
+        error.message.includes("Some services are invalid") ||
+        error.name === "ValidationError"
+      ) {
         res.status(400).json({
           success: false,
           message: error.message,
@@ -455,7 +511,8 @@ export class ProviderProfileHandlers {
 
       await this.providerService.deleteProviderProfile(
         providerId,
-        userId.toString()
+        userId.toString(),
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -503,7 +560,10 @@ export class ProviderProfileHandlers {
         return;
       }
 
-      await this.providerService.restoreProviderProfile(providerId);
+      await this.providerService.restoreProviderProfile(
+        providerId,
+        getAuditContext(req)
+      );
 
       res.status(200).json({
         success: true,
@@ -569,7 +629,8 @@ export class ProviderProfileHandlers {
           idType,
           idNumber,
           replaceImages: replaceImages || false,
-        }
+        },
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -594,6 +655,14 @@ export class ProviderProfileHandlers {
         return;
       }
 
+      if (error.message?.startsWith("Invalid")) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
       handleError(res, error, "Failed to update ID details");
     }
   }
@@ -648,7 +717,8 @@ export class ProviderProfileHandlers {
           idType,
           idNumber,
           replaceImages: replaceImages || false,
-        }
+        },
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -673,9 +743,194 @@ export class ProviderProfileHandlers {
         return;
       }
 
+      if (error.message?.startsWith("Invalid")) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
       handleError(res, error, "Failed to update ID details");
     }
   }
+
+  /**
+   * PATCH /api/providers/me/notification-preferences
+   * Choose which channels (email / SMS / push) the current provider
+   * receives notifications on
+   */
+  async updateMyNotificationPreferences(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const body: UpdateNotificationPreferencesRequestBody = req.body || {};
+      const preferences: UpdateNotificationPreferencesRequestBody = {};
+
+      for (const key of [
+        "emailNotifications",
+        "smsNotifications",
+        "pushNotifications",
+      ] as const) {
+        if (body[key] === undefined) continue;
+
+        if (typeof body[key] !== "boolean") {
+          res.status(400).json({
+            success: false,
+            message: `${key} must be a boolean`,
+          });
+          return;
+        }
+
+        preferences[key] = body[key];
+      }
+
+      const providerProfile = await this.providerService.getProviderByUserId(
+        userId.toString(),
+        PopulationLevel.NONE
+      );
+
+      if (!providerProfile) {
+        res.status(404).json({
+          success: false,
+          message: "Provider profile not found",
+        });
+        return;
+      }
+
+      const provider = await this.providerService.updateNotificationPreferences(
+        providerProfile._id.toString(),
+        preferences
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Notification preferences updated successfully",
+        data: { notificationPreferences: provider.notificationPreferences },
+      });
+    } catch (error: any) {
+      if (error.message === "Provider profile not found") {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      handleError(res, error, "Failed to update notification preferences");
+    }
+  }
+
+  /**
+   * GET /api/providers/me/approval
+   * Where the current provider's profile stands in admin review
+   */
+  async getMyApprovalStatus(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const provider = await this.providerService.getProviderByUserId(
+        userId.toString(),
+        PopulationLevel.NONE
+      );
+
+      if (!provider) {
+        res.status(404).json({
+          success: false,
+          message: "Provider profile not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Approval status retrieved successfully",
+        data: providerApprovalService.getApprovalState(provider),
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to retrieve approval status");
+    }
+  }
+
+  /**
+   * POST /api/providers/me/resubmit
+   * Send a rejected profile back for review after updating it
+   */
+  async resubmitMyProfile(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user?._id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const { notes }: ResubmitProviderRequestBody = req.body || {};
+
+      const providerProfile = await this.providerService.getProviderByUserId(
+        userId.toString(),
+        PopulationLevel.NONE
+      );
+
+      if (!providerProfile) {
+        res.status(404).json({
+          success: false,
+          message: "Provider profile not found",
+        });
+        return;
+      }
+
+      const provider = await providerApprovalService.resubmit(
+        providerProfile._id.toString(),
+        notes,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Provider profile resubmitted for review",
+        data: providerApprovalService.getApprovalState(provider),
+      });
+    } catch (error: any) {
+      if (error.message === "Only rejected profiles can be resubmitted") {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      handleError(res, error, "Failed to resubmit provider profile");
+    }
+  }
 }
 
 export default new ProviderProfileHandlers();
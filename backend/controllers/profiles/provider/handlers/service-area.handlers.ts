@@ -0,0 +1,226 @@
+// handlers/profiles/provider/service-area.handlers.ts
+import { Response } from "express";
+import { ProviderProfileService } from "../../../../services/profiles/provider.profile.service";
+import { ProviderServiceAreaService } from "../../../../services/profiles/provider-service-area.service";
+import { PopulationLevel } from "../../../../types/profiles/providerProfile.types";
+import { ServiceAreaRequestBody } from "../../../../types/service-area.types";
+import { AuthenticatedRequest } from "../../../../types/user.types";
+import {
+  handleError,
+  validateObjectId,
+} from "../../../../utils/controller-utils/controller.utils";
+
+/**
+ * Provider Service Area Handlers
+ * Zones the current provider travels to, with per-zone travel fees
+ */
+export class ProviderServiceAreaHandlers {
+  private providerService: ProviderProfileService;
+  private serviceAreaService: ProviderServiceAreaService;
+
+  constructor() {
+    this.providerService = new ProviderProfileService();
+    this.serviceAreaService = new ProviderServiceAreaService();
+  }
+
+  /**
+   * Resolve the current user's provider profile, answering 401/404 when
+   * there isn't one
+   */
+  private async getMyProvider(req: AuthenticatedRequest, res: Response) {
+    const userId = req.user?._id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated",
+      });
+      return null;
+    }
+
+    const provider = await this.providerService.getProviderByUserId(
+      userId.toString(),
+      PopulationLevel.NONE
+    );
+
+    if (!provider) {
+      res.status(404).json({
+        success: false,
+        message: "Provider profile not found",
+      });
+      return null;
+    }
+
+    return provider;
+  }
+
+  private handleServiceAreaError(res: Response, error: any, fallback: string) {
+    if (error.message === "Service area not found") {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes("Invalid service area")) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * GET /api/providers/me/service-areas
+   * List the current provider's service areas
+   */
+  async getMyServiceAreas(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const provider = await this.getMyProvider(req, res);
+      if (!provider) return;
+
+      const serviceAreas = await this.serviceAreaService.getServiceAreas(
+        provider._id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Service areas retrieved successfully",
+        data: { serviceAreas },
+      });
+    } catch (error: any) {
+      handleError(res, error, "Failed to retrieve service areas");
+    }
+  }
+
+  /**
+   * POST /api/providers/me/service-areas
+   * Declare a radius, named regions/cities/districts or a polygon the
+   * current provider serves
+   */
+  async addMyServiceArea(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const body: ServiceAreaRequestBody = req.body;
+
+      if (!body?.name || !body?.type) {
+        res.status(400).json({
+          success: false,
+          message: "name and type are required",
+        });
+        return;
+      }
+
+      const provider = await this.getMyProvider(req, res);
+      if (!provider) return;
+
+      const serviceAreas = await this.serviceAreaService.addServiceArea(
+        provider._id,
+        body
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Service area added successfully",
+        data: { serviceAreas },
+      });
+    } catch (error: any) {
+      this.handleServiceAreaError(res, error, "Failed to add service area");
+    }
+  }
+
+  /**
+   * PATCH /api/providers/me/service-areas/:areaId
+   * Replace one of the current provider's service areas
+   */
+  async updateMyServiceArea(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { areaId } = req.params;
+      const body: ServiceAreaRequestBody = req.body;
+
+      if (!validateObjectId(areaId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid service area ID",
+        });
+        return;
+      }
+
+      if (!body?.name || !body?.type) {
+        res.status(400).json({
+          success: false,
+          message: "name and type are required",
+        });
+        return;
+      }
+
+      const provider = await this.getMyProvider(req, res);
+      if (!provider) return;
+
+      const serviceAreas = await this.serviceAreaService.updateServiceArea(
+        provider._id,
+        areaId,
+        body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Service area updated successfully",
+        data: { serviceAreas },
+      });
+    } catch (error: any) {
+      this.handleServiceAreaError(res, error, "Failed to update service area");
+    }
+  }
+
+  /**
+   * DELETE /api/providers/me/service-areas/:areaId
+   * Remove one of the current provider's service areas
+   */
+  async removeMyServiceArea(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { areaId } = req.params;
+
+      if (!validateObjectId(areaId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid service area ID",
+        });
+        return;
+      }
+
+      const provider = await this.getMyProvider(req, res);
+      if (!provider) return;
+
+      const serviceAreas = await this.serviceAreaService.removeServiceArea(
+        provider._id,
+        areaId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Service area removed successfully",
+        data: { serviceAreas },
+      });
+    } catch (error: any) {
+      this.handleServiceAreaError(res, error, "Failed to remove service area");
+    }
+  }
+}
+
+export default new ProviderServiceAreaHandlers();
@@ -1,10 +1,13 @@
 // controllers/profiles/provider/providerProfile.controller.ts
 
 import { ProviderAdminHandlers } from "./handlers/admin.handler";
+import { ProviderAvailabilityHandlers } from "./handlers/availability.handlers";
 import { BaseProviderHandlers } from "./handlers/base.handler";
 import { LocationHandlers } from "./handlers/location.handlers";
+import { ProviderPhoneVerificationHandlers } from "./handlers/phone-verification.handlers";
 import { ProviderProfileHandlers } from "./handlers/provider.profile.handler";
 import { ProviderSearchHandlers } from "./handlers/search.handlers";
+import { ProviderServiceAreaHandlers } from "./handlers/service-area.handlers";
 
 /**
  * Provider Profile Controller
@@ -19,6 +22,9 @@ export class ProviderProfileController {
   private adminHandler: ProviderAdminHandlers;
   private baseHandler: BaseProviderHandlers;
   private locationHandler: LocationHandlers;
+  private availabilityHandler: ProviderAvailabilityHandlers;
+  private serviceAreaHandler: ProviderServiceAreaHandlers;
+  private phoneVerificationHandler: ProviderPhoneVerificationHandlers;
 
   // Profile CRUD Operations
   public createProviderProfile;
@@ -31,6 +37,9 @@ export class ProviderProfileController {
   public updateIdDetails;
   public updateMyIdDetails;
   public updateMyProviderProfile;
+  public updateMyNotificationPreferences;
+  public getMyApprovalStatus;
+  public resubmitMyProfile;
 
   // Search & Discovery Operations
   public findNearestProviders;
@@ -67,12 +76,31 @@ export class ProviderProfileController {
   public searchNearby;
   public calculateDistance;
 
+  // Availability Operations
+  public getProviderAvailability;
+  public addMyBlackoutDate;
+  public removeMyBlackoutDate;
+
+  // Service Area Operations
+  public getMyServiceAreas;
+  public addMyServiceArea;
+  public updateMyServiceArea;
+  public removeMyServiceArea;
+
+  // Phone Verification Operations
+  public getMyPhoneVerification;
+  public requestMyPhoneCode;
+  public verifyMyPhone;
+
   constructor() {
     this.profileHandler = new ProviderProfileHandlers();
     this.searchHandler = new ProviderSearchHandlers();
     this.adminHandler = new ProviderAdminHandlers();
     this.baseHandler = new BaseProviderHandlers();
     this.locationHandler = new LocationHandlers();
+    this.availabilityHandler = new ProviderAvailabilityHandlers();
+    this.serviceAreaHandler = new ProviderServiceAreaHandlers();
+    this.phoneVerificationHandler = new ProviderPhoneVerificationHandlers();
 
     // Bind Profile CRUD handlers
     this.createProviderProfile = this.profileHandler.createProviderProfile.bind(
@@ -104,6 +132,16 @@ export class ProviderProfileController {
     this.updateMyIdDetails = this.profileHandler.updateMyIdDetails.bind(
       this.profileHandler
     );
+    this.updateMyNotificationPreferences =
+      this.profileHandler.updateMyNotificationPreferences.bind(
+        this.profileHandler
+      );
+    this.getMyApprovalStatus = this.profileHandler.getMyApprovalStatus.bind(
+      this.profileHandler
+    );
+    this.resubmitMyProfile = this.profileHandler.resubmitMyProfile.bind(
+      this.profileHandler
+    );
 
     // Bind Search & Discovery handlers
     this.findNearestProviders = this.searchHandler.findNearestProviders.bind(
@@ -185,6 +223,44 @@ export class ProviderProfileController {
     this.calculateDistance = this.locationHandler.calculateDistance.bind(
       this.locationHandler
     );
+
+    // Bind Availability handlers
+    this.getProviderAvailability =
+      this.availabilityHandler.getProviderAvailability.bind(
+        this.availabilityHandler
+      );
+    this.addMyBlackoutDate = this.availabilityHandler.addMyBlackoutDate.bind(
+      this.availabilityHandler
+    );
+    this.removeMyBlackoutDate =
+      this.availabilityHandler.removeMyBlackoutDate.bind(
+        this.availabilityHandler
+      );
+
+    // Bind Service Area handlers
+    this.getMyServiceAreas = this.serviceAreaHandler.getMyServiceAreas.bind(
+      this.serviceAreaHandler
+    );
+    this.addMyServiceArea = this.serviceAreaHandler.addMyServiceArea.bind(
+      this.serviceAreaHandler
+    );
+    this.updateMyServiceArea =
+      this.serviceAreaHandler.updateMyServiceArea.bind(this.serviceAreaHandler);
+    this.removeMyServiceArea =
+      this.serviceAreaHandler.removeMyServiceArea.bind(this.serviceAreaHandler);
+
+    // Bind Phone Verification handlers
+    this.getMyPhoneVerification =
+      this.phoneVerificationHandler.getMyPhoneVerification.bind(
+        this.phoneVerificationHandler
+      );
+    this.requestMyPhoneCode =
+      this.phoneVerificationHandler.requestMyPhoneCode.bind(
+        this.phoneVerificationHandler
+      );
+    this.verifyMyPhone = this.phoneVerificationHandler.verifyMyPhone.bind(
+      this.phoneVerificationHandler
+    );
   }
 }
 
@@ -204,6 +280,9 @@ export const {
   updateIdDetails,
   updateMyIdDetails,
   updateMyProviderProfile,
+  updateMyNotificationPreferences,
+  getMyApprovalStatus,
+  resubmitMyProfile,
 
   // Search & Discovery Operations
   findNearestProviders,
@@ -239,6 +318,22 @@ export const {
   reverseGeocode,
   searchNearby,
   calculateDistance,
+
+  // Availability Operations
+  getProviderAvailability,
+  addMyBlackoutDate,
+  removeMyBlackoutDate,
+
+  // Service Area Operations
+  getMyServiceAreas,
+  addMyServiceArea,
+  updateMyServiceArea,
+  removeMyServiceArea,
+
+  // Phone Verification Operations
+  getMyPhoneVerification,
+  requestMyPhoneCode,
+  verifyMyPhone,
 } = providerProfileController;
 
 export default ProviderProfileController;
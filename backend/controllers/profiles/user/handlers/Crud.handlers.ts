@@ -6,6 +6,7 @@ import {
   handleError,
   validateObjectId,
   AuthenticatedRequest,
+  getAuditContext,
 } from "../../../../utils/controller-utils/controller.utils";
 
 /**
@@ -68,7 +69,11 @@ export class ProfileCRUDHandler extends BaseProfileHandler {
         return;
       }
 
-      const profile = await this.profileService.updateProfile(userId, updates);
+      const profile = await this.profileService.updateProfile(
+        userId,
+        updates,
+        getAuditContext(req)
+      );
 
       if (!profile) {
         this.error(res, "Profile not found", 404);
@@ -111,7 +116,8 @@ export class ProfileCRUDHandler extends BaseProfileHandler {
 
       const profile = await this.profileService.updateProfileById(
         profileId,
-        updates
+        updates,
+        getAuditContext(req)
       );
 
       if (!profile) {
@@ -192,7 +198,10 @@ export class ProfileCRUDHandler extends BaseProfileHandler {
         return;
       }
 
-      await this.profileService.permanentlyDeleteProfile(userId);
+      await this.profileService.permanentlyDeleteProfile(
+        userId,
+        getAuditContext(req)
+      );
       this.success(res, null, "Profile permanently deleted");
     } catch (error) {
       handleError(res, error, "Failed to permanently delete profile");
@@ -5,6 +5,7 @@ import {
   handleError,
   AuthenticatedRequest,
   validateObjectId,
+  getAuditContext,
 } from "../../../../utils/controller-utils/controller.utils";
 
 /**
@@ -98,7 +99,8 @@ export class ProfileAdminHandler extends BaseProfileHandler {
       const sanitizedUpdates = this.sanitizeProfileUpdates(updates);
       const result = await this.profileService.bulkUpdateProfiles(
         userIds,
-        sanitizedUpdates
+        sanitizedUpdates,
+        getAuditContext(req)
       );
 
       this.success(
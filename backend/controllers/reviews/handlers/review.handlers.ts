@@ -0,0 +1,362 @@
+// controllers/reviews/handlers/review.handlers.ts
+import { Request, Response } from "express";
+import {
+  ReviewService,
+  reviewService,
+} from "../../../services/reviews/review.service";
+import { UserRole } from "../../../types/base.types";
+import {
+  CreateReviewRequestBody,
+  ModerateReviewRequestBody,
+  RespondToReviewRequestBody,
+  ReviewDirection,
+  ReviewStatus,
+} from "../../../types/review.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+import { getBookingActor } from "../../tasks/handlers/unified-booking.handler";
+
+const parsePagination = (req: Request, defaultLimit: number) => {
+  const { page = "1", limit = String(defaultLimit) } = req.query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || defaultLimit, 1), 100),
+  };
+};
+
+/**
+ * Review Handlers
+ * Booking reviews, provider responses, moderation and public listings
+ */
+export class ReviewHandlers {
+  private reviewService: ReviewService;
+
+  constructor() {
+    this.reviewService = reviewService;
+  }
+
+  private sendReviewError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (message === "Booking not found" || message === "Review not found") {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Only the")) {
+      res.status(403).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("You have already")) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.startsWith("Only validated") ||
+      message.startsWith("Only reviews") ||
+      error.name === "ValidationError"
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  /**
+   * POST /api/reviews/bookings/:bookingId
+   * Customer reviews the provider, or provider rates the client
+   */
+  async createReview(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const userId = req.userId;
+      const { rating, comment } = req.body as CreateReviewRequestBody;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        res.status(400).json({
+          success: false,
+          message: "Rating must be a whole number between 1 and 5",
+        });
+        return;
+      }
+
+      if (comment !== undefined && typeof comment !== "string") {
+        res.status(400).json({
+          success: false,
+          message: "'comment' must be a string",
+        });
+        return;
+      }
+
+      const actor = await getBookingActor(userId);
+
+      if (!actor) {
+        res.status(403).json({
+          success: false,
+          message: "Only the customer or provider can review this booking",
+        });
+        return;
+      }
+
+      const review = await this.reviewService.createReview(
+        bookingId,
+        actor.role,
+        actor.actorId,
+        rating,
+        comment?.trim() || undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Review submitted successfully",
+        data: { review },
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to submit review");
+    }
+  }
+
+  /**
+   * POST /api/reviews/:reviewId/response
+   * Provider's single public response to a review
+   */
+  async respondToReview(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { reviewId } = req.params;
+      const userId = req.userId;
+      const { message } = req.body as RespondToReviewRequestBody;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(reviewId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid review ID",
+        });
+        return;
+      }
+
+      if (!message || typeof message !== "string" || !message.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Response message is required",
+        });
+        return;
+      }
+
+      const actor = await getBookingActor(userId);
+
+      if (actor?.role !== UserRole.PROVIDER) {
+        res.status(403).json({
+          success: false,
+          message: "Only the reviewed provider can respond to this review",
+        });
+        return;
+      }
+
+      const review = await this.reviewService.respondToReview(
+        reviewId,
+        actor.actorId,
+        message.trim()
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Response posted successfully",
+        data: { review },
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to respond to review");
+    }
+  }
+
+  /**
+   * GET /api/providers/:providerId/reviews?page&limit
+   * Public, published reviews with star distribution
+   */
+  async getProviderReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { providerId } = req.params;
+
+      if (!validateObjectId(providerId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid provider ID",
+        });
+        return;
+      }
+
+      const { page, limit } = parsePagination(req, 10);
+      const result = await this.reviewService.getProviderReviews(
+        providerId,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Provider reviews retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to retrieve provider reviews");
+    }
+  }
+
+  /**
+   * GET /api/services/:id/reviews?page&limit
+   * Public, published reviews with star distribution
+   */
+  async getServiceReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!validateObjectId(id)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid service ID",
+        });
+        return;
+      }
+
+      const { page, limit } = parsePagination(req, 10);
+      const result = await this.reviewService.getServiceReviews(
+        id,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Service reviews retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to retrieve service reviews");
+    }
+  }
+
+  // ── Admin ───────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/reviews/admin?status&direction&maxRating&page&limit
+   */
+  async getReviewsForModeration(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { status, direction, maxRating } = req.query;
+      const { page, limit } = parsePagination(req, 20);
+
+      const result = await this.reviewService.listForModeration({
+        status: status as ReviewStatus | undefined,
+        direction: direction as ReviewDirection | undefined,
+        maxRating: maxRating ? Number(maxRating) : undefined,
+        page,
+        limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Reviews retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to retrieve reviews");
+    }
+  }
+
+  /**
+   * PATCH /api/reviews/admin/:reviewId/moderate
+   * Publish, hide or remove a review; aggregates are recalculated
+   */
+  async moderateReview(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { reviewId } = req.params;
+      const { status, reason } = req.body as ModerateReviewRequestBody;
+
+      if (!validateObjectId(reviewId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid review ID",
+        });
+        return;
+      }
+
+      if (!Object.values(ReviewStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(
+            ReviewStatus
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      if (status !== ReviewStatus.PUBLISHED && !reason) {
+        res.status(400).json({
+          success: false,
+          message: "A reason is required when hiding or removing a review",
+        });
+        return;
+      }
+
+      const review = await this.reviewService.moderateReview(
+        reviewId,
+        req.userId!,
+        status,
+        reason,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Review moderated successfully",
+        data: { review },
+      });
+    } catch (error: any) {
+      this.sendReviewError(res, error, "Failed to moderate review");
+    }
+  }
+}
+
+export default new ReviewHandlers();
@@ -0,0 +1,61 @@
+// controllers/reviews/review.controller.ts
+
+import { ReviewHandlers } from "./handlers/review.handlers";
+
+/**
+ * Review Controller
+ *
+ * Handles HTTP requests for booking reviews, provider responses,
+ * moderation and public review listings.
+ */
+export class ReviewController {
+  private reviewHandler: ReviewHandlers;
+
+  // Party Operations
+  public createReview;
+  public respondToReview;
+
+  // Public Listings
+  public getProviderReviews;
+  public getServiceReviews;
+
+  // Admin Operations
+  public getReviewsForModeration;
+  public moderateReview;
+
+  constructor() {
+    this.reviewHandler = new ReviewHandlers();
+
+    this.createReview = this.reviewHandler.createReview.bind(
+      this.reviewHandler
+    );
+    this.respondToReview = this.reviewHandler.respondToReview.bind(
+      this.reviewHandler
+    );
+    this.getProviderReviews = this.reviewHandler.getProviderReviews.bind(
+      this.reviewHandler
+    );
+    this.getServiceReviews = this.reviewHandler.getServiceReviews.bind(
+      this.reviewHandler
+    );
+    this.getReviewsForModeration =
+      this.reviewHandler.getReviewsForModeration.bind(this.reviewHandler);
+    this.moderateReview = this.reviewHandler.moderateReview.bind(
+      this.reviewHandler
+    );
+  }
+}
+
+// Create and export a singleton instance
+const reviewController = new ReviewController();
+
+export const {
+  createReview,
+  respondToReview,
+  getProviderReviews,
+  getServiceReviews,
+  getReviewsForModeration,
+  moderateReview,
+} = reviewController;
+
+export default ReviewController;
@@ -5,6 +5,7 @@ import {
   handleError,
   validateObjectId,
   AuthenticatedRequest,
+  getAuditContext,
 } from "../../../utils/controller-utils/controller.utils";
 import {
   serviceService,
@@ -29,7 +30,11 @@ export class ServiceAdminHandler extends BaseServiceHandler {
 
       if (!this.validateServiceId(id, res)) return;
 
-      const service = await serviceService.approveService(id, req.user!.id);
+      const service = await serviceService.approveService(
+        id,
+        req.user!.id,
+        getAuditContext(req)
+      );
 
       if (!service) {
         res.status(404).json({
@@ -76,7 +81,8 @@ export class ServiceAdminHandler extends BaseServiceHandler {
       const service = await serviceService.rejectService(
         id,
         req.user!.id,
-        reason
+        reason,
+        getAuditContext(req)
       );
 
       if (!service) {
@@ -112,7 +118,10 @@ export class ServiceAdminHandler extends BaseServiceHandler {
 
       if (!this.validateServiceId(id, res)) return;
 
-      const service = await serviceService.restoreService(id);
+      const service = await serviceService.restoreService(
+        id,
+        getAuditContext(req)
+      );
 
       if (!service) {
         res.status(404).json({
@@ -328,7 +337,8 @@ export class ServiceAdminHandler extends BaseServiceHandler {
 
       const modifiedCount = await serviceService.bulkUpdateServices(
         serviceIds,
-        update
+        update,
+        getAuditContext(req)
       );
 
       res.status(200).json({
@@ -6,6 +6,7 @@ import {
   handleError,
   validateObjectId,
   AuthenticatedRequest,
+  getAuditContext,
 } from "../../../utils/controller-utils/controller.utils";
 import {
   serviceService,
@@ -232,7 +233,10 @@ export class ServiceCRUDHandler extends BaseServiceHandler {
       if (!this.validateServiceId(id, res)) return;
       if (!(await this.canModifyService(id, req, res))) return;
 
-      const success = await serviceService.deleteService(id);
+      const success = await serviceService.deleteService(
+        id,
+        getAuditContext(req)
+      );
 
       if (!success) {
         res.status(404).json({
@@ -4,7 +4,17 @@ import { Response } from "express";
 import { TaskStatus } from "../../../types/tasks.types";
 import { BookingStatus } from "../../../types/booking.types";
 import { AuthenticatedRequest } from "../../../types/user.types";
-import { handleError } from "../../../utils/controller-utils/controller.utils";
+import { JobRunStatus, JobTrigger } from "../../../types/jobs.types";
+import {
+  AuditAction,
+  AuditEntityType,
+} from "../../../types/audit-log.types";
+import {
+  getAuditContext,
+  handleError,
+} from "../../../utils/controller-utils/controller.utils";
+import { auditLogService } from "../../../services/audit/audit-log.service";
+import { jobRunner } from "../../../services/jobs/job-runner.service";
 
 /**
  * Admin Task & Booking Handlers - REFACTORED
@@ -426,4 +436,112 @@ export class AdminTaskHandlers {
       return handleError(res, error, "Failed to retrieve funnel analysis");
     }
   }
+
+  /**
+   * Get registered background jobs and recent runs (admin only)
+   * GET /api/tasks/admin/jobs/runs
+   */
+  static async getJobRuns(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user?.isAdmin) {
+        return res.status(403).json({
+          success: false,
+          message: "Forbidden: Admin access required",
+        });
+      }
+
+      const { jobName, status, page = "1", limit = "20" } = req.query;
+
+      if (
+        status &&
+        !Object.values(JobRunStatus).includes(status as JobRunStatus)
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(
+            JobRunStatus
+          ).join(", ")}`,
+        });
+      }
+
+      const result = await jobRunner.getRuns({
+        jobName: jobName as string | undefined,
+        status: status as JobRunStatus | undefined,
+        page: Number(page),
+        limit: Number(limit),
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: "Job runs retrieved successfully",
+        data: {
+          jobs: jobRunner.listJobs(),
+          runs: result.runs,
+          pagination: result.pagination,
+        },
+      });
+    } catch (error) {
+      return handleError(res, error, "Failed to retrieve job runs");
+    }
+  }
+
+  /**
+   * Trigger a background job by hand (admin only)
+   * POST /api/tasks/admin/jobs/:jobName/run
+   */
+  static async triggerJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.user?.isAdmin) {
+        return res.status(403).json({
+          success: false,
+          message: "Forbidden: Admin access required",
+        });
+      }
+
+      const { jobName } = req.params;
+
+      if (!jobRunner.hasJob(jobName)) {
+        return res.status(404).json({
+          success: false,
+          message: `Job "${jobName}" not found`,
+        });
+      }
+
+      const run = await jobRunner.runJob(
+        jobName,
+        JobTrigger.MANUAL,
+        req.userId
+      );
+
+      await auditLogService.record(getAuditContext(req), {
+        action: AuditAction.JOB_TRIGGERED,
+        entityType: AuditEntityType.JOB,
+        entityId: jobName,
+        metadata: {
+          runId: run._id.toString(),
+          status: run.status,
+          processedCount: run.processedCount,
+        },
+      });
+
+      if (run.status === JobRunStatus.SKIPPED) {
+        return res.status(409).json({
+          success: false,
+          message: "Job is already running on another instance",
+          data: { run },
+        });
+      }
+
+      return res.status(200).json({
+        success: run.status === JobRunStatus.SUCCEEDED,
+        message:
+          run.status === JobRunStatus.SUCCEEDED
+            ? "Job completed successfully"
+            : "Job failed",
+        data: { run },
+      });
+    } catch (error) {
+      return handleError(res, error, "Failed to trigger job");
+    }
+  }
 }
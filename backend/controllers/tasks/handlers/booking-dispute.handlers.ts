@@ -0,0 +1,422 @@
+// handlers/booking-dispute.handlers.ts
+import { Response } from "express";
+import { Types } from "mongoose";
+import { storageService } from "../../../services/files/storage/storage.service";
+import {
+  BookingDisputeService,
+  DisputeEvidenceUpload,
+  DISPUTE_ENTITY_TYPE,
+  DISPUTE_EVIDENCE_LABEL,
+} from "../../../services/tasks/booking-dispute.service";
+import {
+  AddDisputeStatementRequestBody,
+  DisputeOutcome,
+  DisputeStatus,
+  ResolveDisputeRequestBody,
+} from "../../../types/dispute.types";
+import { AuthenticatedRequest } from "../../../types/user.types";
+import {
+  getAuditContext,
+  handleError,
+  validateObjectId,
+} from "../../../utils/controller-utils/controller.utils";
+import { getBookingActor } from "./unified-booking.handler";
+
+const MAX_EVIDENCE_FILES = 5;
+const MAX_EVIDENCE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Booking Dispute Handlers
+ * Party statements/evidence and the admin dispute queue
+ */
+export class BookingDisputeHandlers {
+  private disputeService: BookingDisputeService;
+
+  constructor() {
+    this.disputeService = new BookingDisputeService();
+  }
+
+  private sendDisputeError(res: Response, error: any, fallback: string) {
+    const message: string = error.message || "";
+
+    if (
+      message === "Booking not found" ||
+      message === "No dispute found for this booking"
+    ) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+
+    if (message.startsWith("Only the")) {
+      res.status(403).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.includes("already resolved") ||
+      message.includes("cannot be reviewed") ||
+      message.includes("Only disputed bookings")
+    ) {
+      res.status(409).json({ success: false, message });
+      return;
+    }
+
+    if (
+      message.includes("final price") ||
+      message.includes("Unknown dispute outcome") ||
+      message.startsWith("Invalid image") ||
+      message.startsWith("Invalid file")
+    ) {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    handleError(res, error, fallback);
+  }
+
+  // ── Parties ─────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/tasks/bookings/:bookingId/dispute
+   * Customer or provider views the dispute case
+   */
+  async getBookingDispute(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      const actor = await getBookingActor(userId);
+
+      if (!actor) {
+        res.status(403).json({
+          success: false,
+          message: "User profile not found",
+        });
+        return;
+      }
+
+      const dispute = await this.disputeService.getDisputeForParty(
+        bookingId,
+        actor.role,
+        actor.actorId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Dispute retrieved successfully",
+        data: { dispute },
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to retrieve dispute");
+    }
+  }
+
+  /**
+   * POST /api/tasks/bookings/:bookingId/dispute/statements
+   * Customer or provider adds a statement; evidence files go in
+   * multipart field `evidence`
+   */
+  async addDisputeStatement(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const userId = req.userId;
+      const { message } = req.body as AddDisputeStatementRequestBody;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: "Unauthorized: User not authenticated",
+        });
+        return;
+      }
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (!message || !message.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Statement message is required",
+        });
+        return;
+      }
+
+      if (files.length > MAX_EVIDENCE_FILES) {
+        res.status(400).json({
+          success: false,
+          message: `Maximum ${MAX_EVIDENCE_FILES} evidence files per statement`,
+        });
+        return;
+      }
+
+      const oversized = files.find((file) => file.size > MAX_EVIDENCE_SIZE);
+      if (oversized) {
+        res.status(400).json({
+          success: false,
+          message: `${oversized.originalname} must be under ${
+            MAX_EVIDENCE_SIZE / (1024 * 1024)
+          }MB`,
+        });
+        return;
+      }
+
+      const actor = await getBookingActor(userId);
+
+      if (!actor) {
+        res.status(403).json({
+          success: false,
+          message: "User profile not found",
+        });
+        return;
+      }
+
+      // Check access before uploading anything
+      const existing = await this.disputeService.getDisputeForParty(
+        bookingId,
+        actor.role,
+        actor.actorId
+      );
+
+      const evidence: DisputeEvidenceUpload[] = [];
+
+      for (const file of files) {
+        const uploadResult = await storageService.upload(file.buffer, {
+          label: DISPUTE_EVIDENCE_LABEL,
+          folder: `disputes/${existing._id}`,
+          fileName: file.originalname,
+          contentType: file.mimetype,
+          isPublic: false, // Evidence is only for the parties and admins
+          uploaderId: userId,
+        });
+
+        evidence.push({
+          uploaderId: new Types.ObjectId(userId),
+          ...storageService.toFileFields(uploadResult),
+          fileName: file.originalname,
+          tags: [DISPUTE_ENTITY_TYPE, DISPUTE_EVIDENCE_LABEL, userId],
+          description: "Dispute evidence",
+        });
+      }
+
+      const dispute = await this.disputeService.addStatement(
+        bookingId,
+        actor.role,
+        actor.actorId,
+        message.trim(),
+        evidence
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Statement added successfully",
+        data: { dispute },
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to add dispute statement");
+    }
+  }
+
+  // ── Admin ───────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/tasks/bookings/admin/disputes?status&page&limit
+   * Unresolved disputes by default, oldest first
+   */
+  async getDisputeQueue(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { status, page = "1", limit = "20" } = req.query;
+
+      if (
+        status &&
+        !Object.values(DisputeStatus).includes(status as DisputeStatus)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid status. Must be one of: ${Object.values(
+            DisputeStatus
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      const result = await this.disputeService.listDisputes({
+        status: status as DisputeStatus | undefined,
+        page: Number(page),
+        limit: Math.min(Number(limit), 100),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Disputes retrieved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to retrieve disputes");
+    }
+  }
+
+  /**
+   * GET /api/tasks/bookings/admin/disputes/:bookingId
+   */
+  async getDisputeDetail(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      const dispute = await this.disputeService.getDisputeDetail(bookingId);
+
+      res.status(200).json({
+        success: true,
+        message: "Dispute retrieved successfully",
+        data: { dispute },
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to retrieve dispute");
+    }
+  }
+
+  /**
+   * POST /api/tasks/bookings/admin/disputes/:bookingId/review
+   * Admin picks a dispute up from the queue
+   */
+  async reviewDispute(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const adminId = req.userId;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      const dispute = await this.disputeService.markUnderReview(
+        bookingId,
+        adminId!,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Dispute marked under review",
+        data: { dispute },
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to update dispute");
+    }
+  }
+
+  /**
+   * POST /api/tasks/bookings/admin/disputes/:bookingId/resolve
+   *
+   * Request body:
+   * {
+   *   "outcome": "MARK_COMPLETED" | "PARTIAL_REFUND" | "CANCEL_AND_REFUND",
+   *   "finalPrice": 150 (required for PARTIAL_REFUND),
+   *   "note": "Half the job was not done" (optional)
+   * }
+   */
+  async resolveDispute(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const adminId = req.userId;
+      const { outcome, finalPrice, note } =
+        req.body as ResolveDisputeRequestBody;
+
+      if (!validateObjectId(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid booking ID",
+        });
+        return;
+      }
+
+      if (!Object.values(DisputeOutcome).includes(outcome)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid outcome. Must be one of: ${Object.values(
+            DisputeOutcome
+          ).join(", ")}`,
+        });
+        return;
+      }
+
+      if (
+        outcome === DisputeOutcome.PARTIAL_REFUND &&
+        (typeof finalPrice !== "number" || finalPrice < 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "A non-negative 'finalPrice' is required for PARTIAL_REFUND",
+        });
+        return;
+      }
+
+      const result = await this.disputeService.resolveDispute(
+        bookingId,
+        adminId!,
+        outcome,
+        outcome === DisputeOutcome.PARTIAL_REFUND ? finalPrice : undefined,
+        note,
+        getAuditContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Dispute resolved successfully",
+        data: result,
+      });
+    } catch (error: any) {
+      this.sendDisputeError(res, error, "Failed to resolve dispute");
+    }
+  }
+}
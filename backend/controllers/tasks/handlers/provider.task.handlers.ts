@@ -377,6 +377,13 @@ static async getRequestedTasks(req: AuthenticatedRequest, res: Response) {
         },
       });
     } catch (error: any) {
+      if (error.message?.startsWith("Deposit must be paid")) {
+        return res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+      }
+
       return handleError(
         res,
         error,
@@ -4,7 +4,11 @@ import { Response } from "express";
 import { TaskBookingService } from "../../../services/tasks/task-booking.service";
 import { UserRole } from "../../../types/base.types";
 import { AuthenticatedRequest } from "../../../types/user.types";
-import { ValidateBookingRequestBody } from "../../../types/booking.types";
+import {
+  ProposeRescheduleRequestBody,
+  RespondRescheduleRequestBody,
+  ValidateBookingRequestBody,
+} from "../../../types/booking.types";
 import {
   handleError,
   validateObjectId,
@@ -92,6 +96,61 @@ async function getClientProfile(userId: string) {
   return client;
 }
 
+/**
+ * Helper to resolve the caller's booking role and profile ID
+ */
+export async function getBookingActor(userId: string): Promise<{
+  role: UserRole.CUSTOMER | UserRole.PROVIDER;
+  actorId: string;
+} | null> {
+  const userRole = await getUserRole(userId);
+
+  if (userRole === UserRole.PROVIDER) {
+    const provider = await getProviderProfile(userId);
+    return { role: userRole, actorId: provider._id.toString() };
+  }
+
+  if (userRole === UserRole.CUSTOMER) {
+    const client = await getClientProfile(userId);
+    return { role: userRole, actorId: client._id.toString() };
+  }
+
+  return null;
+}
+
+/**
+ * Map reschedule errors to status codes
+ */
+function handleRescheduleError(res: Response, error: any, fallback: string) {
+  const message: string = error.message || "";
+
+  if (message === "Booking not found") {
+    return res.status(404).json({ success: false, message });
+  }
+
+  if (message.startsWith("Only the")) {
+    return res.status(403).json({ success: false, message });
+  }
+
+  if (
+    message.includes("already pending") ||
+    message.includes("not available") ||
+    message.includes("limit of")
+  ) {
+    return res.status(409).json({ success: false, message });
+  }
+
+  if (
+    message.includes("reschedule") ||
+    message.includes("Reschedule") ||
+    message.includes("Proposed date")
+  ) {
+    return res.status(400).json({ success: false, message });
+  }
+
+  return handleError(res, error, fallback);
+}
+
 /**
  * ✅ UNIFIED: Get booking details - works for both customers and providers
  * GET /api/tasks/bookings/:bookingId
@@ -316,10 +375,13 @@ export async function validateBookingCompletion(
       });
     }
 
-    if (rating !== undefined && (rating < 1 || rating > 5)) {
+    if (
+      rating !== undefined &&
+      (!Number.isInteger(rating) || rating < 1 || rating > 5)
+    ) {
       return res.status(400).json({
         success: false,
-        message: "Rating must be between 1 and 5",
+        message: "Rating must be a whole number between 1 and 5",
       });
     }
 
@@ -352,4 +414,280 @@ export async function validateBookingCompletion(
       error.message || "Failed to validate booking"
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * Get the current reschedule proposal
+ * GET /api/tasks/bookings/:bookingId/reschedule
+ */
+export async function getRescheduleProposal(
+  req: AuthenticatedRequest,
+  res: Response
+) {
+  try {
+    const { bookingId } = req.params;
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+    }
+
+    if (!validateObjectId(bookingId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid booking ID",
+      });
+    }
+
+    const actor = await getBookingActor(userId);
+
+    if (!actor) {
+      return res.status(403).json({
+        success: false,
+        message: "User profile not found",
+      });
+    }
+
+    const result = await TaskBookingService.getRescheduleProposal(
+      bookingId,
+      actor.role,
+      actor.actorId
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Reschedule proposal retrieved successfully",
+      data: result,
+    });
+  } catch (error: any) {
+    return handleRescheduleError(
+      res,
+      error,
+      "Failed to retrieve reschedule proposal"
+    );
+  }
+}
+
+/**
+ * Propose a new date/slot for a confirmed booking
+ * POST /api/tasks/bookings/:bookingId/reschedule
+ *
+ * Request body:
+ * {
+ *   "newDate": "2025-03-14",
+ *   "newTimeSlot": { "start": "09:00", "end": "11:00" } (optional),
+ *   "reason": "Traveling that day" (optional)
+ * }
+ */
+export async function proposeBookingReschedule(
+  req: AuthenticatedRequest,
+  res: Response
+) {
+  try {
+    const { bookingId } = req.params;
+    const userId = req.userId;
+    const { newDate, newTimeSlot, reason } =
+      req.body as ProposeRescheduleRequestBody;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+    }
+
+    if (!validateObjectId(bookingId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid booking ID",
+      });
+    }
+
+    const parsedDate = newDate ? new Date(newDate) : null;
+
+    if (!parsedDate || isNaN(parsedDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: "A valid 'newDate' is required",
+      });
+    }
+
+    if (newTimeSlot && (!newTimeSlot.start || !newTimeSlot.end)) {
+      return res.status(400).json({
+        success: false,
+        message: "'newTimeSlot' must include start and end",
+      });
+    }
+
+    const actor = await getBookingActor(userId);
+
+    if (!actor) {
+      return res.status(403).json({
+        success: false,
+        message: "User profile not found",
+      });
+    }
+
+    const booking = await TaskBookingService.proposeReschedule(
+      bookingId,
+      actor.role,
+      actor.actorId,
+      parsedDate,
+      newTimeSlot,
+      reason
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: "Reschedule proposed successfully",
+      data: {
+        booking,
+      },
+    });
+  } catch (error: any) {
+    return handleRescheduleError(res, error, "Failed to propose reschedule");
+  }
+}
+
+/**
+ * Shared accept/decline handler
+ */
+async function respondToBookingReschedule(
+  req: AuthenticatedRequest,
+  res: Response,
+  accept: boolean
+) {
+  try {
+    const { bookingId } = req.params;
+    const userId = req.userId;
+    const { message } = (req.body || {}) as RespondRescheduleRequestBody;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+    }
+
+    if (!validateObjectId(bookingId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid booking ID",
+      });
+    }
+
+    const actor = await getBookingActor(userId);
+
+    if (!actor) {
+      return res.status(403).json({
+        success: false,
+        message: "User profile not found",
+      });
+    }
+
+    const booking = await TaskBookingService.respondToReschedule(
+      bookingId,
+      actor.role,
+      actor.actorId,
+      accept,
+      message
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: accept
+        ? "Reschedule accepted - booking moved"
+        : "Reschedule declined",
+      data: {
+        booking,
+      },
+    });
+  } catch (error: any) {
+    return handleRescheduleError(
+      res,
+      error,
+      "Failed to respond to reschedule"
+    );
+  }
+}
+
+/**
+ * Accept the other party's reschedule proposal
+ * POST /api/tasks/bookings/:bookingId/reschedule/accept
+ */
+export async function acceptBookingReschedule(
+  req: AuthenticatedRequest,
+  res: Response
+) {
+  return respondToBookingReschedule(req, res, true);
+}
+
+/**
+ * Decline the other party's reschedule proposal
+ * POST /api/tasks/bookings/:bookingId/reschedule/decline
+ */
+export async function declineBookingReschedule(
+  req: AuthenticatedRequest,
+  res: Response
+) {
+  return respondToBookingReschedule(req, res, false);
+}
+
+/**
+ * Withdraw your own pending reschedule proposal
+ * DELETE /api/tasks/bookings/:bookingId/reschedule
+ */
+export async function withdrawBookingReschedule(
+  req: AuthenticatedRequest,
+  res: Response
+) {
+  try {
+    const { bookingId } = req.params;
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized: User not authenticated",
+      });
+    }
+
+    if (!validateObjectId(bookingId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid booking ID",
+      });
+    }
+
+    const actor = await getBookingActor(userId);
+
+    if (!actor) {
+      return res.status(403).json({
+        success: false,
+        message: "User profile not found",
+      });
+    }
+
+    const booking = await TaskBookingService.withdrawReschedule(
+      bookingId,
+      actor.role,
+      actor.actorId
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Reschedule proposal withdrawn",
+      data: {
+        booking,
+      },
+    });
+  } catch (error: any) {
+    return handleRescheduleError(
+      res,
+      error,
+      "Failed to withdraw reschedule proposal"
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // controllers/tasks/task.controller.ts - REFACTORED
 
 import { AdminTaskHandlers } from "./handlers/admin.task.handers";
+import { BookingDisputeHandlers } from "./handlers/booking-dispute.handlers";
 import { CustomerTaskHandlers } from "./handlers/customer.task.handler";
 import { ProviderTaskHandlers } from "./handlers/provider.task.handlers";
 
@@ -15,6 +16,7 @@ export class TaskController {
   private customerHandler: typeof CustomerTaskHandlers;
   private providerHandler: typeof ProviderTaskHandlers;
   private adminHandler: typeof AdminTaskHandlers;
+  private disputeHandler: BookingDisputeHandlers;
 
   // =========================================================================
   // CUSTOMER TASK OPERATIONS
@@ -67,10 +69,23 @@ export class TaskController {
   public getPlatformStatistics;
   public getFunnelAnalysis;
 
+  // Background Job Operations
+  public getJobRuns;
+  public triggerJob;
+
+  // Booking Dispute Operations
+  public getBookingDispute;
+  public addDisputeStatement;
+  public getDisputeQueue;
+  public getDisputeDetail;
+  public reviewDispute;
+  public resolveDispute;
+
   constructor() {
     this.customerHandler = CustomerTaskHandlers;
     this.providerHandler = ProviderTaskHandlers;
     this.adminHandler = AdminTaskHandlers;
+    this.disputeHandler = new BookingDisputeHandlers();
 
     // =====================================================================
     // BIND CUSTOMER HANDLERS
@@ -192,6 +207,32 @@ export class TaskController {
     this.getFunnelAnalysis = this.adminHandler.getFunnelAnalysis.bind(
       this.adminHandler
     );
+
+    // Background job operations
+    this.getJobRuns = this.adminHandler.getJobRuns.bind(this.adminHandler);
+    this.triggerJob = this.adminHandler.triggerJob.bind(this.adminHandler);
+
+    // =====================================================================
+    // BIND DISPUTE HANDLERS
+    // =====================================================================
+    this.getBookingDispute = this.disputeHandler.getBookingDispute.bind(
+      this.disputeHandler
+    );
+    this.addDisputeStatement = this.disputeHandler.addDisputeStatement.bind(
+      this.disputeHandler
+    );
+    this.getDisputeQueue = this.disputeHandler.getDisputeQueue.bind(
+      this.disputeHandler
+    );
+    this.getDisputeDetail = this.disputeHandler.getDisputeDetail.bind(
+      this.disputeHandler
+    );
+    this.reviewDispute = this.disputeHandler.reviewDispute.bind(
+      this.disputeHandler
+    );
+    this.resolveDispute = this.disputeHandler.resolveDispute.bind(
+      this.disputeHandler
+    );
   }
 }
 
@@ -247,4 +288,16 @@ export const {
   getBookingStatistics,
   getPlatformStatistics,
   getFunnelAnalysis,
+
+  // Background Job Operations
+  getJobRuns,
+  triggerJob,
+
+  // Booking Dispute Operations
+  getBookingDispute,
+  addDisputeStatement,
+  getDisputeQueue,
+  getDisputeDetail,
+  reviewDispute,
+  resolveDispute,
 } = taskController;
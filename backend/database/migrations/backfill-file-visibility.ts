@@ -0,0 +1,105 @@
+// database/migrations/backfill-file-visibility.ts
+// Sets File.visibility on records stored before it existed. ID images,
+// dispute evidence and message attachments become private, and their
+// bytes move out of public delivery.
+//
+// Usage: npm run migrate:file-visibility
+
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { connectDB } from "../connectDB";
+import { FileModel } from "../../models/files.model";
+import { storageService } from "../../services/files/storage/storage.service";
+import { MESSAGE_ATTACHMENT_LABEL } from "../../services/messaging/conversation.service";
+import { DISPUTE_EVIDENCE_LABEL } from "../../services/tasks/booking-dispute.service";
+import { File } from "../../types/files.types";
+import { ATTACHMENT_POLICIES } from "../../utils/controller-utils/ImageLinkingService";
+
+dotenv.config();
+
+const PRIVATE_LABELS = [
+  ...Object.values(ATTACHMENT_POLICIES)
+    .filter((policy) => !policy.isPublic)
+    .map((policy) => policy.label),
+  DISPUTE_EVIDENCE_LABEL,
+  MESSAGE_ATTACHMENT_LABEL,
+];
+
+async function run(): Promise<void> {
+  await connectDB();
+
+  if (mongoose.connection.readyState !== 1) {
+    throw new Error("Could not connect to MongoDB");
+  }
+
+  // The collection is used directly so archived files are included
+  const files = FileModel.collection;
+
+  const privateResult = await files.updateMany(
+    {
+      visibility: { $exists: false },
+      $or: [
+        { label: { $in: PRIVATE_LABELS } },
+        { "metadata.isPublic": false },
+      ],
+    },
+    { $set: { visibility: "private" } }
+  );
+  console.log(`✓ Files marked private: ${privateResult.modifiedCount}`);
+
+  const publicResult = await files.updateMany(
+    { visibility: { $exists: false } },
+    { $set: { visibility: "public" } }
+  );
+  console.log(`✓ Files marked public: ${publicResult.modifiedCount}`);
+
+  // Private files stored before visibility existed still sit under
+  // uploads/public on disk, or are delivered as "upload" on Cloudinary
+  const moved = await movePrivateFiles();
+  console.log(`✓ Private files moved out of public delivery: ${moved}`);
+}
+
+/**
+ * Move the bytes of private local and Cloudinary files to private
+ * delivery. Drivers leave files already there alone, so this can rerun.
+ */
+async function movePrivateFiles(): Promise<number> {
+  const cursor = FileModel.collection.find({
+    visibility: "private",
+    storageProvider: { $in: ["local", "cloudinary"] },
+  });
+
+  let moved = 0;
+  for await (const doc of cursor) {
+    const file = doc as unknown as File;
+    try {
+      const change = await storageService.setVisibility(file, false);
+      await FileModel.collection.updateOne(
+        { _id: doc._id },
+        {
+          $set: {
+            url: change.url,
+            thumbnailUrl: change.thumbnailUrl,
+            ...(change.variants && { "metadata.variants": change.variants }),
+          },
+        }
+      );
+      moved++;
+    } catch (error) {
+      console.error(`! Could not move file ${doc._id}:`, error);
+    }
+  }
+
+  return moved;
+}
+
+run()
+  .then(async () => {
+    await mongoose.connection.close();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("File visibility backfill failed:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  });
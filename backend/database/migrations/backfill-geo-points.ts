@@ -0,0 +1,122 @@
+// database/migrations/backfill-geo-points.ts
+// Backfills GeoJSON points from gpsCoordinates and builds the 2dsphere indexes
+//
+// Usage: npm run migrate:geo-points
+
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { connectDB } from "../connectDB";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import TaskModelInstance from "../../models/task.model";
+
+dotenv.config();
+
+/**
+ * Aggregation expression: GeoJSON point for a location path, or null
+ * when the location has no numeric coordinates
+ */
+const geoPointFor = (locationPath: string) => ({
+  $cond: [
+    {
+      $and: [
+        { $isNumber: `${locationPath}.gpsCoordinates.latitude` },
+        { $isNumber: `${locationPath}.gpsCoordinates.longitude` },
+      ],
+    },
+    {
+      type: "Point",
+      coordinates: [
+        `${locationPath}.gpsCoordinates.longitude`,
+        `${locationPath}.gpsCoordinates.latitude`,
+      ],
+    },
+    "$$REMOVE",
+  ],
+});
+
+async function backfillProviders(): Promise<number> {
+  const result = await ProviderModel.updateMany(
+    {
+      "locationData.gpsCoordinates.latitude": { $type: "number" },
+      "locationData.geoPoint": { $exists: false },
+    },
+    [{ $set: { "locationData.geoPoint": geoPointFor("$locationData") } }],
+    { updatePipeline: true }
+  );
+  return result.modifiedCount;
+}
+
+async function backfillTasks(): Promise<number> {
+  const result = await TaskModelInstance.updateMany(
+    {
+      "customerLocation.gpsCoordinates.latitude": { $type: "number" },
+      "customerLocation.geoPoint": { $exists: false },
+    },
+    [{ $set: { "customerLocation.geoPoint": geoPointFor("$customerLocation") } }],
+    { updatePipeline: true }
+  );
+  return result.modifiedCount;
+}
+
+async function backfillClients(): Promise<number> {
+  const result = await ClientModel.updateMany(
+    { "savedAddresses.gpsCoordinates.latitude": { $type: "number" } },
+    [
+      {
+        $set: {
+          savedAddresses: {
+            $map: {
+              input: "$savedAddresses",
+              as: "address",
+              in: {
+                $mergeObjects: [
+                  "$$address",
+                  { geoPoint: geoPointFor("$$address") },
+                ],
+              },
+            },
+          },
+        },
+      },
+    ],
+    { updatePipeline: true }
+  );
+  return result.modifiedCount;
+}
+
+async function run(): Promise<void> {
+  await connectDB();
+
+  if (mongoose.connection.readyState !== 1) {
+    throw new Error("Could not connect to MongoDB");
+  }
+
+  const providers = await backfillProviders();
+  console.log(`✓ Provider profiles updated: ${providers}`);
+
+  const clients = await backfillClients();
+  console.log(`✓ Client profiles updated: ${clients}`);
+
+  const tasks = await backfillTasks();
+  console.log(`✓ Tasks updated: ${tasks}`);
+
+  // Build the 2dsphere indexes now that every point is valid GeoJSON
+  await Promise.all([
+    ProviderModel.createIndexes(),
+    ClientModel.createIndexes(),
+    TaskModelInstance.createIndexes(),
+  ]);
+  console.log("✓ 2dsphere indexes ensured");
+}
+
+run()
+  .then(async () => {
+    await mongoose.connection.close();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Geo point backfill failed:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  });
@@ -3,6 +3,7 @@ import express from "express";
 import dotenv from "dotenv";
 import cors from "cors";
 import cookieParser from "cookie-parser";
+import path from "path";
 import { connectDB } from "./database/connectDB";
 import oauthRoutes from "./routes/oauth.routes";
 import authRoutes from "./routes/auth.routes";
@@ -18,6 +19,24 @@ import categoryRoutes from "./routes/category.routes";
 import providerProfileRoutes from "./routes/profiles/provider.profile.routes";
 import taskRoutes from "./routes/task.routes";
 import clientProfileRoutes from "./routes/profiles/client.profile.routes";
+import paymentRoutes from "./routes/payment.routes";
+import reviewRoutes from "./routes/review.routes";
+import notificationRoutes from "./routes/notification.routes";
+import conversationRoutes from "./routes/conversation.routes";
+import auditLogRoutes from "./routes/audit-log.routes";
+import kycRoutes from "./routes/kyc.routes";
+import { jobRunner } from "./services/jobs/job-runner.service";
+import { registerTaskLifecycleJobs } from "./services/jobs/task-lifecycle.jobs";
+import { registerBookingLifecycleJobs } from "./services/jobs/booking-lifecycle.jobs";
+import { registerProviderPerformanceJobs } from "./services/jobs/provider-performance.jobs";
+import { registerFileScanJobs } from "./services/jobs/file-scan.jobs";
+import { registerPaymentGateways } from "./services/payments/payment.service";
+import { registerNotificationListeners } from "./services/notifications/notification.listeners";
+import { registerInboxListeners } from "./services/notifications/inbox.listeners";
+import { registerMessagingListeners } from "./services/messaging/messaging.listeners";
+import { registerFileScanListeners } from "./services/files/file-scan.listeners";
+import { isInlineExtension } from "./utils/file-type.utils";
+import { loadStorageConfig } from "./config/storage.config";
 
 // import taskRoutes from "./routes/task.routes";
 
@@ -28,6 +47,13 @@ const PORT = process.env.PORT || 5000;
 const isDevelopment = process.env.NODE_ENV !== "production";
 const PAYLOAD_LIMIT = "5mb";
 
+// Behind a load balancer, read the client IP from X-Forwarded-For so
+// rate limits apply per client rather than per proxy
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // CORS configuration
 app.use(
   cors({
@@ -37,14 +63,33 @@ app.use(
 );
 
 // Body parsing middleware
-app.use(express.json({ limit: PAYLOAD_LIMIT }));
+app.use(
+  express.json({
+    limit: PAYLOAD_LIMIT,
+    // Keep the raw body so payment callbacks can verify signatures
+    verify: (req: express.Request, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ limit: PAYLOAD_LIMIT, parameterLimit: 50000 }));
 
 // Cookie parser middleware
 app.use(cookieParser());
 
-// Public read-only access (GET only) - no auth needed
-app.use("/uploads/public", express.static("uploads/public"));
+// Public read-only access (GET only) - no auth needed. Only raster
+// images open in the browser; other uploads are downloaded.
+app.use(
+  "/uploads/public",
+  express.static(path.join(loadStorageConfig().local.root, "public"), {
+    setHeaders: (res, filePath) => {
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (!isInlineExtension(path.extname(filePath))) {
+        res.setHeader("Content-Disposition", "attachment");
+      }
+    },
+  })
+);
 
 // Initialize Cloudinary service and start server
 let cloudinaryService: CloudinaryConfigService;
@@ -59,6 +104,10 @@ async function startServer() {
     cloudinaryService = initCloudinaryService();
     console.log("✓ Cloudinary service initialized");
 
+    // Fails startup when the gateway's webhook secret isn't set
+    registerPaymentGateways();
+    console.log("✓ Payment gateways registered");
+
     // Mount routes
     app.use("/api/oauth", oauthRoutes);
     app.use("/api/auth", authRoutes);
@@ -69,6 +118,12 @@ async function startServer() {
     app.use("/api/providers", providerProfileRoutes);
     app.use("/api/tasks", taskRoutes);
     app.use("/api/clients", clientProfileRoutes);
+    app.use("/api/payments", paymentRoutes);
+    app.use("/api/reviews", reviewRoutes);
+    app.use("/api/notifications", notificationRoutes);
+    app.use("/api/conversations", conversationRoutes);
+    app.use("/api/admin/audit-logs", auditLogRoutes);
+    app.use("/api/admin/kyc", kycRoutes);
 
     // Error handling middleware
     app.use(
@@ -126,6 +181,27 @@ async function startServer() {
       }
     );
 
+    // Notify users about task and booking events
+    registerNotificationListeners();
+    registerInboxListeners();
+    console.log("✓ Notification listeners registered");
+
+    // Post status changes into task and booking conversations
+    registerMessagingListeners();
+    console.log("✓ Messaging listeners registered");
+
+    // Tell admins about uploads that fail malware scans
+    registerFileScanListeners();
+
+    // Start background jobs
+    registerTaskLifecycleJobs(jobRunner);
+    registerBookingLifecycleJobs(jobRunner);
+    registerProviderPerformanceJobs(jobRunner);
+    registerFileScanJobs(jobRunner);
+    if (process.env.DISABLE_BACKGROUND_JOBS !== "true") {
+      jobRunner.start();
+    }
+
     // Start server
     app.listen(PORT, () => {
       console.log(`✓ Server is running on port: ${PORT}`);
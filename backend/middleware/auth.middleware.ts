@@ -2,6 +2,9 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { User } from "../models/user.model";
+import { sessionService } from "../services/session.service";
+import { twoFactorService } from "../services/two-factor.service";
+import { IUser } from "../types/user.types";
 
 export const authenticateToken = async (
   req: Request,
@@ -41,9 +44,13 @@ export const authenticateToken = async (
     }
 
     // Verify token
-    let decoded: { userId: string };
+    let decoded: { userId: string; sessionId?: string; iat?: number };
     try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET) as { userId: string };
+      decoded = jwt.verify(token, process.env.JWT_SECRET) as {
+        userId: string;
+        sessionId?: string;
+        iat?: number;
+      };
     } catch (jwtError) {
       // Clear invalid token cookie
       res.clearCookie("token", {
@@ -84,9 +91,34 @@ export const authenticateToken = async (
       return;
     }
 
+    // Tokens tied to a session stop working once it is revoked; older
+    // tokens without one stop working after a password change
+    const passwordChangedAt = user.security?.passwordChangedAt;
+    const revoked = decoded.sessionId
+      ? !(await sessionService.isSessionActive(decoded.sessionId))
+      : !!passwordChangedAt &&
+        !!decoded.iat &&
+        decoded.iat * 1000 < passwordChangedAt.getTime();
+
+    if (revoked) {
+      res.clearCookie("token", {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "strict",
+      });
+
+      res.status(401).json({
+        success: false,
+        message: "Session has ended, please sign in again",
+        sessionRevoked: true,
+      });
+      return;
+    }
+
     // Attach user data to request
     req.userId = decoded.userId;
     req.user = user;
+    req.sessionId = decoded.sessionId;
 
     next();
   } catch (error) {
@@ -123,6 +155,21 @@ export const requireVerification = (
   next();
 };
 
+/**
+ * Admins must enroll in 2FA before using admin routes
+ */
+const rejectWithoutTwoFactor = (user: IUser, res: Response): boolean => {
+  if (twoFactorService.isRequiredFor(user) && !user.twoFactor?.enabled) {
+    res.status(403).json({
+      success: false,
+      message: "Two-factor authentication must be enabled for admin access",
+      requiresTwoFactorEnrollment: true,
+    });
+    return true;
+  }
+  return false;
+};
+
 export const requireAdmin = (
   req: Request,
   res: Response,
@@ -144,6 +191,8 @@ export const requireAdmin = (
     });
     return;
   }
+
+  if (rejectWithoutTwoFactor(req.user, res)) return;
   next();
 };
 
@@ -168,6 +217,8 @@ export const requireSuperAdmin = (
     });
     return;
   }
+
+  if (rejectWithoutTwoFactor(req.user, res)) return;
   next();
 };
 
@@ -0,0 +1,103 @@
+// middleware/rate-limit.middleware.ts
+import { Request, Response, NextFunction } from "express";
+import { rateLimitService } from "../services/rate-limit/rate-limit.service";
+import { RateLimitPolicy } from "../types/rate-limit.types";
+
+const MINUTE = 60 * 1000;
+
+const clientIp = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
+
+const bodyEmail = (req: Request): string =>
+  typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+
+/**
+ * Throttle requests under a policy. Sets the RateLimit-* headers on
+ * every response and Retry-After once the limit is hit.
+ */
+export const rateLimit = (policy: RateLimitPolicy) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const key = policy.key(req);
+    if (!key) return next();
+
+    let result;
+    try {
+      result = await rateLimitService.hit(
+        `${policy.name}:${key}`,
+        policy.windowMs,
+        policy.max
+      );
+    } catch (error) {
+      // Don't lock everyone out if the store is unavailable
+      console.error(`Rate limit store error (${policy.name}):`, error);
+      return next();
+    }
+
+    res.set({
+      "RateLimit-Limit": String(result.limit),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(result.retryAfter),
+    });
+
+    if (result.limited) {
+      res.set("Retry-After", String(result.retryAfter));
+      res.status(429).json({
+        success: false,
+        message: policy.message || "Too many requests, please try again later",
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+// ============================================
+// POLICIES
+// ============================================
+
+// Password guesses from one address; failed logins are also tracked per account
+export const loginRateLimit = rateLimit({
+  name: "login",
+  windowMs: 15 * MINUTE,
+  max: 30,
+  key: clientIp,
+  message: "Too many sign-in attempts, please try again later",
+});
+
+export const twoFactorLoginRateLimit = rateLimit({
+  name: "login-2fa",
+  windowMs: 15 * MINUTE,
+  max: 20,
+  key: clientIp,
+  message: "Too many sign-in attempts, please try again later",
+});
+
+// Each of these sends an email, so limit per address and per recipient
+export const forgotPasswordRateLimit = rateLimit({
+  name: "forgot-password",
+  windowMs: 60 * MINUTE,
+  max: 5,
+  key: (req) => `${clientIp(req)}:${bodyEmail(req)}`,
+  message: "Too many password reset requests, please try again later",
+});
+
+export const resendVerificationRateLimit = rateLimit({
+  name: "resend-verification",
+  windowMs: 60 * MINUTE,
+  max: 5,
+  key: (req) => `${clientIp(req)}:${bodyEmail(req)}`,
+  message: "Too many verification emails requested, please try again later",
+});
+
+// Location lookups call out to third-party geocoding services
+export const locationRateLimit = rateLimit({
+  name: "location",
+  windowMs: MINUTE,
+  max: 20,
+  key: (req) => req.userId || clientIp(req),
+  message: "Too many location requests, please slow down",
+});
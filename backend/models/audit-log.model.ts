@@ -0,0 +1,90 @@
+// models/audit-log.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogEntryModel,
+} from "../types/audit-log.types";
+import { SystemRole } from "../types/base.types";
+
+const changeSchema = new Schema(
+  {
+    field: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+/**
+ * Audit Log Schema
+ * Who changed what, when and from where
+ */
+const auditLogSchema = new Schema<AuditLogEntry, AuditLogEntryModel>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    actorRole: {
+      type: String,
+      enum: Object.values(SystemRole),
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: Object.values(AuditEntityType),
+      required: true,
+    },
+    entityId: {
+      type: String,
+      required: true,
+    },
+    changes: {
+      type: [changeSchema],
+      default: [],
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "audit_logs",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+export const AuditLogModelInstance = model<AuditLogEntry, AuditLogEntryModel>(
+  "AuditLog",
+  auditLogSchema
+);
+export default AuditLogModelInstance;
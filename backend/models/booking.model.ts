@@ -7,10 +7,14 @@ import {
   BookingMethods,
   BookingStatus,
   PaymentStatus,
+  RescheduleProposalStatus,
 } from "../types/booking.types";
+import { DisputeOutcome } from "../types/dispute.types";
 import { UserRole } from "../types/base.types";
 import { userLocationSchema } from "./shared-schemas/location.schema";
 import { timeSlotSchema } from "./shared-schemas/timeSlotSchema";
+import { DomainEventType } from "../types/notification.types";
+import { domainEvents } from "../services/events/domain-event-bus";
 
 /**
  * Status History Entry Sub-Schema
@@ -34,7 +38,7 @@ const statusHistorySchema = new Schema(
     },
     actorRole: {
       type: String,
-      enum: [UserRole.CUSTOMER, UserRole.PROVIDER, "SYSTEM"],
+      enum: [UserRole.CUSTOMER, UserRole.PROVIDER, "ADMIN", "SYSTEM"],
     },
     reason: {
       type: String,
@@ -50,6 +54,82 @@ const statusHistorySchema = new Schema(
   { _id: false }
 );
 
+/**
+ * Reschedule limits
+ */
+export const MAX_RESCHEDULES_PER_BOOKING = Number(
+  process.env.MAX_RESCHEDULES_PER_BOOKING || 2
+);
+export const RESCHEDULE_PROPOSAL_TTL_HOURS = Number(
+  process.env.RESCHEDULE_PROPOSAL_TTL_HOURS || 24
+);
+
+/**
+ * Reschedule Proposal Sub-Schema
+ * One party proposes a new date/slot, the other accepts or declines
+ */
+const rescheduleProposalSchema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: Object.values(RescheduleProposalStatus),
+      default: RescheduleProposalStatus.PENDING,
+      required: true,
+    },
+    proposedBy: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    proposedByRole: {
+      type: String,
+      enum: [UserRole.CUSTOMER, UserRole.PROVIDER],
+      required: true,
+    },
+    proposedDate: {
+      type: Date,
+      required: true,
+    },
+    proposedTimeSlot: {
+      type: timeSlotSchema,
+      required: true,
+    },
+    previousDate: {
+      type: Date,
+      required: true,
+    },
+    previousTimeSlot: {
+      type: timeSlotSchema,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    proposedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    respondedBy: {
+      type: Schema.Types.ObjectId,
+    },
+    respondedAt: {
+      type: Date,
+    },
+    responseMessage: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * REFACTORED Booking Schema - EXECUTION PHASE WITH VALIDATION WORKFLOW
  * Bookings are created when a Task is accepted by a provider
@@ -127,6 +207,10 @@ const bookingSchema = new Schema<Booking, IBookingModel, BookingMethods>(
       type: Number,
       min: 0,
     },
+    travelFee: {
+      type: Number,
+      min: 0,
+    },
     finalPrice: {
       type: Number,
       min: 0,
@@ -139,6 +223,9 @@ const bookingSchema = new Schema<Booking, IBookingModel, BookingMethods>(
       type: Boolean,
       default: false,
     },
+    depositDueBy: {
+      type: Date,
+    },
     currency: {
       type: String,
       required: true,
@@ -190,6 +277,16 @@ const bookingSchema = new Schema<Booking, IBookingModel, BookingMethods>(
       maxlength: 1000,
     },
 
+    // Rescheduling
+    rescheduleProposal: {
+      type: rescheduleProposalSchema,
+    },
+    rescheduleCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
     // ✅ Status History (replaces individual timestamp fields)
     statusHistory: [statusHistorySchema],
 
@@ -230,6 +327,11 @@ bookingSchema.index({ scheduledDate: 1, status: 1, isDeleted: 1 });
 bookingSchema.index({ serviceId: 1, status: 1 });
 bookingSchema.index({ taskId: 1 });
 bookingSchema.index({ bookingNumber: 1 });
+bookingSchema.index({ status: 1, depositPaid: 1, depositDueBy: 1 });
+bookingSchema.index({
+  "rescheduleProposal.status": 1,
+  "rescheduleProposal.expiresAt": 1,
+});
 
 /**
  * Helper: Add status history entry
@@ -283,6 +385,42 @@ bookingSchema.pre("save", function () {
   }
 });
 
+/**
+ * Status change events
+ * Remember the stored status on load so saves can report what changed
+ */
+bookingSchema.post("init", function () {
+  this.$locals.persistedStatus = this.status;
+});
+
+bookingSchema.pre("save", function () {
+  if (this.isNew || this.isModified("status")) {
+    this.$locals.statusChanged = this.$locals.persistedStatus !== this.status;
+  }
+});
+
+bookingSchema.post("save", function (doc) {
+  const fromStatus = doc.$locals.persistedStatus as BookingStatus | undefined;
+  const changed = doc.$locals.statusChanged;
+
+  doc.$locals.persistedStatus = doc.status;
+  doc.$locals.statusChanged = false;
+
+  if (!changed) return;
+
+  const latest = doc.statusHistory?.[doc.statusHistory.length - 1];
+
+  domainEvents.publish(DomainEventType.BOOKING_STATUS_CHANGED, {
+    bookingId: doc._id,
+    bookingNumber: doc.bookingNumber,
+    clientId: (doc.clientId as any)?._id ?? doc.clientId,
+    providerId: (doc.providerId as any)?._id ?? doc.providerId,
+    fromStatus,
+    toStatus: doc.status,
+    actorRole: latest?.status === doc.status ? latest.actorRole : undefined,
+  });
+});
+
 /**
  * Instance Methods
  */
@@ -316,6 +454,10 @@ bookingSchema.methods.startService = function (
     throw new Error("Only confirmed bookings can be started");
   }
 
+  if (this.depositAmount && this.depositAmount > 0 && !this.depositPaid) {
+    throw new Error("Deposit must be paid before the service can start");
+  }
+
   this.status = BookingStatus.IN_PROGRESS;
   addStatusEntry(
     this,
@@ -434,6 +576,75 @@ bookingSchema.methods.validateCompletion = async function (
   return this;
 };
 
+/**
+ * Resolve Dispute (admin)
+ * Settles a DISPUTED booking. Any refund goes through the payment
+ * ledger, which sets paymentStatus.
+ */
+bookingSchema.methods.resolveDispute = function (
+  this: HydratedDocument<Booking, BookingMethods>,
+  outcome: DisputeOutcome,
+  adminId: Types.ObjectId,
+  finalPrice?: number,
+  note?: string
+) {
+  if (this.status !== BookingStatus.DISPUTED) {
+    throw new Error("Only disputed bookings can be resolved");
+  }
+
+  const originalPrice = this.finalPrice ?? this.estimatedPrice;
+
+  switch (outcome) {
+    case DisputeOutcome.MARK_COMPLETED:
+      this.status = BookingStatus.COMPLETED;
+      addStatusEntry(
+        this,
+        BookingStatus.COMPLETED,
+        adminId,
+        "ADMIN",
+        note,
+        "Dispute resolved: booking marked completed"
+      );
+      break;
+
+    case DisputeOutcome.PARTIAL_REFUND:
+      if (finalPrice === undefined || finalPrice < 0) {
+        throw new Error("An adjusted final price is required for a partial refund");
+      }
+      if (originalPrice !== undefined && finalPrice >= originalPrice) {
+        throw new Error("Adjusted final price must be lower than the original price");
+      }
+      this.finalPrice = finalPrice;
+      this.status = BookingStatus.COMPLETED;
+      addStatusEntry(
+        this,
+        BookingStatus.COMPLETED,
+        adminId,
+        "ADMIN",
+        note,
+        `Dispute resolved: partial refund, final price adjusted from ${originalPrice ?? "unset"} to ${finalPrice}`
+      );
+      break;
+
+    case DisputeOutcome.CANCEL_AND_REFUND:
+      this.status = BookingStatus.CANCELLED;
+      addStatusEntry(
+        this,
+        BookingStatus.CANCELLED,
+        adminId,
+        "ADMIN",
+        note,
+        "Dispute resolved: booking cancelled and refunded"
+      );
+      break;
+
+    default:
+      throw new Error(`Unknown dispute outcome: ${outcome}`);
+  }
+
+  return this.save();
+};
+
 /**
  * Cancel Booking
  * Can only be cancelled after it's been created (execution phase)
@@ -477,34 +688,192 @@ bookingSchema.methods.updatePaymentStatus = function (
 };
 
 /**
- * Reschedule Booking
+ * Helper: Get the pending reschedule proposal, if any
+ */
+function getPendingProposal(booking: any) {
+  const proposal = booking.rescheduleProposal;
+  return proposal?.status === RescheduleProposalStatus.PENDING
+    ? proposal
+    : undefined;
+}
+
+/**
+ * Propose Reschedule
+ * Either party proposes a new date/slot; nothing moves until the other accepts
  */
-bookingSchema.methods.reschedule = function (
+bookingSchema.methods.proposeReschedule = function (
   this: HydratedDocument<Booking, BookingMethods>,
+  actorId: Types.ObjectId,
+  actorRole: string,
   newDate: Date,
   newTimeSlot?: { start: string; end: string },
-  actorId?: Types.ObjectId,
-  actorRole?: string
+  reason?: string
+) {
+  if (this.status !== BookingStatus.CONFIRMED) {
+    throw new Error("Only confirmed bookings can be rescheduled");
+  }
+
+  if (getPendingProposal(this)) {
+    throw new Error("A reschedule proposal is already pending");
+  }
+
+  if ((this.rescheduleCount || 0) >= MAX_RESCHEDULES_PER_BOOKING) {
+    throw new Error(
+      `Booking has reached the limit of ${MAX_RESCHEDULES_PER_BOOKING} reschedules`
+    );
+  }
+
+  if (newDate < new Date()) {
+    throw new Error("Proposed date must be in the future");
+  }
+
+  const proposedTimeSlot = newTimeSlot || this.scheduledTimeSlot;
+  const now = new Date();
+
+  this.rescheduleProposal = {
+    status: RescheduleProposalStatus.PENDING,
+    proposedBy: actorId,
+    proposedByRole: actorRole,
+    proposedDate: newDate,
+    proposedTimeSlot,
+    previousDate: this.scheduledDate,
+    previousTimeSlot: this.scheduledTimeSlot,
+    reason,
+    proposedAt: now,
+    expiresAt: new Date(
+      now.getTime() + RESCHEDULE_PROPOSAL_TTL_HOURS * 60 * 60 * 1000
+    ),
+  };
+
+  addStatusEntry(
+    this,
+    BookingStatus.CONFIRMED,
+    actorId,
+    actorRole,
+    reason,
+    `Reschedule proposed to ${newDate.toISOString()} ${proposedTimeSlot.start}-${proposedTimeSlot.end}`
+  );
+
+  return this.save();
+};
+
+/**
+ * Respond to Reschedule
+ * The party that did not propose accepts (moves the booking) or declines
+ */
+bookingSchema.methods.respondToReschedule = function (
+  this: HydratedDocument<Booking, BookingMethods>,
+  actorId: Types.ObjectId,
+  actorRole: string,
+  accept: boolean,
+  message?: string
 ) {
+  const proposal = getPendingProposal(this);
+
+  if (!proposal) {
+    throw new Error("No pending reschedule proposal");
+  }
+
+  if (proposal.expiresAt < new Date()) {
+    throw new Error("Reschedule proposal has expired");
+  }
+
+  if (proposal.proposedByRole === actorRole) {
+    throw new Error("You cannot respond to your own reschedule proposal");
+  }
+
   if (this.status !== BookingStatus.CONFIRMED) {
     throw new Error("Only confirmed bookings can be rescheduled");
   }
 
-  const oldDate = this.scheduledDate;
-  const oldTimeSlot = this.scheduledTimeSlot;
+  proposal.respondedBy = actorId;
+  proposal.respondedAt = new Date();
+  proposal.responseMessage = message;
+
+  if (accept) {
+    proposal.status = RescheduleProposalStatus.ACCEPTED;
+    this.scheduledDate = proposal.proposedDate;
+    this.scheduledTimeSlot = proposal.proposedTimeSlot;
+    this.rescheduleCount = (this.rescheduleCount || 0) + 1;
+
+    addStatusEntry(
+      this,
+      BookingStatus.CONFIRMED,
+      actorId,
+      actorRole,
+      message,
+      `Reschedule accepted: moved from ${proposal.previousDate.toISOString()} to ${proposal.proposedDate.toISOString()}`
+    );
+  } else {
+    proposal.status = RescheduleProposalStatus.DECLINED;
+
+    addStatusEntry(
+      this,
+      BookingStatus.CONFIRMED,
+      actorId,
+      actorRole,
+      message,
+      "Reschedule declined"
+    );
+  }
+
+  return this.save();
+};
+
+/**
+ * Withdraw Reschedule (proposer only)
+ */
+bookingSchema.methods.withdrawReschedule = function (
+  this: HydratedDocument<Booking, BookingMethods>,
+  actorId: Types.ObjectId,
+  actorRole: string
+) {
+  const proposal = getPendingProposal(this);
 
-  this.scheduledDate = newDate;
-  if (newTimeSlot) {
-    this.scheduledTimeSlot = newTimeSlot;
+  if (!proposal) {
+    throw new Error("No pending reschedule proposal");
   }
 
+  if (proposal.proposedByRole !== actorRole) {
+    throw new Error("Only the proposer can withdraw a reschedule proposal");
+  }
+
+  proposal.status = RescheduleProposalStatus.WITHDRAWN;
+  proposal.respondedAt = new Date();
+
   addStatusEntry(
     this,
     BookingStatus.CONFIRMED,
     actorId,
     actorRole,
     undefined,
-    `Rescheduled from ${oldDate.toISOString()} to ${newDate.toISOString()}`
+    "Reschedule proposal withdrawn"
+  );
+
+  return this.save();
+};
+
+/**
+ * Expire Reschedule Proposal (system)
+ */
+bookingSchema.methods.expireRescheduleProposal = function (
+  this: HydratedDocument<Booking, BookingMethods>
+) {
+  const proposal = getPendingProposal(this);
+
+  if (!proposal) {
+    return Promise.resolve(this);
+  }
+
+  proposal.status = RescheduleProposalStatus.EXPIRED;
+
+  addStatusEntry(
+    this,
+    this.status,
+    undefined,
+    "SYSTEM",
+    undefined,
+    "Reschedule proposal expired without a response"
   );
 
   return this.save();
@@ -754,6 +1123,17 @@ bookingSchema.virtual("balanceRemaining").get(function () {
   return this.finalPrice - paid;
 });
 
+bookingSchema.virtual("hasPendingReschedule").get(function () {
+  return (
+    this.rescheduleProposal?.status === RescheduleProposalStatus.PENDING &&
+    this.rescheduleProposal.expiresAt > new Date()
+  );
+});
+
+bookingSchema.virtual("reschedulesRemaining").get(function () {
+  return Math.max(0, MAX_RESCHEDULES_PER_BOOKING - (this.rescheduleCount || 0));
+});
+
 /**
  * Export the model
  */
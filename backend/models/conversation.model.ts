@@ -0,0 +1,70 @@
+// models/conversation.model.ts
+
+import { Schema, model } from "mongoose";
+import { Conversation, ConversationModel } from "../types/messaging.types";
+
+/**
+ * Conversation Schema
+ * Thread between a customer and one provider about a task,
+ * and later the booking it converts into
+ */
+const conversationSchema = new Schema<Conversation, ConversationModel>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    providerId: {
+      type: Schema.Types.ObjectId,
+      ref: "ProviderProfile",
+      required: true,
+    },
+    participants: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    lastMessageAt: {
+      type: Date,
+    },
+    lastMessagePreview: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "conversations",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+conversationSchema.index({ taskId: 1, providerId: 1 }, { unique: true });
+conversationSchema.index({ bookingId: 1 }, { sparse: true });
+conversationSchema.index({ participants: 1, lastMessageAt: -1 });
+
+export const ConversationModelInstance = model<Conversation, ConversationModel>(
+  "Conversation",
+  conversationSchema
+);
+export default ConversationModelInstance;
@@ -0,0 +1,219 @@
+// models/dispute.model.ts
+
+import { Schema, model, HydratedDocument, Types } from "mongoose";
+import {
+  DisputeCase,
+  DisputeCaseMethods,
+  DisputeCaseModel,
+  DisputeOutcome,
+  DisputeStatus,
+} from "../types/dispute.types";
+import { UserRole } from "../types/base.types";
+
+/**
+ * Dispute Statement Sub-Schema
+ */
+const disputeStatementSchema = new Schema(
+  {
+    authorId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    authorRole: {
+      type: String,
+      enum: [UserRole.CUSTOMER, UserRole.PROVIDER],
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 2000,
+    },
+    evidence: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "File",
+      },
+    ],
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { _id: true }
+);
+
+/**
+ * Dispute Resolution Sub-Schema
+ */
+const disputeResolutionSchema = new Schema(
+  {
+    outcome: {
+      type: String,
+      enum: Object.values(DisputeOutcome),
+      required: true,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    resolvedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+    originalPrice: {
+      type: Number,
+      min: 0,
+    },
+    adjustedPrice: {
+      type: Number,
+      min: 0,
+    },
+    refundAmount: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Dispute Case Schema
+ */
+const disputeCaseSchema = new Schema<
+  DisputeCase,
+  DisputeCaseModel,
+  DisputeCaseMethods
+>(
+  {
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+      unique: true,
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "ClientProfile",
+      required: true,
+      index: true,
+    },
+    providerId: {
+      type: Schema.Types.ObjectId,
+      ref: "ProviderProfile",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(DisputeStatus),
+      default: DisputeStatus.OPEN,
+      index: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    openedBy: {
+      type: Schema.Types.ObjectId,
+    },
+    openedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    statements: [disputeStatementSchema],
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    resolution: {
+      type: disputeResolutionSchema,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "disputes",
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+disputeCaseSchema.index({ status: 1, openedAt: 1 });
+
+/**
+ * Add Statement (customer or provider)
+ */
+disputeCaseSchema.methods.addStatement = function (
+  this: HydratedDocument<DisputeCase, DisputeCaseMethods>,
+  authorId: Types.ObjectId,
+  authorRole: string,
+  message: string,
+  evidence: Types.ObjectId[] = []
+) {
+  if (this.status === DisputeStatus.RESOLVED) {
+    throw new Error("Dispute is already resolved");
+  }
+
+  this.statements.push({
+    authorId,
+    authorRole,
+    message,
+    evidence,
+    createdAt: new Date(),
+  });
+
+  return this.save();
+};
+
+/**
+ * Mark Under Review (admin)
+ */
+disputeCaseSchema.methods.markUnderReview = function (
+  this: HydratedDocument<DisputeCase, DisputeCaseMethods>,
+  adminId: Types.ObjectId
+) {
+  if (this.status !== DisputeStatus.OPEN) {
+    throw new Error(`Dispute cannot be reviewed from status ${this.status}`);
+  }
+
+  this.status = DisputeStatus.UNDER_REVIEW;
+  this.reviewedBy = adminId;
+  this.reviewedAt = new Date();
+
+  return this.save();
+};
+
+export const DisputeCaseModelInstance = model<DisputeCase, DisputeCaseModel>(
+  "DisputeCase",
+  disputeCaseSchema
+);
+export default DisputeCaseModelInstance;
@@ -0,0 +1,86 @@
+// models/file-access-log.model.ts
+
+import { Schema, model } from "mongoose";
+import { SystemRole } from "../types/base.types";
+import {
+  FileAccessGrant,
+  FileAccessLogEntry,
+  FileAccessLogModel,
+  FileAccessMethod,
+} from "../types/files.types";
+
+/**
+ * File Access Log Schema
+ * Who read which private file, how and from where
+ */
+const fileAccessLogSchema = new Schema<FileAccessLogEntry, FileAccessLogModel>(
+  {
+    fileId: {
+      type: Schema.Types.ObjectId,
+      ref: "File",
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    userRole: {
+      type: String,
+      enum: Object.values(SystemRole),
+    },
+    method: {
+      type: String,
+      enum: Object.values(FileAccessMethod),
+      required: true,
+    },
+    grant: {
+      type: String,
+      enum: Object.values(FileAccessGrant),
+      required: true,
+    },
+    entityType: {
+      type: String,
+      trim: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+    },
+    label: {
+      type: String,
+      trim: true,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "file_access_logs",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+fileAccessLogSchema.index({ fileId: 1, createdAt: -1 });
+fileAccessLogSchema.index({ userId: 1, createdAt: -1 });
+fileAccessLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+
+export const FileAccessLogModelInstance = model<
+  FileAccessLogEntry,
+  FileAccessLogModel
+>("FileAccessLog", fileAccessLogSchema);
+export default FileAccessLogModelInstance;
@@ -1,6 +1,6 @@
 // models/file.model.ts
 import mongoose, { Schema, Model, Document } from "mongoose";
-import { File } from "../types/files.types";
+import { File, FileStatus } from "../types/files.types";
 
 /**
  * Instance Methods Interface
@@ -22,7 +22,7 @@ export interface IFileMethods {
 export interface IFileModel extends Model<File, {}, IFileMethods> {
   findByUploader(
     uploaderId: mongoose.Types.ObjectId,
-    options?: { status?: "active" | "archived"; limit?: number }
+    options?: { status?: FileStatus; limit?: number }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -31,7 +31,7 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
   findByEntity(
     entityType: string,
     entityId: mongoose.Types.ObjectId,
-    options?: { status?: "active" | "archived" }
+    options?: { status?: FileStatus }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -39,7 +39,7 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
 
   findByTags(
     tags: string[],
-    options?: { status?: "active" | "archived"; matchAll?: boolean }
+    options?: { status?: FileStatus; matchAll?: boolean }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -47,7 +47,7 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
 
   findByStorageProvider(
     provider: "local" | "s3" | "cloudinary" | "gcs" | "mega",
-    options?: { status?: "active" | "archived" }
+    options?: { status?: FileStatus }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -55,7 +55,7 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
 
   searchFiles(
     searchTerm: string,
-    options?: { status?: "active" | "archived"; limit?: number }
+    options?: { status?: FileStatus; limit?: number }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -63,7 +63,7 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
 
   findByMimeTypeCategory(
     category: "image" | "video" | "audio" | "document" | "archive",
-    options?: { status?: "active" | "archived" }
+    options?: { status?: FileStatus }
   ): mongoose.Query<
     (File & Document & IFileMethods)[],
     File & Document & IFileMethods
@@ -89,6 +89,37 @@ export interface IFileModel extends Model<File, {}, IFileMethods> {
  */
 export type FileDocument = File & Document & IFileMethods;
 
+/**
+ * Where clients read a private file, see routes/files.routes.ts
+ */
+export const privateFileUrl = (fileId: unknown) =>
+  `/api/files/${fileId}/content`;
+
+/**
+ * A file as API responses show it. Private and quarantined files point
+ * at the authenticated content route instead of their storage location.
+ * Lean results skip toJSON, so pass them through this directly.
+ */
+export const presentFile = <T extends Partial<File>>(file: T): T => {
+  if (file?.visibility !== "private" && file?.status !== "quarantined") {
+    return file;
+  }
+
+  const { storageKey: _storageKey, thumbnailUrl: _thumbnailUrl, ...rest } =
+    file;
+  const metadata =
+    file.metadata instanceof Map
+      ? Object.fromEntries(file.metadata)
+      : file.metadata;
+  const { variants: _variants, ...safeMetadata } = metadata || {};
+
+  return {
+    ...rest,
+    url: privateFileUrl(file._id),
+    ...(metadata && { metadata: safeMetadata }),
+  } as T;
+};
+
 /**
  * File Schema Definition
  */
@@ -137,6 +168,19 @@ const fileSchema = new Schema<File, IFileModel, IFileMethods>(
       default: "cloudinary",
       index: true,
     },
+    storageKey: {
+      type: String,
+      trim: true,
+    },
+    visibility: {
+      type: String,
+      enum: {
+        values: ["public", "private"],
+        message: "{VALUE} is not a valid visibility",
+      },
+      default: "public",
+      index: true,
+    },
     metadata: {
       type: Map,
       of: Schema.Types.Mixed,
@@ -168,7 +212,7 @@ const fileSchema = new Schema<File, IFileModel, IFileMethods>(
     status: {
       type: String,
       enum: {
-        values: ["active", "archived"],
+        values: ["active", "archived", "quarantined"],
         message: "{VALUE} is not a valid status",
       },
       default: "active",
@@ -190,6 +234,9 @@ const fileSchema = new Schema<File, IFileModel, IFileMethods>(
   {
     timestamps: true, // Adds createdAt and updatedAt
     collection: "files",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => presentFile(ret),
+    },
   }
 );
 
@@ -287,7 +334,7 @@ fileSchema.methods.getFormattedFileSize = function (
 // Find files by uploader
 fileSchema.statics.findByUploader = function (
   uploaderId: mongoose.Types.ObjectId,
-  options?: { status?: "active" | "archived"; limit?: number }
+  options?: { status?: FileStatus; limit?: number }
 ) {
   const query = this.find({ uploaderId });
 
@@ -306,7 +353,7 @@ fileSchema.statics.findByUploader = function (
 fileSchema.statics.findByEntity = function (
   entityType: string,
   entityId: mongoose.Types.ObjectId,
-  options?: { status?: "active" | "archived" }
+  options?: { status?: FileStatus }
 ) {
   const query = this.find({ entityType, entityId });
 
@@ -320,7 +367,7 @@ fileSchema.statics.findByEntity = function (
 // Find files by tags
 fileSchema.statics.findByTags = function (
   tags: string[],
-  options?: { status?: "active" | "archived"; matchAll?: boolean }
+  options?: { status?: FileStatus; matchAll?: boolean }
 ) {
   const query = options?.matchAll
     ? this.find({ tags: { $all: tags } })
@@ -336,7 +383,7 @@ fileSchema.statics.findByTags = function (
 // Find files by storage provider
 fileSchema.statics.findByStorageProvider = function (
   provider: "local" | "s3" | "cloudinary" | "gcs" | "mega",
-  options?: { status?: "active" | "archived" }
+  options?: { status?: FileStatus }
 ) {
   const query = this.find({ storageProvider: provider });
 
@@ -350,7 +397,7 @@ fileSchema.statics.findByStorageProvider = function (
 // Search files by name or description
 fileSchema.statics.searchFiles = function (
   searchTerm: string,
-  options?: { status?: "active" | "archived"; limit?: number }
+  options?: { status?: FileStatus; limit?: number }
 ) {
   const query = this.find({
     $text: { $search: searchTerm },
@@ -370,7 +417,7 @@ fileSchema.statics.searchFiles = function (
 // Get files by mime type category
 fileSchema.statics.findByMimeTypeCategory = function (
   category: "image" | "video" | "audio" | "document" | "archive",
-  options?: { status?: "active" | "archived" }
+  options?: { status?: FileStatus }
 ) {
   const mimeTypePatterns: Record<string, RegExp> = {
     image: /^image\//,
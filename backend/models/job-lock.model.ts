@@ -0,0 +1,38 @@
+// models/job-lock.model.ts
+
+import { Schema, model } from "mongoose";
+import { JobLock, JobLockModel } from "../types/jobs.types";
+
+/**
+ * Job Lock Schema
+ * Lease-style lock so only one instance runs a given job at a time.
+ * A lock is free when `lockedUntil` is in the past.
+ */
+const jobLockSchema = new Schema<JobLock, JobLockModel>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    collection: "job_locks",
+    versionKey: false,
+  }
+);
+
+export const JobLockModelInstance = model<JobLock, JobLockModel>(
+  "JobLock",
+  jobLockSchema
+);
+export default JobLockModelInstance;
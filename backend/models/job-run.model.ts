@@ -0,0 +1,125 @@
+// models/job-run.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  JobRun,
+  JobRunModel,
+  JobRunStatus,
+  JobTrigger,
+} from "../types/jobs.types";
+
+/**
+ * Job Transition Sub-Schema
+ * Records each entity state change performed during a run
+ */
+const jobTransitionSchema = new Schema(
+  {
+    entityType: {
+      type: String,
+      enum: ["Task", "Booking"],
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    fromStatus: {
+      type: String,
+      required: true,
+    },
+    toStatus: {
+      type: String,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Job Run Schema
+ */
+const jobRunSchema = new Schema<JobRun, JobRunModel>(
+  {
+    jobName: {
+      type: String,
+      required: true,
+      trim: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(JobRunStatus),
+      default: JobRunStatus.RUNNING,
+      index: true,
+    },
+    trigger: {
+      type: String,
+      enum: Object.values(JobTrigger),
+      required: true,
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    instanceId: {
+      type: String,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    durationMs: {
+      type: Number,
+      min: 0,
+    },
+    processedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    transitions: [jobTransitionSchema],
+    error: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "job_runs",
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+jobRunSchema.index({ jobName: 1, startedAt: -1 });
+jobRunSchema.index({ "transitions.entityId": 1 });
+
+export const JobRunModelInstance = model<JobRun, JobRunModel>(
+  "JobRun",
+  jobRunSchema
+);
+export default JobRunModelInstance;
@@ -0,0 +1,176 @@
+// models/kyc-submission.model.ts
+
+import { Schema, model } from "mongoose";
+import { idType } from "../types/base.types";
+import {
+  KycOwnerType,
+  KycRejectionReason,
+  KycStatus,
+  KycSubmission,
+  KycSubmissionModel,
+} from "../types/kyc.types";
+
+const duplicateMatchSchema = new Schema(
+  {
+    ownerType: {
+      type: String,
+      enum: Object.values(KycOwnerType),
+      required: true,
+    },
+    profileId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    source: {
+      type: String,
+      enum: ["profile", "submission"],
+      required: true,
+    },
+    submissionId: {
+      type: Schema.Types.ObjectId,
+      ref: "KycSubmission",
+    },
+    status: {
+      type: String,
+      enum: Object.values(KycStatus),
+    },
+  },
+  { _id: false }
+);
+
+const statusChangeSchema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: Object.values(KycStatus),
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * KYC Submission Schema
+ * Identity documents sent for admin review, with the decision and how
+ * it was reached
+ */
+const kycSubmissionSchema = new Schema<KycSubmission, KycSubmissionModel>(
+  {
+    ownerType: {
+      type: String,
+      enum: Object.values(KycOwnerType),
+      required: true,
+    },
+    profileId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    idType: {
+      type: String,
+      enum: Object.values(idType),
+      required: true,
+    },
+    idNumber: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    fileImage: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "File",
+      },
+    ],
+    status: {
+      type: String,
+      enum: Object.values(KycStatus),
+      default: KycStatus.SUBMITTED,
+    },
+    submittedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    attempt: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewStartedAt: {
+      type: Date,
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewerNotes: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+    rejectionReason: {
+      type: String,
+      enum: Object.values(KycRejectionReason),
+    },
+    rejectionDetails: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    duplicates: {
+      type: [duplicateMatchSchema],
+      default: [],
+    },
+    history: {
+      type: [statusChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    collection: "kyc_submissions",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+kycSubmissionSchema.index({ ownerType: 1, profileId: 1, submittedAt: -1 });
+kycSubmissionSchema.index({ status: 1, submittedAt: 1 });
+kycSubmissionSchema.index({ idType: 1, idNumber: 1 });
+
+export const KycSubmissionModelInstance = model<
+  KycSubmission,
+  KycSubmissionModel
+>("KycSubmission", kycSubmissionSchema);
+export default KycSubmissionModelInstance;
@@ -0,0 +1,90 @@
+// models/message.model.ts
+
+import { Schema, model } from "mongoose";
+import { UserRole } from "../types/base.types";
+import {
+  Message,
+  MessageModel,
+  MessageType,
+} from "../types/messaging.types";
+
+/**
+ * Read Receipt Sub-Schema
+ */
+const messageReceiptSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    readAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Message Schema
+ */
+const messageSchema = new Schema<Message, MessageModel>(
+  {
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Conversation",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(MessageType),
+      default: MessageType.TEXT,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    senderRole: {
+      type: String,
+      enum: [UserRole.CUSTOMER, UserRole.PROVIDER, "system"],
+      required: true,
+    },
+    body: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+      default: "",
+    },
+    attachments: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "File",
+      },
+    ],
+    readBy: [messageReceiptSchema],
+  },
+  {
+    timestamps: true,
+    collection: "messages",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+messageSchema.index({ conversationId: 1, createdAt: -1 });
+messageSchema.index({ conversationId: 1, "readBy.userId": 1 });
+
+export const MessageModelInstance = model<Message, MessageModel>(
+  "Message",
+  messageSchema
+);
+export default MessageModelInstance;
@@ -0,0 +1,94 @@
+// models/notification.model.ts
+
+import { Schema, model } from "mongoose";
+import { UserRole } from "../types/base.types";
+import {
+  DomainEventType,
+  InAppNotification,
+  InAppNotificationModel,
+  NotificationEntityType,
+} from "../types/notification.types";
+
+/**
+ * In-app Notification Schema
+ * One inbox entry per user per task/booking status change
+ */
+const notificationSchema = new Schema<InAppNotification, InAppNotificationModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: [UserRole.CUSTOMER, UserRole.PROVIDER],
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: Object.values(DomainEventType),
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    entityType: {
+      type: String,
+      enum: Object.values(NotificationEntityType),
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    status: {
+      type: String,
+    },
+    data: {
+      type: Map,
+      of: String,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "notifications",
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+notificationSchema.virtual("isRead").get(function () {
+  return !!this.readAt;
+});
+
+/**
+ * Indexes for performance
+ */
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, readAt: 1 });
+
+export const NotificationModelInstance = model<
+  InAppNotification,
+  InAppNotificationModel
+>("Notification", notificationSchema);
+export default NotificationModelInstance;
@@ -0,0 +1,169 @@
+// models/payment-transaction.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  COLLECTION_TYPES,
+  MobileMoneyNetwork,
+  PaymentTransaction,
+  PaymentTransactionModel,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+} from "../types/payment.types";
+
+/**
+ * Callback Event Sub-Schema
+ * Each gateway callback is recorded once, keyed by eventId
+ */
+const callbackEventSchema = new Schema(
+  {
+    eventId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(PaymentTransactionStatus),
+      required: true,
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Payment Transaction Schema
+ */
+const paymentTransactionSchema = new Schema<
+  PaymentTransaction,
+  PaymentTransactionModel
+>(
+  {
+    reference: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(PaymentTransactionType),
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(PaymentTransactionStatus),
+      default: PaymentTransactionStatus.PENDING,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      default: "GHS",
+    },
+
+    // Commission split
+    commissionRate: {
+      type: Number,
+      min: 0,
+      max: 1,
+    },
+    commissionAmount: {
+      type: Number,
+      min: 0,
+    },
+    providerAmount: {
+      type: Number,
+      min: 0,
+    },
+
+    // Gateway
+    gateway: {
+      type: String,
+      required: true,
+    },
+    network: {
+      type: String,
+      enum: Object.values(MobileMoneyNetwork),
+    },
+    msisdn: {
+      type: String,
+      trim: true,
+    },
+    gatewayReference: {
+      type: String,
+      index: true,
+    },
+    failureReason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    callbackEvents: [callbackEventSchema],
+
+    initiatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "payment_transactions",
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+paymentTransactionSchema.index({ bookingId: 1, type: 1, status: 1 });
+paymentTransactionSchema.index({ status: 1, createdAt: -1 });
+
+// At most one collection awaiting the gateway per booking
+paymentTransactionSchema.index(
+  { bookingId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: PaymentTransactionStatus.PENDING,
+      type: { $in: COLLECTION_TYPES },
+    },
+  }
+);
+
+export const PaymentTransactionModelInstance = model<
+  PaymentTransaction,
+  PaymentTransactionModel
+>("PaymentTransaction", paymentTransactionSchema);
+export default PaymentTransactionModelInstance;
@@ -0,0 +1,94 @@
+// models/phone-verification.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  PhoneOwnerType,
+  PhoneVerification,
+  PhoneVerificationModel,
+} from "../types/phone-verification.types";
+
+/**
+ * Phone Verification Schema
+ * One-time codes sent to a profile's contact numbers. Confirmed records
+ * are kept as proof the profile owns the number.
+ */
+const phoneVerificationSchema = new Schema<
+  PhoneVerification,
+  PhoneVerificationModel
+>(
+  {
+    ownerType: {
+      type: String,
+      enum: Object.values(PhoneOwnerType),
+      required: true,
+    },
+    profileId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    phone: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    codeHash: {
+      type: String,
+      select: false,
+    },
+    codeExpiresAt: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastSentAt: {
+      type: Date,
+    },
+    sendCount: {
+      type: Number,
+      default: 0,
+    },
+    sendWindowStartedAt: {
+      type: Date,
+    },
+    verifiedAt: {
+      type: Date,
+    },
+    purgeAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "phone_verifications",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.codeHash;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+phoneVerificationSchema.index(
+  { ownerType: 1, profileId: 1, phone: 1 },
+  { unique: true }
+);
+// Only set while unconfirmed, so verified records are never purged
+phoneVerificationSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PhoneVerificationModelInstance = model<
+  PhoneVerification,
+  PhoneVerificationModel
+>("PhoneVerification", phoneVerificationSchema);
+export default PhoneVerificationModelInstance;
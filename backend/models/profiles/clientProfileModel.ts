@@ -6,76 +6,9 @@ import {
   ClientProfileModel,
   ClientProfileMethods,
 } from "../../types/profiles/client.profile.types";
-
-/**
- * Coordinates Sub-Schema
- */
-const coordinatesSchema = new Schema(
-  {
-    latitude: {
-      type: Number,
-      required: true,
-    },
-    longitude: {
-      type: Number,
-      required: true,
-    },
-  },
-  { _id: false }
-);
-
-/**
- * User Location Sub-Schema
- */
-const userLocationSchema = new Schema(
-  {
-    ghanaPostGPS: {
-      type: String,
-      required: true,
-      trim: true,
-    },
-    nearbyLandmark: {
-      type: String,
-      trim: true,
-    },
-    region: {
-      type: String,
-      trim: true,
-    },
-    city: {
-      type: String,
-      trim: true,
-    },
-    district: {
-      type: String,
-      trim: true,
-    },
-    locality: {
-      type: String,
-      trim: true,
-    },
-    streetName: {
-      type: String,
-      trim: true,
-    },
-    houseNumber: {
-      type: String,
-      trim: true,
-    },
-    gpsCoordinates: {
-      type: coordinatesSchema,
-    },
-    isAddressVerified: {
-      type: Boolean,
-      default: false,
-    },
-    sourceProvider: {
-      type: String,
-      enum: ["openstreetmap", "google", "ghanapost"],
-    },
-  },
-  { timestamps: true, _id: false }
-);
+import { userLocationSchema } from "../shared-schemas/location.schema";
+import { ratingStatsSchema } from "../shared-schemas/ratingStats.schema";
+import { communicationPreferencesSchema } from "../shared-schemas/communicationPreferences.schema";
 
 /**
  * Client Contact Details Sub-Schema
@@ -117,26 +50,9 @@ const idDetailsSchema = new Schema(
         required: true,
       },
     ],
-  },
-  { _id: false }
-);
-
-/**
- * Communication Preferences Sub-Schema
- */
-const communicationPreferencesSchema = new Schema(
-  {
-    emailNotifications: {
-      type: Boolean,
-      default: true,
-    },
-    smsNotifications: {
-      type: Boolean,
-      default: true,
-    },
-    pushNotifications: {
-      type: Boolean,
-      default: true,
+    // Set when a KYC review approves these details
+    verifiedAt: {
+      type: Date,
     },
   },
   { _id: false }
@@ -320,6 +236,12 @@ const clientProfileSchema = new Schema<
       default: () => ({}),
     },
 
+    // Ratings from providers (denormalized)
+    ratingStats: {
+      type: ratingStatsSchema,
+      default: () => ({}),
+    },
+
     // Emergency Contact
     emergencyContact: {
       type: emergencyContactSchema,
@@ -365,6 +287,7 @@ clientProfileSchema.index({ favoriteProviders: 1 });
 clientProfileSchema.index({ "savedAddresses.region": 1 });
 clientProfileSchema.index({ "savedAddresses.city": 1 });
 clientProfileSchema.index({ profile: 1, isDeleted: 1 });
+clientProfileSchema.index({ "savedAddresses.geoPoint": "2dsphere" });
 
 /**
  * Pre-save middleware for validation
@@ -2,11 +2,16 @@
 import { Schema, model, HydratedDocument } from "mongoose";
 import { idType } from "../../types/base.types";
 import {
+  ProviderApprovalStatus,
   ProviderProfile,
   ProviderProfileModel,
   ProviderProfileMethods,
 } from "../../types/profiles/providerProfile.types";
 import { userLocationSchema } from "../shared-schemas/location.schema";
+import { ratingStatsSchema } from "../shared-schemas/ratingStats.schema";
+import { communicationPreferencesSchema } from "../shared-schemas/communicationPreferences.schema";
+import { timeSlotSchema } from "../shared-schemas/timeSlotSchema";
+import { ServiceAreaType } from "../../types/service-area.types";
 
 /**
  * Contact Details Sub-Schema
@@ -57,23 +62,164 @@ const idDetailsSchema = new Schema(
         required: true,
       },
     ],
+    // Set when a KYC review approves these details
+    verifiedAt: {
+      type: Date,
+    },
   },
   { _id: false }
 );
 
 /**
- * Working Hours Sub-Schema
+ * Blackout Date Sub-Schema
+ * Provider-declared periods with no availability
  */
-const workingHoursSchema = new Schema(
+const blackoutDateSchema = new Schema(
   {
-    start: {
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+    reason: {
       type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: true }
+);
+
+/**
+ * GeoJSON Polygon Sub-Schema
+ */
+const geoPolygonSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ["Polygon"],
+      required: true,
+    },
+    coordinates: {
+      type: [[[Number]]],
       required: true,
+      default: undefined,
     },
-    end: {
+  },
+  { _id: false }
+);
+
+/**
+ * Service Area Sub-Schema
+ * A zone the provider travels to beyond their base location
+ */
+const serviceAreaSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    type: {
       type: String,
+      enum: Object.values(ServiceAreaType),
       required: true,
     },
+    radiusKm: {
+      type: Number,
+      min: 0,
+    },
+    regions: {
+      type: [{ type: String, trim: true }],
+      default: undefined,
+    },
+    cities: {
+      type: [{ type: String, trim: true }],
+      default: undefined,
+    },
+    districts: {
+      type: [{ type: String, trim: true }],
+      default: undefined,
+    },
+    polygon: {
+      type: geoPolygonSchema,
+    },
+    travelFee: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: true }
+);
+
+/**
+ * Performance Stats Sub-Schema
+ * Booking and request history, refreshed by the provider stats job
+ */
+const performanceStatsSchema = new Schema(
+  {
+    totalBookings: { type: Number, default: 0, min: 0 },
+    completedBookings: { type: Number, default: 0, min: 0 },
+    cleanCompletions: { type: Number, default: 0, min: 0 },
+    disputedBookings: { type: Number, default: 0, min: 0 },
+    cancelledByProvider: { type: Number, default: 0, min: 0 },
+    activeBookings: { type: Number, default: 0, min: 0 },
+    completionRate: { type: Number, min: 0, max: 1 },
+    cancellationRate: { type: Number, min: 0, max: 1 },
+    respondedRequests: { type: Number, default: 0, min: 0 },
+    avgResponseMinutes: { type: Number, min: 0 },
+    computedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+/**
+ * Approval Sub-Schema
+ * Admin review of the profile; set when the profile is created
+ */
+const approvalSchema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: Object.values(ProviderApprovalStatus),
+      required: true,
+    },
+    submittedAt: { type: Date },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    reviewedAt: { type: Date },
+    notes: { type: String, trim: true, maxlength: 1000 },
+    rejectionReason: { type: String, trim: true, maxlength: 1000 },
+    resubmissionCount: { type: Number, default: 0, min: 0 },
+    resubmissionNotes: { type: String, trim: true, maxlength: 1000 },
+  },
+  { _id: false }
+);
+
+/**
+ * Suspension Sub-Schema
+ */
+const suspensionSchema = new Schema(
+  {
+    suspendedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    suspendedAt: { type: Date, required: true },
+    reason: { type: String, required: true, trim: true, maxlength: 1000 },
+    endsAt: { type: Date },
+    liftedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    liftedAt: { type: Date },
+    liftNotes: { type: String, trim: true, maxlength: 1000 },
   },
   { _id: false }
 );
@@ -131,6 +277,7 @@ const providerProfileSchema = new Schema<
       type: userLocationSchema,
       required: true,
     },
+    serviceAreas: [serviceAreaSchema],
 
     // Availability & Scheduling
     isAlwaysAvailable: {
@@ -139,7 +286,13 @@ const providerProfileSchema = new Schema<
     },
     workingHours: {
       type: Map,
-      of: workingHoursSchema,
+      // HH:MM windows, validated so they compare correctly as strings
+      of: timeSlotSchema,
+    },
+    blackoutDates: [blackoutDateSchema],
+    calendarLockedUntil: {
+      type: Date,
+      select: false,
     },
 
     // Payments & Deposits
@@ -153,6 +306,32 @@ const providerProfileSchema = new Schema<
       max: 100,
     },
 
+    // Notifications
+    notificationPreferences: {
+      type: communicationPreferencesSchema,
+      default: () => ({}),
+    },
+
+    // Reviews (denormalized)
+    ratingStats: {
+      type: ratingStatsSchema,
+      default: () => ({}),
+    },
+
+    // Booking performance (denormalized)
+    performanceStats: {
+      type: performanceStatsSchema,
+      default: () => ({}),
+    },
+
+    // Admin approval & suspension
+    approval: {
+      type: approvalSchema,
+    },
+    suspension: {
+      type: suspensionSchema,
+    },
+
     // Soft Delete Fields
     isDeleted: {
       type: Boolean,
@@ -191,6 +370,12 @@ providerProfileSchema.index({ "locationData.region": 1 });
 providerProfileSchema.index({ "locationData.city": 1 });
 providerProfileSchema.index({ serviceOfferings: 1 });
 providerProfileSchema.index({ profile: 1, isDeleted: 1 });
+providerProfileSchema.index({ "locationData.geoPoint": "2dsphere" });
+providerProfileSchema.index({ "serviceAreas.polygon": "2dsphere" });
+providerProfileSchema.index({ "serviceAreas.regions": 1 });
+providerProfileSchema.index({ "serviceAreas.cities": 1 });
+providerProfileSchema.index({ "serviceAreas.districts": 1 });
+providerProfileSchema.index({ "approval.status": 1, isDeleted: 1 });
 
 /**
  * Pre-save middleware for validation
@@ -201,6 +386,13 @@ providerProfileSchema.pre("save", async function () {
     this.workingHours = undefined;
   }
 
+  // Validate blackout date ranges
+  for (const blackout of this.blackoutDates || []) {
+    if (blackout.startDate > blackout.endDate) {
+      throw new Error("Blackout start date must be before end date");
+    }
+  }
+
   // Ensure percentage deposit is set if required
   if (this.requireInitialDeposit && this.percentageDeposit === undefined) {
     throw new Error(
@@ -0,0 +1,41 @@
+// models/rate-limit.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  RateLimitEntry,
+  RateLimitEntryModel,
+} from "../types/rate-limit.types";
+
+/**
+ * Rate Limit Counter Schema
+ * Fixed-window hit counters shared by every instance.
+ * Finished windows are removed by the TTL index.
+ */
+const rateLimitSchema = new Schema<RateLimitEntry, RateLimitEntryModel>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    resetAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: "rate_limits",
+    versionKey: false,
+  }
+);
+
+rateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitModelInstance = model<RateLimitEntry, RateLimitEntryModel>(
+  "RateLimit",
+  rateLimitSchema
+);
+export default RateLimitModelInstance;
@@ -0,0 +1,153 @@
+// models/review.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  Review,
+  ReviewDirection,
+  ReviewModel,
+  ReviewStatus,
+} from "../types/review.types";
+
+/**
+ * Provider Response Sub-Schema
+ */
+const reviewResponseSchema = new Schema(
+  {
+    message: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    respondedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    respondedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "ProviderProfile",
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Moderation Sub-Schema
+ */
+const reviewModerationSchema = new Schema(
+  {
+    moderatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    moderatedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Review Schema
+ */
+const reviewSchema = new Schema<Review, ReviewModel>(
+  {
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    direction: {
+      type: String,
+      enum: Object.values(ReviewDirection),
+      required: true,
+    },
+    reviewerId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    providerId: {
+      type: Schema.Types.ObjectId,
+      ref: "ProviderProfile",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "ClientProfile",
+      required: true,
+    },
+    serviceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Service",
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5,
+      validate: {
+        validator: Number.isInteger,
+        message: "Rating must be a whole number of stars",
+      },
+    },
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    providerResponse: {
+      type: reviewResponseSchema,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReviewStatus),
+      default: ReviewStatus.PUBLISHED,
+      index: true,
+    },
+    moderation: {
+      type: reviewModerationSchema,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "reviews",
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+reviewSchema.index({ bookingId: 1, direction: 1 }, { unique: true });
+reviewSchema.index({ providerId: 1, direction: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ serviceId: 1, direction: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ clientId: 1, direction: 1, status: 1 });
+
+export const ReviewModelInstance = model<Review, ReviewModel>(
+  "Review",
+  reviewSchema
+);
+export default ReviewModelInstance;
@@ -5,6 +5,7 @@ import {
   ServiceMethods,
   ServiceModel as IServiceModel,
 } from "../types/service.types";
+import { ratingStatsSchema } from "./shared-schemas/ratingStats.schema";
 
 // Service pricing subdocument schema
 const servicePricingSchema = new Schema(
@@ -137,6 +138,12 @@ const serviceSchema = new Schema<Service, IServiceModel, ServiceMethods>(
       index: true,
     },
 
+    // Reviews (denormalized)
+    ratingStats: {
+      type: ratingStatsSchema,
+      default: () => ({}),
+    },
+
     // Soft delete
     deletedAt: {
       type: Date,
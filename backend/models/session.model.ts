@@ -0,0 +1,86 @@
+// models/session.model.ts
+
+import { Schema, model } from "mongoose";
+import {
+  AuthSession,
+  AuthSessionModel,
+  SessionRevokeReason,
+} from "../types/session.types";
+
+/**
+ * Auth Session Schema
+ * Refresh tokens are stored hashed; expired sessions are removed by
+ * the TTL index
+ */
+const sessionSchema = new Schema<AuthSession, AuthSessionModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    rotatedTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    device: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevokeReason),
+    },
+  },
+  {
+    timestamps: true,
+    collection: "sessions",
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.__v;
+        delete ret.refreshTokenHash;
+        delete ret.rotatedTokenHashes;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Indexes for performance
+ */
+sessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SessionModelInstance = model<AuthSession, AuthSessionModel>(
+  "Session",
+  sessionSchema
+);
+export default SessionModelInstance;
@@ -0,0 +1,24 @@
+import { Schema } from "mongoose";
+
+/**
+ * Communication Preferences Sub-Schema
+ * Channels a user wants notifications on
+ * Shared across: ClientProfile, ProviderProfile models
+ */
+export const communicationPreferencesSchema = new Schema(
+  {
+    emailNotifications: {
+      type: Boolean,
+      default: true,
+    },
+    smsNotifications: {
+      type: Boolean,
+      default: true,
+    },
+    pushNotifications: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: false }
+);
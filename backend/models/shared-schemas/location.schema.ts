@@ -1,4 +1,5 @@
 import { Schema } from "mongoose";
+import { Coordinates, GeoPoint } from "../../types/base.types";
 
 /**
  * Coordinates Sub-Schema
@@ -17,6 +18,34 @@ const coordinatesSchema = new Schema(
   { _id: false }
 );
 
+/**
+ * GeoJSON Point Sub-Schema
+ * Coordinates are [longitude, latitude] as required by 2dsphere indexes
+ */
+const geoPointSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ["Point"],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Build a GeoJSON point from lat/lng coordinates
+ */
+export const toGeoPoint = (coordinates: Coordinates): GeoPoint => ({
+  type: "Point",
+  coordinates: [coordinates.longitude, coordinates.latitude],
+});
+
 /**
  * User Location Sub-Schema
  */
@@ -58,6 +87,10 @@ export const userLocationSchema = new Schema(
     gpsCoordinates: {
       type: coordinatesSchema,
     },
+    // Derived from gpsCoordinates for geospatial queries
+    geoPoint: {
+      type: geoPointSchema,
+    },
     isAddressVerified: {
       type: Boolean,
       default: false,
@@ -69,3 +102,19 @@ export const userLocationSchema = new Schema(
   },
   { timestamps: true, _id: false }
 );
+
+/**
+ * Keep geoPoint in step with gpsCoordinates
+ */
+userLocationSchema.pre("validate", function () {
+  const coordinates = this.gpsCoordinates;
+
+  if (
+    typeof coordinates?.latitude === "number" &&
+    typeof coordinates?.longitude === "number"
+  ) {
+    this.set("geoPoint", toGeoPoint(coordinates));
+  } else {
+    this.set("geoPoint", undefined);
+  }
+});
@@ -0,0 +1,30 @@
+import { Schema } from "mongoose";
+
+/**
+ * Rating Stats Sub-Schema
+ * Denormalized review aggregates, kept in sync by the review service
+ * Shared across: ProviderProfile, ClientProfile, Service models
+ */
+export const ratingStatsSchema = new Schema(
+  {
+    averageRating: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 5,
+    },
+    totalReviews: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    distribution: {
+      1: { type: Number, default: 0 },
+      2: { type: Number, default: 0 },
+      3: { type: Number, default: 0 },
+      4: { type: Number, default: 0 },
+      5: { type: Number, default: 0 },
+    },
+  },
+  { _id: false }
+);
@@ -8,12 +8,15 @@ import {
   TaskMethods,
   TaskStatus,
   ProviderMatchResult,
+  TaskRequestResponse,
 } from "../types/tasks.types";
 import { ProviderModel } from "./profiles/provider.model";
 import { ServiceModel } from "./service.model";
 import { UserRole } from "../types/base.types";
 import { userLocationSchema } from "./shared-schemas/location.schema";
 import { timeSlotSchema } from "./shared-schemas/timeSlotSchema";
+import { DomainEventType } from "../types/notification.types";
+import { domainEvents } from "../services/events/domain-event-bus";
 
 /**
  * Task Schedule Sub-Schema
@@ -161,6 +164,35 @@ const acceptedProviderSchema = new Schema(
   { _id: false }
 );
 
+/**
+ * Request Response Sub-Schema
+ * How long the requested provider took to accept or reject
+ */
+const requestResponseSchema = new Schema(
+  {
+    providerId: {
+      type: Schema.Types.ObjectId,
+      ref: "ProviderProfile",
+      required: true,
+    },
+    requestedAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+    response: {
+      type: String,
+      enum: Object.values(TaskRequestResponse),
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Matching Criteria Sub-Schema
  */
@@ -278,6 +310,7 @@ const taskSchema = new Schema<Task, TaskModel, TaskMethods>(
 
     // Acceptance Phase
     acceptedProvider: acceptedProviderSchema,
+    requestResponses: [requestResponseSchema],
 
     // ✅ NEW: Booking Reference (when converted)
     convertedToBookingId: {
@@ -348,6 +381,7 @@ taskSchema.index({ customerId: 1, status: 1, isDeleted: 1 });
 taskSchema.index({ status: 1, expiresAt: 1, isDeleted: 1 });
 taskSchema.index({ "customerLocation.locality": 1 });
 taskSchema.index({ "customerLocation.region": 1 });
+taskSchema.index({ "customerLocation.geoPoint": "2dsphere" });
 taskSchema.index({ "matchedProviders.providerId": 1, status: 1 });
 taskSchema.index({ "interestedProviders.providerId": 1, status: 1 });
 taskSchema.index({ "requestedProvider.providerId": 1 });
@@ -388,6 +422,47 @@ taskSchema.pre("save", async function () {
   }
 });
 
+/**
+ * Status change events
+ * Remember the stored status on load so saves can report what changed
+ */
+taskSchema.post("init", function () {
+  this.$locals.persistedStatus = this.status;
+});
+
+taskSchema.pre("save", function () {
+  if (this.isNew || this.isModified("status")) {
+    this.$locals.statusChanged = this.$locals.persistedStatus !== this.status;
+  }
+});
+
+taskSchema.post("save", function (doc) {
+  const fromStatus = doc.$locals.persistedStatus as TaskStatus | undefined;
+  const changed = doc.$locals.statusChanged;
+
+  doc.$locals.persistedStatus = doc.status;
+  doc.$locals.statusChanged = false;
+
+  if (!changed) return;
+
+  domainEvents.publish(DomainEventType.TASK_STATUS_CHANGED, {
+    taskId: doc._id,
+    taskTitle: doc.title,
+    customerId: (doc.customerId as any)?._id ?? doc.customerId,
+    fromStatus,
+    toStatus: doc.status,
+    matchedProviderIds: (doc.matchedProviders || []).map(
+      (m) => (m.providerId as any)?._id ?? m.providerId
+    ),
+    requestedProviderId:
+      (doc.requestedProvider?.providerId as any)?._id ??
+      doc.requestedProvider?.providerId,
+    acceptedProviderId:
+      (doc.acceptedProvider?.providerId as any)?._id ??
+      doc.acceptedProvider?.providerId,
+  });
+});
+
 /**
  * Instance Methods
  */
@@ -808,6 +883,29 @@ taskSchema.methods.requestProvider = function (
   return this.save();
 };
 
+/**
+ * Record the requested provider's answer (caller saves)
+ */
+taskSchema.methods.recordRequestResponse = function (
+  this: HydratedDocument<Task, TaskMethods>,
+  response: TaskRequestResponse
+) {
+  if (!this.requestedProvider) {
+    return;
+  }
+
+  if (!this.requestResponses) {
+    this.requestResponses = [];
+  }
+
+  this.requestResponses.push({
+    providerId: this.requestedProvider.providerId,
+    requestedAt: this.requestedProvider.requestedAt,
+    respondedAt: new Date(),
+    response,
+  });
+};
+
 /**
  * ✅ FIXED: Accept Task - Creates Booking
  * This is the handoff point from Task (discovery) to Booking (execution)
@@ -874,6 +972,7 @@ taskSchema.methods.acceptTask = async function (
   });
 
   // ✅ Update task to CONVERTED status
+  this.recordRequestResponse(TaskRequestResponse.ACCEPTED);
   this.status = TaskStatus.CONVERTED;
   this.acceptedProvider = {
     providerId,
@@ -900,6 +999,8 @@ taskSchema.methods.rejectTask = function (
     throw new Error("Only the requested provider can reject this task");
   }
 
+  this.recordRequestResponse(TaskRequestResponse.REJECTED);
+
   if (this.matchedProviders && this.matchedProviders.length > 0) {
     this.status = TaskStatus.MATCHED;
   } else if (this.interestedProviders && this.interestedProviders.length > 0) {
@@ -8,6 +8,23 @@ const userSecuritySchema = new Schema(
     lastLogin: { type: Date },
     lastLoggedOut: { type: Date },
     passwordChangedAt: { type: Date },
+    lockedUntil: { type: Date },
+  },
+  { _id: false }
+);
+
+const userTwoFactorSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    enabledAt: { type: Date },
+    totpSecret: { type: String, select: false },
+    pendingTotpSecret: { type: String, select: false },
+    lastTotpStep: { type: Number, select: false },
+    backupCodeHashes: { type: [String], select: false },
+    emailOtpHash: { type: String, select: false },
+    emailOtpExpires: { type: Date, select: false },
+    failedAttempts: { type: Number, default: 0 },
+    lockedUntil: { type: Date },
   },
   { _id: false }
 );
@@ -117,6 +134,10 @@ const userSchema = new Schema<IUserDocument>(
       required: true,
       default: () => ({}),
     },
+    twoFactor: {
+      type: userTwoFactorSchema,
+      default: () => ({ enabled: false }),
+    },
 
     // Soft delete fields
     isDeleted: {
@@ -0,0 +1,30 @@
+// routes/audit-log.routes.ts
+import { Router } from "express";
+import { authenticateToken, requireAdmin } from "../middleware/auth.middleware";
+import {
+  listAuditLogs,
+  exportAuditLogs,
+  getEntityAuditLog,
+} from "../controllers/audit/audit-log.controller";
+
+const router = Router();
+
+// ==========================================
+// ADMIN AUDIT LOG
+// ==========================================
+
+// Search all entries: ?actorId=&action=&entityType=&entityId=&ip=&from=&to=
+router.get("/", authenticateToken, requireAdmin, listAuditLogs);
+
+// Same filters, downloaded as CSV
+router.get("/export", authenticateToken, requireAdmin, exportAuditLogs);
+
+// History of one record
+router.get(
+  "/:entityType/:entityId",
+  authenticateToken,
+  requireAdmin,
+  getEntityAuditLog
+);
+
+export default router;
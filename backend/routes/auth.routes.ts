@@ -9,16 +9,32 @@ import {
   requireAdmin,
   requireSuperAdmin,
 } from "../middleware/auth.middleware";
+import {
+  loginRateLimit,
+  twoFactorLoginRateLimit,
+  forgotPasswordRateLimit,
+  resendVerificationRateLimit,
+} from "../middleware/rate-limit.middleware";
 import {
   signup,
   login,
   logout,
+  verifyTwoFactorLogin,
+  sendTwoFactorEmailCode,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  confirmTwoFactorSetup,
+  regenerateBackupCodes,
+  disableTwoFactor,
   verifyEmail,
   forgotPassword,
   resetPassword,
   resendVerification,
   changePassword,
   refreshToken,
+  getMySessions,
+  revokeMySession,
+  revokeAllMySessions,
   deleteAccount,
   restoreAccount,
   verifyUser, // NEW IMPORT
@@ -35,20 +51,44 @@ const router = express.Router();
 
 // Public authentication routes
 router.post("/signup", signup);
-router.post("/login", login);
+router.post("/login", loginRateLimit, login);
 router.post("/logout", logout);
 
+// Second login step when two-factor authentication is on
+router.post("/login/2fa", twoFactorLoginRateLimit, verifyTwoFactorLogin);
+router.post(
+  "/login/2fa/email",
+  twoFactorLoginRateLimit,
+  sendTwoFactorEmailCode
+);
+
+// Two-factor enrollment
+router.get("/2fa", authenticateToken, getTwoFactorStatus);
+router.post("/2fa/totp/setup", authenticateToken, startTwoFactorSetup);
+router.post("/2fa/totp/confirm", authenticateToken, confirmTwoFactorSetup);
+router.post("/2fa/backup-codes", authenticateToken, regenerateBackupCodes);
+router.post("/2fa/disable", authenticateToken, disableTwoFactor);
+
 // Email verification routes
 router.post("/verify-email", verifyEmail);
-router.post("/resend-verification", resendVerification);
+router.post(
+  "/resend-verification",
+  resendVerificationRateLimit,
+  resendVerification
+);
 
 // Password management routes
-router.post("/forgot-password", forgotPassword);
+router.post("/forgot-password", forgotPasswordRateLimit, forgotPassword);
 router.post("/reset-password", resetPassword);
 router.post("/change-password", authenticateToken, changePassword);
 
-// Token management
-router.post("/refresh-token", authenticateToken, refreshToken);
+// Token management (uses the refresh token cookie or body, not the access token)
+router.post("/refresh-token", refreshToken);
+
+// Session management
+router.get("/sessions", authenticateToken, getMySessions);
+router.delete("/sessions", authenticateToken, revokeAllMySessions);
+router.delete("/sessions/:sessionId", authenticateToken, revokeMySession);
 
 // Account management routes
 router.delete("/account", authenticateToken, deleteAccount);
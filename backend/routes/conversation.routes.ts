@@ -0,0 +1,32 @@
+// routes/conversation.routes.ts
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth.middleware";
+import { uploadToMemory } from "../config/multer.config";
+import {
+  getMyConversations,
+  openTaskConversation,
+  getBookingConversation,
+  getConversation,
+  getMessages,
+  sendMessage,
+  markConversationRead,
+} from "../controllers/messaging/conversation.controller";
+
+const router = Router();
+
+// ==========================================
+// THREADS
+// ==========================================
+router.get("/", authenticateToken, getMyConversations);
+router.post("/tasks/:taskId", authenticateToken, openTaskConversation);
+router.get("/bookings/:bookingId", authenticateToken, getBookingConversation);
+router.get("/:conversationId", authenticateToken, getConversation);
+
+// ==========================================
+// MESSAGES (attachments as multipart `attachments` files)
+// ==========================================
+router.get("/:conversationId/messages", authenticateToken, getMessages);
+router.post("/:conversationId/messages", authenticateToken, uploadToMemory.array("attachments", 5), sendMessage);
+router.patch("/:conversationId/read", authenticateToken, markConversationRead);
+
+export default router;
@@ -0,0 +1,52 @@
+// routes/kyc.routes.ts
+import { Router } from "express";
+import { authenticateToken, requireAdmin } from "../middleware/auth.middleware";
+import {
+  getKycQueue,
+  getKycSubmission,
+  startKycReview,
+  approveKyc,
+  rejectKyc,
+  requestKycResubmission,
+} from "../controllers/kyc/kyc.controller";
+
+const router = Router();
+
+// ==========================================
+// ADMIN KYC REVIEW QUEUE
+// ==========================================
+
+// Submissions awaiting review, oldest first: ?status=&ownerType=&idType=&duplicates=true
+router.get("/", authenticateToken, requireAdmin, getKycQueue);
+
+// One submission with its ID images, duplicate matches and history
+router.get("/:submissionId", authenticateToken, requireAdmin, getKycSubmission);
+
+// Claim a submission for review
+router.post(
+  "/:submissionId/start-review",
+  authenticateToken,
+  requireAdmin,
+  startKycReview
+);
+
+// Approve and mark the profile's ID verified
+router.post(
+  "/:submissionId/approve",
+  authenticateToken,
+  requireAdmin,
+  approveKyc
+);
+
+// Refuse the document with a reason
+router.post("/:submissionId/reject", authenticateToken, requireAdmin, rejectKyc);
+
+// Ask the owner to fix their details or images and submit again
+router.post(
+  "/:submissionId/request-resubmission",
+  authenticateToken,
+  requireAdmin,
+  requestKycResubmission
+);
+
+export default router;
@@ -0,0 +1,27 @@
+// routes/notification.routes.ts
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth.middleware";
+import {
+  listNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  streamNotifications,
+} from "../controllers/notifications/notification.controller";
+
+const router = Router();
+
+// ==========================================
+// INBOX
+// ==========================================
+router.get("/", authenticateToken, listNotifications);
+router.get("/unread-count", authenticateToken, getUnreadCount);
+router.patch("/read-all", authenticateToken, markAllNotificationsRead);
+router.patch("/:notificationId/read", authenticateToken, markNotificationRead);
+
+// ==========================================
+// REAL-TIME STREAM
+// ==========================================
+router.get("/stream", authenticateToken, streamNotifications);
+
+export default router;
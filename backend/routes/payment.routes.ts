@@ -0,0 +1,34 @@
+// routes/payment.routes.ts
+import { Router } from "express";
+import { authenticateToken, requireAdmin } from "../middleware/auth.middleware";
+import { requireCustomer } from "../middleware/role.middleware";
+import {
+  payForBooking,
+  getBookingPayments,
+  handleGatewayCallback,
+  refundBooking,
+  payoutProvider,
+  getTransactions,
+} from "../controllers/payments/payment.controller";
+
+const router = Router();
+
+// ==========================================
+// GATEWAY CALLBACKS (no auth - signature verified per gateway)
+// ==========================================
+router.post("/callbacks/:gateway", handleGatewayCallback);
+
+// ==========================================
+// ADMIN ROUTES
+// ==========================================
+router.get("/admin/transactions", authenticateToken, requireAdmin, getTransactions);
+router.post("/admin/bookings/:bookingId/refund", authenticateToken, requireAdmin, refundBooking);
+router.post("/admin/bookings/:bookingId/payout", authenticateToken, requireAdmin, payoutProvider);
+
+// ==========================================
+// BOOKING PAYMENTS
+// ==========================================
+router.post("/bookings/:bookingId/pay", authenticateToken, requireCustomer, payForBooking);
+router.get("/bookings/:bookingId", authenticateToken, getBookingPayments);
+
+export default router;
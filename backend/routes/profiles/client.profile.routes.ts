@@ -35,6 +35,8 @@ import {
   updateLanguagePreference,
   // Verification Operations
   updateVerificationStatus,
+  getMyPhoneVerification,
+  requestPhoneCode,
   verifyPhone,
   verifyEmail,
   verifyId,
@@ -50,12 +52,17 @@ import {
   geocodeAddress,
   calculateDistance,
 } from "../../controllers/profiles/client/clientProfile.controller";
+import {
+  getMyClientKyc,
+  submitMyClientKyc,
+} from "../../controllers/kyc/kyc.controller";
 import {
   authenticateToken,
   requireAdmin,
   optionalAuth,
 } from "../../middleware/auth.middleware";
 import { requireCustomer } from "../../middleware/role.middleware";
+import { locationRateLimit } from "../../middleware/rate-limit.middleware";
 
 const router = Router();
 
@@ -100,28 +107,48 @@ router.get("/verified", optionalAuth, getAllVerifiedClients);
  * Enrich location data using Ghana Post GPS
  * Authenticated users only
  */
-router.post("/location/enrich", authenticateToken, enrichLocation);
+router.post(
+  "/location/enrich",
+  authenticateToken,
+  locationRateLimit,
+  enrichLocation
+);
 
 /**
  * POST /api/clients/location/verify
  * Verify location coordinates against Ghana Post GPS
  * Authenticated users only
  */
-router.post("/location/verify", authenticateToken, verifyLocation);
+router.post(
+  "/location/verify",
+  authenticateToken,
+  locationRateLimit,
+  verifyLocation
+);
 
 /**
  * POST /api/clients/location/geocode
  * Geocode an address to get coordinates
  * Authenticated users only
  */
-router.post("/location/geocode", authenticateToken, geocodeAddress);
+router.post(
+  "/location/geocode",
+  authenticateToken,
+  locationRateLimit,
+  geocodeAddress
+);
 
 /**
  * POST /api/clients/location/distance
  * Calculate distance between two coordinates
  * Authenticated users only
  */
-router.post("/location/distance", authenticateToken, calculateDistance);
+router.post(
+  "/location/distance",
+  authenticateToken,
+  locationRateLimit,
+  calculateDistance
+);
 
 // ============================================================================
 // SEARCH & DISCOVERY ROUTES (Before :clientId routes)
@@ -255,6 +282,56 @@ router.patch(
   updateMyCommunicationPreferences
 );
 
+/**
+ * GET /api/clients/me/verify-phone
+ * Verification state of current user's phone numbers
+ * Requires: Authentication + Customer role
+ */
+router.get(
+  "/me/verify-phone",
+  authenticateToken,
+  requireCustomer,
+  getMyPhoneVerification
+);
+
+/**
+ * POST /api/clients/me/verify-phone/request
+ * Text a one-time code to current user's primary or secondary number
+ * Requires: Authentication + Customer role
+ */
+router.post(
+  "/me/verify-phone/request",
+  authenticateToken,
+  requireCustomer,
+  requestPhoneCode
+);
+
+/**
+ * POST /api/clients/me/verify-phone
+ * Confirm a phone number with the code texted to it
+ * Requires: Authentication + Customer role
+ */
+router.post(
+  "/me/verify-phone",
+  authenticateToken,
+  requireCustomer,
+  verifyPhone
+);
+
+/**
+ * GET /api/clients/me/kyc
+ * Current user's ID verification status and past submissions
+ * Requires: Authentication + Customer role
+ */
+router.get("/me/kyc", authenticateToken, requireCustomer, getMyClientKyc);
+
+/**
+ * POST /api/clients/me/kyc
+ * Send current user's ID details and images for review
+ * Requires: Authentication + Customer role
+ */
+router.post("/me/kyc", authenticateToken, requireCustomer, submitMyClientKyc);
+
 // ============================================================================
 // SPECIFIC CLIENT ROUTES (by clientId or userId)
 // ============================================================================
@@ -474,18 +551,6 @@ router.patch(
   updateVerificationStatus
 );
 
-/**
- * POST /api/clients/:clientId/verify-phone
- * Verify phone number
- * Admin only
- */
-router.post(
-  "/:clientId/verify-phone",
-  authenticateToken,
-  requireAdmin,
-  verifyPhone
-);
-
 /**
  * POST /api/clients/:clientId/verify-email
  * Verify email
@@ -500,7 +565,8 @@ router.post(
 
 /**
  * POST /api/clients/:clientId/verify-id
- * Verify ID document
+ * Approve the client's pending ID submission, opening one from their
+ * current ID details if needed
  * Admin only
  */
 router.post("/:clientId/verify-id", authenticateToken, requireAdmin, verifyId);
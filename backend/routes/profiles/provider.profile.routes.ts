@@ -6,6 +6,11 @@ import {
   requireAdmin,
 } from "../../middleware/auth.middleware";
 import { requireProvider } from "../../middleware/role.middleware";
+import { getProviderReviews } from "../../controllers/reviews/review.controller";
+import {
+  getMyProviderKyc,
+  submitMyProviderKyc,
+} from "../../controllers/kyc/kyc.controller";
 
 const router = Router();
 const providerController = new ProviderProfileController();
@@ -243,6 +248,108 @@ router.patch(
   providerController.updateMyIdDetails
 );
 
+// Update which channels current provider receives notifications on
+router.patch(
+  "/me/notification-preferences",
+  authenticateToken,
+  requireProvider,
+  providerController.updateMyNotificationPreferences
+);
+
+// Where current provider's profile stands in admin review
+router.get(
+  "/me/approval",
+  authenticateToken,
+  requireProvider,
+  providerController.getMyApprovalStatus
+);
+
+// Send a rejected profile back for review after updating it
+router.post(
+  "/me/resubmit",
+  authenticateToken,
+  requireProvider,
+  providerController.resubmitMyProfile
+);
+
+// Add a blackout date (period of unavailability) for current provider
+router.post(
+  "/me/blackout-dates",
+  authenticateToken,
+  requireProvider,
+  providerController.addMyBlackoutDate
+);
+
+// Remove a blackout date from current provider
+router.delete(
+  "/me/blackout-dates/:blackoutId",
+  authenticateToken,
+  requireProvider,
+  providerController.removeMyBlackoutDate
+);
+
+// List current provider's service areas
+router.get(
+  "/me/service-areas",
+  authenticateToken,
+  requireProvider,
+  providerController.getMyServiceAreas
+);
+
+// Add a service area (radius, named regions or polygon) with its travel fee
+router.post(
+  "/me/service-areas",
+  authenticateToken,
+  requireProvider,
+  providerController.addMyServiceArea
+);
+
+// Update one of current provider's service areas
+router.patch(
+  "/me/service-areas/:areaId",
+  authenticateToken,
+  requireProvider,
+  providerController.updateMyServiceArea
+);
+
+// Remove one of current provider's service areas
+router.delete(
+  "/me/service-areas/:areaId",
+  authenticateToken,
+  requireProvider,
+  providerController.removeMyServiceArea
+);
+
+// Verification state of current provider's contact numbers
+router.get(
+  "/me/verify-phone",
+  authenticateToken,
+  requireProvider,
+  providerController.getMyPhoneVerification
+);
+
+// Text a one-time code to current provider's primary or secondary contact
+router.post(
+  "/me/verify-phone/request",
+  authenticateToken,
+  requireProvider,
+  providerController.requestMyPhoneCode
+);
+
+// Confirm a contact number with the code texted to it
+router.post(
+  "/me/verify-phone",
+  authenticateToken,
+  requireProvider,
+  providerController.verifyMyPhone
+);
+
+// Current provider's ID verification status and past submissions
+router.get("/me/kyc", authenticateToken, requireProvider, getMyProviderKyc);
+
+// Send current provider's ID details and images for review
+router.post("/me/kyc", authenticateToken, requireProvider, submitMyProviderKyc);
+
 // Restore current user's soft-deleted provider profile
 router.post(
   "/me/restore",
@@ -287,6 +394,16 @@ router.get(
   providerController.getProviderByUserId
 );
 
+// Get free booking slots for a provider (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+router.get(
+  "/:providerId/availability",
+  authenticateToken,
+  providerController.getProviderAvailability
+);
+
+// Get published reviews with star summary for a provider - public
+router.get("/:providerId/reviews", getProviderReviews);
+
 // Calculate distance to specific provider
 router.post(
   "/:providerId/distance",
@@ -0,0 +1,26 @@
+// routes/review.routes.ts
+import { Router } from "express";
+import { authenticateToken, requireAdmin } from "../middleware/auth.middleware";
+import { requireProvider } from "../middleware/role.middleware";
+import {
+  createReview,
+  respondToReview,
+  getReviewsForModeration,
+  moderateReview,
+} from "../controllers/reviews/review.controller";
+
+const router = Router();
+
+// ==========================================
+// ADMIN ROUTES
+// ==========================================
+router.get("/admin", authenticateToken, requireAdmin, getReviewsForModeration);
+router.patch("/admin/:reviewId/moderate", authenticateToken, requireAdmin, moderateReview);
+
+// ==========================================
+// BOOKING REVIEWS
+// ==========================================
+router.post("/bookings/:bookingId", authenticateToken, createReview);
+router.post("/:reviewId/response", authenticateToken, requireProvider, respondToReview);
+
+export default router;
@@ -26,6 +26,7 @@ import {
   repairServiceCoverLinks,
   bulkUpdateServices,
 } from "../controllers/service/service.controller";
+import { getServiceReviews } from "../controllers/reviews/review.controller";
 
 const router = Router();
 
@@ -44,6 +45,12 @@ router.get("/public", getPublicServices);
  */
 router.get("/slug/:slug", getServiceBySlug);
 
+/**
+ * Get published reviews for a service with star summary (public)
+ * Query params: page, limit
+ */
+router.get("/:id/reviews", getServiceReviews);
+
 // ============================================
 // authenticateTokenD ROUTES
 // ============================================
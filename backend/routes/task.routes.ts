@@ -6,6 +6,7 @@ import {
   requireCustomer,
   requireProvider,
 } from "../middleware/role.middleware";
+import { uploadToMemory } from "../config/multer.config";
 import {
   createTask,
   getMyTasks,
@@ -36,6 +37,14 @@ import {
   getPlatformStatistics,
   getFunnelAnalysis,
   getRequestedTasks,
+  getJobRuns,
+  triggerJob,
+  getBookingDispute,
+  addDisputeStatement,
+  getDisputeQueue,
+  getDisputeDetail,
+  reviewDispute,
+  resolveDispute,
 } from "../controllers/tasks/task.controller";
 
 // ✅ Import unified booking handlers
@@ -43,6 +52,11 @@ import {
   getUnifiedBookingById,
   cancelUnifiedBooking,
   validateBookingCompletion, // ✅ NEW
+  getRescheduleProposal,
+  proposeBookingReschedule,
+  acceptBookingReschedule,
+  declineBookingReschedule,
+  withdrawBookingReschedule,
 } from "../controllers/tasks/handlers/unified-booking.handler";
 
 const router = Router();
@@ -54,6 +68,8 @@ router.get("/admin/all", authenticateToken, requireAdmin, getAllTasks);
 router.get("/admin/statistics", authenticateToken, requireAdmin, getTaskStatistics);
 router.get("/admin/platform-statistics", authenticateToken, requireAdmin, getPlatformStatistics);
 router.get("/admin/funnel-analysis", authenticateToken, requireAdmin, getFunnelAnalysis);
+router.get("/admin/jobs/runs", authenticateToken, requireAdmin, getJobRuns);
+router.post("/admin/jobs/:jobName/run", authenticateToken, requireAdmin, triggerJob);
 
 // ==========================================
 // CUSTOMER DASHBOARD & HISTORY ROUTES
@@ -85,14 +101,29 @@ router.get("/bookings/my-bookings", authenticateToken, requireCustomer, getMyBoo
 // ✅ Admin booking routes
 router.get("/bookings/admin/all", authenticateToken, requireAdmin, getAllBookings);
 router.get("/bookings/admin/statistics", authenticateToken, requireAdmin, getBookingStatistics);
+router.get("/bookings/admin/disputes", authenticateToken, requireAdmin, getDisputeQueue);
+router.get("/bookings/admin/disputes/:bookingId", authenticateToken, requireAdmin, getDisputeDetail);
+router.post("/bookings/admin/disputes/:bookingId/review", authenticateToken, requireAdmin, reviewDispute);
+router.post("/bookings/admin/disputes/:bookingId/resolve", authenticateToken, requireAdmin, resolveDispute);
 
 // ✅ Unified handlers for both customers and providers
 router.get("/bookings/:bookingId", authenticateToken, getUnifiedBookingById);
 router.post("/bookings/:bookingId/cancel", authenticateToken, cancelUnifiedBooking);
 
+// Reschedule negotiation (either party proposes, the other accepts/declines)
+router.get("/bookings/:bookingId/reschedule", authenticateToken, getRescheduleProposal);
+router.post("/bookings/:bookingId/reschedule", authenticateToken, proposeBookingReschedule);
+router.delete("/bookings/:bookingId/reschedule", authenticateToken, withdrawBookingReschedule);
+router.post("/bookings/:bookingId/reschedule/accept", authenticateToken, acceptBookingReschedule);
+router.post("/bookings/:bookingId/reschedule/decline", authenticateToken, declineBookingReschedule);
+
 // ✅ NEW: Customer validation endpoint (CUSTOMER ONLY)
 router.post("/bookings/:bookingId/validate", authenticateToken, requireCustomer, validateBookingCompletion);
 
+// Dispute case (either party; evidence as multipart `evidence` files)
+router.get("/bookings/:bookingId/dispute", authenticateToken, getBookingDispute);
+router.post("/bookings/:bookingId/dispute/statements", authenticateToken, uploadToMemory.array("evidence", 5), addDisputeStatement);
+
 // ✅ Provider-only booking actions
 router.post("/bookings/:bookingId/start", authenticateToken, requireProvider, startBooking);
 router.post("/bookings/:bookingId/complete", authenticateToken, requireProvider, completeBooking);
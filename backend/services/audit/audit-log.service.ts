@@ -0,0 +1,272 @@
+// services/audit/audit-log.service.ts
+// Append-only record of admin actions and sensitive profile changes
+
+import { Types } from "mongoose";
+import AuditLogModelInstance from "../../models/audit-log.model";
+import {
+  AuditChange,
+  AuditContext,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogListResponse,
+  AuditRecordInput,
+} from "../../types/audit-log.types";
+
+// Rows in one CSV export; narrow the filters for more
+export const AUDIT_EXPORT_LIMIT = Number(
+  process.env.AUDIT_EXPORT_LIMIT || 10000
+);
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = new Set(["_id", "__v", "createdAt", "updatedAt"]);
+
+// Never written to the log
+const REDACTED_FIELD = /password|token|secret|hash|otp/i;
+
+// Only the last characters are kept
+const MASKED_FIELDS = new Set(["idNumber"]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const maskValue = (value: unknown) =>
+  typeof value === "string" && value.length > 4
+    ? `${"*".repeat(value.length - 4)}${value.slice(-4)}`
+    : value;
+
+/**
+ * Nested objects become dotted paths so a diff names the exact field
+ * that changed; arrays are compared whole
+ */
+const flatten = (
+  value: Record<string, unknown>,
+  prefix = "",
+  out: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  for (const [key, child] of Object.entries(value)) {
+    if (!prefix && IGNORED_FIELDS.has(key)) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      flatten(child, path, out);
+    } else {
+      out[path] = child;
+    }
+  }
+  return out;
+};
+
+const sanitize = (field: string, value: unknown) => {
+  const key = field.split(".").pop() as string;
+  if (value === undefined) return undefined;
+  if (REDACTED_FIELD.test(key)) return "[redacted]";
+  if (MASKED_FIELDS.has(key)) return maskValue(value);
+  return value;
+};
+
+/**
+ * Quote a CSV cell, and defuse values a spreadsheet would run as a formula
+ */
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : value instanceof Types.ObjectId
+      ? value.toString()
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "actorId",
+  "actorRole",
+  "action",
+  "entityType",
+  "entityId",
+  "changes",
+  "metadata",
+  "ip",
+  "userAgent",
+] as const;
+
+export class AuditLogService {
+  /**
+   * Plain copy of a document as it is now. Take one before changing a
+   * document in place, since the document itself will be mutated.
+   */
+  snapshot(doc: any): Record<string, any> | null {
+    if (!doc) return null;
+    const plain =
+      typeof doc.toObject === "function"
+        ? doc.toObject({ depopulate: true, virtuals: false })
+        : doc;
+    return JSON.parse(JSON.stringify(plain));
+  }
+
+  /**
+   * Field-level differences between two snapshots
+   */
+  diff(
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined,
+    fields?: string[]
+  ): AuditChange[] {
+    const flatBefore = flatten(this.snapshot(before) || {});
+    const flatAfter = flatten(this.snapshot(after) || {});
+    const paths = new Set([
+      ...Object.keys(flatBefore),
+      ...Object.keys(flatAfter),
+    ]);
+
+    const changes: AuditChange[] = [];
+    for (const path of paths) {
+      if (fields && !fields.includes(path.split(".")[0])) continue;
+
+      const previous = flatBefore[path];
+      const next = flatAfter[path];
+      if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+      changes.push({
+        field: path,
+        before: sanitize(path, previous),
+        after: sanitize(path, next),
+      });
+    }
+
+    return changes.sort((a, b) => a.field.localeCompare(b.field));
+  }
+
+  /**
+   * Write an entry. Never throws: a failed write is logged rather than
+   * undoing the change it describes.
+   */
+  async record(
+    context: AuditContext | undefined,
+    input: AuditRecordInput
+  ): Promise<void> {
+    try {
+      await AuditLogModelInstance.create({
+        actorId:
+          context?.actorId && Types.ObjectId.isValid(context.actorId)
+            ? new Types.ObjectId(context.actorId)
+            : undefined,
+        actorRole: context?.actorRole,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId.toString(),
+        changes: this.diff(input.before, input.after, input.fields),
+        metadata: input.metadata,
+        ip: context?.ip,
+        userAgent: context?.userAgent?.slice(0, 500),
+      });
+    } catch (error) {
+      console.error(
+        `Failed to write audit log entry for ${input.action} on ${input.entityType} ${input.entityId}:`,
+        error
+      );
+    }
+  }
+
+  private buildQuery(filters: AuditLogFilters): Record<string, any> {
+    const query: Record<string, any> = {};
+
+    if (filters.actorId) query.actorId = new Types.ObjectId(filters.actorId);
+    if (filters.actions?.length) query.action = { $in: filters.actions };
+    if (filters.entityType) query.entityType = filters.entityType;
+    if (filters.entityId) query.entityId = filters.entityId;
+    if (filters.ip) query.ip = filters.ip;
+
+    if (filters.from || filters.to) {
+      query.createdAt = {};
+      if (filters.from) query.createdAt.$gte = filters.from;
+      if (filters.to) query.createdAt.$lte = filters.to;
+    }
+
+    return query;
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  async list(
+    filters: AuditLogFilters,
+    options: { page: number; limit: number }
+  ): Promise<AuditLogListResponse> {
+    const { page, limit } = options;
+    const query = this.buildQuery(filters);
+
+    const [entries, total] = await Promise.all([
+      AuditLogModelInstance.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("actorId", "name email"),
+      AuditLogModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * History of a single record, newest first
+   */
+  async listForEntity(
+    entityType: AuditEntityType,
+    entityId: string,
+    options: { page: number; limit: number }
+  ): Promise<AuditLogListResponse> {
+    return this.list({ entityType, entityId }, options);
+  }
+
+  /**
+   * Entries matching the filters as CSV, newest first, capped at
+   * AUDIT_EXPORT_LIMIT rows
+   */
+  async exportCsv(filters: AuditLogFilters): Promise<string> {
+    const entries = await AuditLogModelInstance.find(this.buildQuery(filters))
+      .sort({ createdAt: -1 })
+      .limit(AUDIT_EXPORT_LIMIT)
+      .lean<AuditLogEntry[]>();
+
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) => {
+        if (column === "changes") {
+          return csvCell(
+            entry.changes
+              .map(
+                (change) =>
+                  `${change.field}: ${JSON.stringify(
+                    change.before ?? null
+                  )} -> ${JSON.stringify(change.after ?? null)}`
+              )
+              .join("; ")
+          );
+        }
+        return csvCell(entry[column]);
+      }).join(",")
+    );
+
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -12,6 +12,15 @@ import {
   ResendVerificationRequestBody,
 } from "../types/user.types";
 import { SystemRole, AuthProvider } from "../types/base.types";
+import { SessionRevokeReason } from "../types/session.types";
+import { sessionService } from "./session.service";
+import { loginAttemptService } from "./rate-limit/login-attempt.service";
+import { auditLogService } from "./audit/audit-log.service";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../types/audit-log.types";
 import {
   getVerificationEmailTemplate,
   getResetPasswordEmailTemplate,
@@ -40,6 +49,7 @@ export const getUserResponse = (user: any) => ({
   avatar: user.avatar,
   lastLogin: user.security.lastLogin,
   security: user.security,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
   createdAt: user.createdAt,
 });
 
@@ -98,7 +108,7 @@ export class AuthService {
     return newUser;
   }
 
-  async login(data: LoginRequestBody) {
+  async login(data: LoginRequestBody, ip?: string) {
     const { email, password } = data;
 
     // Find user with password field
@@ -106,20 +116,27 @@ export class AuthService {
       "+password"
     );
 
+    // Throttled IPs and locked accounts don't get a password check
+    await loginAttemptService.assertCanAttempt(ip, user);
+
     if (
       !user ||
       user.authProvider !== AuthProvider.CREDENTIALS ||
       !user.password
     ) {
+      await loginAttemptService.recordFailure(email, ip);
       throw new Error("INVALID_CREDENTIALS");
     }
 
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await loginAttemptService.recordFailure(email, ip, user);
       throw new Error("INVALID_CREDENTIALS");
     }
 
+    await loginAttemptService.recordSuccess(email);
+
     // Check email verification
     if (!user.isEmailVerified && !user.isSuperAdmin) {
       const error: any = new Error("EMAIL_NOT_VERIFIED");
@@ -129,7 +146,7 @@ export class AuthService {
 
     // Update last login
     user.security.lastLogin = new Date();
-    updateUserSecurity(user, { lastLoginAt: new Date() });
+    updateUserSecurity(user, { lastLoginAt: new Date(), lockedUntil: undefined });
     await user.save();
 
     return user;
@@ -268,13 +285,20 @@ export class AuthService {
     updateUserSecurity(user, { passwordChangedAt: new Date() });
     await user.save();
 
+    // Whoever had the old password is signed out everywhere
+    await sessionService.revokeAllSessions(
+      user._id,
+      SessionRevokeReason.PASSWORD_CHANGED
+    );
+
     return user;
   }
 
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    currentSessionId?: string
   ) {
     const user = await User.findById(userId).select("+password");
     if (!user) {
@@ -300,6 +324,13 @@ export class AuthService {
     updateUserSecurity(user, { passwordChangedAt: new Date() });
     await user.save();
 
+    // Sign out every other device; the one making the change stays in
+    await sessionService.revokeAllSessions(
+      user._id,
+      SessionRevokeReason.PASSWORD_CHANGED,
+      currentSessionId
+    );
+
     return user;
   }
 
@@ -320,6 +351,10 @@ export class AuthService {
     }
 
     await user.softDelete();
+    await sessionService.revokeAllSessions(
+      user._id,
+      SessionRevokeReason.ACCOUNT_DELETED
+    );
     return user;
   }
 
@@ -346,6 +381,10 @@ export class AuthService {
     }
 
     await user.deleteOne();
+    await sessionService.revokeAllSessions(
+      user._id,
+      SessionRevokeReason.ACCOUNT_DELETED
+    );
     return user;
   }
 
@@ -390,7 +429,11 @@ export class AuthService {
     };
   }
 
-  async updateUserRole(userId: string, systemRole: SystemRole) {
+  async updateUserRole(
+    userId: string,
+    systemRole: SystemRole,
+    audit?: AuditContext
+  ) {
     if (!Object.values(SystemRole).includes(systemRole)) {
       throw new Error("INVALID_ROLE");
     }
@@ -400,9 +443,19 @@ export class AuthService {
       throw new Error("USER_NOT_FOUND");
     }
 
+    const before = auditLogService.snapshot(user);
     user.systemRole = systemRole;
     await user.save();
 
+    await auditLogService.record(audit, {
+      action: AuditAction.USER_ROLE_CHANGED,
+      entityType: AuditEntityType.USER,
+      entityId: user._id,
+      before,
+      after: user,
+      fields: ["systemRole", "isAdmin", "isSuperAdmin"],
+    });
+
     return user;
   }
 
@@ -414,17 +467,28 @@ export class AuthService {
     return user;
   }
 
-  async deleteUser(userId: string, adminId?: string) {
+  async deleteUser(userId: string, adminId?: string, audit?: AuditContext) {
     const user = await User.findById(userId);
     if (!user) {
       throw new Error("USER_NOT_FOUND");
     }
 
+    const before = auditLogService.snapshot(user);
     await user.softDelete(adminId);
+
+    await auditLogService.record(audit, {
+      action: AuditAction.USER_DELETED,
+      entityType: AuditEntityType.USER,
+      entityId: user._id,
+      before,
+      after: user,
+      fields: ["isDeleted", "deletedAt", "deletedBy"],
+    });
+
     return user;
   }
 
-  async restoreUser(userId: string) {
+  async restoreUser(userId: string, audit?: AuditContext) {
     const user = await User.findById(userId, null, {
       includeSoftDeleted: true,
     });
@@ -433,7 +497,18 @@ export class AuthService {
       throw new Error("DELETED_USER_NOT_FOUND");
     }
 
+    const before = auditLogService.snapshot(user);
     await user.restore();
+
+    await auditLogService.record(audit, {
+      action: AuditAction.USER_RESTORED,
+      entityType: AuditEntityType.USER,
+      entityId: user._id,
+      before,
+      after: user,
+      fields: ["isDeleted", "deletedAt", "deletedBy"],
+    });
+
     return user;
   }
 }
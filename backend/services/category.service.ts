@@ -8,6 +8,12 @@ import {
   CategoryObject,
 } from "../types/category.types";
 import { ImageLinkingService } from "../utils/controller-utils/ImageLinkingService";
+import { auditLogService } from "./audit/audit-log.service";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../types/audit-log.types";
 
 export class CategoryService {
   private fileService: MongoDBFileService;
@@ -24,7 +30,8 @@ export class CategoryService {
    */
   async createCategory(
     categoryData: Partial<Category>,
-    createdBy?: string
+    createdBy?: string,
+    audit?: AuditContext
   ): Promise<Category> {
     try {
       const { catName, slug, parentCategoryId } = categoryData;
@@ -97,6 +104,13 @@ export class CategoryService {
         lastModifiedBy: createdBy ? new Types.ObjectId(createdBy) : undefined,
       });
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_CREATED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        after: category,
+      });
+
       // 5. Link orphaned cover image
       const linkResult = await this.imageLinkingService.linkOrphanedImage(
         "category",
@@ -300,7 +314,8 @@ export class CategoryService {
   async updateCategory(
     categoryId: string,
     updates: Partial<Category>,
-    lastModifiedBy?: string
+    lastModifiedBy?: string,
+    audit?: AuditContext
   ): Promise<Category | null> {
     try {
       if (!Types.ObjectId.isValid(categoryId)) {
@@ -348,6 +363,11 @@ export class CategoryService {
         }
       }
 
+      const before = await CategoryModel.findOne({
+        _id: new Types.ObjectId(categoryId),
+        isDeleted: false,
+      }).lean();
+
       const category = await CategoryModel.findOneAndUpdate(
         {
           _id: new Types.ObjectId(categoryId),
@@ -366,6 +386,14 @@ export class CategoryService {
         throw new Error("Category not found");
       }
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_UPDATED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        before,
+        after: category,
+      });
+
       return category as Category;
     } catch (error) {
       throw error;
@@ -407,7 +435,8 @@ export class CategoryService {
    */
   async deleteCategory(
     categoryId: string,
-    deletedBy?: string
+    deletedBy?: string,
+    audit?: AuditContext
   ): Promise<boolean> {
     try {
       if (!Types.ObjectId.isValid(categoryId)) {
@@ -426,6 +455,8 @@ export class CategoryService {
       // Get all subcategories recursively
       const subcategoryIds = await this.getAllSubcategoryIds(categoryId);
 
+      const before = auditLogService.snapshot(category);
+
       // Soft delete the category and all subcategories
       await Promise.all([
         category.softDelete(
@@ -440,6 +471,17 @@ export class CategoryService {
         ),
       ]);
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_DELETED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        before,
+        after: category,
+        metadata: {
+          subcategoryIds: subcategoryIds.map((id) => id.toString()),
+        },
+      });
+
       return true;
     } catch (error) {
       throw error;
@@ -470,7 +512,10 @@ export class CategoryService {
   /**
    * Restore soft deleted category
    */
-  async restoreCategory(categoryId: string): Promise<Category | null> {
+  async restoreCategory(
+    categoryId: string,
+    audit?: AuditContext
+  ): Promise<Category | null> {
     try {
       if (!Types.ObjectId.isValid(categoryId)) {
         throw new Error("Invalid category ID");
@@ -500,8 +545,17 @@ export class CategoryService {
         }
       }
 
+      const before = auditLogService.snapshot(category);
       await category.restore();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_RESTORED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        before,
+        after: category,
+      });
+
       return (await CategoryModel.findById(
         categoryId
       ).lean()) as Category | null;
@@ -514,7 +568,10 @@ export class CategoryService {
    * Permanently delete category (hard delete)
    * WARNING: This action cannot be undone
    */
-  async permanentlyDeleteCategory(categoryId: string): Promise<boolean> {
+  async permanentlyDeleteCategory(
+    categoryId: string,
+    audit?: AuditContext
+  ): Promise<boolean> {
     try {
       if (!Types.ObjectId.isValid(categoryId)) {
         throw new Error("Invalid category ID");
@@ -540,6 +597,13 @@ export class CategoryService {
 
       await CategoryModel.deleteOne({ _id: category._id });
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_PERMANENTLY_DELETED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        before: category,
+      });
+
       return true;
     } catch (error) {
       throw error;
@@ -968,7 +1032,8 @@ export class CategoryService {
   async bulkUpdateCategories(
     categoryIds: string[],
     updates: Partial<Category>,
-    lastModifiedBy?: string
+    lastModifiedBy?: string,
+    audit?: AuditContext
   ): Promise<{ modifiedCount: number }> {
     try {
       const objectIds = categoryIds.map((id) => new Types.ObjectId(id));
@@ -980,12 +1045,24 @@ export class CategoryService {
           : undefined,
       };
 
-      const result = await CategoryModel.updateMany(
-        {
-          _id: { $in: objectIds },
-          isDeleted: false,
-        },
-        updateData
+      const filter = { _id: { $in: objectIds }, isDeleted: false };
+      const before = await CategoryModel.find(filter).lean();
+      const result = await CategoryModel.updateMany(filter, updateData);
+      const after = await CategoryModel.find({
+        _id: { $in: before.map((category) => category._id) },
+      }).lean();
+
+      await Promise.all(
+        before.map((previous) =>
+          auditLogService.record(audit, {
+            action: AuditAction.CATEGORY_UPDATED,
+            entityType: AuditEntityType.CATEGORY,
+            entityId: previous._id,
+            before: previous,
+            after: after.find((category) => category._id.equals(previous._id)),
+            metadata: { bulk: true },
+          })
+        )
       );
 
       return { modifiedCount: result.modifiedCount };
@@ -999,7 +1076,8 @@ export class CategoryService {
    */
   async toggleActiveStatus(
     categoryId: string,
-    lastModifiedBy?: string
+    lastModifiedBy?: string,
+    audit?: AuditContext
   ): Promise<Category | null> {
     try {
       if (!Types.ObjectId.isValid(categoryId)) {
@@ -1015,6 +1093,7 @@ export class CategoryService {
         throw new Error("Category not found");
       }
 
+      const before = auditLogService.snapshot(category);
       category.isActive = !category.isActive;
       category.lastModifiedBy = lastModifiedBy
         ? new Types.ObjectId(lastModifiedBy)
@@ -1022,6 +1101,14 @@ export class CategoryService {
 
       await category.save();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CATEGORY_UPDATED,
+        entityType: AuditEntityType.CATEGORY,
+        entityId: category._id,
+        before,
+        after: category,
+      });
+
       return category.toObject() as Category;
     } catch (error) {
       throw error;
@@ -0,0 +1,63 @@
+// services/events/domain-event-bus.ts
+// In-process publish/subscribe for task and booking events
+
+import { EventEmitter } from "events";
+import {
+  DomainEvent,
+  DomainEventListener,
+  DomainEventPayloads,
+  DomainEventType,
+} from "../../types/notification.types";
+
+/**
+ * Typed event bus
+ *
+ * Publishing never throws or waits: listeners run after the current
+ * request's work, and a failing listener is logged without affecting
+ * the publisher or other listeners.
+ */
+export class DomainEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(50);
+  }
+
+  subscribe<E extends DomainEventType>(
+    type: E,
+    listener: DomainEventListener<E>
+  ): () => void {
+    const wrapped = (event: DomainEvent<E>) => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch((error) =>
+          console.error(`Domain event listener failed for ${type}:`, error)
+        );
+    };
+
+    this.emitter.on(type, wrapped);
+    return () => this.emitter.off(type, wrapped);
+  }
+
+  publish<E extends DomainEventType>(
+    type: E,
+    payload: DomainEventPayloads[E]
+  ): void {
+    const event: DomainEvent<E> = { type, payload, occurredAt: new Date() };
+
+    setImmediate(() => {
+      try {
+        this.emitter.emit(type, event);
+      } catch (error) {
+        console.error(`Failed to publish domain event ${type}:`, error);
+      }
+    });
+  }
+
+  removeAllListeners(): void {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// Export singleton instance
+export const domainEvents = new DomainEventBus();
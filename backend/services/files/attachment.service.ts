@@ -0,0 +1,570 @@
+// services/files/attachment.service.ts
+// Files attached to an entity under a label (profile picture, gallery,
+// ID images...), following the label's policy in ATTACHMENT_POLICIES
+
+import { Types } from "mongoose";
+import { FileModel } from "../../models/files.model";
+import ProfileModel from "../../models/profiles/userProfile.model";
+import { ServiceModel } from "../../models/service.model";
+import { AttachmentActor, File, FileStatus } from "../../types/files.types";
+import {
+  AttachmentPolicy,
+  EntityType,
+  getAttachmentPolicy,
+  ImageLinkingService,
+  isMimeTypeAllowed,
+} from "../../utils/controller-utils/ImageLinkingService";
+import { MongoDBFileService } from "./mongodb.files.service";
+import { storageService } from "./storage/storage.service";
+
+export interface AttachmentUploadInput {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface AttachmentTarget {
+  entityType: string;
+  entityId: string;
+  label: string;
+}
+
+const formatMB = (bytes: number) => `${bytes / (1024 * 1024)}MB`;
+
+export class AttachmentService {
+  private fileService: MongoDBFileService;
+  private imageLinkingService: ImageLinkingService;
+
+  constructor() {
+    this.fileService = new MongoDBFileService();
+    this.imageLinkingService = new ImageLinkingService();
+  }
+
+  /**
+   * Policy for the target; throws if the label isn't registered for
+   * the entity type or the entity ID is malformed
+   */
+  getPolicy(target: AttachmentTarget): AttachmentPolicy {
+    const policy = getAttachmentPolicy(target.entityType, target.label);
+    if (!policy) {
+      throw new Error(
+        `Attachment type ${target.entityType}/${target.label} not found`
+      );
+    }
+
+    if (!Types.ObjectId.isValid(target.entityId)) {
+      throw new Error("Invalid entity ID");
+    }
+
+    return policy;
+  }
+
+  /**
+   * User who owns an entity. Profiles that don't exist yet are keyed by
+   * their user's ID, so an unknown provider or client ID is taken as one.
+   */
+  async getOwnerUserId(
+    entityType: EntityType,
+    entityId: string
+  ): Promise<string | null> {
+    switch (entityType) {
+      case "user":
+        return entityId;
+      case "provider":
+      case "client": {
+        const entity = await this.imageLinkingService.findEntity(
+          entityType,
+          entityId
+        );
+        if (!entity) return entityId;
+
+        const profile = await ProfileModel.findById(entity.profile)
+          .select("userId")
+          .lean();
+        return profile?.userId?.toString() ?? null;
+      }
+      case "service": {
+        const service = await ServiceModel.findOne({
+          _id: new Types.ObjectId(entityId),
+          deletedAt: null,
+        })
+          .select("providerId submittedBy")
+          .lean();
+        if (!service) return null;
+
+        if (service.providerId) {
+          return this.getOwnerUserId("provider", service.providerId.toString());
+        }
+        return service.submittedBy?.toString() ?? null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  async canManage(
+    policy: AttachmentPolicy,
+    entityId: string,
+    actor: AttachmentActor
+  ): Promise<boolean> {
+    if (actor.isAdmin) return true;
+    if (!policy.ownerOnly) return false;
+
+    const ownerId = await this.getOwnerUserId(policy.entityType, entityId);
+    return !!ownerId && ownerId === actor.userId;
+  }
+
+  private async assertCanManage(
+    policy: AttachmentPolicy,
+    entityId: string,
+    actor: AttachmentActor
+  ): Promise<void> {
+    if (!(await this.canManage(policy, entityId, actor))) {
+      throw new Error("Not allowed to manage these attachments");
+    }
+  }
+
+  /**
+   * Public attachments can be read by anyone; private ones only by
+   * those who manage them
+   */
+  private async assertCanView(
+    policy: AttachmentPolicy,
+    entityId: string,
+    actor: AttachmentActor | null
+  ): Promise<void> {
+    if (policy.isPublic) return;
+    if (!actor || !(await this.canManage(policy, entityId, actor))) {
+      throw new Error("Not allowed to view these attachments");
+    }
+  }
+
+  private findFiles(
+    policy: AttachmentPolicy,
+    entityId: string,
+    status: FileStatus
+  ) {
+    return FileModel.find({
+      entityType: policy.entityType,
+      entityId: new Types.ObjectId(entityId),
+      label: policy.label,
+      status,
+      // Archiving sets deletedAt, which finds otherwise skip
+      deletedAt: { $exists: status === "archived" },
+    });
+  }
+
+  /**
+   * A file under the label, active or archived unless `status` narrows it
+   */
+  private async findFile(
+    policy: AttachmentPolicy,
+    entityId: string,
+    fileId: string,
+    status?: "active" | "archived"
+  ) {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new Error("Invalid file ID");
+    }
+
+    const findWithStatus = (fileStatus: "active" | "archived") =>
+      FileModel.findOne({
+        _id: new Types.ObjectId(fileId),
+        entityType: policy.entityType,
+        entityId: new Types.ObjectId(entityId),
+        label: policy.label,
+        status: fileStatus,
+        deletedAt: { $exists: fileStatus === "archived" },
+      });
+
+    const file = status
+      ? await findWithStatus(status)
+      : (await findWithStatus("active")) ?? (await findWithStatus("archived"));
+
+    if (!file) throw new Error("File not found");
+    return file;
+  }
+
+  private validateUploads(
+    policy: AttachmentPolicy,
+    uploads: AttachmentUploadInput[]
+  ): void {
+    if (uploads.length === 0) {
+      throw new Error("Invalid upload: no files received");
+    }
+
+    for (const upload of uploads) {
+      if (!isMimeTypeAllowed(policy, upload.mimeType)) {
+        throw new Error(
+          `Invalid file type ${upload.mimeType} for ${policy.label}. Allowed: ${policy.allowedMimeTypes.join(", ")}`
+        );
+      }
+
+      if (upload.size > policy.maxSize) {
+        throw new Error(
+          `Invalid file size: ${upload.originalName} must be under ${formatMB(
+            policy.maxSize
+          )}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Link active files to the entity if it exists. A single-file label
+   * archives the file they replace.
+   */
+  private async attach(
+    policy: AttachmentPolicy,
+    entityId: string,
+    files: File[],
+    modifiedBy?: string
+  ): Promise<boolean> {
+    if (files.length === 0) return false;
+
+    if (policy.maxCount === 1) {
+      const attached = new Set(files.map((file) => file._id.toString()));
+      const previous = await this.findFiles(policy, entityId, "active");
+
+      for (const file of previous) {
+        if (attached.has(file._id.toString())) continue;
+
+        await this.imageLinkingService.unlinkAttachment(
+          policy,
+          entityId,
+          file._id,
+          modifiedBy
+        );
+        await file.archive();
+      }
+    }
+
+    let linked = false;
+    for (const file of files) {
+      const result = await this.imageLinkingService.linkAttachment(
+        policy,
+        entityId,
+        file._id,
+        modifiedBy
+      );
+      linked = result.linked;
+    }
+
+    return linked;
+  }
+
+  /**
+   * Store uploads and link them to the entity if it exists. A
+   * single-file label archives the file it replaces; other labels
+   * refuse uploads past their limit. Quarantined uploads count toward
+   * the limit but are only linked once they pass a rescan.
+   */
+  async upload(
+    target: AttachmentTarget,
+    uploads: AttachmentUploadInput[],
+    actor: AttachmentActor
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+    this.validateUploads(policy, uploads);
+
+    const [active, quarantined] = await Promise.all([
+      this.findFiles(policy, target.entityId, "active"),
+      this.findFiles(policy, target.entityId, "quarantined"),
+    ]);
+    const attachedCount = active.length + quarantined.length;
+    const replacing = policy.maxCount === 1;
+
+    if (replacing ? uploads.length > 1 : attachedCount + uploads.length > policy.maxCount) {
+      throw new Error(
+        `Cannot attach more than ${policy.maxCount} ${policy.label} file(s); ${attachedCount} already attached`
+      );
+    }
+
+    const files: File[] = [];
+    for (const upload of uploads) {
+      const stored = await storageService.upload(upload.buffer, {
+        label: policy.label,
+        folder: `${policy.folderPrefix}/${target.entityId}/${policy.label}`,
+        fileName: upload.originalName,
+        contentType: upload.mimeType,
+        isPublic: policy.isPublic,
+        uploaderId: actor.userId,
+      });
+
+      const tags = [policy.entityType, policy.label, target.entityId];
+      files.push(
+        await this.fileService.createFile({
+          uploaderId: new Types.ObjectId(actor.userId),
+          ...storageService.toFileFields(stored),
+          fileName: upload.originalName,
+          tags,
+          description: `${policy.entityType} ${policy.label}`,
+          entityType: policy.entityType,
+          entityId: new Types.ObjectId(target.entityId),
+          label: policy.label,
+        })
+      );
+    }
+
+    const linked = await this.attach(
+      policy,
+      target.entityId,
+      files.filter((file) => file.status === "active"),
+      actor.userId
+    );
+
+    return { files, linked };
+  }
+
+  /**
+   * Link a file that has just left quarantine, as upload would have
+   */
+  async activate(file: File): Promise<boolean> {
+    const policy =
+      file.entityType &&
+      file.label &&
+      getAttachmentPolicy(file.entityType, file.label);
+    if (!policy || !file.entityId) return false;
+
+    return this.attach(
+      policy,
+      file.entityId.toString(),
+      [file],
+      file.uploaderId?.toString()
+    );
+  }
+
+  /**
+   * Active files with the label's limits
+   */
+  async list(target: AttachmentTarget, actor: AttachmentActor | null) {
+    const policy = this.getPolicy(target);
+    await this.assertCanView(policy, target.entityId, actor);
+
+    const files = await this.findFiles(policy, target.entityId, "active").sort(
+      { uploadedAt: -1 }
+    );
+
+    return {
+      files,
+      policy: {
+        maxCount: policy.maxCount,
+        allowedMimeTypes: policy.allowedMimeTypes,
+        maxSize: policy.maxSize,
+        isPublic: policy.isPublic,
+      },
+    };
+  }
+
+  async get(
+    target: AttachmentTarget,
+    fileId: string,
+    actor: AttachmentActor | null
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanView(policy, target.entityId, actor);
+
+    const file = await this.findFile(policy, target.entityId, fileId, "active");
+    return file.markAsAccessed();
+  }
+
+  /**
+   * Archived files, most recently archived first
+   */
+  async getHistory(
+    target: AttachmentTarget,
+    actor: AttachmentActor,
+    pagination: { limit: number; skip: number }
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const [history, total] = await Promise.all([
+      this.findFiles(policy, target.entityId, "archived")
+        .sort({ deletedAt: -1 })
+        .skip(pagination.skip)
+        .limit(pagination.limit),
+      FileModel.countDocuments({
+        entityType: policy.entityType,
+        entityId: new Types.ObjectId(target.entityId),
+        label: policy.label,
+        status: "archived",
+        deletedAt: { $exists: true },
+      }),
+    ]);
+
+    return { history, total };
+  }
+
+  async updateMetadata(
+    target: AttachmentTarget,
+    fileId: string,
+    updates: { description?: string; tags?: string[] },
+    actor: AttachmentActor
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const file = await this.findFile(policy, target.entityId, fileId, "active");
+    if (updates.description !== undefined) file.description = updates.description;
+    if (updates.tags !== undefined) file.tags = updates.tags;
+
+    return file.save();
+  }
+
+  /**
+   * Unlink a file and keep it in history
+   */
+  async archive(
+    target: AttachmentTarget,
+    fileId: string,
+    actor: AttachmentActor
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const file = await this.findFile(policy, target.entityId, fileId, "active");
+    await this.imageLinkingService.unlinkAttachment(
+      policy,
+      target.entityId,
+      file._id,
+      actor.userId
+    );
+
+    return file.archive();
+  }
+
+  /**
+   * Bring an archived file back. For single-file labels the current
+   * file is archived in its place.
+   */
+  async restore(
+    target: AttachmentTarget,
+    fileId: string,
+    actor: AttachmentActor
+  ) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const file = await this.findFile(
+      policy,
+      target.entityId,
+      fileId,
+      "archived"
+    );
+    const active = await this.findFiles(policy, target.entityId, "active");
+
+    if (policy.maxCount === 1) {
+      for (const current of active) {
+        await this.imageLinkingService.unlinkAttachment(
+          policy,
+          target.entityId,
+          current._id,
+          actor.userId
+        );
+        await current.archive();
+      }
+    } else if (active.length >= policy.maxCount) {
+      throw new Error(
+        `Cannot restore: ${policy.label} already has ${policy.maxCount} file(s)`
+      );
+    }
+
+    const restored = await file.restore();
+    const { linked } = await this.imageLinkingService.linkAttachment(
+      policy,
+      target.entityId,
+      restored._id,
+      actor.userId
+    );
+
+    return { file: restored, linked };
+  }
+
+  /**
+   * Delete a file's bytes and record for good
+   */
+  async delete(
+    target: AttachmentTarget,
+    fileId: string,
+    actor: AttachmentActor
+  ): Promise<void> {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const file = await this.findFile(policy, target.entityId, fileId);
+    await this.imageLinkingService.unlinkAttachment(
+      policy,
+      target.entityId,
+      file._id,
+      actor.userId
+    );
+
+    await storageService.deleteFile(file);
+    await FileModel.deleteOne({ _id: file._id });
+  }
+
+  async getStats(target: AttachmentTarget, actor: AttachmentActor) {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const [active, archived] = await Promise.all([
+      this.findFiles(policy, target.entityId, "active"),
+      this.findFiles(policy, target.entityId, "archived"),
+    ]);
+
+    const totalSize = [...active, ...archived].reduce(
+      (sum, file) => sum + (file.fileSize || 0),
+      0
+    );
+
+    return {
+      activeCount: active.length,
+      archivedCount: archived.length,
+      maxCount: policy.maxCount,
+      remaining: Math.max(policy.maxCount - active.length, 0),
+      totalStorageUsed: totalSize,
+      totalStorageUsedMB: (totalSize / (1024 * 1024)).toFixed(2),
+    };
+  }
+
+  /**
+   * Permanently delete files archived more than `daysOld` days ago
+   */
+  async cleanupArchived(
+    target: AttachmentTarget,
+    daysOld: number,
+    actor: AttachmentActor
+  ): Promise<number> {
+    const policy = this.getPolicy(target);
+    await this.assertCanManage(policy, target.entityId, actor);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - daysOld);
+
+    const expired = await this.findFiles(
+      policy,
+      target.entityId,
+      "archived"
+    ).where({ deletedAt: { $lte: cutoff } });
+
+    for (const file of expired) {
+      try {
+        await storageService.deleteFile(file);
+      } catch (error) {
+        console.warn(`Failed to delete stored file ${file._id}:`, error);
+      }
+    }
+
+    const result = await FileModel.deleteMany({
+      _id: { $in: expired.map((file) => file._id) },
+      deletedAt: { $exists: true },
+    });
+
+    return result.deletedCount || 0;
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,320 @@
+// services/files/file-access.service.ts
+// Who may read a private file, and a record of every read
+
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import ConversationModelInstance from "../../models/conversation.model";
+import DisputeCaseModelInstance from "../../models/dispute.model";
+import FileAccessLogModelInstance from "../../models/file-access-log.model";
+import { FileModel } from "../../models/files.model";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import ProfileModel from "../../models/profiles/userProfile.model";
+import { AuditContext } from "../../types/audit-log.types";
+import { BookingStatus } from "../../types/booking.types";
+import {
+  AttachmentActor,
+  File,
+  FileAccessGrant,
+  FileAccessMethod,
+} from "../../types/files.types";
+import { StorageObjectStream } from "../../types/storage.types";
+import { EntityType } from "../../utils/controller-utils/ImageLinkingService";
+import { CONVERSATION_ENTITY_TYPE } from "../messaging/conversation.service";
+import { DISPUTE_ENTITY_TYPE } from "../tasks/booking-dispute.service";
+import { attachmentService } from "./attachment.service";
+import { storageService } from "./storage/storage.service";
+
+// How long a signed link to a private file stays valid
+export const PRIVATE_FILE_URL_TTL_SECONDS = Number(
+  process.env.PRIVATE_FILE_URL_TTL_SECONDS || 5 * 60
+);
+
+// Entity types whose owner AttachmentService can resolve
+const OWNED_ENTITY_TYPES = new Set<string>([
+  "user",
+  "category",
+  "service",
+  "provider",
+  "client",
+]);
+
+// Identity documents stay with their owner and admins, booking or not
+const OWNER_ONLY_LABELS = new Set<string>([
+  "client_id_image",
+  "provider_id_image",
+]);
+
+// Bookings that let each side see the other's private files. Cancelled
+// ones, and ones still waiting on a deposit, don't.
+const ACTIVE_BOOKING_STATUSES = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.AWAITING_VALIDATION,
+  BookingStatus.DISPUTED,
+];
+
+interface ActorProfiles {
+  clientId?: Types.ObjectId;
+  providerId?: Types.ObjectId;
+}
+
+export class FileAccessService {
+  /**
+   * The actor's client and provider profile IDs, as bookings and
+   * disputes refer to them
+   */
+  private async getActorProfiles(userId: string): Promise<ActorProfiles> {
+    const profile = await ProfileModel.findOne({
+      userId: new Types.ObjectId(userId),
+      isDeleted: { $ne: true },
+    })
+      .select("_id")
+      .lean();
+    if (!profile) return {};
+
+    const [client, provider] = await Promise.all([
+      ClientModel.findOne({ profile: profile._id, isDeleted: { $ne: true } })
+        .select("_id")
+        .lean(),
+      ProviderModel.findOne({ profile: profile._id, isDeleted: { $ne: true } })
+        .select("_id")
+        .lean(),
+    ]);
+
+    return { clientId: client?._id, providerId: provider?._id };
+  }
+
+  /**
+   * Whether the actor and a client or provider have an active booking
+   * together, with any deposit paid
+   */
+  private async hasBookingWith(
+    entityType: "client" | "provider",
+    entityId: Types.ObjectId,
+    actorId: string
+  ): Promise<boolean> {
+    const profiles = await this.getActorProfiles(actorId);
+    const counterpartyId =
+      entityType === "client" ? profiles.providerId : profiles.clientId;
+    if (!counterpartyId) return false;
+
+    const booking = await BookingModel.exists({
+      clientId: entityType === "client" ? entityId : counterpartyId,
+      providerId: entityType === "provider" ? entityId : counterpartyId,
+      status: { $in: ACTIVE_BOOKING_STATUSES },
+      $or: [{ depositPaid: true }, { depositAmount: { $not: { $gt: 0 } } }],
+      isDeleted: { $ne: true },
+    });
+    return !!booking;
+  }
+
+  /**
+   * Why the actor may read a private file, or null if they may not
+   */
+  async getGrant(
+    file: File,
+    actor: AttachmentActor
+  ): Promise<FileAccessGrant | null> {
+    if (actor.isAdmin) return FileAccessGrant.ADMIN;
+
+    if (file.uploaderId?.toString() === actor.userId) {
+      return FileAccessGrant.UPLOADER;
+    }
+
+    if (!file.entityType || !file.entityId) return null;
+    const { entityType, entityId } = file;
+
+    if (OWNED_ENTITY_TYPES.has(entityType)) {
+      const ownerId = await attachmentService.getOwnerUserId(
+        entityType as EntityType,
+        entityId.toString()
+      );
+      if (ownerId === actor.userId) return FileAccessGrant.OWNER;
+
+      if (
+        (entityType === "client" || entityType === "provider") &&
+        !OWNER_ONLY_LABELS.has(file.label ?? "") &&
+        (await this.hasBookingWith(entityType, entityId, actor.userId))
+      ) {
+        return FileAccessGrant.COUNTERPARTY;
+      }
+
+      return null;
+    }
+
+    if (entityType === DISPUTE_ENTITY_TYPE) {
+      const dispute = await DisputeCaseModelInstance.findById(entityId)
+        .select("clientId providerId")
+        .lean();
+      if (!dispute) return null;
+
+      const profiles = await this.getActorProfiles(actor.userId);
+      const isParty =
+        profiles.clientId?.equals(dispute.clientId) ||
+        profiles.providerId?.equals(dispute.providerId);
+      return isParty ? FileAccessGrant.COUNTERPARTY : null;
+    }
+
+    if (entityType === CONVERSATION_ENTITY_TYPE) {
+      const conversation = await ConversationModelInstance.exists({
+        _id: entityId,
+        participants: new Types.ObjectId(actor.userId),
+      });
+      return conversation ? FileAccessGrant.COUNTERPARTY : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * The file and, for private files, why the actor may read it.
+   * Quarantined files can't be read by anyone.
+   */
+  private async authorize(fileId: string, actor: AttachmentActor) {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new Error("Invalid file ID");
+    }
+
+    const file = await FileModel.findById(fileId);
+    if (!file) throw new Error("File not found");
+
+    if (file.status === "quarantined") {
+      throw new Error("Cannot read this file until it passes a malware scan");
+    }
+
+    if (file.visibility !== "private") return { file, grant: null };
+
+    const grant = await this.getGrant(file, actor);
+    if (!grant) throw new Error("Not allowed to access this file");
+
+    return { file, grant };
+  }
+
+  private async recordAccess(
+    file: File,
+    grant: FileAccessGrant,
+    method: FileAccessMethod,
+    actor: AttachmentActor,
+    context?: AuditContext
+  ): Promise<void> {
+    try {
+      await Promise.all([
+        FileAccessLogModelInstance.create({
+          fileId: file._id,
+          userId: new Types.ObjectId(actor.userId),
+          userRole: context?.actorRole,
+          method,
+          grant,
+          entityType: file.entityType,
+          entityId: file.entityId,
+          label: file.label,
+          ip: context?.ip,
+          userAgent: context?.userAgent?.slice(0, 500),
+        }),
+        // updateOne skips the save hooks markAsAccessed would run
+        FileModel.updateOne(
+          { _id: file._id },
+          { $set: { lastAccessedAt: new Date() } }
+        ),
+      ]);
+    } catch (error) {
+      console.error(`Failed to record access to file ${file._id}:`, error);
+    }
+  }
+
+  /**
+   * A link to the file's bytes. Public files keep their own URL; private
+   * ones get a signed link that expires after PRIVATE_FILE_URL_TTL_SECONDS.
+   */
+  async getAccessUrl(
+    fileId: string,
+    actor: AttachmentActor,
+    options: { download?: boolean } = {},
+    context?: AuditContext
+  ): Promise<{ url: string; expiresAt: Date | null }> {
+    const { file, grant } = await this.authorize(fileId, actor);
+
+    if (!grant) return { url: file.url, expiresAt: null };
+
+    const url = await storageService.getSignedUrl(file, {
+      expiresInSeconds: PRIVATE_FILE_URL_TTL_SECONDS,
+      ...(options.download && { downloadName: file.fileName }),
+    });
+    await this.recordAccess(
+      file,
+      grant,
+      FileAccessMethod.SIGNED_URL,
+      actor,
+      context
+    );
+
+    return {
+      url,
+      expiresAt: new Date(Date.now() + PRIVATE_FILE_URL_TTL_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * The file's bytes, read through the server
+   */
+  async openStream(
+    fileId: string,
+    actor: AttachmentActor,
+    context?: AuditContext
+  ): Promise<{ file: File; stream: StorageObjectStream }> {
+    const { file, grant } = await this.authorize(fileId, actor);
+
+    const stream = await storageService.openStream(file);
+    if (!stream) throw new Error("File content not found");
+
+    if (grant) {
+      await this.recordAccess(
+        file,
+        grant,
+        FileAccessMethod.STREAM,
+        actor,
+        context
+      );
+    }
+
+    return { file, stream };
+  }
+
+  /**
+   * Reads of a file, newest first
+   */
+  async getAccessLog(
+    fileId: string,
+    options: { page: number; limit: number }
+  ) {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new Error("Invalid file ID");
+    }
+
+    const { page, limit } = options;
+    const query = { fileId: new Types.ObjectId(fileId) };
+
+    const [entries, total] = await Promise.all([
+      FileAccessLogModelInstance.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("userId", "name email")
+        .lean(),
+      FileAccessLogModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export const fileAccessService = new FileAccessService();
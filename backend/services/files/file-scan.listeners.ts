@@ -0,0 +1,92 @@
+// services/files/file-scan.listeners.ts
+// Emails admins when an upload has malware or can't be scanned
+
+import { Types } from "mongoose";
+import { User } from "../../models/user.model";
+import { SystemRole } from "../../types/base.types";
+import { ScanVerdict } from "../../types/file-scan.types";
+import {
+  DomainEventPayloads,
+  DomainEventType,
+} from "../../types/notification.types";
+import { sendEmail } from "../../utils/sendEmail";
+import { getNotificationEmailTemplate } from "../../utils/useEmailTemplate";
+import { DomainEventBus, domainEvents } from "../events/domain-event-bus";
+
+const QUARANTINE_PATH = "/admin/files/quarantine";
+
+// File names come from uploaders and end up in HTML
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const describeFailure = (
+  payload: DomainEventPayloads[DomainEventType.FILE_SCAN_FAILED]
+) => {
+  const { result } = payload;
+  const file = `"${payload.fileName}"${
+    payload.label ? ` (${payload.label})` : ""
+  }`;
+  const uploader = payload.uploaderId ? ` by user ${payload.uploaderId}` : "";
+
+  if (result.verdict === ScanVerdict.INFECTED) {
+    return {
+      title: "Malware found in an upload",
+      body: payload.fileId
+        ? `The quarantined file ${file} uploaded${uploader} contains ${result.signature} and was deleted.`
+        : `An upload of ${file}${uploader} contains ${result.signature} and was refused.`,
+    };
+  }
+
+  return {
+    title: "Upload stuck in quarantine",
+    body: `The file ${file} uploaded${uploader} still could not be scanned (${result.reason ?? "unknown error"}). It stays unreadable until a rescan passes.`,
+  };
+};
+
+/**
+ * Admins and super admins who can receive email
+ */
+const findAdmins = () =>
+  User.find({
+    systemRole: { $in: [SystemRole.ADMIN, SystemRole.SUPER_ADMIN] },
+    isDeleted: { $ne: true },
+  })
+    .select("name email")
+    .lean<Array<{ _id: Types.ObjectId; name?: string; email?: string }>>();
+
+/**
+ * Subscribe admin alerts to file scan events
+ */
+export function registerFileScanListeners(
+  bus: DomainEventBus = domainEvents
+): void {
+  bus.subscribe(DomainEventType.FILE_SCAN_FAILED, async ({ type, payload }) => {
+    const { title, body } = describeFailure(payload);
+    const admins = await findAdmins();
+
+    for (const admin of admins) {
+      if (!admin.email) continue;
+
+      try {
+        await sendEmail({
+          to: admin.email,
+          subject: title,
+          text: body,
+          html: getNotificationEmailTemplate(
+            admin.name || "there",
+            title,
+            escapeHtml(body),
+            QUARANTINE_PATH
+          ),
+          category: type,
+        });
+      } catch (error) {
+        console.error(`Failed to send file scan alert to ${admin._id}:`, error);
+      }
+    }
+  });
+}
@@ -0,0 +1,213 @@
+// services/files/image-processing.service.ts
+// Cleans up uploaded images before they are stored: rejects broken and
+// oversized images, strips EXIF/GPS metadata, auto-orients, converts to
+// WebP and renders each label's standard sizes
+
+import sharp, { FitEnum } from "sharp";
+import { Label } from "../../utils/controller-utils/ImageLinkingService";
+
+// Largest image accepted, in pixels. Checked from the header before
+// decoding, so decompression bombs are refused cheaply.
+export const IMAGE_MAX_PIXELS = Number(
+  process.env.IMAGE_MAX_PIXELS || 50_000_000
+);
+
+// Formats re-encoded to WebP. Others (SVG, icons) are stored as received.
+const PROCESSABLE_TYPES = new Set([
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+  "image/heic",
+  "image/heif",
+  "image/tiff",
+]);
+
+export interface ImageVariantSpec {
+  name: string;
+  width: number;
+  height: number;
+  fit: keyof FitEnum;
+  quality: number;
+}
+
+export interface ImageProfile {
+  maxDimension: number; // Longest side of the stored image
+  quality: number;
+  variants: ImageVariantSpec[]; // Smallest first; the first is the thumbnail
+}
+
+/**
+ * Sizes rendered per label. Labels not listed get DEFAULT_PROFILE.
+ */
+export const IMAGE_PROFILES: Partial<Record<Label, ImageProfile>> = {
+  profile_picture: {
+    maxDimension: 1024,
+    quality: 85,
+    variants: [
+      { name: "thumb", width: 96, height: 96, fit: "cover", quality: 80 },
+      { name: "small", width: 256, height: 256, fit: "cover", quality: 82 },
+      { name: "medium", width: 512, height: 512, fit: "cover", quality: 82 },
+    ],
+  },
+  category_cover: {
+    maxDimension: 2048,
+    quality: 85,
+    variants: [
+      { name: "thumb", width: 320, height: 180, fit: "cover", quality: 80 },
+      { name: "medium", width: 960, height: 540, fit: "cover", quality: 82 },
+      { name: "large", width: 1920, height: 1080, fit: "cover", quality: 82 },
+    ],
+  },
+  service_cover: {
+    maxDimension: 2048,
+    quality: 85,
+    variants: [
+      { name: "thumb", width: 320, height: 180, fit: "cover", quality: 80 },
+      { name: "medium", width: 960, height: 540, fit: "cover", quality: 82 },
+      { name: "large", width: 1920, height: 1080, fit: "cover", quality: 82 },
+    ],
+  },
+  provider_gallery: {
+    maxDimension: 2560,
+    quality: 85,
+    variants: [
+      { name: "thumb", width: 320, height: 320, fit: "cover", quality: 80 },
+      { name: "medium", width: 1024, height: 1024, fit: "inside", quality: 82 },
+      { name: "large", width: 2048, height: 2048, fit: "inside", quality: 82 },
+    ],
+  },
+};
+
+// ID photos, evidence and message attachments keep their detail
+const DEFAULT_PROFILE: ImageProfile = {
+  maxDimension: 4096,
+  quality: 90,
+  variants: [],
+};
+
+export interface ProcessedImageVariant {
+  name: string;
+  body: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  body: Buffer;
+  contentType: "image/webp";
+  extension: ".webp";
+  width: number;
+  height: number;
+  originalContentType: string;
+  variants: ProcessedImageVariant[];
+}
+
+export class ImageProcessingService {
+  isProcessable(contentType: string): boolean {
+    return PROCESSABLE_TYPES.has(contentType.toLowerCase());
+  }
+
+  getProfile(label?: string): ImageProfile {
+    return (label && IMAGE_PROFILES[label as Label]) || DEFAULT_PROFILE;
+  }
+
+  private open(body: Buffer, animated: boolean) {
+    return sharp(body, {
+      animated,
+      failOn: "error",
+      limitInputPixels: IMAGE_MAX_PIXELS,
+    });
+  }
+
+  /**
+   * Check the header before decoding anything
+   */
+  private async validate(body: Buffer) {
+    let metadata: sharp.Metadata;
+    try {
+      // Header only; the size limit is checked below with a clearer error
+      metadata = await sharp(body, { limitInputPixels: false }).metadata();
+    } catch {
+      throw new Error("Invalid image: the file could not be read as an image");
+    }
+
+    const { width, height, pages = 1 } = metadata;
+    if (!width || !height) {
+      throw new Error("Invalid image: missing dimensions");
+    }
+
+    if (width * height * pages > IMAGE_MAX_PIXELS) {
+      throw new Error(
+        `Invalid image: larger than ${Math.floor(
+          IMAGE_MAX_PIXELS / 1_000_000
+        )} megapixels`
+      );
+    }
+
+    return metadata;
+  }
+
+  /**
+   * WebP versions of an upload with metadata stripped, or null if the
+   * type isn't one we re-encode. Throws "Invalid image: ..." for images
+   * that are broken or too large.
+   */
+  async process(
+    body: Buffer,
+    options: { contentType: string; label?: string }
+  ): Promise<ProcessedImage | null> {
+    if (!this.isProcessable(options.contentType)) return null;
+
+    const metadata = await this.validate(body);
+    const animated = (metadata.pages ?? 1) > 1;
+    const profile = this.getProfile(options.label);
+
+    // rotate() applies the EXIF orientation; sharp drops EXIF, GPS,
+    // XMP and ICC data from the output unless told to keep it
+    const main = await this.open(body, animated)
+      .rotate()
+      .resize({
+        width: profile.maxDimension,
+        height: profile.maxDimension,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: profile.quality })
+      .toBuffer({ resolveWithObject: true });
+
+    const variants: ProcessedImageVariant[] = [];
+    for (const spec of profile.variants) {
+      const variant = await this.open(main.data, animated)
+        .resize({
+          width: spec.width,
+          height: spec.height,
+          fit: spec.fit,
+          withoutEnlargement: true,
+        })
+        .webp({ quality: spec.quality })
+        .toBuffer({ resolveWithObject: true });
+
+      variants.push({
+        name: spec.name,
+        body: variant.data,
+        width: variant.info.width,
+        height: variant.info.pageHeight ?? variant.info.height,
+      });
+    }
+
+    return {
+      body: main.data,
+      contentType: "image/webp",
+      extension: ".webp",
+      width: main.info.width,
+      height: main.info.pageHeight ?? main.info.height,
+      originalContentType: options.contentType,
+      variants,
+    };
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -1,6 +1,6 @@
 // services/mongodb.file.service.ts
 import { Types, Document } from "mongoose";
-import { File } from "../../types/files.types";
+import { File, FileStatus, FileVisibility } from "../../types/files.types";
 import { FileModel } from "../../models/files.model";
 
 // File document type that includes Mongoose document methods
@@ -25,13 +25,15 @@ export interface CreateFileData {
   extension?: string;
   thumbnailUrl?: string;
   storageProvider: "local" | "s3" | "cloudinary" | "gcs" | "mega";
+  storageKey?: string;
+  visibility?: FileVisibility;
   metadata?: Record<string, any>;
   tags?: string[];
   description?: string;
   entityType?: string;
   entityId?: Types.ObjectId;
   label?: string;
-  status?: "active" | "archived";
+  status?: FileStatus;
   uploadedAt?: Date;
 }
 
@@ -40,12 +42,13 @@ export interface UpdateFileData {
   description?: string;
   tags?: string[];
   label?: string;
+  entityId?: Types.ObjectId;
   metadata?: Record<string, any>;
-  status?: "active" | "archived";
+  status?: FileStatus;
 }
 
 export interface FileQueryOptions {
-  status?: "active" | "archived";
+  status?: FileStatus;
   limit?: number;
   skip?: number;
   sort?: { [key: string]: 1 | -1 };
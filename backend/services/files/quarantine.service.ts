@@ -0,0 +1,215 @@
+// services/files/quarantine.service.ts
+// Files the malware scanner couldn't check when they were uploaded.
+// They are rescanned until they pass, turn out to be infected, or an
+// admin deletes them.
+
+import { Types } from "mongoose";
+import { FileModel } from "../../models/files.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { FileScanRecord, ScanVerdict } from "../../types/file-scan.types";
+import { File } from "../../types/files.types";
+import { auditLogService } from "../audit/audit-log.service";
+import { attachmentService } from "./attachment.service";
+import { fileScanService } from "./scanning/file-scan.service";
+import { storageService } from "./storage/storage.service";
+
+// Failed rescans before admins are told a file is stuck in quarantine
+export const FILE_SCAN_REPORT_AFTER_ATTEMPTS = Number(
+  process.env.FILE_SCAN_REPORT_AFTER_ATTEMPTS || 3
+);
+
+export class QuarantineService {
+  private async findQuarantined(fileId: string) {
+    if (!Types.ObjectId.isValid(fileId)) {
+      throw new Error("Invalid file ID");
+    }
+
+    const file = await FileModel.findOne({
+      _id: new Types.ObjectId(fileId),
+      status: "quarantined",
+    });
+    if (!file) throw new Error("Quarantined file not found");
+    return file;
+  }
+
+  /**
+   * Remove a file's bytes and record. Messages and disputes that
+   * referred to it no longer list it.
+   */
+  private async remove(file: File): Promise<void> {
+    await storageService.deleteFile(file);
+    await FileModel.deleteOne({ _id: file._id });
+  }
+
+  /**
+   * Scan a quarantined file again. A pass makes it readable, public if
+   * it was uploaded so, and links it to its entity; malware removes it. Malware, and scans that keep
+   * failing, are reported to admins.
+   */
+  async rescan(file: File): Promise<FileScanRecord> {
+    const attempts = (storageService.getScanRecord(file)?.attempts ?? 0) + 1;
+
+    const stream = await storageService.openStream(file);
+    const scan: FileScanRecord = stream
+      ? await fileScanService.scan(stream.body, attempts)
+      : {
+          verdict: ScanVerdict.ERROR,
+          scanner: fileScanService.getScanner().name,
+          reason: "File content not found",
+          scannedAt: new Date(),
+          attempts,
+        };
+    stream?.body.destroy();
+
+    const details = {
+      fileId: file._id.toString(),
+      fileName: file.fileName,
+      label: file.label,
+      uploaderId: file.uploaderId?.toString(),
+    };
+
+    if (scan.verdict === ScanVerdict.INFECTED) {
+      await this.remove(file);
+      await fileScanService.report(scan, details);
+      return scan;
+    }
+
+    if (fileScanService.isPassed(scan)) {
+      const release = storageService.isPublicAfterScan(file)
+        ? await storageService.setVisibility(file, true)
+        : null;
+
+      await FileModel.updateOne(
+        { _id: file._id },
+        {
+          $set: {
+            status: "active",
+            "metadata.scan": scan,
+            ...(release && {
+              url: release.url,
+              thumbnailUrl: release.thumbnailUrl,
+              visibility: release.visibility,
+              ...(release.variants && {
+                "metadata.variants": release.variants,
+              }),
+            }),
+          },
+          $unset: { "metadata.publicAfterScan": 1 },
+        }
+      );
+      file.status = "active";
+      await attachmentService.activate(file);
+      return scan;
+    }
+
+    await FileModel.updateOne(
+      { _id: file._id },
+      { $set: { "metadata.scan": scan } }
+    );
+    if (attempts === FILE_SCAN_REPORT_AFTER_ATTEMPTS) {
+      await fileScanService.report(scan, details);
+    }
+    return scan;
+  }
+
+  /**
+   * Rescan the files waiting longest; returns how many were scanned
+   */
+  async rescanPending(limit = 50): Promise<number> {
+    const files = await FileModel.find({ status: "quarantined" })
+      .sort({ "metadata.scan.scannedAt": 1, uploadedAt: 1 })
+      .limit(limit);
+
+    for (const file of files) {
+      try {
+        await this.rescan(file);
+      } catch (error) {
+        console.error(`Failed to rescan quarantined file ${file._id}:`, error);
+      }
+    }
+
+    return files.length;
+  }
+
+  /**
+   * Quarantined files, oldest first
+   */
+  async list(options: { page: number; limit: number }) {
+    const { page, limit } = options;
+    const query = { status: "quarantined" };
+
+    const [files, total] = await Promise.all([
+      FileModel.find(query)
+        .sort({ uploadedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("uploaderId", "name email"),
+      FileModel.countDocuments(query),
+    ]);
+
+    return {
+      files,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Rescan one file now, e.g. once the scanner is back
+   */
+  async rescanById(fileId: string, context?: AuditContext) {
+    const file = await this.findQuarantined(fileId);
+    const scan = await this.rescan(file);
+
+    await auditLogService.record(context, {
+      action: AuditAction.FILE_RESCANNED,
+      entityType: AuditEntityType.FILE,
+      entityId: file._id,
+      metadata: {
+        fileName: file.fileName,
+        verdict: scan.verdict,
+        signature: scan.signature,
+        reason: scan.reason,
+      },
+    });
+
+    return {
+      scan,
+      file:
+        scan.verdict === ScanVerdict.INFECTED
+          ? null
+          : await FileModel.findById(file._id),
+    };
+  }
+
+  /**
+   * Remove a quarantined file without waiting for a scan
+   */
+  async delete(fileId: string, context?: AuditContext): Promise<void> {
+    const file = await this.findQuarantined(fileId);
+    await this.remove(file);
+
+    await auditLogService.record(context, {
+      action: AuditAction.FILE_QUARANTINE_DELETED,
+      entityType: AuditEntityType.FILE,
+      entityId: file._id,
+      metadata: {
+        fileName: file.fileName,
+        label: file.label,
+        entityType: file.entityType,
+        entityId: file.entityId?.toString(),
+        uploaderId: file.uploaderId?.toString(),
+      },
+    });
+  }
+}
+
+export const quarantineService = new QuarantineService();
@@ -0,0 +1,167 @@
+// services/files/scanning/file-scan.service.ts
+// Checks uploads before they are stored: the content must match its
+// declared type, SVGs are sanitized and everything is scanned for
+// malware with the configured scanner
+
+import crypto from "crypto";
+import { Readable } from "stream";
+import {
+  FileScanConfig,
+  loadFileScanConfig,
+} from "../../../config/file-scan.config";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../../types/audit-log.types";
+import {
+  FileScanner,
+  FileScanRecord,
+  ScanResult,
+  ScanVerdict,
+} from "../../../types/file-scan.types";
+import { DomainEventType } from "../../../types/notification.types";
+import { contentMatchesType } from "../../../utils/file-type.utils";
+import { sanitizeSvg } from "../../../utils/svg.utils";
+import { auditLogService } from "../../audit/audit-log.service";
+import { domainEvents } from "../../events/domain-event-bus";
+import { ClamAvScanner } from "./clamav.scanner";
+import { NoopScanner } from "./noop.scanner";
+
+export interface InspectUploadOptions {
+  fileName: string;
+  contentType: string;
+  label?: string;
+  uploaderId?: string;
+}
+
+export interface InspectedUpload {
+  body: Buffer; // Sanitized, for SVGs
+  scan: FileScanRecord;
+}
+
+/**
+ * A file that failed its scan, as reported to admins
+ */
+export interface ScanFailureDetails {
+  fileId?: string;
+  fileName: string;
+  label?: string;
+  uploaderId?: string;
+  sha256?: string; // Identifies refused uploads, which have no file ID
+}
+
+export class FileScanService {
+  private config?: FileScanConfig;
+  private scanner?: FileScanner;
+
+  // Environment variables are read on first use, after dotenv has loaded
+  private getConfig(): FileScanConfig {
+    if (!this.config) this.config = loadFileScanConfig();
+    return this.config;
+  }
+
+  getScanner(): FileScanner {
+    if (!this.scanner) {
+      const config = this.getConfig();
+
+      if (config.scanner === "clamav") {
+        this.scanner = new ClamAvScanner(config.clamav);
+      } else {
+        if (process.env.NODE_ENV === "production") {
+          console.warn("File scanning is disabled: uploads are not scanned");
+        }
+        this.scanner = new NoopScanner();
+      }
+    }
+    return this.scanner;
+  }
+
+  async scan(body: Buffer | Readable, attempts = 1): Promise<FileScanRecord> {
+    const result = await this.getScanner().scan(body);
+    return { ...result, scannedAt: new Date(), attempts };
+  }
+
+  /**
+   * Whether a scan lets the file be read
+   */
+  isPassed(result: ScanResult): boolean {
+    return (
+      result.verdict === ScanVerdict.CLEAN ||
+      result.verdict === ScanVerdict.SKIPPED
+    );
+  }
+
+  /**
+   * Tell admins about a failed scan. Malware is also written to the
+   * audit log, attributed to the uploader.
+   */
+  async report(result: ScanResult, details: ScanFailureDetails) {
+    domainEvents.publish(DomainEventType.FILE_SCAN_FAILED, {
+      fileId: details.fileId,
+      fileName: details.fileName,
+      label: details.label,
+      uploaderId: details.uploaderId,
+      result,
+    });
+
+    if (result.verdict !== ScanVerdict.INFECTED) return;
+
+    const context: AuditContext | undefined = details.uploaderId
+      ? { actorId: details.uploaderId }
+      : undefined;
+    await auditLogService.record(context, {
+      action: AuditAction.FILE_MALWARE_DETECTED,
+      entityType: AuditEntityType.FILE,
+      entityId: details.fileId ?? details.sha256 ?? details.fileName,
+      metadata: {
+        fileName: details.fileName,
+        label: details.label,
+        scanner: result.scanner,
+        signature: result.signature,
+        ...(details.sha256 && { sha256: details.sha256 }),
+      },
+    });
+  }
+
+  /**
+   * The bytes to store for an upload and its scan. Throws "Invalid
+   * file content: ..." when the content isn't the declared type and
+   * "Invalid file: ..." when it contains malware. Uploads the scanner
+   * couldn't check come back with an ERROR verdict, to be quarantined.
+   */
+  async inspect(
+    body: Buffer,
+    options: InspectUploadOptions
+  ): Promise<InspectedUpload> {
+    if (!contentMatchesType(body, options.contentType, options.fileName)) {
+      throw new Error(
+        `Invalid file content: ${options.fileName} is not a valid ${options.contentType} file`
+      );
+    }
+
+    // The original is scanned so signatures for malicious SVGs still match
+    const scan = await this.scan(body);
+
+    if (scan.verdict === ScanVerdict.INFECTED) {
+      await this.report(scan, {
+        fileName: options.fileName,
+        label: options.label,
+        uploaderId: options.uploaderId,
+        sha256: crypto.createHash("sha256").update(body).digest("hex"),
+      });
+      throw new Error(
+        `Invalid file: ${options.fileName} did not pass the malware scan`
+      );
+    }
+
+    const content =
+      options.contentType.toLowerCase() === "image/svg+xml"
+        ? Buffer.from(sanitizeSvg(body.toString("utf8")), "utf8")
+        : body;
+
+    return { body: content, scan };
+  }
+}
+
+export const fileScanService = new FileScanService();
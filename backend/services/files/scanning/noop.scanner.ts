@@ -0,0 +1,17 @@
+// services/files/scanning/noop.scanner.ts
+// For environments without a scanner. Uploads are stored unscanned and
+// marked as skipped so they can be told apart from scanned ones.
+
+import {
+  FileScanner,
+  ScanResult,
+  ScanVerdict,
+} from "../../../types/file-scan.types";
+
+export class NoopScanner implements FileScanner {
+  readonly name = "none" as const;
+
+  async scan(): Promise<ScanResult> {
+    return { verdict: ScanVerdict.SKIPPED, scanner: this.name };
+  }
+}
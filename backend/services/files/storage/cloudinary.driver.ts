@@ -0,0 +1,209 @@
+// services/files/storage/cloudinary.driver.ts
+// Cloudinary. Keys are Cloudinary public IDs, which carry no extension
+// for images and videos.
+
+import path from "path";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { CloudinaryConfigService } from "../../../config/cloudinary.config";
+import {
+  StorageDriver,
+  StorageListOptions,
+  StorageListResult,
+  StorageObjectInfo,
+  StorageObjectOptions,
+  StorageObjectStream,
+  StoragePutOptions,
+  StorageSignedUrlOptions,
+  StoredObject,
+} from "../../../types/storage.types";
+
+type CloudinaryResourceType = "image" | "video" | "raw";
+
+const DEFAULT_SIGNED_URL_SECONDS = 15 * 60;
+
+/**
+ * Cloudinary keeps audio alongside video; documents are raw files
+ */
+const resourceTypeFor = (contentType?: string): CloudinaryResourceType => {
+  if (!contentType || contentType.startsWith("image/")) return "image";
+  if (contentType.startsWith("video/") || contentType.startsWith("audio/")) {
+    return "video";
+  }
+  return "raw";
+};
+
+const deliveryTypeFor = (options?: StorageObjectOptions) =>
+  options?.isPublic === false ? "private" : "upload";
+
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = "cloudinary" as const;
+  private cloudinary: CloudinaryConfigService;
+
+  constructor(cloudinary: CloudinaryConfigService) {
+    this.cloudinary = cloudinary;
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: StoragePutOptions
+  ): Promise<StoredObject> {
+    const folder = path.posix.dirname(key);
+    const result = await this.cloudinary.uploadFromBuffer(
+      body,
+      path.posix.basename(key),
+      {
+        folderName: folder === "." ? undefined : folder,
+        isPublic: options.isPublic,
+        metadata: {
+          ...options.metadata,
+          ...(options.fileName && { originalName: options.fileName }),
+        },
+        resourceType: resourceTypeFor(options.contentType),
+      }
+    );
+
+    return {
+      driver: this.name,
+      key: result.publicId,
+      url: result.secureUrl,
+      size: result.fileSize,
+      contentType: result.mimeType || options.contentType,
+      isPublic: options.isPublic !== false,
+      extension: result.extension,
+      thumbnailUrl: result.thumbnailUrl,
+      width: result.width,
+      height: result.height,
+      extra: {
+        publicId: result.publicId,
+        format: result.format,
+        resourceType: result.resourceType,
+      },
+    };
+  }
+
+  async delete(key: string, options?: StorageObjectOptions): Promise<void> {
+    await this.cloudinary.deleteFile(
+      key,
+      resourceTypeFor(options?.contentType),
+      deliveryTypeFor(options)
+    );
+  }
+
+  async getSignedUrl(
+    key: string,
+    options?: StorageSignedUrlOptions
+  ): Promise<string> {
+    const format =
+      options?.extension || path.posix.extname(key).slice(1) || "";
+
+    return this.cloudinary.generatePrivateDownloadUrl(key, format, {
+      resourceType: resourceTypeFor(options?.contentType),
+      type: deliveryTypeFor(options),
+      expiresAt:
+        Math.floor(Date.now() / 1000) +
+        (options?.expiresInSeconds ?? DEFAULT_SIGNED_URL_SECONDS),
+      attachment: !!options?.downloadName,
+    });
+  }
+
+  /**
+   * Fetched through a short-lived download URL, which works for both
+   * delivery types
+   */
+  async getStream(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectStream | null> {
+    const url = await this.getSignedUrl(key, {
+      ...options,
+      expiresInSeconds: 60,
+    });
+    const response = await fetch(url);
+
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new Error(`Cloudinary download failed: ${response.status}`);
+    }
+
+    return {
+      body: Readable.fromWeb(response.body as ReadableStream),
+      size: Number(response.headers.get("content-length")) || undefined,
+      contentType:
+        response.headers.get("content-type") || options?.contentType,
+    };
+  }
+
+  async head(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectInfo | null> {
+    const resourceType = resourceTypeFor(options?.contentType);
+    const type = deliveryTypeFor(options);
+
+    if (!(await this.cloudinary.fileExists(key, resourceType, type))) {
+      return null;
+    }
+
+    const metadata = await this.cloudinary.getFileMetadata(
+      key,
+      resourceType,
+      type
+    );
+    return {
+      key,
+      size: metadata.bytes,
+      contentType: metadata.mimeType,
+      lastModified: metadata.createdAt
+        ? new Date(metadata.createdAt)
+        : undefined,
+      metadata: metadata.context?.custom,
+    };
+  }
+
+  async setVisibility(
+    key: string,
+    isPublic: boolean,
+    options?: StorageObjectOptions
+  ): Promise<string> {
+    const resourceType = resourceTypeFor(options?.contentType);
+    const from = deliveryTypeFor({ isPublic: !isPublic });
+
+    if (await this.cloudinary.fileExists(key, resourceType, from)) {
+      return this.cloudinary.updateFileAccess(key, isPublic, resourceType);
+    }
+
+    const metadata = await this.cloudinary.getFileMetadata(
+      key,
+      resourceType,
+      deliveryTypeFor({ isPublic })
+    );
+    return metadata.secureUrl;
+  }
+
+  /**
+   * Lists public images only; Cloudinary lists each resource and
+   * delivery type separately
+   */
+  async list(
+    prefix: string,
+    options?: StorageListOptions
+  ): Promise<StorageListResult> {
+    const page = await this.cloudinary.listFilesPage(prefix, "image", {
+      maxResults: options?.limit,
+      nextCursor: options?.cursor,
+    });
+
+    return {
+      objects: page.resources.map((resource) => ({
+        key: resource.public_id,
+        size: resource.bytes,
+        lastModified: resource.created_at
+          ? new Date(resource.created_at)
+          : undefined,
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+// services/files/storage/gcs.driver.ts
+// Google Cloud Storage
+
+import { Bucket, Storage } from "@google-cloud/storage";
+import path from "path";
+import { GcsStorageConfig } from "../../../config/storage.config";
+import {
+  StorageDriver,
+  StorageListOptions,
+  StorageListResult,
+  StorageObjectInfo,
+  StorageObjectStream,
+  StoragePutOptions,
+  StorageSignedUrlOptions,
+  StoredObject,
+} from "../../../types/storage.types";
+
+const DEFAULT_SIGNED_URL_SECONDS = 15 * 60;
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60; // V4 signing limit
+
+const encodeKey = (key: string) =>
+  key.split("/").map(encodeURIComponent).join("/");
+
+const isNotFound = (error: unknown) =>
+  (error as { code?: number })?.code === 404;
+
+export class GcsStorageDriver implements StorageDriver {
+  readonly name = "gcs" as const;
+  private config: GcsStorageConfig;
+  private bucket: Bucket;
+
+  constructor(config: GcsStorageConfig) {
+    this.config = config;
+
+    const storage = new Storage({
+      projectId: config.projectId,
+      keyFilename: config.keyFilename,
+    });
+    this.bucket = storage.bucket(config.bucket);
+  }
+
+  private objectUrl(key: string): string {
+    const base =
+      this.config.publicBaseUrl?.replace(/\/+$/, "") ||
+      `https://storage.googleapis.com/${this.config.bucket}`;
+    return `${base}/${encodeKey(key)}`;
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: StoragePutOptions
+  ): Promise<StoredObject> {
+    const file = this.bucket.file(key);
+
+    await file.save(body, {
+      resumable: false,
+      contentType: options.contentType,
+      metadata: {
+        metadata: {
+          ...options.metadata,
+          ...(options.fileName && { originalName: options.fileName }),
+        },
+      },
+    });
+
+    return {
+      driver: this.name,
+      key,
+      url: this.objectUrl(key),
+      size: body.length,
+      contentType: options.contentType,
+      isPublic: options.isPublic !== false,
+      extension: path.extname(key).slice(1) || undefined,
+      etag: file.metadata?.etag,
+      extra: { bucket: this.config.bucket },
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+
+  async getSignedUrl(
+    key: string,
+    options?: StorageSignedUrlOptions
+  ): Promise<string> {
+    const expiresIn = Math.min(
+      options?.expiresInSeconds ?? DEFAULT_SIGNED_URL_SECONDS,
+      MAX_SIGNED_URL_SECONDS
+    );
+
+    const [url] = await this.bucket.file(key).getSignedUrl({
+      version: "v4",
+      action: "read",
+      expires: Date.now() + expiresIn * 1000,
+      ...(options?.downloadName && {
+        promptSaveAs: options.downloadName,
+      }),
+    });
+
+    return url;
+  }
+
+  async getStream(key: string): Promise<StorageObjectStream | null> {
+    const info = await this.head(key);
+    if (!info) return null;
+
+    return {
+      body: this.bucket.file(key).createReadStream(),
+      size: info.size,
+      contentType: info.contentType,
+    };
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const [metadata] = await this.bucket.file(key).getMetadata();
+
+      return {
+        key,
+        size: Number(metadata.size || 0),
+        contentType: metadata.contentType,
+        lastModified: metadata.updated ? new Date(metadata.updated) : undefined,
+        etag: metadata.etag,
+        metadata: Object.fromEntries(
+          Object.entries(metadata.metadata || {}).map(([name, value]) => [
+            name,
+            String(value),
+          ])
+        ),
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(
+    prefix: string,
+    options?: StorageListOptions
+  ): Promise<StorageListResult> {
+    const [files, nextQuery] = await this.bucket.getFiles({
+      prefix,
+      maxResults: options?.limit ?? 1000,
+      pageToken: options?.cursor,
+      autoPaginate: false,
+    });
+
+    return {
+      objects: files.map((file) => ({
+        key: file.name,
+        size: Number(file.metadata.size || 0),
+        contentType: file.metadata.contentType,
+        lastModified: file.metadata.updated
+          ? new Date(file.metadata.updated)
+          : undefined,
+        etag: file.metadata.etag,
+      })),
+      nextCursor: (nextQuery as { pageToken?: string } | null)?.pageToken,
+    };
+  }
+
+  /**
+   * Access is set on the bucket, not per object
+   */
+  async setVisibility(key: string): Promise<string> {
+    return this.objectUrl(key);
+  }
+}
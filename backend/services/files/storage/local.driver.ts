@@ -0,0 +1,297 @@
+// services/files/storage/local.driver.ts
+// Files on the server's disk. Public files are served statically from
+// /uploads/public; private ones only through signed URLs.
+
+import crypto from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { LocalStorageConfig } from "../../../config/storage.config";
+import {
+  StorageDriver,
+  StorageListOptions,
+  StorageListResult,
+  StorageObjectInfo,
+  StorageObjectOptions,
+  StorageObjectStream,
+  StoragePutOptions,
+  StorageSignedUrlOptions,
+  StoredObject,
+} from "../../../types/storage.types";
+
+const DEFAULT_SIGNED_URL_SECONDS = 15 * 60;
+
+// Where signed private downloads are served, see routes/files.routes.ts
+export const LOCAL_SIGNED_PATH = "/api/files/local";
+
+type Visibility = "public" | "private";
+
+/**
+ * Reject keys that could escape the storage root
+ */
+const safeKey = (key: string): string => {
+  const normalized = path.posix.normalize(key.replace(/\\/g, "/"));
+  if (
+    !normalized ||
+    normalized.startsWith("/") ||
+    normalized.startsWith("..") ||
+    normalized.split("/").includes("..")
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return normalized;
+};
+
+const encodeKey = (key: string) =>
+  key.split("/").map(encodeURIComponent).join("/");
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = "local" as const;
+  private config: LocalStorageConfig;
+
+  constructor(config: LocalStorageConfig) {
+    this.config = config;
+  }
+
+  private pathFor(key: string, visibility: Visibility): string {
+    return path.join(this.config.root, visibility, safeKey(key));
+  }
+
+  private urlFor(key: string, visibility: Visibility): string {
+    return visibility === "public"
+      ? `${this.config.publicBaseUrl}/uploads/public/${encodeKey(key)}`
+      : `${this.config.publicBaseUrl}${LOCAL_SIGNED_PATH}/${encodeKey(key)}`;
+  }
+
+  /**
+   * Where an existing object lives, checking the hinted visibility first
+   */
+  private async locate(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<{ filePath: string; visibility: Visibility } | null> {
+    const order: Visibility[] =
+      options?.isPublic === false
+        ? ["private", "public"]
+        : ["public", "private"];
+
+    for (const visibility of order) {
+      const filePath = this.pathFor(key, visibility);
+      try {
+        await fs.access(filePath);
+        return { filePath, visibility };
+      } catch {
+        // Try the other visibility
+      }
+    }
+
+    return null;
+  }
+
+  // The content type is signed so the link can't be replayed with another
+  private sign(
+    key: string,
+    expires: number,
+    downloadName?: string,
+    contentType?: string
+  ): string {
+    if (!this.config.signingSecret) {
+      throw new Error(
+        "Local storage signing secret missing: set STORAGE_SIGNING_SECRET"
+      );
+    }
+
+    return crypto
+      .createHmac("sha256", this.config.signingSecret)
+      .update(
+        `${key}\n${expires}\n${downloadName || ""}\n${contentType || ""}`
+      )
+      .digest("hex");
+  }
+
+  /**
+   * Check a signed URL's parameters; returns the file path if valid
+   */
+  async verifySignedRequest(
+    key: string,
+    expires: string,
+    signature: string,
+    downloadName?: string,
+    contentType?: string
+  ): Promise<string | null> {
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+      return null;
+    }
+
+    const expected = Buffer.from(
+      this.sign(safeKey(key), expiresAt, downloadName, contentType)
+    );
+    const given = Buffer.from(String(signature));
+    if (
+      expected.length !== given.length ||
+      !crypto.timingSafeEqual(expected, given)
+    ) {
+      return null;
+    }
+
+    const located = await this.locate(key, { isPublic: false });
+    return located?.filePath ?? null;
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: StoragePutOptions
+  ): Promise<StoredObject> {
+    const normalized = safeKey(key);
+    const visibility: Visibility =
+      options.isPublic === false ? "private" : "public";
+    const filePath = this.pathFor(normalized, visibility);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    return {
+      driver: this.name,
+      key: normalized,
+      url: this.urlFor(normalized, visibility),
+      size: body.length,
+      contentType: options.contentType,
+      isPublic: visibility === "public",
+      extension: path.extname(normalized).slice(1) || undefined,
+      etag: crypto.createHash("md5").update(body).digest("hex"),
+    };
+  }
+
+  async delete(key: string, options?: StorageObjectOptions): Promise<void> {
+    const located = await this.locate(key, options);
+    if (!located) return;
+
+    await fs.unlink(located.filePath);
+  }
+
+  async getSignedUrl(
+    key: string,
+    options?: StorageSignedUrlOptions
+  ): Promise<string> {
+    const normalized = safeKey(key);
+    const located = await this.locate(normalized, options);
+
+    if (located?.visibility === "public" && !options?.downloadName) {
+      return this.urlFor(normalized, "public");
+    }
+
+    const expires =
+      Math.floor(Date.now() / 1000) +
+      (options?.expiresInSeconds ?? DEFAULT_SIGNED_URL_SECONDS);
+    const query = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(
+        normalized,
+        expires,
+        options?.downloadName,
+        options?.contentType
+      ),
+    });
+    if (options?.downloadName) query.set("download", options.downloadName);
+    if (options?.contentType) query.set("type", options.contentType);
+
+    return `${this.config.publicBaseUrl}${LOCAL_SIGNED_PATH}/${encodeKey(normalized)}?${query}`;
+  }
+
+  async setVisibility(
+    key: string,
+    isPublic: boolean,
+    options?: StorageObjectOptions
+  ): Promise<string> {
+    const normalized = safeKey(key);
+    const visibility: Visibility = isPublic ? "public" : "private";
+    const located = await this.locate(normalized, options);
+
+    if (located && located.visibility !== visibility) {
+      const filePath = this.pathFor(normalized, visibility);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.rename(located.filePath, filePath);
+    }
+
+    return this.urlFor(normalized, visibility);
+  }
+
+  async getStream(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectStream | null> {
+    const located = await this.locate(key, options);
+    if (!located) return null;
+
+    const stats = await fs.stat(located.filePath);
+    return {
+      body: createReadStream(located.filePath),
+      size: stats.size,
+      contentType: options?.contentType,
+    };
+  }
+
+  async head(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectInfo | null> {
+    const located = await this.locate(key, options);
+    if (!located) return null;
+
+    const stats = await fs.stat(located.filePath);
+    return {
+      key: safeKey(key),
+      size: stats.size,
+      contentType: options?.contentType,
+      lastModified: stats.mtime,
+    };
+  }
+
+  async list(
+    prefix: string,
+    options?: StorageListOptions
+  ): Promise<StorageListResult> {
+    const limit = options?.limit ?? 1000;
+    const keys = new Set<string>();
+
+    for (const visibility of ["public", "private"] as Visibility[]) {
+      const base = path.join(this.config.root, visibility);
+      let entries;
+      try {
+        entries = await fs.readdir(base, {
+          recursive: true,
+          withFileTypes: true,
+        });
+      } catch {
+        continue; // Nothing stored with this visibility yet
+      }
+
+      for (const entry of entries) {
+        if (!entry.isFile()) continue;
+
+        const key = path
+          .relative(base, path.join(entry.parentPath, entry.name))
+          .split(path.sep)
+          .join("/");
+        if (key.startsWith(prefix)) keys.add(key);
+      }
+    }
+
+    const sorted = [...keys]
+      .sort()
+      .filter((key) => !options?.cursor || key > options.cursor);
+    const page = sorted.slice(0, limit);
+
+    const objects: StorageObjectInfo[] = [];
+    for (const key of page) {
+      const info = await this.head(key);
+      if (info) objects.push(info);
+    }
+
+    return {
+      objects,
+      nextCursor: sorted.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+}
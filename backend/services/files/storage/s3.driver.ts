@@ -0,0 +1,355 @@
+// services/files/storage/s3.driver.ts
+// Amazon S3 or any S3-compatible server (MinIO, R2, Spaces), spoken to
+// directly over HTTP with Signature Version 4
+
+import crypto from "crypto";
+import path from "path";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { S3StorageConfig } from "../../../config/storage.config";
+import {
+  StorageDriver,
+  StorageListOptions,
+  StorageListResult,
+  StorageObjectInfo,
+  StorageObjectStream,
+  StoragePutOptions,
+  StorageSignedUrlOptions,
+  StoredObject,
+} from "../../../types/storage.types";
+
+const DEFAULT_SIGNED_URL_SECONDS = 15 * 60;
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60; // S3's limit
+const EMPTY_HASH = crypto.createHash("sha256").update("").digest("hex");
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding as S3 expects it
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+const canonicalQuery = (query: Record<string, string>) =>
+  Object.keys(query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join("&");
+
+const xmlValues = (xml: string, tag: string): string[] =>
+  [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g"))].map(
+    (match) => match[1]
+  );
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3" as const;
+  private config: S3StorageConfig;
+  private endpoint: URL;
+
+  constructor(config: S3StorageConfig) {
+    this.config = config;
+    this.endpoint = new URL(config.endpoint);
+  }
+
+  /**
+   * Host and path for an object (or the bucket, for an empty key)
+   */
+  private target(key: string): { host: string; path: string; origin: string } {
+    const encoded = key ? `/${encodeKey(key)}` : "/";
+
+    if (this.config.forcePathStyle) {
+      return {
+        host: this.endpoint.host,
+        path: `/${this.config.bucket}${key ? encoded : ""}`,
+        origin: this.endpoint.origin,
+      };
+    }
+
+    const host = `${this.config.bucket}.${this.endpoint.host}`;
+    return {
+      host,
+      path: encoded,
+      origin: `${this.endpoint.protocol}//${host}`,
+    };
+  }
+
+  private signingKey(date: string): Buffer {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, "s3");
+    return hmac(serviceKey, "aws4_request");
+  }
+
+  private timestamps(now: Date = new Date()) {
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    return { amzDate, date: amzDate.slice(0, 8) };
+  }
+
+  private async request(
+    method: "GET" | "PUT" | "DELETE" | "HEAD",
+    key: string,
+    options: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: Buffer;
+    } = {}
+  ): Promise<Response> {
+    const { host, path: requestPath, origin } = this.target(key);
+    const { amzDate, date } = this.timestamps();
+    const payloadHash = options.body ? sha256(options.body) : EMPTY_HASH;
+    const query = options.query || {};
+
+    const headers: Record<string, string> = {
+      ...Object.fromEntries(
+        Object.entries(options.headers || {}).map(([name, value]) => [
+          name.toLowerCase(),
+          value,
+        ])
+      ),
+      host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      requestPath,
+      canonicalQuery(query),
+      signedHeaders
+        .map((name) => `${name}:${headers[name].trim()}\n`)
+        .join(""),
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+    const signature = crypto
+      .createHmac("sha256", this.signingKey(date))
+      .update(stringToSign)
+      .digest("hex");
+
+    const { host: _host, ...sendHeaders } = headers;
+    const search = canonicalQuery(query);
+
+    return fetch(`${origin}${requestPath}${search ? `?${search}` : ""}`, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    const body = await response.text().catch(() => "");
+    const code = xmlValues(body, "Code")[0];
+    throw new Error(
+      `S3 ${action} failed: ${response.status}${code ? ` ${code}` : ""}`
+    );
+  }
+
+  private objectUrl(key: string): string {
+    if (this.config.publicBaseUrl) {
+      return `${this.config.publicBaseUrl.replace(/\/+$/, "")}/${encodeKey(key)}`;
+    }
+    const { origin, path: objectPath } = this.target(key);
+    return `${origin}${objectPath}`;
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: StoragePutOptions
+  ): Promise<StoredObject> {
+    const metadataHeaders = Object.fromEntries(
+      Object.entries(options.metadata || {}).map(([name, value]) => [
+        `x-amz-meta-${name.toLowerCase()}`,
+        encodeURIComponent(value),
+      ])
+    );
+
+    const response = await this.request("PUT", key, {
+      body,
+      headers: {
+        "content-type": options.contentType,
+        "content-length": String(body.length),
+        ...(options.fileName && {
+          "x-amz-meta-original-name": encodeURIComponent(options.fileName),
+        }),
+        ...metadataHeaders,
+      },
+    });
+
+    if (!response.ok) await this.fail(response, "upload");
+
+    return {
+      driver: this.name,
+      key,
+      url: this.objectUrl(key),
+      size: body.length,
+      contentType: options.contentType,
+      isPublic: options.isPublic !== false,
+      extension: path.extname(key).slice(1) || undefined,
+      etag: response.headers.get("etag")?.replace(/"/g, "") || undefined,
+      extra: { bucket: this.config.bucket },
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    // Deleting a missing object succeeds on S3
+    if (!response.ok && response.status !== 404) {
+      await this.fail(response, "delete");
+    }
+  }
+
+  async getSignedUrl(
+    key: string,
+    options?: StorageSignedUrlOptions
+  ): Promise<string> {
+    const expiresIn = Math.min(
+      options?.expiresInSeconds ?? DEFAULT_SIGNED_URL_SECONDS,
+      MAX_SIGNED_URL_SECONDS
+    );
+    const { host, path: objectPath, origin } = this.target(key);
+    const { amzDate, date } = this.timestamps();
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.config.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresIn),
+      "X-Amz-SignedHeaders": "host",
+    };
+    if (options?.downloadName) {
+      query["response-content-disposition"] = `attachment; filename="${options.downloadName.replace(/"/g, "")}"`;
+    }
+
+    const canonicalRequest = [
+      "GET",
+      objectPath,
+      canonicalQuery(query),
+      `host:${host}\n`,
+      "host",
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+    const signature = crypto
+      .createHmac("sha256", this.signingKey(date))
+      .update(stringToSign)
+      .digest("hex");
+
+    return `${origin}${objectPath}?${canonicalQuery({
+      ...query,
+      "X-Amz-Signature": signature,
+    })}`;
+  }
+
+  async getStream(key: string): Promise<StorageObjectStream | null> {
+    const response = await this.request("GET", key);
+
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) await this.fail(response, "download");
+
+    return {
+      body: Readable.fromWeb(response.body as ReadableStream),
+      size: Number(response.headers.get("content-length")) || undefined,
+      contentType: response.headers.get("content-type") || undefined,
+    };
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const response = await this.request("HEAD", key);
+
+    if (response.status === 404) return null;
+    if (!response.ok) await this.fail(response, "head");
+
+    const metadata: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name.startsWith("x-amz-meta-")) {
+        metadata[name.slice("x-amz-meta-".length)] = decodeURIComponent(value);
+      }
+    });
+
+    const lastModified = response.headers.get("last-modified");
+    return {
+      key,
+      size: Number(response.headers.get("content-length") || 0),
+      contentType: response.headers.get("content-type") || undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined,
+      etag: response.headers.get("etag")?.replace(/"/g, "") || undefined,
+      metadata,
+    };
+  }
+
+  async list(
+    prefix: string,
+    options?: StorageListOptions
+  ): Promise<StorageListResult> {
+    const query: Record<string, string> = {
+      "list-type": "2",
+      prefix,
+      "max-keys": String(Math.min(options?.limit ?? 1000, 1000)),
+    };
+    if (options?.cursor) query["continuation-token"] = options.cursor;
+
+    const response = await this.request("GET", "", { query });
+    if (!response.ok) await this.fail(response, "list");
+
+    const xml = await response.text();
+    const objects = xmlValues(xml, "Contents").map((entry) => ({
+      key: decodeXml(xmlValues(entry, "Key")[0] || ""),
+      size: Number(xmlValues(entry, "Size")[0] || 0),
+      lastModified: xmlValues(entry, "LastModified")[0]
+        ? new Date(xmlValues(entry, "LastModified")[0])
+        : undefined,
+      etag:
+        decodeXml(xmlValues(entry, "ETag")[0] || "").replace(/"/g, "") ||
+        undefined,
+    }));
+
+    const truncated = xmlValues(xml, "IsTruncated")[0] === "true";
+    const nextToken = xmlValues(xml, "NextContinuationToken")[0];
+
+    return {
+      objects,
+      nextCursor: truncated && nextToken ? decodeXml(nextToken) : undefined,
+    };
+  }
+
+  /**
+   * Access is set on the bucket, not per object
+   */
+  async setVisibility(key: string): Promise<string> {
+    return this.objectUrl(key);
+  }
+}
@@ -0,0 +1,398 @@
+// services/files/storage/storage.service.ts
+// Picks a storage driver per file label and keeps File records pointing
+// at the driver that holds their bytes. Uploads are checked and scanned,
+// and images go through the processing pipeline, on the way in.
+
+import { v4 as uuidv4 } from "uuid";
+import { CloudinaryConfigService } from "../../../config/cloudinary.config";
+import {
+  loadStorageConfig,
+  StorageConfig,
+} from "../../../config/storage.config";
+import { FileScanRecord, ScanVerdict } from "../../../types/file-scan.types";
+import { File } from "../../../types/files.types";
+import {
+  StorageDriver,
+  StorageDriverName,
+  StorageObjectStream,
+  StorageSignedUrlOptions,
+  StoredObject,
+  StoredVariant,
+} from "../../../types/storage.types";
+import { extensionForType } from "../../../utils/file-type.utils";
+import { imageProcessingService } from "../image-processing.service";
+import { CreateFileData } from "../mongodb.files.service";
+import { fileScanService } from "../scanning/file-scan.service";
+import { CloudinaryStorageDriver } from "./cloudinary.driver";
+import { GcsStorageDriver } from "./gcs.driver";
+import { LocalStorageDriver } from "./local.driver";
+import { S3StorageDriver } from "./s3.driver";
+
+export interface StorageUploadOptions {
+  label?: string; // Chooses the driver; see STORAGE_LABEL_DRIVERS
+  folder: string; // Key prefix, e.g. "users/<id>/profile_picture"
+  fileName: string; // Original name, kept as metadata and for downloads
+  contentType: string;
+  isPublic?: boolean;
+  metadata?: Record<string, string>;
+  uploaderId?: string; // Reported to admins if the upload has malware
+}
+
+/**
+ * The File fields describing where an upload was stored
+ */
+export type StoredFileFields = Pick<
+  CreateFileData,
+  | "url"
+  | "fileSize"
+  | "mimeType"
+  | "extension"
+  | "thumbnailUrl"
+  | "storageProvider"
+  | "storageKey"
+  | "visibility"
+  | "status"
+  | "metadata"
+>;
+
+/**
+ * A file's record after its bytes changed visibility
+ */
+export type VisibilityChange = Pick<
+  StoredFileFields,
+  "url" | "thumbnailUrl" | "visibility"
+> & { variants?: Record<string, StoredVariant> };
+
+/**
+ * Read a metadata value from a File, whether or not it came back as a Map
+ */
+const metadataValue = (file: File, name: string): unknown => {
+  const metadata = file.metadata as Map<string, unknown> | Record<string, any>;
+  if (!metadata) return undefined;
+  return metadata instanceof Map ? metadata.get(name) : metadata[name];
+};
+
+export class StorageService {
+  private config?: StorageConfig;
+  private drivers = new Map<StorageDriverName, StorageDriver>();
+
+  // Environment variables are read on first use, after dotenv has loaded
+  private getConfig(): StorageConfig {
+    if (!this.config) this.config = loadStorageConfig();
+    return this.config;
+  }
+
+  private createDriver(name: StorageDriverName): StorageDriver {
+    const config = this.getConfig();
+
+    switch (name) {
+      case "local":
+        return new LocalStorageDriver(config.local);
+      case "s3":
+        if (!config.s3) {
+          throw new Error("S3 storage is not configured: set S3_BUCKET");
+        }
+        return new S3StorageDriver(config.s3);
+      case "gcs":
+        if (!config.gcs) {
+          throw new Error("GCS storage is not configured: set GCS_BUCKET");
+        }
+        return new GcsStorageDriver(config.gcs);
+      case "cloudinary":
+        if (!config.cloudinaryEnabled) {
+          throw new Error(
+            "Cloudinary storage is not configured: set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET"
+          );
+        }
+        return new CloudinaryStorageDriver(
+          new CloudinaryConfigService({
+            cloudName: process.env.CLOUDINARY_CLOUD_NAME!,
+            apiKey: process.env.CLOUDINARY_API_KEY!,
+            apiSecret: process.env.CLOUDINARY_API_SECRET!,
+          })
+        );
+      default:
+        throw new Error(`Storage driver "${name}" is not supported`);
+    }
+  }
+
+  getDriver(name: StorageDriverName): StorageDriver {
+    let driver = this.drivers.get(name);
+    if (!driver) {
+      driver = this.createDriver(name);
+      this.drivers.set(name, driver);
+    }
+    return driver;
+  }
+
+  getLocalDriver(): LocalStorageDriver {
+    return this.getDriver("local") as LocalStorageDriver;
+  }
+
+  /**
+   * Driver configured for a file label, or the default driver
+   */
+  driverNameForLabel(label?: string): StorageDriverName {
+    const config = this.getConfig();
+    return (label && config.labelDrivers[label]) || config.defaultDriver;
+  }
+
+  /**
+   * Store an upload under a unique key in the label's driver. Content
+   * that isn't its declared type, malware and invalid images are
+   * rejected before anything is stored. Images are cleaned up and
+   * stored as WebP with the label's sizes beside them.
+   */
+  async upload(
+    body: Buffer,
+    options: StorageUploadOptions
+  ): Promise<StoredObject> {
+    const inspected = await fileScanService.inspect(body, {
+      fileName: options.fileName,
+      contentType: options.contentType,
+      label: options.label,
+      uploaderId: options.uploaderId,
+    });
+
+    const driver = this.getDriver(this.driverNameForLabel(options.label));
+    const folder = options.folder.replace(/^\/+|\/+$/g, "");
+    const baseKey = `${folder}/${uuidv4()}`;
+
+    // Unscanned bytes stay private until a rescan releases them
+    const quarantined = inspected.scan.verdict === ScanVerdict.ERROR;
+    const publicAfterScan = quarantined && options.isPublic !== false;
+    const putOptions = {
+      fileName: options.fileName,
+      isPublic: quarantined ? false : options.isPublic,
+      metadata: options.metadata,
+    };
+
+    const image = await imageProcessingService.process(inspected.body, {
+      contentType: options.contentType,
+      label: options.label,
+    });
+
+    if (!image) {
+      // Taken from the checked type, never from the uploader's file name
+      const extension = extensionForType(options.contentType);
+      const stored = await driver.put(
+        `${baseKey}${extension}`,
+        inspected.body,
+        { ...putOptions, contentType: options.contentType }
+      );
+      return {
+        ...stored,
+        scan: inspected.scan,
+        ...(publicAfterScan && {
+          extra: { ...stored.extra, publicAfterScan },
+        }),
+      };
+    }
+
+    const imageOptions = { ...putOptions, contentType: image.contentType };
+    const stored = await driver.put(
+      `${baseKey}${image.extension}`,
+      image.body,
+      imageOptions
+    );
+
+    const variants: Record<string, StoredVariant> = {};
+    try {
+      for (const variant of image.variants) {
+        const storedVariant = await driver.put(
+          `${baseKey}_${variant.name}${image.extension}`,
+          variant.body,
+          imageOptions
+        );
+        variants[variant.name] = {
+          key: storedVariant.key,
+          url: storedVariant.url,
+          width: variant.width,
+          height: variant.height,
+          size: storedVariant.size,
+        };
+      }
+    } catch (error) {
+      // Don't leave a partial set behind
+      const objectOptions = {
+        contentType: image.contentType,
+        isPublic: putOptions.isPublic,
+      };
+      await Promise.allSettled(
+        [stored.key, ...Object.values(variants).map((v) => v.key)].map((key) =>
+          driver.delete(key, objectOptions)
+        )
+      );
+      throw error;
+    }
+
+    const thumbnail = image.variants[0] && variants[image.variants[0].name];
+
+    return {
+      ...stored,
+      width: image.width,
+      height: image.height,
+      thumbnailUrl: thumbnail?.url ?? stored.thumbnailUrl,
+      variants,
+      scan: inspected.scan,
+      extra: {
+        ...stored.extra,
+        originalContentType: image.originalContentType,
+        ...(publicAfterScan && { publicAfterScan }),
+      },
+    };
+  }
+
+  /**
+   * File record fields for a stored object. Uploads the scanner couldn't
+   * check are quarantined, and stored privately, until a rescan passes.
+   */
+  toFileFields(stored: StoredObject): StoredFileFields {
+    return {
+      url: stored.url,
+      fileSize: stored.size,
+      mimeType: stored.contentType,
+      extension: stored.extension,
+      thumbnailUrl: stored.thumbnailUrl,
+      storageProvider: stored.driver,
+      storageKey: stored.key,
+      visibility: stored.isPublic ? "public" : "private",
+      status:
+        stored.scan?.verdict === ScanVerdict.ERROR ? "quarantined" : "active",
+      metadata: {
+        ...stored.extra,
+        ...(stored.width !== undefined && { width: stored.width }),
+        ...(stored.height !== undefined && { height: stored.height }),
+        ...(stored.variants && { variants: stored.variants }),
+        ...(stored.scan && { scan: stored.scan }),
+      },
+    };
+  }
+
+  /**
+   * Key of a file in its driver. Files uploaded before storage keys
+   * were recorded are on Cloudinary, keyed by public ID.
+   */
+  getStorageKey(file: File): string | undefined {
+    return (
+      file.storageKey ||
+      (metadataValue(file, "publicId") as string | undefined)
+    );
+  }
+
+  private objectOptions(file: File) {
+    return {
+      contentType: file.mimeType,
+      extension: file.extension,
+      isPublic: file.visibility !== "private",
+    };
+  }
+
+  /**
+   * Resized copies recorded for a file, by size name
+   */
+  getVariants(file: File): Record<string, StoredVariant> {
+    return (
+      (metadataValue(file, "variants") as Record<string, StoredVariant>) || {}
+    );
+  }
+
+  /**
+   * The file's last malware scan, if it was scanned
+   */
+  getScanRecord(file: File): FileScanRecord | undefined {
+    return metadataValue(file, "scan") as FileScanRecord | undefined;
+  }
+
+  /**
+   * Whether a quarantined file was uploaded as public, and becomes so
+   * once it passes a scan
+   */
+  isPublicAfterScan(file: File): boolean {
+    return metadataValue(file, "publicAfterScan") === true;
+  }
+
+  /**
+   * Remove a file's bytes, and any resized copies, from the driver
+   * holding them. Records without a storage key have nothing to remove.
+   */
+  async deleteFile(file: File): Promise<void> {
+    const key = this.getStorageKey(file);
+    if (!key) return;
+
+    const driver = this.getDriver(file.storageProvider);
+    const options = this.objectOptions(file);
+
+    for (const variant of Object.values(this.getVariants(file))) {
+      await driver.delete(variant.key, options);
+    }
+    await driver.delete(key, options);
+  }
+
+  /**
+   * Move a file's bytes, and any resized copies, to public or private
+   * delivery. Returns the fields to save on its record.
+   */
+  async setVisibility(
+    file: File,
+    isPublic: boolean
+  ): Promise<VisibilityChange> {
+    const visibility = isPublic ? "public" : "private";
+    const key = this.getStorageKey(file);
+    if (!key) {
+      return { url: file.url, thumbnailUrl: file.thumbnailUrl, visibility };
+    }
+
+    const driver = this.getDriver(file.storageProvider);
+    const options = this.objectOptions(file);
+    const url = await driver.setVisibility(key, isPublic, options);
+
+    const current = this.getVariants(file);
+    if (!Object.keys(current).length) {
+      return { url, thumbnailUrl: file.thumbnailUrl, visibility };
+    }
+
+    const variants: Record<string, StoredVariant> = {};
+    let thumbnailUrl = file.thumbnailUrl;
+    for (const [name, variant] of Object.entries(current)) {
+      variants[name] = {
+        ...variant,
+        url: await driver.setVisibility(variant.key, isPublic, options),
+      };
+      if (variant.url === file.thumbnailUrl) thumbnailUrl = variants[name].url;
+    }
+
+    return { url, thumbnailUrl, visibility, variants };
+  }
+
+  /**
+   * Read a file's bytes through the server; null if they are gone
+   */
+  async openStream(file: File): Promise<StorageObjectStream | null> {
+    const key = this.getStorageKey(file);
+    if (!key) return null;
+
+    return this.getDriver(file.storageProvider).getStream(
+      key,
+      this.objectOptions(file)
+    );
+  }
+
+  /**
+   * Time-limited URL for reading a file from its driver
+   */
+  async getSignedUrl(
+    file: File,
+    options?: Pick<StorageSignedUrlOptions, "expiresInSeconds" | "downloadName">
+  ): Promise<string> {
+    const key = this.getStorageKey(file);
+    if (!key) return file.url;
+
+    return this.getDriver(file.storageProvider).getSignedUrl(key, {
+      ...this.objectOptions(file),
+      ...options,
+    });
+  }
+}
+
+export const storageService = new StorageService();
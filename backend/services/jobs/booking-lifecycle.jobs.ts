@@ -0,0 +1,166 @@
+// services/jobs/booking-lifecycle.jobs.ts
+// Background jobs that move bookings through time-based transitions
+
+import { BookingModel } from "../../models/booking.model";
+import PaymentTransactionModelInstance from "../../models/payment-transaction.model";
+import {
+  BookingStatus,
+  RescheduleProposalStatus,
+} from "../../types/booking.types";
+import { JobContext, JobDefinition, JobResult } from "../../types/jobs.types";
+import {
+  COLLECTION_TYPES,
+  PaymentTransactionStatus,
+} from "../../types/payment.types";
+import { inIdOrder } from "../../utils/batch.utils";
+import { JobRunner } from "./job-runner.service";
+
+export const EXPIRE_RESCHEDULE_PROPOSALS_JOB = "expire-reschedule-proposals";
+export const CANCEL_UNPAID_DEPOSITS_JOB = "cancel-unpaid-deposits";
+
+const BATCH_SIZE = 200;
+
+const minutesToMs = (minutes: number) => minutes * 60 * 1000;
+
+// How long a payment the customer has started holds off cancellation
+const PENDING_PAYMENT_GRACE_MINUTES = Number(
+  process.env.DEPOSIT_PENDING_PAYMENT_GRACE_MINUTES || 60
+);
+
+/**
+ * Expire reschedule proposals the other party never answered
+ */
+async function expireRescheduleProposals(
+  context: JobContext
+): Promise<JobResult> {
+  let processedCount = 0;
+
+  const now = new Date();
+  const bookings = inIdOrder(
+    (after) =>
+      BookingModel.find({
+        "rescheduleProposal.status": RescheduleProposalStatus.PENDING,
+        "rescheduleProposal.expiresAt": { $lte: now },
+        isDeleted: { $ne: true },
+        ...after,
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE),
+    BATCH_SIZE
+  );
+
+  for await (const booking of bookings) {
+    try {
+      await booking.expireRescheduleProposal();
+
+      context.recordTransition({
+        entityType: "Booking",
+        entityId: booking._id,
+        fromStatus: booking.status,
+        toStatus: booking.status,
+        reason: "Reschedule proposal expired without a response",
+      });
+      processedCount++;
+    } catch (error) {
+      console.error(
+        `Failed to expire reschedule proposal for booking ${booking._id}:`,
+        error
+      );
+    }
+  }
+
+  return { processedCount };
+}
+
+/**
+ * Cancel confirmed bookings whose required deposit was not paid
+ * within the grace period. Bookings with a payment still awaiting the
+ * gateway get a little longer, so a confirmation isn't beaten to it.
+ */
+async function cancelUnpaidDeposits(context: JobContext): Promise<JobResult> {
+  let processedCount = 0;
+
+  const now = new Date();
+  const pendingSince = new Date(
+    now.getTime() - minutesToMs(PENDING_PAYMENT_GRACE_MINUTES)
+  );
+
+  // Bookings skipped for a pending payment are paged past, not refetched
+  const bookings = inIdOrder(
+    (after) =>
+      BookingModel.find({
+        status: BookingStatus.CONFIRMED,
+        depositAmount: { $gt: 0 },
+        depositPaid: { $ne: true },
+        depositDueBy: { $lte: now },
+        isDeleted: { $ne: true },
+        ...after,
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE),
+    BATCH_SIZE
+  );
+
+  for await (const booking of bookings) {
+    try {
+      const paymentPending = await PaymentTransactionModelInstance.exists({
+        bookingId: booking._id,
+        type: { $in: COLLECTION_TYPES },
+        status: PaymentTransactionStatus.PENDING,
+        createdAt: { $gt: pendingSince },
+      });
+      if (paymentPending) continue;
+
+      await booking.cancel(
+        `Deposit of ${booking.depositAmount} ${booking.currency} not paid by ${booking.depositDueBy?.toISOString()}`,
+        "SYSTEM"
+      );
+
+      context.recordTransition({
+        entityType: "Booking",
+        entityId: booking._id,
+        fromStatus: BookingStatus.CONFIRMED,
+        toStatus: BookingStatus.CANCELLED,
+        reason: "Deposit not paid within grace period",
+      });
+      processedCount++;
+    } catch (error) {
+      console.error(
+        `Failed to cancel unpaid booking ${booking._id}:`,
+        error
+      );
+    }
+  }
+
+  return { processedCount };
+}
+
+export const bookingLifecycleJobs: JobDefinition[] = [
+  {
+    name: EXPIRE_RESCHEDULE_PROPOSALS_JOB,
+    description: "Expire PENDING reschedule proposals past their deadline",
+    intervalMs: minutesToMs(
+      Number(process.env.RESCHEDULE_EXPIRY_JOB_MINUTES || 15)
+    ),
+    lockTtlMs: minutesToMs(10),
+    handler: expireRescheduleProposals,
+  },
+  {
+    name: CANCEL_UNPAID_DEPOSITS_JOB,
+    description: "Cancel CONFIRMED bookings whose deposit is past due",
+    intervalMs: minutesToMs(
+      Number(process.env.DEPOSIT_EXPIRY_JOB_MINUTES || 15)
+    ),
+    lockTtlMs: minutesToMs(10),
+    handler: cancelUnpaidDeposits,
+  },
+];
+
+/**
+ * Register booking lifecycle jobs with a runner
+ */
+export function registerBookingLifecycleJobs(runner: JobRunner): void {
+  for (const job of bookingLifecycleJobs) {
+    runner.register(job);
+  }
+}
@@ -0,0 +1,39 @@
+// services/jobs/file-scan.jobs.ts
+// Background job that retries malware scans for quarantined uploads
+
+import { JobDefinition, JobResult } from "../../types/jobs.types";
+import { quarantineService } from "../files/quarantine.service";
+import { JobRunner } from "./job-runner.service";
+
+export const RESCAN_QUARANTINED_FILES_JOB = "rescan-quarantined-files";
+
+const minutesToMs = (minutes: number) => minutes * 60 * 1000;
+
+/**
+ * Scan quarantined files again, releasing those that pass
+ */
+async function rescanQuarantinedFiles(): Promise<JobResult> {
+  const processedCount = await quarantineService.rescanPending(
+    Number(process.env.FILE_RESCAN_BATCH_SIZE || 50)
+  );
+  return { processedCount };
+}
+
+export const fileScanJobs: JobDefinition[] = [
+  {
+    name: RESCAN_QUARANTINED_FILES_JOB,
+    description: "Retry malware scans for quarantined uploads",
+    intervalMs: minutesToMs(Number(process.env.FILE_RESCAN_JOB_MINUTES || 10)),
+    lockTtlMs: minutesToMs(30),
+    handler: rescanQuarantinedFiles,
+  },
+];
+
+/**
+ * Register file scan jobs with a runner
+ */
+export function registerFileScanJobs(runner: JobRunner): void {
+  for (const job of fileScanJobs) {
+    runner.register(job);
+  }
+}
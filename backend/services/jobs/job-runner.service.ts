@@ -0,0 +1,239 @@
+// services/jobs/job-runner.service.ts
+// In-process job runner with a Mongo-backed lock
+
+import os from "os";
+import { randomUUID } from "crypto";
+import { Types } from "mongoose";
+import JobLockModelInstance from "../../models/job-lock.model";
+import JobRunModelInstance from "../../models/job-run.model";
+import {
+  JobDefinition,
+  JobRunStatus,
+  JobTransition,
+  JobTrigger,
+} from "../../types/jobs.types";
+
+/**
+ * Runs registered jobs on an interval.
+ * Each run first acquires a lease on the job's lock document, so when
+ * several app instances share a database only one executes a job at a time.
+ */
+export class JobRunner {
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private jobs = new Map<string, JobDefinition>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private started = false;
+
+  /**
+   * Register a job definition
+   */
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job "${job.name}" is already registered`);
+    }
+    this.jobs.set(job.name, job);
+
+    if (this.started) {
+      this.schedule(job);
+    }
+  }
+
+  /**
+   * List registered jobs
+   */
+  listJobs(): Array<Omit<JobDefinition, "handler">> {
+    return Array.from(this.jobs.values()).map(
+      ({ name, description, intervalMs, lockTtlMs }) => ({
+        name,
+        description,
+        intervalMs,
+        lockTtlMs,
+      })
+    );
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Start interval timers for all registered jobs
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      this.schedule(job);
+    }
+
+    console.log(
+      `✓ Job runner started (${this.jobs.size} job(s), instance ${this.instanceId})`
+    );
+  }
+
+  /**
+   * Stop all timers. In-flight runs are left to finish.
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+    this.started = false;
+  }
+
+  /**
+   * Run a job now, respecting the lock
+   */
+  async runJob(
+    name: string,
+    trigger: JobTrigger = JobTrigger.SCHEDULE,
+    triggeredBy?: string | Types.ObjectId
+  ) {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Job "${name}" is not registered`);
+    }
+
+    const run = await JobRunModelInstance.create({
+      jobName: name,
+      status: JobRunStatus.RUNNING,
+      trigger,
+      triggeredBy: triggeredBy
+        ? new Types.ObjectId(triggeredBy.toString())
+        : undefined,
+      instanceId: this.instanceId,
+      startedAt: new Date(),
+    });
+
+    const acquired = await this.acquireLock(name, job.lockTtlMs);
+
+    if (!acquired) {
+      run.status = JobRunStatus.SKIPPED;
+      run.finishedAt = new Date();
+      run.durationMs = 0;
+      run.error = "Lock held by another instance";
+      await run.save();
+      return run;
+    }
+
+    const transitions: JobTransition[] = [];
+
+    try {
+      const result = await job.handler({
+        runId: run._id,
+        trigger,
+        recordTransition: (transition) => {
+          transitions.push({ ...transition, timestamp: new Date() });
+        },
+      });
+
+      run.status = JobRunStatus.SUCCEEDED;
+      run.processedCount = result.processedCount;
+    } catch (error: any) {
+      console.error(`Job "${name}" failed:`, error);
+      run.status = JobRunStatus.FAILED;
+      run.error = error.message || String(error);
+    } finally {
+      await this.releaseLock(name);
+    }
+
+    run.transitions = transitions;
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    await run.save();
+
+    return run;
+  }
+
+  /**
+   * Get recent job runs
+   */
+  async getRuns(filters: {
+    jobName?: string;
+    status?: JobRunStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const query: any = {};
+    if (filters.jobName) query.jobName = filters.jobName;
+    if (filters.status) query.status = filters.status;
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const [runs, total] = await Promise.all([
+      JobRunModelInstance.find(query)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      JobRunModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private schedule(job: JobDefinition): void {
+    const timer = setInterval(() => {
+      this.runJob(job.name, JobTrigger.SCHEDULE).catch((error) =>
+        console.error(`Scheduled run of "${job.name}" failed:`, error)
+      );
+    }, job.intervalMs);
+
+    // Don't keep the process alive just for jobs
+    timer.unref();
+    this.timers.set(job.name, timer);
+  }
+
+  /**
+   * Try to take the lease. Returns false if another instance holds it.
+   */
+  private async acquireLock(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      const lock = await JobLockModelInstance.findOneAndUpdate(
+        {
+          _id: name,
+          $or: [{ lockedUntil: { $lte: now } }, { lockedUntil: null }],
+        },
+        {
+          $set: {
+            lockedBy: this.instanceId,
+            lockedAt: now,
+            lockedUntil: new Date(now.getTime() + ttlMs),
+          },
+        },
+        { upsert: true, new: true }
+      );
+
+      return lock?.lockedBy === this.instanceId;
+    } catch (error: any) {
+      // Duplicate key on upsert means the lock exists and is still held
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async releaseLock(name: string): Promise<void> {
+    await JobLockModelInstance.updateOne(
+      { _id: name, lockedBy: this.instanceId },
+      { $set: { lockedUntil: new Date(0) } }
+    );
+  }
+}
+
+// Export singleton instance
+export const jobRunner = new JobRunner();
@@ -0,0 +1,39 @@
+// services/jobs/provider-performance.jobs.ts
+// Background jobs that keep precomputed provider stats fresh for matching
+
+import { JobDefinition, JobResult } from "../../types/jobs.types";
+import { providerPerformanceService } from "../profiles/provider-performance.service";
+import { JobRunner } from "./job-runner.service";
+
+export const REFRESH_PROVIDER_PERFORMANCE_JOB = "refresh-provider-performance";
+
+const minutesToMs = (minutes: number) => minutes * 60 * 1000;
+
+/**
+ * Recompute completion, cancellation, response and workload stats
+ */
+async function refreshProviderPerformance(): Promise<JobResult> {
+  const processedCount = await providerPerformanceService.refreshStats();
+  return { processedCount };
+}
+
+export const providerPerformanceJobs: JobDefinition[] = [
+  {
+    name: REFRESH_PROVIDER_PERFORMANCE_JOB,
+    description: "Refresh provider performance stats used by task matching",
+    intervalMs: minutesToMs(
+      Number(process.env.PROVIDER_PERFORMANCE_JOB_MINUTES || 15)
+    ),
+    lockTtlMs: minutesToMs(10),
+    handler: refreshProviderPerformance,
+  },
+];
+
+/**
+ * Register provider performance jobs with a runner
+ */
+export function registerProviderPerformanceJobs(runner: JobRunner): void {
+  for (const job of providerPerformanceJobs) {
+    runner.register(job);
+  }
+}
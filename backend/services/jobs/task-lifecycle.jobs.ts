@@ -0,0 +1,148 @@
+// services/jobs/task-lifecycle.jobs.ts
+// Background jobs that move tasks through time-based transitions
+
+import TaskModelInstance from "../../models/task.model";
+import {
+  JobContext,
+  JobDefinition,
+  JobResult,
+  TaskLifecycleJobConfig,
+} from "../../types/jobs.types";
+import { TaskStatus } from "../../types/tasks.types";
+import { inIdOrder } from "../../utils/batch.utils";
+import { JobRunner } from "./job-runner.service";
+
+export const EXPIRE_STALE_TASKS_JOB = "expire-stale-tasks";
+export const FLOAT_UNRESPONSIVE_TASKS_JOB = "float-unresponsive-tasks";
+
+const BATCH_SIZE = 200;
+
+const minutesToMs = (minutes: number) => minutes * 60 * 1000;
+
+export const taskLifecycleConfig: TaskLifecycleJobConfig = {
+  expirableStatuses: [
+    TaskStatus.PENDING,
+    TaskStatus.MATCHED,
+    TaskStatus.FLOATING,
+    TaskStatus.REQUESTED,
+  ],
+  matchedFloatAfterHours: Number(
+    process.env.TASK_MATCHED_FLOAT_AFTER_HOURS || 48
+  ),
+};
+
+/**
+ * Expire tasks whose `expiresAt` has passed while still in discovery
+ */
+async function expireStaleTasks(context: JobContext): Promise<JobResult> {
+  const now = new Date();
+  let processedCount = 0;
+
+  const tasks = inIdOrder(
+    (after) =>
+      TaskModelInstance.find({
+        status: { $in: taskLifecycleConfig.expirableStatuses },
+        expiresAt: { $lte: now },
+        isDeleted: { $ne: true },
+        ...after,
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE),
+    BATCH_SIZE
+  );
+
+  for await (const task of tasks) {
+    try {
+      const fromStatus = task.status;
+
+      task.status = TaskStatus.EXPIRED;
+      await task.save();
+
+      context.recordTransition({
+        entityType: "Task",
+        entityId: task._id,
+        fromStatus,
+        toStatus: TaskStatus.EXPIRED,
+        reason: `Task expired at ${task.expiresAt?.toISOString()}`,
+      });
+      processedCount++;
+    } catch (error) {
+      console.error(`Failed to expire task ${task._id}:`, error);
+    }
+  }
+
+  return { processedCount };
+}
+
+/**
+ * Float tasks that have sat in MATCHED past the configured window
+ * without the customer requesting a provider
+ */
+async function floatUnresponsiveTasks(context: JobContext): Promise<JobResult> {
+  const cutoff = new Date(
+    Date.now() - taskLifecycleConfig.matchedFloatAfterHours * 60 * 60 * 1000
+  );
+  let processedCount = 0;
+
+  const tasks = inIdOrder(
+    (after) =>
+      TaskModelInstance.find({
+        status: TaskStatus.MATCHED,
+        isDeleted: { $ne: true },
+        $or: [
+          { matchingAttemptedAt: { $lte: cutoff } },
+          { matchingAttemptedAt: null, createdAt: { $lte: cutoff } },
+        ],
+        ...after,
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE),
+    BATCH_SIZE
+  );
+
+  for await (const task of tasks) {
+    try {
+      await task.makeFloating();
+
+      context.recordTransition({
+        entityType: "Task",
+        entityId: task._id,
+        fromStatus: TaskStatus.MATCHED,
+        toStatus: TaskStatus.FLOATING,
+        reason: `No provider requested within ${taskLifecycleConfig.matchedFloatAfterHours}h of matching`,
+      });
+      processedCount++;
+    } catch (error) {
+      console.error(`Failed to float task ${task._id}:`, error);
+    }
+  }
+
+  return { processedCount };
+}
+
+export const taskLifecycleJobs: JobDefinition[] = [
+  {
+    name: EXPIRE_STALE_TASKS_JOB,
+    description:
+      "Move overdue PENDING/MATCHED/FLOATING/REQUESTED tasks to EXPIRED",
+    intervalMs: minutesToMs(Number(process.env.TASK_EXPIRY_JOB_MINUTES || 15)),
+    lockTtlMs: minutesToMs(10),
+    handler: expireStaleTasks,
+  },
+  {
+    name: FLOAT_UNRESPONSIVE_TASKS_JOB,
+    description: "Move MATCHED tasks with no provider response to FLOATING",
+    intervalMs: minutesToMs(Number(process.env.TASK_FLOAT_JOB_MINUTES || 30)),
+    lockTtlMs: minutesToMs(10),
+    handler: floatUnresponsiveTasks,
+  },
+];
+
+/**
+ * Register task lifecycle jobs with a runner
+ */
+export function registerTaskLifecycleJobs(runner: JobRunner): void {
+  for (const job of taskLifecycleJobs) {
+    runner.register(job);
+  }
+}
@@ -0,0 +1,578 @@
+// services/messaging/conversation.service.ts
+// Customer–provider threads tied to a task and carried over to its booking
+
+import { HydratedDocument, Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import ConversationModelInstance from "../../models/conversation.model";
+import MessageModelInstance from "../../models/message.model";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import { ProfileModel } from "../../models/profiles/userProfile.model";
+import TaskModelInstance from "../../models/task.model";
+import { UserRole } from "../../types/base.types";
+import { BookingStatus } from "../../types/booking.types";
+import {
+  Conversation,
+  ConversationViewer,
+  Message,
+  MessageType,
+} from "../../types/messaging.types";
+import { NotificationStreamEvent } from "../../types/notification.types";
+import {
+  CreateFileData,
+  MongoDBFileService,
+} from "../files/mongodb.files.service";
+import {
+  NotificationStreamService,
+  notificationStreamService,
+} from "../notifications/notification-stream.service";
+
+export const CONVERSATION_ENTITY_TYPE = "conversation";
+export const MESSAGE_ATTACHMENT_LABEL = "message_attachment";
+
+const ATTACHMENT_FIELDS =
+  "url fileName mimeType fileSize thumbnailUrl visibility status";
+
+// Contact details stay hidden until a booking exists in one of these states
+const CONTACT_VISIBLE_STATUSES = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.AWAITING_VALIDATION,
+  BookingStatus.VALIDATED,
+  BookingStatus.DISPUTED,
+  BookingStatus.COMPLETED,
+];
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d(?:[\s\-().]*\d){6,}/g;
+
+export const maskContactDetails = (text: string): string =>
+  text
+    .replace(EMAIL_PATTERN, "[email hidden]")
+    .replace(PHONE_PATTERN, "[phone hidden]");
+
+export type MessageAttachmentUpload = Omit<
+  CreateFileData,
+  "entityType" | "entityId" | "label"
+>;
+
+type ConversationDocument = HydratedDocument<Conversation>;
+
+export class ConversationService {
+  private fileService: MongoDBFileService;
+  private stream: NotificationStreamService;
+
+  constructor(
+    fileService: MongoDBFileService = new MongoDBFileService(),
+    stream: NotificationStreamService = notificationStreamService
+  ) {
+    this.fileService = fileService;
+    this.stream = stream;
+  }
+
+  // ── Access ──────────────────────────────────────────────────────────────
+
+  private isParticipant(conversation: Conversation, userId: string): boolean {
+    return conversation.participants.some((id) => id.toString() === userId);
+  }
+
+  private assertAccess(
+    conversation: Conversation,
+    viewer: ConversationViewer
+  ): void {
+    if (!viewer.isAdmin && !this.isParticipant(conversation, viewer.userId)) {
+      throw new Error(
+        "Only the customer, provider or an admin can access this conversation"
+      );
+    }
+  }
+
+  private assertParticipant(conversation: Conversation, userId: string): void {
+    if (!this.isParticipant(conversation, userId)) {
+      throw new Error(
+        "Only the customer or provider can post in this conversation"
+      );
+    }
+  }
+
+  /**
+   * Whether phone numbers and emails can be shown to this viewer
+   */
+  private async canSeeContactDetails(
+    conversation: Conversation,
+    viewer: ConversationViewer
+  ): Promise<boolean> {
+    if (viewer.isAdmin) return true;
+    if (!conversation.bookingId) return false;
+
+    const booking = await BookingModel.findById(conversation.bookingId)
+      .select("status")
+      .lean();
+
+    return !!booking && CONTACT_VISIBLE_STATUSES.includes(booking.status);
+  }
+
+  private present(message: HydratedDocument<Message>, reveal: boolean) {
+    const json = message.toJSON();
+    return reveal ? json : { ...json, body: maskContactDetails(json.body) };
+  }
+
+  // ── Conversations ───────────────────────────────────────────────────────
+
+  private async getProviderUserId(
+    providerId: string | Types.ObjectId
+  ): Promise<Types.ObjectId | null> {
+    const provider = await ProviderModel.findById(providerId)
+      .select("profile")
+      .lean();
+    if (!provider) return null;
+
+    const profile = await ProfileModel.findById(provider.profile)
+      .select("userId")
+      .lean();
+
+    return (profile?.userId as Types.ObjectId) ?? null;
+  }
+
+  /**
+   * Get the thread for a task and provider, creating it on first use
+   */
+  private async findOrCreate(
+    task: { _id: Types.ObjectId; customerId: any },
+    providerId: string | Types.ObjectId
+  ): Promise<ConversationDocument> {
+    const existing = await ConversationModelInstance.findOne({
+      taskId: task._id,
+      providerId,
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const providerUserId = await this.getProviderUserId(providerId);
+
+    if (!providerUserId) {
+      throw new Error("Provider not found");
+    }
+
+    const customerId = task.customerId?._id ?? task.customerId;
+
+    return ConversationModelInstance.create({
+      taskId: task._id,
+      customerId,
+      providerId,
+      participants: [customerId, providerUserId],
+    });
+  }
+
+  /**
+   * Open the thread between a task's customer and a provider linked to
+   * it (matched, interested, requested or accepted). Customers name the
+   * provider; providers open their own thread.
+   */
+  async openTaskConversation(
+    taskId: string,
+    userId: string,
+    providerId?: string
+  ): Promise<ConversationDocument> {
+    const task = await TaskModelInstance.findOne({
+      _id: taskId,
+      isDeleted: { $ne: true },
+    });
+
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    if (task.customerId.toString() !== userId) {
+      const profile = await ProfileModel.findOne({
+        userId,
+        isDeleted: { $ne: true },
+      })
+        .select("_id")
+        .lean();
+      const provider = profile
+        ? await ProviderModel.findOne({
+            profile: profile._id,
+            isDeleted: { $ne: true },
+          })
+            .select("_id")
+            .lean()
+        : null;
+
+      if (!provider) {
+        throw new Error(
+          "Only the customer, provider or an admin can access this conversation"
+        );
+      }
+
+      providerId = provider._id.toString();
+    } else if (!providerId) {
+      throw new Error("providerId is required");
+    }
+
+    const linkedProviderIds = [
+      ...(task.matchedProviders || []).map((p) => p.providerId),
+      ...(task.interestedProviders || []).map((p) => p.providerId),
+      task.requestedProvider?.providerId,
+      task.acceptedProvider?.providerId,
+    ]
+      .filter(Boolean)
+      .map((id) => id!.toString());
+
+    if (!linkedProviderIds.includes(providerId)) {
+      throw new Error("Provider is not linked to this task");
+    }
+
+    const conversation = await this.findOrCreate(task, providerId);
+
+    if (!conversation.bookingId && task.convertedToBookingId) {
+      const accepted = task.acceptedProvider?.providerId?.toString();
+      if (accepted === providerId) {
+        conversation.bookingId = task.convertedToBookingId as Types.ObjectId;
+        await conversation.save();
+      }
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Get the thread for a booking, creating it for bookings made before
+   * messaging existed
+   */
+  async getBookingConversation(
+    bookingId: string,
+    viewer: ConversationViewer
+  ): Promise<ConversationDocument> {
+    const existing = await ConversationModelInstance.findOne({ bookingId });
+
+    if (existing) {
+      this.assertAccess(existing, viewer);
+      return existing;
+    }
+
+    const booking = await BookingModel.findById(bookingId)
+      .select("taskId providerId")
+      .lean();
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const task = await TaskModelInstance.findById(booking.taskId)
+      .select("customerId")
+      .lean();
+
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    const conversation = await this.findOrCreate(
+      task as { _id: Types.ObjectId; customerId: Types.ObjectId },
+      booking.providerId as Types.ObjectId
+    );
+    this.assertAccess(conversation, viewer);
+
+    conversation.bookingId = booking._id as Types.ObjectId;
+    await conversation.save();
+
+    return conversation;
+  }
+
+  /**
+   * Link the accepted provider's thread to the new booking
+   */
+  async attachBooking(
+    taskId: string | Types.ObjectId,
+    providerId: string | Types.ObjectId,
+    bookingId: string | Types.ObjectId,
+    bookingNumber: string
+  ): Promise<void> {
+    const conversation = await ConversationModelInstance.findOne({
+      taskId,
+      providerId,
+    });
+
+    if (!conversation) return;
+
+    conversation.bookingId = new Types.ObjectId(bookingId.toString());
+    await conversation.save();
+
+    await this.postSystemMessage(
+      conversation,
+      `The request was accepted. Booking ${bookingNumber} is confirmed and contact details are now visible.`
+    );
+  }
+
+  async getConversation(
+    conversationId: string,
+    viewer: ConversationViewer
+  ): Promise<ConversationDocument> {
+    const conversation = await ConversationModelInstance.findById(
+      conversationId
+    );
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    this.assertAccess(conversation, viewer);
+    return conversation;
+  }
+
+  private countUnread(conversationId: Types.ObjectId, userId: string) {
+    return MessageModelInstance.countDocuments({
+      conversationId,
+      senderId: { $ne: new Types.ObjectId(userId) },
+      "readBy.userId": { $ne: new Types.ObjectId(userId) },
+    });
+  }
+
+  /**
+   * The user's threads, most recently active first, with unread counts
+   */
+  async listConversations(
+    userId: string,
+    options: { page: number; limit: number }
+  ) {
+    const { page, limit } = options;
+    const query = { participants: new Types.ObjectId(userId) };
+
+    const [conversations, total] = await Promise.all([
+      ConversationModelInstance.find(query)
+        .populate("taskId", "title status")
+        .populate("providerId", "businessName")
+        .sort({ lastMessageAt: -1, updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ConversationModelInstance.countDocuments(query),
+    ]);
+
+    const viewer: ConversationViewer = { userId, isAdmin: false };
+    const items = await Promise.all(
+      conversations.map(async (conversation) => {
+        const [unreadCount, reveal] = await Promise.all([
+          this.countUnread(conversation._id, userId),
+          this.canSeeContactDetails(conversation, viewer),
+        ]);
+        const json = conversation.toJSON();
+
+        return {
+          ...json,
+          lastMessagePreview:
+            json.lastMessagePreview && !reveal
+              ? maskContactDetails(json.lastMessagePreview)
+              : json.lastMessagePreview,
+          unreadCount,
+        };
+      })
+    );
+
+    return {
+      conversations: items,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // ── Messages ────────────────────────────────────────────────────────────
+
+  /**
+   * Messages newest first, with contact details masked until the
+   * booking is confirmed
+   */
+  async listMessages(
+    conversationId: string,
+    viewer: ConversationViewer,
+    options: { page: number; limit: number }
+  ) {
+    const { page, limit } = options;
+    const conversation = await this.getConversation(conversationId, viewer);
+
+    const [messages, total, reveal] = await Promise.all([
+      MessageModelInstance.find({ conversationId: conversation._id })
+        .populate("attachments", ATTACHMENT_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      MessageModelInstance.countDocuments({ conversationId: conversation._id }),
+      this.canSeeContactDetails(conversation, viewer),
+    ]);
+
+    return {
+      messages: messages.map((message) => this.present(message, reveal)),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async recordMessage(
+    conversation: ConversationDocument,
+    message: HydratedDocument<Message>
+  ) {
+    conversation.lastMessageAt = message.createdAt;
+    conversation.lastMessagePreview = message.body
+      ? message.body.slice(0, 200)
+      : `${message.attachments.length} attachment(s)`;
+    await conversation.save();
+
+    const reveal = await this.canSeeContactDetails(conversation, {
+      userId: "",
+      isAdmin: false,
+    });
+    const payload = {
+      conversationId: conversation._id,
+      message: this.present(message, reveal),
+    };
+
+    for (const participant of conversation.participants) {
+      if (participant.toString() === message.senderId?.toString()) continue;
+      this.stream.send(
+        participant.toString(),
+        NotificationStreamEvent.MESSAGE,
+        payload
+      );
+    }
+  }
+
+  /**
+   * Post a message with optional attachments from the customer or provider
+   */
+  async sendMessage(
+    conversationId: string,
+    userId: string,
+    body: string,
+    attachments: MessageAttachmentUpload[] = []
+  ) {
+    const conversation = await ConversationModelInstance.findById(
+      conversationId
+    );
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    this.assertParticipant(conversation, userId);
+
+    if (!body && attachments.length === 0) {
+      throw new Error("Message must have text or attachments");
+    }
+
+    const fileIds: Types.ObjectId[] = [];
+
+    for (const upload of attachments) {
+      const file = await this.fileService.createFile({
+        ...upload,
+        entityType: CONVERSATION_ENTITY_TYPE,
+        entityId: conversation._id,
+        label: MESSAGE_ATTACHMENT_LABEL,
+      });
+      fileIds.push(file._id);
+    }
+
+    const senderId = new Types.ObjectId(userId);
+    const message = await MessageModelInstance.create({
+      conversationId: conversation._id,
+      type: MessageType.TEXT,
+      senderId,
+      senderRole:
+        conversation.customerId.toString() === userId
+          ? UserRole.CUSTOMER
+          : UserRole.PROVIDER,
+      body,
+      attachments: fileIds,
+      readBy: [{ userId: senderId, readAt: new Date() }],
+    });
+
+    await message.populate("attachments", ATTACHMENT_FIELDS);
+    await this.recordMessage(conversation, message);
+
+    const reveal = await this.canSeeContactDetails(conversation, {
+      userId,
+      isAdmin: false,
+    });
+    return this.present(message, reveal);
+  }
+
+  /**
+   * Post an automatic message, e.g. on a status change
+   */
+  async postSystemMessage(
+    conversation: ConversationDocument,
+    body: string
+  ): Promise<void> {
+    const message = await MessageModelInstance.create({
+      conversationId: conversation._id,
+      type: MessageType.SYSTEM,
+      senderRole: "system",
+      body,
+    });
+
+    await this.recordMessage(conversation, message);
+  }
+
+  /**
+   * Post an automatic message to every thread matching the filter
+   */
+  async postSystemMessageTo(
+    filter: Record<string, any>,
+    body: string
+  ): Promise<void> {
+    const conversations = await ConversationModelInstance.find(filter);
+
+    for (const conversation of conversations) {
+      await this.postSystemMessage(conversation, body);
+    }
+  }
+
+  /**
+   * Mark everything the other side sent as read and tell them
+   */
+  async markRead(conversationId: string, userId: string): Promise<number> {
+    const conversation = await ConversationModelInstance.findById(
+      conversationId
+    );
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    this.assertParticipant(conversation, userId);
+
+    const readerId = new Types.ObjectId(userId);
+    const readAt = new Date();
+    const result = await MessageModelInstance.updateMany(
+      {
+        conversationId: conversation._id,
+        senderId: { $ne: readerId },
+        "readBy.userId": { $ne: readerId },
+      },
+      { $push: { readBy: { userId: readerId, readAt } } }
+    );
+
+    if (result.modifiedCount > 0) {
+      for (const participant of conversation.participants) {
+        if (participant.toString() === userId) continue;
+        this.stream.send(
+          participant.toString(),
+          NotificationStreamEvent.MESSAGES_READ,
+          { conversationId: conversation._id, userId, readAt }
+        );
+      }
+    }
+
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const conversationService = new ConversationService();
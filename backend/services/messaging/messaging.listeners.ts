@@ -0,0 +1,80 @@
+// services/messaging/messaging.listeners.ts
+// Posts system messages into conversations when tasks and bookings change
+
+import { BookingStatus } from "../../types/booking.types";
+import { DomainEventType } from "../../types/notification.types";
+import { TaskStatus } from "../../types/tasks.types";
+import { DomainEventBus, domainEvents } from "../events/domain-event-bus";
+import {
+  ConversationService,
+  conversationService,
+} from "./conversation.service";
+
+const bookingStatusText: Partial<Record<BookingStatus, string>> = {
+  [BookingStatus.IN_PROGRESS]: "The provider started the service.",
+  [BookingStatus.AWAITING_VALIDATION]:
+    "The provider marked the service complete. Waiting for the customer to confirm.",
+  [BookingStatus.VALIDATED]: "The customer confirmed the service.",
+  [BookingStatus.DISPUTED]: "The customer raised an issue. The booking is under review.",
+  [BookingStatus.COMPLETED]: "The booking is complete.",
+  [BookingStatus.CANCELLED]: "The booking was cancelled.",
+};
+
+/**
+ * Subscribe conversations to task and booking events
+ */
+export function registerMessagingListeners(
+  bus: DomainEventBus = domainEvents,
+  conversations: ConversationService = conversationService
+): void {
+  bus.subscribe(DomainEventType.TASK_PROVIDER_REQUESTED, async ({ payload }) => {
+    await conversations.postSystemMessageTo(
+      { taskId: payload.taskId, providerId: payload.providerId },
+      "The customer sent a booking request."
+    );
+  });
+
+  bus.subscribe(DomainEventType.TASK_REQUEST_REJECTED, async ({ payload }) => {
+    await conversations.postSystemMessageTo(
+      { taskId: payload.taskId, providerId: payload.providerId },
+      "The provider declined the booking request."
+    );
+  });
+
+  // Carry the accepted provider's thread over to the new booking
+  bus.subscribe(DomainEventType.TASK_REQUEST_ACCEPTED, async ({ payload }) => {
+    await conversations.attachBooking(
+      payload.taskId,
+      payload.providerId,
+      payload.bookingId,
+      payload.bookingNumber
+    );
+  });
+
+  bus.subscribe(DomainEventType.TASK_STATUS_CHANGED, async ({ payload }) => {
+    if (payload.toStatus === TaskStatus.CANCELLED) {
+      await conversations.postSystemMessageTo(
+        { taskId: payload.taskId },
+        "This task was cancelled."
+      );
+    } else if (payload.toStatus === TaskStatus.EXPIRED) {
+      await conversations.postSystemMessageTo(
+        { taskId: payload.taskId },
+        "This task expired without being booked."
+      );
+    }
+  });
+
+  bus.subscribe(DomainEventType.BOOKING_STATUS_CHANGED, async ({ payload }) => {
+    // New bookings are announced when the thread is attached
+    if (!payload.fromStatus) return;
+
+    const text = bookingStatusText[payload.toStatus];
+    if (!text) return;
+
+    await conversations.postSystemMessageTo(
+      { bookingId: payload.bookingId },
+      text
+    );
+  });
+}
@@ -0,0 +1,198 @@
+// services/notifications/inbox.listeners.ts
+// Records task and booking status changes in each party's in-app inbox
+
+import { Types } from "mongoose";
+import { UserRole } from "../../types/base.types";
+import { BookingStatus } from "../../types/booking.types";
+import {
+  DomainEventType,
+  NotificationEntityType,
+  NotificationTarget,
+} from "../../types/notification.types";
+import { TaskStatus } from "../../types/tasks.types";
+import { DomainEventBus, domainEvents } from "../events/domain-event-bus";
+import {
+  NewInAppNotification,
+  NotificationInboxService,
+  notificationInboxService,
+} from "./notification-inbox.service";
+import {
+  NotificationService,
+  notificationService,
+} from "./notification.service";
+
+type Party = UserRole.CUSTOMER | UserRole.PROVIDER;
+
+interface InboxText {
+  title: string;
+  body: string;
+}
+
+const taskText = (
+  status: TaskStatus,
+  role: Party,
+  taskTitle: string
+): InboxText => {
+  const task = `"${taskTitle}"`;
+
+  switch (status) {
+    case TaskStatus.PENDING:
+      return { title: "Task posted", body: `${task} was posted and is being matched.` };
+    case TaskStatus.MATCHED:
+      return role === UserRole.CUSTOMER
+        ? { title: "Providers found", body: `Providers were matched to ${task}.` }
+        : { title: "New task matched", body: `${task} matches your services.` };
+    case TaskStatus.FLOATING:
+      return { title: "Task open to all providers", body: `${task} is open for any provider to express interest.` };
+    case TaskStatus.REQUESTED:
+      return role === UserRole.CUSTOMER
+        ? { title: "Provider requested", body: `Waiting for the provider to answer your request for ${task}.` }
+        : { title: "New request", body: `A customer requested you for ${task}.` };
+    case TaskStatus.ACCEPTED:
+    case TaskStatus.CONVERTED:
+      return { title: "Task booked", body: `${task} was accepted and is now a booking.` };
+    case TaskStatus.EXPIRED:
+      return { title: "Task expired", body: `${task} expired without being booked.` };
+    case TaskStatus.CANCELLED:
+      return { title: "Task cancelled", body: `${task} was cancelled.` };
+    default:
+      return { title: "Task updated", body: `${task} is now ${status}.` };
+  }
+};
+
+const bookingText = (
+  status: BookingStatus,
+  role: Party,
+  bookingNumber: string
+): InboxText => {
+  const booking = `Booking ${bookingNumber}`;
+
+  switch (status) {
+    case BookingStatus.CONFIRMED:
+      return { title: "Booking confirmed", body: `${booking} is confirmed.` };
+    case BookingStatus.IN_PROGRESS:
+      return { title: "Service started", body: `${booking} is in progress.` };
+    case BookingStatus.AWAITING_VALIDATION:
+      return role === UserRole.CUSTOMER
+        ? { title: "Please confirm your service", body: `${booking} was marked complete. Confirm the work or raise an issue.` }
+        : { title: "Awaiting customer confirmation", body: `${booking} is waiting for the customer to confirm.` };
+    case BookingStatus.VALIDATED:
+      return { title: "Service confirmed", body: `${booking} was confirmed by the customer.` };
+    case BookingStatus.DISPUTED:
+      return { title: "Booking disputed", body: `${booking} is disputed and under review.` };
+    case BookingStatus.COMPLETED:
+      return { title: "Booking completed", body: `${booking} is complete.` };
+    case BookingStatus.CANCELLED:
+      return { title: "Booking cancelled", body: `${booking} was cancelled.` };
+    default:
+      return { title: "Booking updated", body: `${booking} is now ${status}.` };
+  }
+};
+
+/**
+ * Providers who should hear about a task moving to this status
+ */
+const taskProviderIds = (
+  status: TaskStatus,
+  payload: {
+    matchedProviderIds: unknown[];
+    requestedProviderId?: unknown;
+    acceptedProviderId?: unknown;
+  }
+): unknown[] => {
+  switch (status) {
+    case TaskStatus.MATCHED:
+      return payload.matchedProviderIds;
+    case TaskStatus.REQUESTED:
+    case TaskStatus.CANCELLED:
+    case TaskStatus.EXPIRED:
+      return payload.requestedProviderId ? [payload.requestedProviderId] : [];
+    case TaskStatus.ACCEPTED:
+    case TaskStatus.CONVERTED:
+      return payload.acceptedProviderId ? [payload.acceptedProviderId] : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Subscribe the in-app inbox to task and booking status changes
+ */
+export function registerInboxListeners(
+  bus: DomainEventBus = domainEvents,
+  inbox: NotificationInboxService = notificationInboxService,
+  notifier: NotificationService = notificationService
+): void {
+  const resolveUserId = async (
+    target: NotificationTarget
+  ): Promise<Types.ObjectId | null> =>
+    (await notifier.resolveRecipient(target))?.userId ?? null;
+
+  bus.subscribe(DomainEventType.TASK_STATUS_CHANGED, async ({ type, payload }) => {
+    const entries: NewInAppNotification[] = [];
+    const base = {
+      event: type,
+      entityType: NotificationEntityType.TASK,
+      entityId: new Types.ObjectId(payload.taskId.toString()),
+      status: payload.toStatus,
+      data: { taskId: payload.taskId.toString(), status: payload.toStatus },
+    };
+
+    // Tasks reference the customer's User ID directly
+    entries.push({
+      ...base,
+      ...taskText(payload.toStatus, UserRole.CUSTOMER, payload.taskTitle),
+      userId: new Types.ObjectId(payload.customerId.toString()),
+      role: UserRole.CUSTOMER,
+    });
+
+    for (const providerId of taskProviderIds(payload.toStatus, payload)) {
+      const userId = await resolveUserId({
+        role: UserRole.PROVIDER,
+        id: String(providerId),
+      });
+      if (!userId) continue;
+
+      entries.push({
+        ...base,
+        ...taskText(payload.toStatus, UserRole.PROVIDER, payload.taskTitle),
+        userId,
+        role: UserRole.PROVIDER,
+      });
+    }
+
+    await inbox.createNotifications(entries);
+  });
+
+  bus.subscribe(DomainEventType.BOOKING_STATUS_CHANGED, async ({ type, payload }) => {
+    const entries: NewInAppNotification[] = [];
+    const parties: NotificationTarget[] = [
+      { role: UserRole.CUSTOMER, id: String(payload.clientId) },
+      { role: UserRole.PROVIDER, id: String(payload.providerId) },
+    ];
+
+    for (const party of parties) {
+      // The party who made the change already knows about it
+      if (payload.fromStatus && party.role === payload.actorRole) continue;
+
+      const userId = await resolveUserId(party);
+      if (!userId) continue;
+
+      entries.push({
+        ...bookingText(payload.toStatus, party.role, payload.bookingNumber),
+        event: type,
+        entityType: NotificationEntityType.BOOKING,
+        entityId: new Types.ObjectId(payload.bookingId.toString()),
+        status: payload.toStatus,
+        data: {
+          bookingId: payload.bookingId.toString(),
+          status: payload.toStatus,
+        },
+        userId,
+        role: party.role,
+      });
+    }
+
+    await inbox.createNotifications(entries);
+  });
+}
@@ -0,0 +1,146 @@
+// services/notifications/notification-inbox.service.ts
+// Persisted in-app notifications with read state
+
+import { Types } from "mongoose";
+import NotificationModelInstance from "../../models/notification.model";
+import {
+  InAppNotification,
+  NotificationListResponse,
+  NotificationStreamEvent,
+} from "../../types/notification.types";
+import {
+  NotificationStreamService,
+  notificationStreamService,
+} from "./notification-stream.service";
+
+export type NewInAppNotification = Omit<
+  InAppNotification,
+  "_id" | "readAt" | "createdAt" | "updatedAt"
+>;
+
+export class NotificationInboxService {
+  private stream: NotificationStreamService;
+
+  constructor(stream: NotificationStreamService = notificationStreamService) {
+    this.stream = stream;
+  }
+
+  /**
+   * Push the new unread count to a connected user
+   */
+  private async pushUnreadCount(userId: string): Promise<void> {
+    if (!this.stream.isConnected(userId)) return;
+
+    const unreadCount = await this.countUnread(userId);
+    this.stream.send(userId, NotificationStreamEvent.UNREAD_COUNT, {
+      unreadCount,
+    });
+  }
+
+  /**
+   * Store inbox entries and deliver them live to connected users
+   */
+  async createNotifications(
+    entries: NewInAppNotification[]
+  ): Promise<InAppNotification[]> {
+    if (entries.length === 0) return [];
+
+    const created = await NotificationModelInstance.insertMany(entries);
+
+    const userIds = new Set<string>();
+    for (const notification of created) {
+      const userId = notification.userId.toString();
+      userIds.add(userId);
+      this.stream.send(
+        userId,
+        NotificationStreamEvent.NOTIFICATION,
+        notification.toJSON()
+      );
+    }
+
+    await Promise.all(
+      Array.from(userIds).map(async (userId) => {
+        await this.pushUnreadCount(userId);
+        await this.stream.pushDashboard(userId);
+      })
+    );
+
+    return created;
+  }
+
+  async listNotifications(
+    userId: string,
+    options: { page: number; limit: number; unreadOnly?: boolean }
+  ): Promise<NotificationListResponse> {
+    const { page, limit, unreadOnly } = options;
+    const query: Record<string, any> = {
+      userId: new Types.ObjectId(userId),
+    };
+    if (unreadOnly) query.readAt = null;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      NotificationModelInstance.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      NotificationModelInstance.countDocuments(query),
+      this.countUnread(userId),
+    ]);
+
+    return {
+      notifications,
+      unreadCount,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return NotificationModelInstance.countDocuments({
+      userId: new Types.ObjectId(userId),
+      readAt: null,
+    });
+  }
+
+  async markRead(
+    userId: string,
+    notificationId: string
+  ): Promise<InAppNotification> {
+    const notification = await NotificationModelInstance.findOne({
+      _id: notificationId,
+      userId: new Types.ObjectId(userId),
+    });
+
+    if (!notification) {
+      throw new Error("Notification not found");
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+      await this.pushUnreadCount(userId);
+    }
+
+    return notification;
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await NotificationModelInstance.updateMany(
+      { userId: new Types.ObjectId(userId), readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+
+    if (result.modifiedCount > 0) {
+      await this.pushUnreadCount(userId);
+    }
+
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const notificationInboxService = new NotificationInboxService();
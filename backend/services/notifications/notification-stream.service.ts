@@ -0,0 +1,121 @@
+// services/notifications/notification-stream.service.ts
+// Server-Sent Events connections for live inbox and dashboard updates
+
+import { Response } from "express";
+import { UserRole } from "../../types/base.types";
+import { NotificationStreamEvent } from "../../types/notification.types";
+import { TaskBookingService } from "../tasks/task-booking.service";
+
+// Comment line sent periodically so proxies keep idle streams open
+const HEARTBEAT_MS = Number(process.env.NOTIFICATION_STREAM_HEARTBEAT_MS || 25000);
+
+// Reconnect delay suggested to browsers after a dropped connection
+const RETRY_MS = 5000;
+
+interface StreamClient {
+  userId: string;
+  role?: UserRole;
+  res: Response;
+}
+
+export class NotificationStreamService {
+  private clients = new Map<string, Set<StreamClient>>();
+  private heartbeat?: NodeJS.Timeout;
+
+  /**
+   * Open an event stream on the response and keep it until the
+   * client disconnects. Returns a function that closes it.
+   */
+  connect(userId: string, role: UserRole | undefined, res: Response): () => void {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const client: StreamClient = { userId, role, res };
+    const userClients = this.clients.get(userId) ?? new Set<StreamClient>();
+    userClients.add(client);
+    this.clients.set(userId, userClients);
+    this.startHeartbeat();
+
+    let closed = false;
+    const disconnect = () => {
+      if (closed) return;
+      closed = true;
+
+      userClients.delete(client);
+      if (userClients.size === 0) this.clients.delete(userId);
+      if (this.clients.size === 0) this.stopHeartbeat();
+      res.end();
+    };
+
+    res.on("close", disconnect);
+    return disconnect;
+  }
+
+  isConnected(userId: string): boolean {
+    return this.clients.has(userId);
+  }
+
+  private write(client: StreamClient, event: string, data: unknown) {
+    try {
+      client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      console.error(`Failed to write ${event} to stream for ${client.userId}:`, error);
+    }
+  }
+
+  /**
+   * Send an event to every open stream of a user
+   */
+  send(userId: string, event: NotificationStreamEvent, data: unknown): void {
+    for (const client of this.clients.get(userId) ?? []) {
+      this.write(client, event, data);
+    }
+  }
+
+  /**
+   * Recompute dashboard metrics for a connected user and push them,
+   * so dashboards stay current without polling
+   */
+  async pushDashboard(userId: string): Promise<void> {
+    const userClients = this.clients.get(userId);
+    if (!userClients) return;
+
+    for (const client of userClients) {
+      if (client.role !== UserRole.CUSTOMER && client.role !== UserRole.PROVIDER) {
+        continue;
+      }
+
+      const metrics = await TaskBookingService.getDashboardMetrics(
+        userId,
+        client.role
+      );
+      this.write(client, NotificationStreamEvent.DASHBOARD, metrics);
+    }
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      for (const userClients of this.clients.values()) {
+        for (const client of userClients) {
+          client.res.write(": ping\n\n");
+        }
+      }
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+}
+
+// Export singleton instance
+export const notificationStreamService = new NotificationStreamService();
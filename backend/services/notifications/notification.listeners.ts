@@ -0,0 +1,420 @@
+// services/notifications/notification.listeners.ts
+// Turns task and booking events into notifications for the other party,
+// and admin decisions on provider profiles and ID documents into notices
+// for the account owner
+
+import { UserRole } from "../../types/base.types";
+import {
+  KycOwnerType,
+  KycRejectionReason,
+  KycStatus,
+} from "../../types/kyc.types";
+import {
+  DomainEventPayloads,
+  DomainEventType,
+  NotificationTarget,
+} from "../../types/notification.types";
+import { ProviderApprovalAction } from "../../types/profiles/providerProfile.types";
+import { DomainEventBus, domainEvents } from "../events/domain-event-bus";
+import {
+  NotificationService,
+  notificationService,
+} from "./notification.service";
+
+type Party = UserRole.CUSTOMER | UserRole.PROVIDER;
+
+const taskPath = (taskId: unknown) => `/tasks/${taskId}`;
+const PROVIDER_PROFILE_PATH = "/provider/profile";
+const kycPath = (ownerType: KycOwnerType) =>
+  ownerType === KycOwnerType.CLIENT
+    ? "/profile/verification"
+    : "/provider/verification";
+const bookingPath = (bookingId: unknown) => `/bookings/${bookingId}`;
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+
+/**
+ * The booking party who did not perform the action
+ */
+const otherParty = (
+  actor: Party,
+  booking: { clientId: unknown; providerId: unknown }
+): NotificationTarget =>
+  actor === UserRole.CUSTOMER
+    ? { role: UserRole.PROVIDER, id: String(booking.providerId) }
+    : { role: UserRole.CUSTOMER, id: String(booking.clientId) };
+
+/**
+ * What to tell a provider about an admin decision on their profile.
+ * Resubmissions are the provider's own action, so nothing is sent.
+ */
+const providerApprovalContent = (
+  payload: DomainEventPayloads[DomainEventType.PROVIDER_APPROVAL_CHANGED]
+): { title: string; body: string } | null => {
+  switch (payload.action) {
+    case ProviderApprovalAction.APPROVED:
+      return {
+        title: "Your provider profile is approved",
+        body: "Customers can now find and book you.",
+      };
+    case ProviderApprovalAction.REJECTED:
+      return {
+        title: "Your provider profile needs changes",
+        body: `Your profile wasn't approved: ${payload.reason}. Update it and resubmit for review.`,
+      };
+    case ProviderApprovalAction.SUSPENDED:
+      return {
+        title: "Your provider profile is suspended",
+        body: payload.suspendedUntil
+          ? `Your profile is hidden from customers until ${formatDate(payload.suspendedUntil)}. Reason: ${payload.reason}`
+          : `Your profile is hidden from customers until further notice. Reason: ${payload.reason}`,
+      };
+    case ProviderApprovalAction.UNSUSPENDED:
+      return {
+        title: "Your suspension has been lifted",
+        body: "Your profile is visible to customers again.",
+      };
+    default:
+      return null;
+  }
+};
+
+const KYC_REASON_TEXT: Record<KycRejectionReason, string> = {
+  [KycRejectionReason.ILLEGIBLE_IMAGE]: "the ID image is unclear",
+  [KycRejectionReason.MISSING_IMAGES]: "images of your ID are missing",
+  [KycRejectionReason.EXPIRED_DOCUMENT]: "the ID has expired",
+  [KycRejectionReason.NAME_MISMATCH]: "the name doesn't match your account",
+  [KycRejectionReason.ID_NUMBER_MISMATCH]:
+    "the ID number doesn't match the document",
+  [KycRejectionReason.DUPLICATE_ID]: "the ID is registered to another account",
+  [KycRejectionReason.SUSPECTED_FRAUD]: "the document couldn't be verified",
+  [KycRejectionReason.OTHER]: "it didn't pass review",
+};
+
+/**
+ * What to tell a client or provider about the review of their ID
+ */
+const kycReviewContent = (
+  payload: DomainEventPayloads[DomainEventType.KYC_REVIEWED]
+): { title: string; body: string } | null => {
+  const reason = payload.reason
+    ? KYC_REASON_TEXT[payload.reason]
+    : KYC_REASON_TEXT[KycRejectionReason.OTHER];
+  const details = payload.details ? ` ${payload.details}` : "";
+
+  switch (payload.status) {
+    case KycStatus.APPROVED:
+      return {
+        title: "Your ID is verified",
+        body: "Your identity document was approved.",
+      };
+    case KycStatus.NEEDS_RESUBMISSION:
+      return {
+        title: "Please resubmit your ID",
+        body: `We couldn't verify your ID because ${reason}.${details} Update your ID details or images and submit again.`,
+      };
+    case KycStatus.REJECTED:
+      return {
+        title: "Your ID couldn't be verified",
+        body: `Your identity document was rejected because ${reason}.${details}`,
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Subscribe the notification dispatcher to domain events
+ */
+export function registerNotificationListeners(
+  bus: DomainEventBus = domainEvents,
+  notifier: NotificationService = notificationService
+): void {
+  // ── Discovery phase ─────────────────────────────────────────────────────
+
+  bus.subscribe(DomainEventType.TASK_MATCHED, async ({ type, payload }) => {
+    await notifier.notifyMany(
+      payload.providerIds.map((id) => ({
+        role: UserRole.PROVIDER,
+        id: String(id),
+      })),
+      {
+        event: type,
+        title: "New task matched to you",
+        body: `"${payload.taskTitle}" matches your services. Express interest if you'd like the job.`,
+        data: { taskId: String(payload.taskId) },
+      },
+      taskPath(payload.taskId)
+    );
+  });
+
+  bus.subscribe(
+    DomainEventType.TASK_INTEREST_EXPRESSED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.CUSTOMER, id: String(payload.customerId) },
+        {
+          event: type,
+          title: "A provider is interested in your task",
+          body: payload.message
+            ? `A provider is interested in "${payload.taskTitle}": ${payload.message}`
+            : `A provider is interested in "${payload.taskTitle}".`,
+          data: {
+            taskId: String(payload.taskId),
+            providerId: String(payload.providerId),
+          },
+        },
+        taskPath(payload.taskId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.TASK_PROVIDER_REQUESTED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.PROVIDER, id: String(payload.providerId) },
+        {
+          event: type,
+          title: "You've been requested for a task",
+          body: payload.message
+            ? `A customer requested you for "${payload.taskTitle}": ${payload.message}`
+            : `A customer requested you for "${payload.taskTitle}". Accept or decline it.`,
+          data: { taskId: String(payload.taskId) },
+        },
+        taskPath(payload.taskId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.TASK_REQUEST_ACCEPTED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.CUSTOMER, id: String(payload.customerId) },
+        {
+          event: type,
+          title: "Your request was accepted",
+          body: `The provider accepted "${payload.taskTitle}". Booking ${payload.bookingNumber} is confirmed.`,
+          data: {
+            taskId: String(payload.taskId),
+            bookingId: String(payload.bookingId),
+          },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.TASK_REQUEST_REJECTED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.CUSTOMER, id: String(payload.customerId) },
+        {
+          event: type,
+          title: "Your request was declined",
+          body: payload.reason
+            ? `The provider declined "${payload.taskTitle}": ${payload.reason}`
+            : `The provider declined "${payload.taskTitle}". You can request another provider.`,
+          data: { taskId: String(payload.taskId) },
+        },
+        taskPath(payload.taskId)
+      );
+    }
+  );
+
+  bus.subscribe(DomainEventType.TASK_CANCELLED, async ({ type, payload }) => {
+    const target: NotificationTarget | null =
+      payload.cancelledBy === UserRole.CUSTOMER
+        ? payload.requestedProviderId
+          ? { role: UserRole.PROVIDER, id: String(payload.requestedProviderId) }
+          : null
+        : { role: UserRole.CUSTOMER, id: String(payload.customerId) };
+
+    if (!target) return;
+
+    await notifier.notify(
+      target,
+      {
+        event: type,
+        title: "Task cancelled",
+        body: payload.reason
+          ? `"${payload.taskTitle}" was cancelled: ${payload.reason}`
+          : `"${payload.taskTitle}" was cancelled.`,
+        data: { taskId: String(payload.taskId) },
+      },
+      taskPath(payload.taskId)
+    );
+  });
+
+  // ── Execution phase ─────────────────────────────────────────────────────
+
+  bus.subscribe(DomainEventType.BOOKING_STARTED, async ({ type, payload }) => {
+    await notifier.notify(
+      { role: UserRole.CUSTOMER, id: String(payload.clientId) },
+      {
+        event: type,
+        title: "Your service has started",
+        body: `The provider has started work on booking ${payload.bookingNumber}.`,
+        data: { bookingId: String(payload.bookingId) },
+      },
+      bookingPath(payload.bookingId)
+    );
+  });
+
+  bus.subscribe(
+    DomainEventType.BOOKING_COMPLETED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.CUSTOMER, id: String(payload.clientId) },
+        {
+          event: type,
+          title: "Please confirm your service",
+          body: `The provider marked booking ${payload.bookingNumber} as complete. Confirm the work or raise an issue.`,
+          data: { bookingId: String(payload.bookingId) },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.BOOKING_VALIDATED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        { role: UserRole.PROVIDER, id: String(payload.providerId) },
+        {
+          event: type,
+          title: "Customer confirmed your work",
+          body: payload.rating
+            ? `Booking ${payload.bookingNumber} was confirmed with a ${payload.rating}-star rating.`
+            : `Booking ${payload.bookingNumber} was confirmed.`,
+          data: { bookingId: String(payload.bookingId) },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  bus.subscribe(DomainEventType.BOOKING_DISPUTED, async ({ type, payload }) => {
+    await notifier.notify(
+      { role: UserRole.PROVIDER, id: String(payload.providerId) },
+      {
+        event: type,
+        title: "Customer raised an issue",
+        body: payload.reason
+          ? `Booking ${payload.bookingNumber} was disputed: ${payload.reason}`
+          : `Booking ${payload.bookingNumber} was disputed and is under review.`,
+        data: { bookingId: String(payload.bookingId) },
+      },
+      bookingPath(payload.bookingId)
+    );
+  });
+
+  bus.subscribe(
+    DomainEventType.BOOKING_CANCELLED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        otherParty(payload.cancelledBy, payload),
+        {
+          event: type,
+          title: "Booking cancelled",
+          body: payload.reason
+            ? `Booking ${payload.bookingNumber} was cancelled: ${payload.reason}`
+            : `Booking ${payload.bookingNumber} was cancelled.`,
+          data: { bookingId: String(payload.bookingId) },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.BOOKING_RESCHEDULE_PROPOSED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        otherParty(payload.proposedBy, payload),
+        {
+          event: type,
+          title: "New time proposed",
+          body: `A new time on ${formatDate(payload.proposedDate)} was proposed for booking ${payload.bookingNumber}. Accept or decline it.`,
+          data: { bookingId: String(payload.bookingId) },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  bus.subscribe(
+    DomainEventType.BOOKING_RESCHEDULE_ANSWERED,
+    async ({ type, payload }) => {
+      await notifier.notify(
+        otherParty(payload.answeredBy, payload),
+        {
+          event: type,
+          title: payload.accepted ? "New time accepted" : "New time declined",
+          body: payload.accepted
+            ? `Your proposed time for booking ${payload.bookingNumber} was accepted.`
+            : `Your proposed time for booking ${payload.bookingNumber} was declined. The original time stands.`,
+          data: { bookingId: String(payload.bookingId) },
+        },
+        bookingPath(payload.bookingId)
+      );
+    }
+  );
+
+  // ── Provider account ────────────────────────────────────────────────────
+
+  bus.subscribe(
+    DomainEventType.PROVIDER_APPROVAL_CHANGED,
+    async ({ type, payload }) => {
+      const content = providerApprovalContent(payload);
+      if (!content) return;
+
+      await notifier.notify(
+        { role: UserRole.PROVIDER, id: String(payload.providerId) },
+        {
+          event: type,
+          ...content,
+          data: {
+            providerId: String(payload.providerId),
+            action: payload.action,
+          },
+        },
+        PROVIDER_PROFILE_PATH
+      );
+    }
+  );
+
+  // ── Identity verification ───────────────────────────────────────────────
+
+  bus.subscribe(DomainEventType.KYC_REVIEWED, async ({ type, payload }) => {
+    const content = kycReviewContent(payload);
+    if (!content) return;
+
+    await notifier.notify(
+      {
+        role:
+          payload.ownerType === KycOwnerType.CLIENT
+            ? UserRole.CUSTOMER
+            : UserRole.PROVIDER,
+        id: String(payload.profileId),
+      },
+      {
+        event: type,
+        ...content,
+        data: {
+          submissionId: String(payload.submissionId),
+          status: payload.status,
+        },
+      },
+      kycPath(payload.ownerType)
+    );
+  });
+}
@@ -0,0 +1,284 @@
+// services/notifications/notification.service.ts
+// Delivers notifications on the channels each recipient has opted into
+
+import { Types } from "mongoose";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import { ProfileModel } from "../../models/profiles/userProfile.model";
+import { User } from "../../models/user.model";
+import { CommunicationPreferences, UserRole } from "../../types/base.types";
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+  NotificationTarget,
+  PushTransport,
+  SmsTransport,
+} from "../../types/notification.types";
+import { sendEmail } from "../../utils/sendEmail";
+import { getNotificationEmailTemplate } from "../../utils/useEmailTemplate";
+import {
+  CONSOLE_TRANSPORT,
+  ConsolePushTransport,
+  ConsoleSmsTransport,
+} from "./transports/console.transport";
+import {
+  FilePushTransport,
+  FileSmsTransport,
+} from "./transports/file.transport";
+
+const DEFAULT_PREFERENCES: CommunicationPreferences = {
+  emailNotifications: true,
+  smsNotifications: true,
+  pushNotifications: true,
+};
+
+export class NotificationService {
+  private smsTransports = new Map<string, SmsTransport>();
+  private pushTransports = new Map<string, PushTransport>();
+  private smsTransportName: string;
+  private pushTransportName: string;
+
+  constructor(
+    smsTransportName: string = process.env.SMS_TRANSPORT || CONSOLE_TRANSPORT,
+    pushTransportName: string = process.env.PUSH_TRANSPORT || CONSOLE_TRANSPORT
+  ) {
+    this.smsTransportName = smsTransportName;
+    this.pushTransportName = pushTransportName;
+  }
+
+  // ── Transports ──────────────────────────────────────────────────────────
+
+  registerSmsTransport(transport: SmsTransport): void {
+    this.smsTransports.set(transport.name, transport);
+  }
+
+  registerPushTransport(transport: PushTransport): void {
+    this.pushTransports.set(transport.name, transport);
+  }
+
+  getSmsTransport(name: string = this.smsTransportName): SmsTransport {
+    const transport = this.smsTransports.get(name);
+
+    if (!transport) {
+      throw new Error(`SMS transport not found: ${name}`);
+    }
+
+    return transport;
+  }
+
+  getPushTransport(name: string = this.pushTransportName): PushTransport {
+    const transport = this.pushTransports.get(name);
+
+    if (!transport) {
+      throw new Error(`Push transport not found: ${name}`);
+    }
+
+    return transport;
+  }
+
+  // ── Recipients ──────────────────────────────────────────────────────────
+
+  private async resolveProvider(
+    providerId: Types.ObjectId | string
+  ): Promise<NotificationRecipient | null> {
+    const provider = await ProviderModel.findById(providerId)
+      .select("profile businessName providerContactInfo notificationPreferences")
+      .lean();
+
+    if (!provider) return null;
+
+    const profile = await ProfileModel.findById(provider.profile)
+      .select("userId mobileNumber")
+      .lean();
+    if (!profile) return null;
+
+    const user = await User.findById(profile.userId).select("name email").lean();
+    if (!user) return null;
+
+    return {
+      userId: user._id as Types.ObjectId,
+      role: UserRole.PROVIDER,
+      name: provider.businessName || user.name,
+      email: provider.providerContactInfo?.businessEmail || user.email,
+      phone: provider.providerContactInfo?.primaryContact || profile.mobileNumber,
+      preferences: {
+        ...DEFAULT_PREFERENCES,
+        ...provider.notificationPreferences,
+      },
+    };
+  }
+
+  /**
+   * Customers are referenced by User ID on tasks and by either
+   * ClientProfile ID or User ID on bookings
+   */
+  private async resolveCustomer(
+    id: Types.ObjectId | string
+  ): Promise<NotificationRecipient | null> {
+    let client = await ClientModel.findById(id)
+      .select("profile clientContactInfo preferences")
+      .lean();
+
+    const profile = client
+      ? await ProfileModel.findById(client.profile)
+          .select("userId mobileNumber")
+          .lean()
+      : await ProfileModel.findOne({ userId: id })
+          .select("userId mobileNumber")
+          .lean();
+
+    if (!profile) return null;
+
+    if (!client) {
+      client = await ClientModel.findOne({ profile: profile._id })
+        .select("profile clientContactInfo preferences")
+        .lean();
+    }
+
+    const user = await User.findById(profile.userId).select("name email").lean();
+    if (!user) return null;
+
+    return {
+      userId: user._id as Types.ObjectId,
+      role: UserRole.CUSTOMER,
+      name: user.name,
+      email: user.email || client?.clientContactInfo?.emailAddress,
+      phone: profile.mobileNumber || client?.clientContactInfo?.secondaryContact,
+      preferences: {
+        ...DEFAULT_PREFERENCES,
+        ...client?.preferences?.communicationPreferences,
+      },
+    };
+  }
+
+  async resolveRecipient(
+    target: NotificationTarget
+  ): Promise<NotificationRecipient | null> {
+    if (!Types.ObjectId.isValid(target.id.toString())) {
+      return null;
+    }
+
+    return target.role === UserRole.PROVIDER
+      ? this.resolveProvider(target.id)
+      : this.resolveCustomer(target.id);
+  }
+
+  // ── Delivery ────────────────────────────────────────────────────────────
+
+  private async deliver(
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    message: NotificationMessage,
+    actionPath?: string
+  ): Promise<boolean> {
+    switch (channel) {
+      case NotificationChannel.EMAIL:
+        if (!recipient.email) return false;
+        await sendEmail({
+          to: recipient.email,
+          subject: message.title,
+          text: message.body,
+          html: getNotificationEmailTemplate(
+            recipient.name || "there",
+            message.title,
+            message.body,
+            actionPath
+          ),
+          category: message.event,
+        });
+        return true;
+
+      case NotificationChannel.SMS:
+        if (!recipient.phone) return false;
+        await this.getSmsTransport().send({
+          to: recipient.phone,
+          text: `${message.title}: ${message.body}`,
+        });
+        return true;
+
+      case NotificationChannel.PUSH:
+        await this.getPushTransport().send({
+          userId: recipient.userId.toString(),
+          title: message.title,
+          body: message.body,
+          data: message.data,
+        });
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Channels the recipient has opted into
+   */
+  getEnabledChannels(
+    preferences: CommunicationPreferences
+  ): NotificationChannel[] {
+    const channels: NotificationChannel[] = [];
+    if (preferences.emailNotifications) channels.push(NotificationChannel.EMAIL);
+    if (preferences.smsNotifications) channels.push(NotificationChannel.SMS);
+    if (preferences.pushNotifications) channels.push(NotificationChannel.PUSH);
+    return channels;
+  }
+
+  /**
+   * Send a notification on every channel the recipient has enabled.
+   * A failing channel is logged and does not stop the others.
+   * Returns the channels that were delivered.
+   */
+  async notify(
+    target: NotificationTarget,
+    message: NotificationMessage,
+    actionPath?: string
+  ): Promise<NotificationChannel[]> {
+    const recipient = await this.resolveRecipient(target);
+
+    if (!recipient) {
+      console.warn(
+        `Notification ${message.event} skipped: no ${target.role} found for ${target.id}`
+      );
+      return [];
+    }
+
+    const delivered: NotificationChannel[] = [];
+
+    for (const channel of this.getEnabledChannels(recipient.preferences)) {
+      try {
+        if (await this.deliver(channel, recipient, message, actionPath)) {
+          delivered.push(channel);
+        }
+      } catch (error) {
+        console.error(
+          `Failed to send ${channel} notification ${message.event} to ${recipient.userId}:`,
+          error
+        );
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Send the same notification to several recipients
+   */
+  async notifyMany(
+    targets: NotificationTarget[],
+    message: NotificationMessage,
+    actionPath?: string
+  ): Promise<void> {
+    await Promise.all(
+      targets.map((target) => this.notify(target, message, actionPath))
+    );
+  }
+}
+
+// Export singleton instance with the stand-in transports registered
+export const notificationService = new NotificationService();
+
+notificationService.registerSmsTransport(new ConsoleSmsTransport());
+notificationService.registerSmsTransport(new FileSmsTransport());
+notificationService.registerPushTransport(new ConsolePushTransport());
+notificationService.registerPushTransport(new FilePushTransport());
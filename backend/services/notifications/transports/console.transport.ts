@@ -0,0 +1,29 @@
+// services/notifications/transports/console.transport.ts
+// Stand-in SMS / push transports that log instead of sending
+
+import {
+  PushMessage,
+  PushTransport,
+  SmsMessage,
+  SmsTransport,
+} from "../../../types/notification.types";
+
+export const CONSOLE_TRANSPORT = "console";
+
+export class ConsoleSmsTransport implements SmsTransport {
+  readonly name = CONSOLE_TRANSPORT;
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms] to=${message.to} ${message.text}`);
+  }
+}
+
+export class ConsolePushTransport implements PushTransport {
+  readonly name = CONSOLE_TRANSPORT;
+
+  async send(message: PushMessage): Promise<void> {
+    console.log(
+      `[push] user=${message.userId} ${message.title}: ${message.body}`
+    );
+  }
+}
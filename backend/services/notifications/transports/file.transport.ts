@@ -0,0 +1,60 @@
+// services/notifications/transports/file.transport.ts
+// Stand-in SMS / push transports that append to local outbox files,
+// one JSON message per line, so local flows can be inspected
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  PushMessage,
+  PushTransport,
+  SmsMessage,
+  SmsTransport,
+} from "../../../types/notification.types";
+
+export const FILE_TRANSPORT = "file";
+
+const DEFAULT_OUTBOX_DIR = path.join("uploads", "outbox");
+
+async function appendToOutbox(
+  dir: string,
+  fileName: string,
+  message: object
+): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.appendFile(
+    path.join(dir, fileName),
+    JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n"
+  );
+}
+
+export class FileSmsTransport implements SmsTransport {
+  readonly name = FILE_TRANSPORT;
+
+  private dir: string;
+
+  constructor(
+    dir: string = process.env.NOTIFICATION_OUTBOX_DIR || DEFAULT_OUTBOX_DIR
+  ) {
+    this.dir = dir;
+  }
+
+  async send(message: SmsMessage): Promise<void> {
+    await appendToOutbox(this.dir, "sms.jsonl", message);
+  }
+}
+
+export class FilePushTransport implements PushTransport {
+  readonly name = FILE_TRANSPORT;
+
+  private dir: string;
+
+  constructor(
+    dir: string = process.env.NOTIFICATION_OUTBOX_DIR || DEFAULT_OUTBOX_DIR
+  ) {
+    this.dir = dir;
+  }
+
+  async send(message: PushMessage): Promise<void> {
+    await appendToOutbox(this.dir, "push.jsonl", message);
+  }
+}
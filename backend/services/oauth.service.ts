@@ -121,11 +121,13 @@ class OAuthService {
         this.applySuperAdminProperties(user);
       }
 
-      // Update security tracking
-      user.security = {
-        ...user.security,
-        lastLogin: new Date(),
-      };
+      // Update security tracking; with 2FA on, the second step does it
+      if (!user.twoFactor?.enabled) {
+        user.security = {
+          ...user.security,
+          lastLogin: new Date(),
+        };
+      }
 
       await user.save();
     } else {
@@ -0,0 +1,195 @@
+// services/payments/gateways/simulated-momo.gateway.ts
+// Local stand-in for MTN MoMo / Vodafone Cash style collection & disbursement
+
+import crypto from "crypto";
+import {
+  GatewayCallback,
+  GatewayCollectionRequest,
+  GatewayDisbursementRequest,
+  GatewayInitiationResult,
+  PaymentGateway,
+  PaymentTransactionStatus,
+} from "../../../types/payment.types";
+import { normalizeGhanaPhone } from "../../../utils/phone.utils";
+
+export const SIMULATED_MOMO_GATEWAY = "simulated-momo";
+export const SIMULATED_MOMO_SIGNATURE_HEADER = "x-momo-signature";
+
+/**
+ * Callback body sent by the simulator (mirrors MoMo's shape)
+ */
+export interface SimulatedMomoCallbackBody {
+  eventId: string;
+  externalId: string; // Our transaction reference
+  financialTransactionId: string;
+  status: "SUCCESSFUL" | "FAILED";
+  reason?: string;
+}
+
+type CallbackListener = (callback: GatewayCallback) => Promise<unknown>;
+
+/**
+ * Simulated mobile money gateway
+ *
+ * Outcome is driven by the wallet number so flows are testable:
+ * - ends in 0: fails with "Insufficient funds"
+ * - ends in 9: never confirms (stays PENDING)
+ * - anything else: succeeds
+ *
+ * Confirmations arrive through the same signed callback endpoint
+ * a real gateway would use; with SIMULATED_MOMO_AUTO_CONFIRM_MS set,
+ * the simulator also delivers them itself after that delay.
+ */
+export class SimulatedMobileMoneyGateway implements PaymentGateway {
+  readonly name = SIMULATED_MOMO_GATEWAY;
+
+  private secret: string;
+  private autoConfirmMs: number;
+  private listener?: CallbackListener;
+
+  constructor(
+    secret: string | undefined = process.env.PAYMENT_WEBHOOK_SECRET,
+    autoConfirmMs: number = Number(
+      process.env.SIMULATED_MOMO_AUTO_CONFIRM_MS || 0
+    )
+  ) {
+    // Anyone knowing a default secret could confirm payments
+    if (!secret) {
+      throw new Error(
+        "Payment webhook secret missing: set PAYMENT_WEBHOOK_SECRET"
+      );
+    }
+    this.secret = secret;
+    this.autoConfirmMs = autoConfirmMs;
+  }
+
+  /**
+   * Receive auto-confirm callbacks in-process
+   */
+  onCallback(listener: CallbackListener): void {
+    this.listener = listener;
+  }
+
+  /**
+   * HMAC-SHA256 signature for a callback body
+   */
+  sign(payload: string | Buffer): string {
+    return crypto
+      .createHmac("sha256", this.secret)
+      .update(payload)
+      .digest("hex");
+  }
+
+  /**
+   * Build the callback a real network would send for this wallet
+   */
+  buildCallback(
+    reference: string,
+    gatewayReference: string,
+    msisdn: string
+  ): SimulatedMomoCallbackBody | null {
+    if (msisdn.endsWith("9")) {
+      return null;
+    }
+
+    const failed = msisdn.endsWith("0");
+
+    return {
+      eventId: crypto.randomUUID(),
+      externalId: reference,
+      financialTransactionId: gatewayReference,
+      status: failed ? "FAILED" : "SUCCESSFUL",
+      reason: failed ? "Insufficient funds" : undefined,
+    };
+  }
+
+  private async initiate(
+    request: GatewayCollectionRequest | GatewayDisbursementRequest
+  ): Promise<GatewayInitiationResult> {
+    const gatewayReference = `SIM-${crypto.randomUUID()}`;
+
+    if (!normalizeGhanaPhone(request.msisdn)) {
+      return {
+        gatewayReference,
+        status: PaymentTransactionStatus.FAILED,
+        failureReason: "Invalid mobile money number",
+      };
+    }
+
+    if (this.autoConfirmMs > 0 && this.listener) {
+      const body = this.buildCallback(
+        request.reference,
+        gatewayReference,
+        request.msisdn
+      );
+
+      if (body) {
+        const listener = this.listener;
+        const timer = setTimeout(() => {
+          listener(this.toGatewayCallback(body)).catch((error) =>
+            console.error("Simulated MoMo callback failed:", error)
+          );
+        }, this.autoConfirmMs);
+        timer.unref();
+      }
+    }
+
+    return {
+      gatewayReference,
+      status: PaymentTransactionStatus.PENDING,
+    };
+  }
+
+  async initiateCollection(
+    request: GatewayCollectionRequest
+  ): Promise<GatewayInitiationResult> {
+    return this.initiate(request);
+  }
+
+  async initiateDisbursement(
+    request: GatewayDisbursementRequest
+  ): Promise<GatewayInitiationResult> {
+    return this.initiate(request);
+  }
+
+  private toGatewayCallback(body: SimulatedMomoCallbackBody): GatewayCallback {
+    return {
+      eventId: body.eventId,
+      reference: body.externalId,
+      gatewayReference: body.financialTransactionId,
+      status:
+        body.status === "SUCCESSFUL"
+          ? PaymentTransactionStatus.SUCCEEDED
+          : PaymentTransactionStatus.FAILED,
+      failureReason: body.reason,
+      payload: { ...body },
+    };
+  }
+
+  parseCallback(
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    rawBody?: Buffer
+  ): GatewayCallback {
+    const signature = headers[SIMULATED_MOMO_SIGNATURE_HEADER];
+    const expected = this.sign(rawBody ?? JSON.stringify(body));
+
+    if (
+      typeof signature !== "string" ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid callback signature");
+    }
+
+    if (!body?.eventId || !body?.externalId || !body?.status) {
+      throw new Error("Malformed callback payload");
+    }
+
+    if (body.status !== "SUCCESSFUL" && body.status !== "FAILED") {
+      throw new Error(`Unknown callback status: ${body.status}`);
+    }
+
+    return this.toGatewayCallback(body as SimulatedMomoCallbackBody);
+  }
+}
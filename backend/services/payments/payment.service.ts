@@ -0,0 +1,664 @@
+// services/payments/payment.service.ts
+// Ledger of money moving for bookings, behind a pluggable gateway
+
+import { randomUUID } from "crypto";
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import PaymentTransactionModelInstance from "../../models/payment-transaction.model";
+import { ServiceModel } from "../../models/service.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { BookingStatus, PaymentStatus } from "../../types/booking.types";
+import {
+  BookingPaymentSummary,
+  COLLECTION_TYPES,
+  GatewayCallback,
+  MobileMoneyNetwork,
+  PaymentGateway,
+  PaymentTransactionStatus,
+  PaymentTransactionType,
+} from "../../types/payment.types";
+import {
+  SimulatedMobileMoneyGateway,
+  SIMULATED_MOMO_GATEWAY,
+} from "./gateways/simulated-momo.gateway";
+import { maskPhone } from "../../utils/phone.utils";
+import { auditLogService } from "../audit/audit-log.service";
+
+const DEFAULT_COMMISSION_RATE = Number(
+  process.env.PLATFORM_COMMISSION_RATE || 0
+);
+
+// Bookings whose provider has earned their share
+const PAYOUT_ELIGIBLE_STATUSES = [
+  BookingStatus.VALIDATED,
+  BookingStatus.COMPLETED,
+];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export class PaymentService {
+  private gateways = new Map<string, PaymentGateway>();
+  private defaultGateway: string;
+
+  constructor(defaultGateway: string = process.env.PAYMENT_GATEWAY || SIMULATED_MOMO_GATEWAY) {
+    this.defaultGateway = defaultGateway;
+  }
+
+  // ── Gateways ────────────────────────────────────────────────────────────
+
+  registerGateway(gateway: PaymentGateway): void {
+    this.gateways.set(gateway.name, gateway);
+  }
+
+  getGateway(name: string = this.defaultGateway): PaymentGateway {
+    const gateway = this.gateways.get(name);
+
+    if (!gateway) {
+      throw new Error(`Payment gateway not found: ${name}`);
+    }
+
+    return gateway;
+  }
+
+  private generateReference(type: PaymentTransactionType): string {
+    return `${type.slice(0, 3)}-${Date.now()}-${randomUUID().slice(0, 8)}`.toUpperCase();
+  }
+
+  // ── Ledger ──────────────────────────────────────────────────────────────
+
+  private async getCommissionRate(serviceId: Types.ObjectId): Promise<number> {
+    const service = await ServiceModel.findById(serviceId)
+      .select("servicePricing.platformCommissionRate")
+      .lean();
+
+    return (
+      service?.servicePricing?.platformCommissionRate ?? DEFAULT_COMMISSION_RATE
+    );
+  }
+
+  /**
+   * Totals for a booking, derived from its ledger
+   */
+  async getPaymentSummary(booking: {
+    _id?: Types.ObjectId;
+    serviceId: Types.ObjectId;
+    currency: string;
+    estimatedPrice?: number;
+    finalPrice?: number;
+    depositAmount?: number;
+  }): Promise<BookingPaymentSummary> {
+    const transactions = await PaymentTransactionModelInstance.find({
+      bookingId: booking._id,
+    }).lean();
+
+    const sum = (
+      types: PaymentTransactionType[],
+      status: PaymentTransactionStatus
+    ) =>
+      roundMoney(
+        transactions
+          .filter((t) => types.includes(t.type) && t.status === status)
+          .reduce((total, t) => total + t.amount, 0)
+      );
+
+    const collected = sum(COLLECTION_TYPES, PaymentTransactionStatus.SUCCEEDED);
+    const refunded = sum(
+      [PaymentTransactionType.REFUND],
+      PaymentTransactionStatus.SUCCEEDED
+    );
+    const paidOut = sum(
+      [PaymentTransactionType.PAYOUT],
+      PaymentTransactionStatus.SUCCEEDED
+    );
+    const pending = sum(
+      Object.values(PaymentTransactionType),
+      PaymentTransactionStatus.PENDING
+    );
+
+    const totalDue = booking.finalPrice ?? booking.estimatedPrice ?? 0;
+    const commissionRate = await this.getCommissionRate(booking.serviceId);
+    const netCollected = roundMoney(collected - refunded);
+
+    return {
+      currency: booking.currency,
+      totalDue,
+      depositDue: booking.depositAmount || 0,
+      collected,
+      refunded,
+      paidOut,
+      outstanding: roundMoney(Math.max(0, totalDue - netCollected)),
+      refundable: roundMoney(Math.max(0, netCollected - paidOut)),
+      commissionRate,
+      providerShare: roundMoney(
+        Math.max(0, netCollected * (1 - commissionRate) - paidOut)
+      ),
+      pending,
+    };
+  }
+
+  /**
+   * Recompute booking.paymentStatus from the ledger
+   */
+  async syncBookingPaymentStatus(bookingId: Types.ObjectId) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      return null;
+    }
+
+    const summary = await this.getPaymentSummary(booking);
+    let paymentStatus = booking.paymentStatus;
+
+    if (summary.refunded > 0) {
+      paymentStatus =
+        summary.refunded >= summary.collected
+          ? PaymentStatus.REFUNDED
+          : PaymentStatus.PARTIALLY_REFUNDED;
+    } else if (summary.collected > 0 && summary.outstanding === 0) {
+      paymentStatus = PaymentStatus.PAID;
+    } else if (
+      summary.depositDue > 0 &&
+      summary.collected >= summary.depositDue
+    ) {
+      paymentStatus = PaymentStatus.DEPOSIT_PAID;
+    } else if (summary.collected > 0) {
+      paymentStatus = PaymentStatus.PARTIALLY_PAID;
+    }
+
+    if (summary.depositDue > 0 && summary.collected >= summary.depositDue) {
+      booking.depositPaid = true;
+    }
+
+    if (paymentStatus !== booking.paymentStatus) {
+      await booking.updatePaymentStatus(paymentStatus);
+    } else if (booking.isModified()) {
+      await booking.save();
+    }
+
+    return booking;
+  }
+
+  // ── Collections ─────────────────────────────────────────────────────────
+
+  /**
+   * Customer pays the deposit or the remaining balance
+   */
+  async initiateBookingPayment(
+    bookingId: string | Types.ObjectId,
+    payerUserId: string | Types.ObjectId,
+    type: PaymentTransactionType.DEPOSIT | PaymentTransactionType.BALANCE,
+    network: MobileMoneyNetwork,
+    msisdn: string
+  ) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.status === BookingStatus.CANCELLED) {
+      throw new Error("Cannot pay for a cancelled booking");
+    }
+
+    const existingPending = await PaymentTransactionModelInstance.findOne({
+      bookingId: booking._id,
+      type: { $in: COLLECTION_TYPES },
+      status: PaymentTransactionStatus.PENDING,
+    });
+
+    if (existingPending) {
+      throw new Error(
+        `A payment is already pending for this booking (${existingPending.reference})`
+      );
+    }
+
+    const summary = await this.getPaymentSummary(booking);
+    let amount: number;
+
+    if (type === PaymentTransactionType.DEPOSIT) {
+      if (!summary.depositDue) {
+        throw new Error("This booking does not require a deposit");
+      }
+      if (booking.depositPaid || summary.collected >= summary.depositDue) {
+        throw new Error("Deposit has already been paid");
+      }
+      amount = roundMoney(summary.depositDue - summary.collected);
+    } else {
+      amount = summary.outstanding;
+    }
+
+    if (amount <= 0) {
+      throw new Error("Nothing is owed on this booking");
+    }
+
+    const gateway = this.getGateway();
+    const commissionAmount = roundMoney(amount * summary.commissionRate);
+
+    let transaction;
+    try {
+      transaction = await PaymentTransactionModelInstance.create({
+        reference: this.generateReference(type),
+        bookingId: booking._id,
+        type,
+        status: PaymentTransactionStatus.PENDING,
+        amount,
+        currency: booking.currency,
+        commissionRate: summary.commissionRate,
+        commissionAmount,
+        providerAmount: roundMoney(amount - commissionAmount),
+        gateway: gateway.name,
+        network,
+        msisdn,
+        initiatedBy: new Types.ObjectId(payerUserId.toString()),
+      });
+    } catch (error: any) {
+      // A concurrent request got its pending payment in first
+      if (error?.code === 11000) {
+        throw new Error("A payment is already pending for this booking");
+      }
+      throw error;
+    }
+
+    const result = await gateway.initiateCollection({
+      reference: transaction.reference,
+      amount,
+      currency: booking.currency,
+      network,
+      msisdn,
+      description: `${type} for booking ${booking.bookingNumber}`,
+    });
+
+    transaction.gatewayReference = result.gatewayReference;
+    if (result.status === PaymentTransactionStatus.FAILED) {
+      transaction.status = PaymentTransactionStatus.FAILED;
+      transaction.failureReason = result.failureReason;
+      transaction.completedAt = new Date();
+    }
+    await transaction.save();
+
+    return transaction;
+  }
+
+  // ── Disbursements ───────────────────────────────────────────────────────
+
+  /**
+   * Admin refunds the customer to the wallet they last paid from.
+   * `adminId` is null for refunds the platform starts itself.
+   */
+  async refundBooking(
+    bookingId: string | Types.ObjectId,
+    adminId: string | Types.ObjectId | null,
+    reason: string,
+    amount?: number,
+    audit?: AuditContext
+  ) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const summary = await this.getPaymentSummary(booking);
+    const refundAmount = roundMoney(amount ?? summary.refundable);
+
+    if (refundAmount <= 0) {
+      throw new Error("Nothing is refundable on this booking");
+    }
+
+    if (refundAmount > summary.refundable) {
+      throw new Error(
+        `Refund cannot exceed the refundable amount of ${summary.refundable}`
+      );
+    }
+
+    const lastCollection = await PaymentTransactionModelInstance.findOne({
+      bookingId: booking._id,
+      type: { $in: COLLECTION_TYPES },
+      status: PaymentTransactionStatus.SUCCEEDED,
+    }).sort({ completedAt: -1 });
+
+    if (!lastCollection?.network || !lastCollection.msisdn) {
+      throw new Error("No successful payment to refund to");
+    }
+
+    const gateway = this.getGateway(lastCollection.gateway);
+
+    const transaction = await PaymentTransactionModelInstance.create({
+      reference: this.generateReference(PaymentTransactionType.REFUND),
+      bookingId: booking._id,
+      type: PaymentTransactionType.REFUND,
+      status: PaymentTransactionStatus.PENDING,
+      amount: refundAmount,
+      currency: booking.currency,
+      gateway: gateway.name,
+      network: lastCollection.network,
+      msisdn: lastCollection.msisdn,
+      initiatedBy: adminId ? new Types.ObjectId(adminId.toString()) : undefined,
+      reason,
+    });
+
+    const result = await gateway.initiateDisbursement({
+      reference: transaction.reference,
+      amount: refundAmount,
+      currency: booking.currency,
+      network: lastCollection.network,
+      msisdn: lastCollection.msisdn,
+      description: `Refund for booking ${booking.bookingNumber}`,
+    });
+
+    const initiated = await this.applyInitiationResult(transaction, result);
+
+    await auditLogService.record(audit, {
+      action: AuditAction.BOOKING_REFUNDED,
+      entityType: AuditEntityType.BOOKING,
+      entityId: booking._id,
+      metadata: {
+        reference: initiated.reference,
+        amount: refundAmount,
+        currency: booking.currency,
+        status: initiated.status,
+        reason,
+      },
+    });
+
+    return initiated;
+  }
+
+  /**
+   * Admin pays the provider their share once the job is signed off
+   */
+  async payoutProvider(
+    bookingId: string | Types.ObjectId,
+    adminId: string | Types.ObjectId,
+    network: MobileMoneyNetwork,
+    msisdn: string,
+    audit?: AuditContext
+  ) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (!PAYOUT_ELIGIBLE_STATUSES.includes(booking.status)) {
+      throw new Error(
+        `Provider can only be paid out for validated or completed bookings. Current status: ${booking.status}`
+      );
+    }
+
+    const pendingPayout = await PaymentTransactionModelInstance.findOne({
+      bookingId: booking._id,
+      type: PaymentTransactionType.PAYOUT,
+      status: PaymentTransactionStatus.PENDING,
+    });
+
+    if (pendingPayout) {
+      throw new Error(
+        `A payout is already pending for this booking (${pendingPayout.reference})`
+      );
+    }
+
+    const summary = await this.getPaymentSummary(booking);
+
+    if (summary.providerShare <= 0) {
+      throw new Error("No provider earnings to pay out");
+    }
+
+    const gateway = this.getGateway();
+
+    const transaction = await PaymentTransactionModelInstance.create({
+      reference: this.generateReference(PaymentTransactionType.PAYOUT),
+      bookingId: booking._id,
+      type: PaymentTransactionType.PAYOUT,
+      status: PaymentTransactionStatus.PENDING,
+      amount: summary.providerShare,
+      currency: booking.currency,
+      commissionRate: summary.commissionRate,
+      providerAmount: summary.providerShare,
+      gateway: gateway.name,
+      network,
+      msisdn,
+      initiatedBy: new Types.ObjectId(adminId.toString()),
+    });
+
+    const result = await gateway.initiateDisbursement({
+      reference: transaction.reference,
+      amount: summary.providerShare,
+      currency: booking.currency,
+      network,
+      msisdn,
+      description: `Payout for booking ${booking.bookingNumber}`,
+    });
+
+    const initiated = await this.applyInitiationResult(transaction, result);
+
+    await auditLogService.record(audit, {
+      action: AuditAction.BOOKING_PAID_OUT,
+      entityType: AuditEntityType.BOOKING,
+      entityId: booking._id,
+      metadata: {
+        reference: initiated.reference,
+        amount: summary.providerShare,
+        currency: booking.currency,
+        status: initiated.status,
+        network,
+        msisdn: maskPhone(msisdn),
+      },
+    });
+
+    return initiated;
+  }
+
+  private async applyInitiationResult(
+    transaction: InstanceType<typeof PaymentTransactionModelInstance>,
+    result: {
+      gatewayReference: string;
+      status: PaymentTransactionStatus;
+      failureReason?: string;
+    }
+  ) {
+    transaction.gatewayReference = result.gatewayReference;
+
+    if (result.status === PaymentTransactionStatus.FAILED) {
+      transaction.status = PaymentTransactionStatus.FAILED;
+      transaction.failureReason = result.failureReason;
+      transaction.completedAt = new Date();
+    }
+
+    await transaction.save();
+    return transaction;
+  }
+
+  // ── Callbacks ───────────────────────────────────────────────────────────
+
+  /**
+   * Verify a raw gateway callback and apply it
+   */
+  async handleGatewayCallback(
+    gatewayName: string,
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    rawBody?: Buffer
+  ) {
+    const gateway = this.getGateway(gatewayName);
+    const callback = gateway.parseCallback(headers, body, rawBody);
+    return this.applyCallback(gatewayName, callback);
+  }
+
+  /**
+   * Apply a normalised callback. Idempotent: replays of the same event,
+   * or late callbacks for a settled transaction, change nothing.
+   */
+  async applyCallback(gatewayName: string, callback: GatewayCallback) {
+    const transaction = await PaymentTransactionModelInstance.findOne({
+      reference: callback.reference,
+      gateway: gatewayName,
+    });
+
+    if (!transaction) {
+      throw new Error("Payment transaction not found");
+    }
+
+    const alreadySeen = transaction.callbackEvents.some(
+      (event) => event.eventId === callback.eventId
+    );
+
+    if (alreadySeen || transaction.status !== PaymentTransactionStatus.PENDING) {
+      if (!alreadySeen) {
+        transaction.callbackEvents.push({
+          eventId: callback.eventId,
+          status: callback.status,
+          receivedAt: new Date(),
+          payload: callback.payload,
+        });
+        await transaction.save();
+      }
+      return { transaction, applied: false };
+    }
+
+    // Atomic transition guards against concurrent deliveries
+    const updated = await PaymentTransactionModelInstance.findOneAndUpdate(
+      {
+        _id: transaction._id,
+        status: PaymentTransactionStatus.PENDING,
+        "callbackEvents.eventId": { $ne: callback.eventId },
+      },
+      {
+        $set: {
+          status: callback.status,
+          failureReason: callback.failureReason,
+          completedAt: new Date(),
+          ...(callback.gatewayReference && {
+            gatewayReference: callback.gatewayReference,
+          }),
+        },
+        $push: {
+          callbackEvents: {
+            eventId: callback.eventId,
+            status: callback.status,
+            receivedAt: new Date(),
+            payload: callback.payload,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return { transaction, applied: false };
+    }
+
+    const booking = await this.syncBookingPaymentStatus(updated.bookingId);
+
+    if (
+      booking?.status === BookingStatus.CANCELLED &&
+      updated.status === PaymentTransactionStatus.SUCCEEDED &&
+      COLLECTION_TYPES.includes(updated.type)
+    ) {
+      await this.refundLateCollection(updated);
+    }
+
+    return { transaction: updated, applied: true };
+  }
+
+  /**
+   * Send back a payment that went through after its booking was
+   * cancelled, e.g. by the unpaid deposit job
+   */
+  private async refundLateCollection(
+    collection: InstanceType<typeof PaymentTransactionModelInstance>
+  ) {
+    try {
+      await this.refundBooking(
+        collection.bookingId,
+        null,
+        `Payment ${collection.reference} received after the booking was cancelled`,
+        collection.amount
+      );
+    } catch (error) {
+      // Left for an admin to refund from the booking's ledger
+      console.error(
+        `Failed to refund late payment ${collection.reference}:`,
+        error
+      );
+    }
+  }
+
+  // ── Queries ─────────────────────────────────────────────────────────────
+
+  async getBookingLedger(bookingId: string | Types.ObjectId) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const [transactions, summary] = await Promise.all([
+      PaymentTransactionModelInstance.find({ bookingId: booking._id }).sort({
+        createdAt: -1,
+      }),
+      this.getPaymentSummary(booking),
+    ]);
+
+    return {
+      bookingId: booking._id,
+      paymentStatus: booking.paymentStatus,
+      summary,
+      transactions,
+    };
+  }
+
+  async listTransactions(filters: {
+    type?: PaymentTransactionType;
+    status?: PaymentTransactionStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const query: any = {};
+    if (filters.type) query.type = filters.type;
+    if (filters.status) query.status = filters.status;
+
+    const [transactions, total] = await Promise.all([
+      PaymentTransactionModelInstance.find(query)
+        .populate("bookingId", "bookingNumber status paymentStatus")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PaymentTransactionModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      transactions,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
+
+/**
+ * Register the simulated gateway. Called at startup, after the
+ * environment is loaded; throws if PAYMENT_WEBHOOK_SECRET is missing.
+ */
+export function registerPaymentGateways(
+  service: PaymentService = paymentService
+): void {
+  const simulatedMomoGateway = new SimulatedMobileMoneyGateway();
+  simulatedMomoGateway.onCallback((callback) =>
+    service.applyCallback(SIMULATED_MOMO_GATEWAY, callback)
+  );
+  service.registerGateway(simulatedMomoGateway);
+}
@@ -1,7 +1,12 @@
 // services/client-profile.service.ts
 import { Types, PopulateOptions, Query } from "mongoose";
 import ProfileModel from "../../models/profiles/userProfile.model";
-import { Coordinates, UserLocation } from "../../types/base.types";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { Coordinates, idType, UserLocation } from "../../types/base.types";
 import {
   ClientProfile,
   CreateClientProfileRequestBody,
@@ -11,6 +16,17 @@ import {
   AddPaymentMethodRequestBody,
 } from "../../types/profiles/client.profile.types";
 import { ImageLinkingService } from "../../utils/controller-utils/ImageLinkingService";
+import {
+  buildGeoNearStage,
+  GEO_DISTANCE_FIELD,
+  metersToKm,
+} from "../../utils/geo.utils";
+import {
+  isValidIdType,
+  normalizeIdDetails,
+  normalizeIdNumber,
+} from "../../utils/id-document.utils";
+import { auditLogService } from "../audit/audit-log.service";
 import { MongoDBFileService } from "../files/mongodb.files.service";
 import { osmLocationService } from "./openstreetmap.location.service";
 import { ClientModel } from "../../models/profiles/clientProfileModel";
@@ -135,7 +151,7 @@ export class ClientProfileService {
           },
           {
             path: "idDetails.fileImage",
-            select: "url fileName uploadedAt",
+            select: "url fileName uploadedAt visibility status",
           },
         ];
       default:
@@ -155,26 +171,6 @@ export class ClientProfileService {
     return query;
   }
 
-  private calculateDistance(coord1: Coordinates, coord2: Coordinates): number {
-    const R = 6371;
-    const dLat = this.toRadians(coord2.latitude - coord1.latitude);
-    const dLon = this.toRadians(coord2.longitude - coord1.longitude);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(coord1.latitude)) *
-        Math.cos(this.toRadians(coord2.latitude)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
-
   private formatDistance(km: number): string {
     if (km < 1) {
       return `${Math.round(km * 1000)}m away`;
@@ -269,7 +265,7 @@ export class ClientProfileService {
     userId: string
   ): Promise<Types.ObjectId[]> {
     try {
-      const files = await this.fileService.getFilesByEntity("user", userId, {
+      const files = await this.fileService.getFilesByEntity("client", userId, {
         status: "active",
       });
 
@@ -286,6 +282,11 @@ export class ClientProfileService {
         "idDetails.fileImage": fileIds,
       });
 
+      // Uploaded under the user's ID; file them under the client
+      await this.fileService.bulkUpdateFiles(fileIds, {
+        entityId: new Types.ObjectId(clientId),
+      });
+
       return fileIds;
     } catch (error) {
       console.error("Error linking orphaned ID images:", error);
@@ -293,6 +294,18 @@ export class ClientProfileService {
     }
   }
 
+  /**
+   * A verified ID stays verified only while its images are unchanged
+   */
+  private revokeIdVerification(
+    client: Pick<ClientProfile, "idDetails" | "verificationDetails">
+  ): void {
+    if (client.idDetails) client.idDetails.verifiedAt = undefined;
+    if (client.verificationDetails) {
+      client.verificationDetails.idVerified = false;
+    }
+  }
+
   async createClientProfile(
     userId: string,
     data: CreateClientProfileRequestBody
@@ -354,12 +367,9 @@ export class ClientProfileService {
       const clientProfile = new ClientModel({
         ...data,
         profile: userProfile._id,
+        // Normalized so duplicate checks find the same document
         idDetails: data.idDetails
-          ? {
-              idType: data.idDetails.idType,
-              idNumber: data.idDetails.idNumber,
-              fileImage: [],
-            }
+          ? { ...normalizeIdDetails(data.idDetails), fileImage: [] }
           : undefined,
       });
 
@@ -416,6 +426,7 @@ export class ClientProfileService {
       const existingIds = client.idDetails.fileImage || [];
       client.idDetails.fileImage = [...existingIds, ...newIdImageIds];
 
+      this.revokeIdVerification(client);
       await client.save();
 
       return client;
@@ -463,6 +474,7 @@ export class ClientProfileService {
         client.idDetails.fileImage = newIdImageIds;
       }
 
+      this.revokeIdVerification(client);
       await client.save();
 
       return client;
@@ -499,6 +511,7 @@ export class ClientProfileService {
         (id) => id.toString() !== imageId
       );
 
+      this.revokeIdVerification(client);
       await client.save();
 
       // Archive the file
@@ -521,9 +534,17 @@ export class ClientProfileService {
       idType: string;
       idNumber: string;
       replaceImages?: boolean;
-    }
+    },
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
+      if (!isValidIdType(idDetails.idType)) {
+        throw new Error(
+          `Invalid ID type. Must be one of: ${Object.values(idType).join(", ")}`
+        );
+      }
+      const idNumber = normalizeIdNumber(idDetails.idType, idDetails.idNumber);
+
       const client = await ClientModel.findOne({
         _id: new Types.ObjectId(clientId),
         isDeleted: false,
@@ -533,6 +554,7 @@ export class ClientProfileService {
         throw new Error("Client profile not found");
       }
 
+      const before = auditLogService.snapshot(client);
       let imageIds: Types.ObjectId[] = [];
 
       if (idDetails.replaceImages) {
@@ -556,15 +578,35 @@ export class ClientProfileService {
         imageIds = client.idDetails?.fileImage || [];
       }
 
+      // A verified ID stays verified only while it is unchanged
+      const unchanged =
+        !idDetails.replaceImages &&
+        client.idDetails?.idType === idDetails.idType &&
+        client.idDetails?.idNumber === idNumber;
+
       // Update ID details
       client.idDetails = {
-        idType: idDetails.idType as any,
-        idNumber: idDetails.idNumber,
+        idType: idDetails.idType,
+        idNumber,
         fileImage: imageIds,
+        verifiedAt: unchanged ? client.idDetails?.verifiedAt : undefined,
       };
 
+      if (!unchanged && client.verificationDetails?.idVerified) {
+        client.verificationDetails.idVerified = false;
+      }
+
       await client.save();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.ID_DETAILS_UPDATED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["idDetails", "verificationDetails"],
+      });
+
       return client;
     } catch (error) {
       console.error("Error updating ID details:", error);
@@ -574,7 +616,8 @@ export class ClientProfileService {
 
   async updateClientProfile(
     clientId: string,
-    data: UpdateClientProfileRequestBody
+    data: UpdateClientProfileRequestBody,
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
       const client = await ClientModel.findOne({
@@ -586,6 +629,8 @@ export class ClientProfileService {
         throw new Error("Client profile not found");
       }
 
+      const before = auditLogService.snapshot(client);
+
       // Handle saved addresses updates with location enrichment
       if (data.savedAddresses && data.savedAddresses.length > 0) {
         const enrichedAddresses: UserLocation[] = [];
@@ -631,6 +676,23 @@ export class ClientProfileService {
       Object.assign(client, updateData);
       await client.save();
 
+      // Changed addresses are the change worth finding later
+      const locationChanged =
+        auditLogService.diff(before, client, [
+          "savedAddresses",
+          "defaultAddressIndex",
+        ]).length > 0;
+
+      await auditLogService.record(audit, {
+        action: locationChanged
+          ? AuditAction.LOCATION_UPDATED
+          : AuditAction.CLIENT_UPDATED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+      });
+
       return client;
     } catch (error) {
       console.error("Error updating client profile:", error);
@@ -753,7 +815,8 @@ export class ClientProfileService {
    */
   async manageAddress(
     clientId: string,
-    data: ManageAddressRequestBody
+    data: ManageAddressRequestBody,
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
       const client = await ClientModel.findOne({
@@ -765,6 +828,8 @@ export class ClientProfileService {
         throw new Error("Client profile not found");
       }
 
+      const before = auditLogService.snapshot(client);
+
       switch (data.action) {
         case "add":
           if (!data.address) {
@@ -804,6 +869,20 @@ export class ClientProfileService {
           throw new Error("Invalid action");
       }
 
+      await auditLogService.record(audit, {
+        action:
+          data.action === "add"
+            ? AuditAction.ADDRESS_ADDED
+            : data.action === "remove"
+            ? AuditAction.ADDRESS_REMOVED
+            : AuditAction.ADDRESS_UPDATED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["savedAddresses", "defaultAddressIndex"],
+      });
+
       return client;
     } catch (error) {
       console.error("Error managing address:", error);
@@ -816,7 +895,8 @@ export class ClientProfileService {
    */
   async addPaymentMethod(
     clientId: string,
-    data: AddPaymentMethodRequestBody
+    data: AddPaymentMethodRequestBody,
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
       const client = await ClientModel.findOne({
@@ -828,6 +908,8 @@ export class ClientProfileService {
         throw new Error("Client profile not found");
       }
 
+      const before = auditLogService.snapshot(client);
+
       if (!client.savedPaymentMethods) {
         client.savedPaymentMethods = [];
       }
@@ -843,6 +925,15 @@ export class ClientProfileService {
       client.savedPaymentMethods.push(data);
       await client.save();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.PAYMENT_METHOD_ADDED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["savedPaymentMethods"],
+      });
+
       return client;
     } catch (error) {
       console.error("Error adding payment method:", error);
@@ -855,7 +946,8 @@ export class ClientProfileService {
    */
   async removePaymentMethod(
     clientId: string,
-    paymentMethodId: string
+    paymentMethodId: string,
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
       const client = await ClientModel.findOne({
@@ -871,12 +963,24 @@ export class ClientProfileService {
         throw new Error("No payment methods to remove");
       }
 
+      const before = auditLogService.snapshot(client);
+
       client.savedPaymentMethods = client.savedPaymentMethods.filter(
         (pm: any) => pm._id?.toString() !== paymentMethodId
       );
 
       await client.save();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.PAYMENT_METHOD_REMOVED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["savedPaymentMethods"],
+        metadata: { paymentMethodId },
+      });
+
       return client;
     } catch (error) {
       console.error("Error removing payment method:", error);
@@ -939,55 +1043,65 @@ export class ClientProfileService {
         hasDefaultAddress,
       } = options;
 
-      const query: any = {
-        isDeleted: false,
-        savedAddresses: { $exists: true, $ne: [] },
-      };
+      const query: any = { isDeleted: false };
 
       if (isVerified !== undefined) {
         query.isVerified = isVerified;
       }
 
-      let clientQuery = ClientModel.find(query);
-      clientQuery = this.applyPopulation(clientQuery, PopulationLevel.STANDARD);
-
-      let clients = await clientQuery.lean();
+      // Nearest saved address first, within range, using the 2dsphere index
+      let nearest = await ClientModel.aggregate<{
+        _id: Types.ObjectId;
+        distanceMeters: number;
+        savedAddresses?: UserLocation[];
+        defaultAddressIndex?: number;
+      }>([
+        buildGeoNearStage({
+          near: targetLocation,
+          key: "savedAddresses.geoPoint",
+          maxDistanceKm: maxDistance,
+          query,
+        }),
+        ...(hasDefaultAddress ? [] : [{ $limit: limit }]),
+        {
+          $project: {
+            [GEO_DISTANCE_FIELD]: 1,
+            savedAddresses: 1,
+            defaultAddressIndex: 1,
+          },
+        },
+      ]);
 
       // Filter by default address if specified
       if (hasDefaultAddress) {
-        clients = clients.filter(
-          (c) =>
-            c.savedAddresses &&
-            c.defaultAddressIndex !== undefined &&
-            c.savedAddresses[c.defaultAddressIndex]?.gpsCoordinates
-        );
+        nearest = nearest
+          .filter(
+            (c) =>
+              c.savedAddresses?.[c.defaultAddressIndex ?? 0]?.gpsCoordinates
+          )
+          .slice(0, limit);
       }
 
-      const clientsWithDistance = clients
-        .map((client) => {
-          const defaultAddress =
-            client.savedAddresses?.[client.defaultAddressIndex || 0];
-          if (!defaultAddress?.gpsCoordinates) return null;
+      if (nearest.length === 0) return [];
 
-          const distance = this.calculateDistance(
-            targetLocation,
-            defaultAddress.gpsCoordinates
-          );
+      let clientQuery = ClientModel.find({
+        _id: { $in: nearest.map((c) => c._id) },
+      });
+      clientQuery = this.applyPopulation(clientQuery, PopulationLevel.STANDARD);
 
+      const clients = await clientQuery.lean();
+      const clientsById = new Map(clients.map((c) => [c._id.toString(), c]));
+
+      return nearest
+        .filter((c) => clientsById.has(c._id.toString()))
+        .map((c) => {
+          const distance = metersToKm(c.distanceMeters);
           return {
-            client,
+            client: clientsById.get(c._id.toString()),
             distanceKm: distance,
             distanceFormatted: this.formatDistance(distance),
           };
-        })
-        .filter(
-          (result) =>
-            result !== null && (result as any).distanceKm <= maxDistance
-        )
-        .sort((a, b) => (a as any).distanceKm - (b as any).distanceKm)
-        .slice(0, limit) as NearestClientResult[];
-
-      return clientsWithDistance;
+        }) as NearestClientResult[];
     } catch (error) {
       console.error("Error finding nearest clients:", error);
       throw new Error("Failed to find nearest clients");
@@ -1082,7 +1196,8 @@ export class ClientProfileService {
 
   async deleteClientProfile(
     clientId: string,
-    deletedBy: string
+    deletedBy: string,
+    audit?: AuditContext
   ): Promise<void> {
     try {
       const client = await ClientModel.findById(clientId);
@@ -1101,14 +1216,27 @@ export class ClientProfileService {
         }
       }
 
+      const before = auditLogService.snapshot(client);
       await client.softDelete(new Types.ObjectId(deletedBy));
+
+      await auditLogService.record(audit, {
+        action: AuditAction.CLIENT_DELETED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["isDeleted", "deletedAt", "deletedBy"],
+      });
     } catch (error) {
       console.error("Error deleting client profile:", error);
       throw error;
     }
   }
 
-  async restoreClientProfile(clientId: string): Promise<void> {
+  async restoreClientProfile(
+    clientId: string,
+    audit?: AuditContext
+  ): Promise<void> {
     try {
       const client = await ClientModel.findById(clientId);
 
@@ -1126,7 +1254,17 @@ export class ClientProfileService {
         }
       }
 
+      const before = auditLogService.snapshot(client);
       await client.restore();
+
+      await auditLogService.record(audit, {
+        action: AuditAction.CLIENT_RESTORED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["isDeleted", "deletedAt", "deletedBy"],
+      });
     } catch (error) {
       console.error("Error restoring client profile:", error);
       throw error;
@@ -1187,7 +1325,8 @@ export class ClientProfileService {
       phoneVerified?: boolean;
       emailVerified?: boolean;
       idVerified?: boolean;
-    }
+    },
+    audit?: AuditContext
   ): Promise<ClientProfile> {
     try {
       const client = await ClientModel.findOne({
@@ -1199,6 +1338,8 @@ export class ClientProfileService {
         throw new Error("Client profile not found");
       }
 
+      const before = auditLogService.snapshot(client);
+
       if (!client.verificationDetails) {
         client.verificationDetails = {
           phoneVerified: false,
@@ -1222,6 +1363,15 @@ export class ClientProfileService {
 
       await client.save();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.CLIENT_VERIFICATION_UPDATED,
+        entityType: AuditEntityType.CLIENT_PROFILE,
+        entityId: client._id,
+        before,
+        after: client,
+        fields: ["isVerified", "verificationDetails"],
+      });
+
       return client;
     } catch (error) {
       console.error("Error updating verification status:", error);
@@ -1553,7 +1703,8 @@ export class ClientProfileService {
    */
   async bulkUpdateClients(
     clientIds: string[],
-    updateData: Partial<ClientProfile>
+    updateData: Partial<ClientProfile>,
+    audit?: AuditContext
   ): Promise<{
     updated: number;
     failed: number;
@@ -1565,7 +1716,7 @@ export class ClientProfileService {
 
     for (const clientId of clientIds) {
       try {
-        await this.updateClientProfile(clientId, updateData);
+        await this.updateClientProfile(clientId, updateData, audit);
         updated++;
       } catch (error) {
         failed++;
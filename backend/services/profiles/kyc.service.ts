@@ -0,0 +1,724 @@
+// services/profiles/kyc.service.ts
+// Admin review of client and provider ID documents, with duplicate
+// ID numbers flagged across accounts
+
+import { Types } from "mongoose";
+import KycSubmissionModelInstance from "../../models/kyc-submission.model";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import ProfileModel from "../../models/profiles/userProfile.model";
+import { presentFile } from "../../models/files.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { IdDetails } from "../../types/base.types";
+import {
+  KycDuplicateMatch,
+  KycOwnerType,
+  KycQueueFilters,
+  KycRejectionReason,
+  KycStatus,
+  KycSubmission,
+} from "../../types/kyc.types";
+import { DomainEventType } from "../../types/notification.types";
+import { normalizeIdNumber } from "../../utils/id-document.utils";
+import { auditLogService } from "../audit/audit-log.service";
+import { domainEvents } from "../events/domain-event-bus";
+import { clientProfileService } from "./client.profile.service";
+
+// Awaiting an admin decision
+const OPEN_STATUSES = [KycStatus.SUBMITTED, KycStatus.IN_REVIEW];
+
+const TRANSITIONS: Record<KycStatus, KycStatus[]> = {
+  [KycStatus.SUBMITTED]: [
+    KycStatus.IN_REVIEW,
+    KycStatus.APPROVED,
+    KycStatus.REJECTED,
+    KycStatus.NEEDS_RESUBMISSION,
+  ],
+  [KycStatus.IN_REVIEW]: [
+    KycStatus.APPROVED,
+    KycStatus.REJECTED,
+    KycStatus.NEEDS_RESUBMISSION,
+  ],
+  [KycStatus.APPROVED]: [],
+  [KycStatus.REJECTED]: [],
+  [KycStatus.NEEDS_RESUBMISSION]: [],
+};
+
+const TRANSITION_VERBS: Partial<Record<KycStatus, string>> = {
+  [KycStatus.IN_REVIEW]: "start reviewing",
+  [KycStatus.APPROVED]: "approve",
+  [KycStatus.REJECTED]: "reject",
+  [KycStatus.NEEDS_RESUBMISSION]: "request resubmission of",
+};
+
+const AUDIT_ACTIONS: Record<KycStatus, AuditAction> = {
+  [KycStatus.SUBMITTED]: AuditAction.KYC_SUBMITTED,
+  [KycStatus.IN_REVIEW]: AuditAction.KYC_REVIEW_STARTED,
+  [KycStatus.APPROVED]: AuditAction.KYC_APPROVED,
+  [KycStatus.REJECTED]: AuditAction.KYC_REJECTED,
+  [KycStatus.NEEDS_RESUBMISSION]: AuditAction.KYC_RESUBMISSION_REQUESTED,
+};
+
+// What an admin sees of each linked ID image
+const IMAGE_FIELDS =
+  "url thumbnailUrl fileName mimeType fileSize label status uploadedAt visibility";
+
+/**
+ * Lean results skip File's toJSON, so point private images at the
+ * authenticated content route here
+ */
+const withImageLinks = <T extends { fileImage?: unknown }>(submission: T): T =>
+  Array.isArray(submission.fileImage)
+    ? { ...submission, fileImage: submission.fileImage.map(presentFile) }
+    : submission;
+
+// Internal review fields the owner doesn't see
+const OWNER_HIDDEN_FIELDS = "-reviewerNotes -duplicates -history -reviewedBy";
+
+interface KycOwner {
+  type: KycOwnerType;
+  profileId: Types.ObjectId;
+  userId: Types.ObjectId;
+  idDetails?: IdDetails;
+}
+
+/**
+ * Whether two lists hold the same file IDs, in any order
+ */
+const sameFiles = (a: unknown[] = [], b: unknown[] = []) => {
+  const ids = (list: unknown[]) => list.map(String).sort().join(",");
+  return ids(a) === ids(b);
+};
+
+const idDetailsPath = (ownerType: KycOwnerType) =>
+  ownerType === KycOwnerType.CLIENT ? "idDetails" : "IdDetails";
+
+export class KycService {
+  /**
+   * The current user's client or provider profile
+   */
+  private async resolveOwnerByUser(
+    userId: string,
+    ownerType: KycOwnerType
+  ): Promise<KycOwner> {
+    const userProfile = await ProfileModel.findOne({
+      userId: new Types.ObjectId(userId),
+      isDeleted: false,
+    }).select("_id userId");
+
+    const model: any =
+      ownerType === KycOwnerType.CLIENT ? ClientModel : ProviderModel;
+    const profile = userProfile
+      ? await model
+          .findOne({ profile: userProfile._id, isDeleted: false })
+          .select(`_id ${idDetailsPath(ownerType)}`)
+      : null;
+
+    if (!userProfile || !profile) {
+      throw new Error(
+        ownerType === KycOwnerType.CLIENT
+          ? "Client profile not found"
+          : "Provider profile not found"
+      );
+    }
+
+    return {
+      type: ownerType,
+      profileId: profile._id,
+      userId: userProfile.userId,
+      idDetails: profile[idDetailsPath(ownerType)],
+    };
+  }
+
+  /**
+   * A client or provider profile by its own ID
+   */
+  private async resolveOwnerByProfile(
+    ownerType: KycOwnerType,
+    profileId: string | Types.ObjectId
+  ): Promise<KycOwner> {
+    const model: any =
+      ownerType === KycOwnerType.CLIENT ? ClientModel : ProviderModel;
+    const profile = await model
+      .findOne({ _id: new Types.ObjectId(profileId), isDeleted: false })
+      .select(`_id profile ${idDetailsPath(ownerType)}`);
+
+    const userProfile = profile
+      ? await ProfileModel.findById(profile.profile).select("userId")
+      : null;
+
+    if (!profile || !userProfile) {
+      throw new Error(
+        ownerType === KycOwnerType.CLIENT
+          ? "Client profile not found"
+          : "Provider profile not found"
+      );
+    }
+
+    return {
+      type: ownerType,
+      profileId: profile._id,
+      userId: userProfile.userId,
+      idDetails: profile[idDetailsPath(ownerType)],
+    };
+  }
+
+  /**
+   * Profiles and submissions on other accounts with the same ID. The
+   * same person may hold both a client and a provider profile, so
+   * matches are by user rather than by profile.
+   */
+  async findDuplicates(
+    idType: string,
+    idNumber: string,
+    userId: Types.ObjectId
+  ): Promise<KycDuplicateMatch[]> {
+    const [submissions, clients, providers] = await Promise.all([
+      KycSubmissionModelInstance.find({
+        idType,
+        idNumber,
+        userId: { $ne: userId },
+      })
+        .sort({ submittedAt: -1 })
+        .select("_id ownerType profileId userId status")
+        .lean(),
+      ClientModel.find({
+        "idDetails.idType": idType,
+        "idDetails.idNumber": idNumber,
+        isDeleted: false,
+      })
+        .select("_id profile")
+        .lean(),
+      ProviderModel.find({
+        "IdDetails.idType": idType,
+        "IdDetails.idNumber": idNumber,
+        isDeleted: false,
+      })
+        .select("_id profile")
+        .lean(),
+    ]);
+
+    const matches: KycDuplicateMatch[] = [];
+    const seen = new Set<string>();
+
+    for (const submission of submissions) {
+      const key = submission.profileId.toString();
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      matches.push({
+        ownerType: submission.ownerType,
+        profileId: submission.profileId,
+        userId: submission.userId,
+        source: "submission",
+        submissionId: submission._id,
+        status: submission.status,
+      });
+    }
+
+    const profiles = [
+      ...clients.map((c) => ({ ...c, ownerType: KycOwnerType.CLIENT })),
+      ...providers.map((p) => ({ ...p, ownerType: KycOwnerType.PROVIDER })),
+    ].filter((p) => !seen.has(p._id.toString()));
+
+    if (profiles.length === 0) return matches;
+
+    const owners = await ProfileModel.find({
+      _id: { $in: profiles.map((p) => p.profile) },
+    })
+      .select("_id userId")
+      .lean();
+
+    for (const profile of profiles) {
+      const owner = owners.find(
+        (o) => o._id.toString() === profile.profile?.toString()
+      );
+      if (owner?.userId?.toString() === userId.toString()) continue;
+
+      matches.push({
+        ownerType: profile.ownerType,
+        profileId: profile._id,
+        userId: owner?.userId,
+        source: "profile",
+      });
+    }
+
+    return matches;
+  }
+
+  private async create(
+    owner: KycOwner,
+    submittedBy: Types.ObjectId,
+    audit?: AuditContext
+  ) {
+    const details = owner.idDetails;
+
+    if (!details?.idType || !details.idNumber) {
+      throw new Error(
+        "Add your ID type and number before submitting for verification"
+      );
+    }
+
+    if (!details.fileImage?.length) {
+      throw new Error(
+        "Upload at least one image of your ID before submitting for verification"
+      );
+    }
+
+    const idNumber = normalizeIdNumber(details.idType, details.idNumber);
+
+    const previous = await KycSubmissionModelInstance.find({
+      ownerType: owner.type,
+      profileId: owner.profileId,
+    })
+      .sort({ submittedAt: -1 })
+      .select("status");
+
+    if (previous[0] && OPEN_STATUSES.includes(previous[0].status)) {
+      throw new Error(
+        "Cannot submit while a previous submission is awaiting review"
+      );
+    }
+
+    if (previous[0]?.status === KycStatus.APPROVED && details.verifiedAt) {
+      throw new Error("Cannot submit an ID that is already verified");
+    }
+
+    const now = new Date();
+    const submission = await KycSubmissionModelInstance.create({
+      ownerType: owner.type,
+      profileId: owner.profileId,
+      userId: owner.userId,
+      idType: details.idType,
+      idNumber,
+      fileImage: details.fileImage,
+      status: KycStatus.SUBMITTED,
+      submittedAt: now,
+      attempt: previous.length + 1,
+      duplicates: await this.findDuplicates(
+        details.idType,
+        idNumber,
+        owner.userId
+      ),
+      history: [
+        { status: KycStatus.SUBMITTED, changedBy: submittedBy, changedAt: now },
+      ],
+    });
+
+    await auditLogService.record(audit, {
+      action: AuditAction.KYC_SUBMITTED,
+      entityType: AuditEntityType.KYC_SUBMISSION,
+      entityId: submission._id,
+      after: submission,
+      fields: ["status", "idType", "idNumber", "fileImage"],
+      metadata: {
+        ownerType: owner.type,
+        profileId: owner.profileId.toString(),
+        duplicateCount: submission.duplicates.length,
+      },
+    });
+
+    return submission;
+  }
+
+  /**
+   * Send the current user's ID details and images for review
+   */
+  async submit(
+    userId: string,
+    ownerType: KycOwnerType,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    const owner = await this.resolveOwnerByUser(userId, ownerType);
+    const submission = await this.create(owner, owner.userId, audit);
+
+    const created = await KycSubmissionModelInstance.findById(submission._id)
+      .select(OWNER_HIDDEN_FIELDS)
+      .populate("fileImage", IMAGE_FIELDS)
+      .lean<KycSubmission>();
+
+    return withImageLinks(created as KycSubmission);
+  }
+
+  /**
+   * The current user's verification state and past submissions, newest
+   * first, without the reviewer's internal notes
+   */
+  async getMine(userId: string, ownerType: KycOwnerType) {
+    const owner = await this.resolveOwnerByUser(userId, ownerType);
+
+    const submissions = await KycSubmissionModelInstance.find({
+      ownerType,
+      profileId: owner.profileId,
+    })
+      .sort({ submittedAt: -1 })
+      .select(OWNER_HIDDEN_FIELDS)
+      .populate("fileImage", IMAGE_FIELDS)
+      .lean();
+
+    return {
+      idVerified: !!owner.idDetails?.verifiedAt,
+      verifiedAt: owner.idDetails?.verifiedAt,
+      status: submissions[0]?.status ?? null,
+      submissions: submissions.map(withImageLinks),
+    };
+  }
+
+  /**
+   * Submissions for admins to work through, oldest first, with the ID
+   * images and any duplicate matches
+   */
+  async listQueue(
+    filters: KycQueueFilters,
+    options: { page: number; limit: number }
+  ) {
+    const { page, limit } = options;
+    const query: Record<string, any> = {
+      status: {
+        $in: filters.statuses?.length ? filters.statuses : OPEN_STATUSES,
+      },
+    };
+
+    if (filters.ownerType) query.ownerType = filters.ownerType;
+    if (filters.idType) query.idType = filters.idType;
+    if (filters.duplicatesOnly) query["duplicates.0"] = { $exists: true };
+
+    const [submissions, total] = await Promise.all([
+      KycSubmissionModelInstance.find(query)
+        .sort({ submittedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("fileImage", IMAGE_FIELDS)
+        .populate("userId", "name email")
+        .populate("reviewedBy", "name email")
+        .lean(),
+      KycSubmissionModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      submissions: submissions.map(withImageLinks),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * One submission with everything a reviewer needs
+   */
+  async getSubmission(submissionId: string) {
+    const submission = await KycSubmissionModelInstance.findById(submissionId)
+      .populate("fileImage", IMAGE_FIELDS)
+      .populate("userId", "name email")
+      .populate("reviewedBy", "name email")
+      .populate("duplicates.userId", "name email")
+      .populate("history.changedBy", "name email")
+      .lean();
+
+    if (!submission) {
+      throw new Error("KYC submission not found");
+    }
+
+    return withImageLinks(submission);
+  }
+
+  private async findForTransition(submissionId: string, next: KycStatus) {
+    const submission = await KycSubmissionModelInstance.findById(submissionId);
+
+    if (!submission) {
+      throw new Error("KYC submission not found");
+    }
+
+    if (!TRANSITIONS[submission.status].includes(next)) {
+      throw new Error(
+        `Cannot ${TRANSITION_VERBS[next]} a submission that is ${submission.status}`
+      );
+    }
+
+    return submission;
+  }
+
+  private async audit(
+    context: AuditContext | undefined,
+    before: Record<string, any> | null,
+    submission: KycSubmission,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    await auditLogService.record(context, {
+      action: AUDIT_ACTIONS[submission.status],
+      entityType: AuditEntityType.KYC_SUBMISSION,
+      entityId: submission._id,
+      before,
+      after: submission,
+      fields: [
+        "status",
+        "reviewedBy",
+        "reviewerNotes",
+        "rejectionReason",
+        "rejectionDetails",
+      ],
+      metadata: {
+        ownerType: submission.ownerType,
+        profileId: submission.profileId.toString(),
+        ...metadata,
+      },
+    });
+  }
+
+  private announce(submission: KycSubmission): void {
+    domainEvents.publish(DomainEventType.KYC_REVIEWED, {
+      submissionId: submission._id,
+      ownerType: submission.ownerType,
+      profileId: submission.profileId,
+      status: submission.status,
+      reason: submission.rejectionReason,
+      details: submission.rejectionDetails,
+    });
+  }
+
+  /**
+   * Claim a submission so other admins can see it is being looked at
+   */
+  async startReview(
+    submissionId: string,
+    adminId: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    const submission = await this.findForTransition(
+      submissionId,
+      KycStatus.IN_REVIEW
+    );
+
+    const before = auditLogService.snapshot(submission);
+    const now = new Date();
+    submission.status = KycStatus.IN_REVIEW;
+    submission.reviewedBy = new Types.ObjectId(adminId);
+    submission.reviewStartedAt = now;
+    submission.history.push({
+      status: KycStatus.IN_REVIEW,
+      changedBy: new Types.ObjectId(adminId),
+      changedAt: now,
+    });
+    await submission.save();
+
+    await this.audit(audit, before, submission);
+
+    return submission;
+  }
+
+  /**
+   * Accept the document and mark the profile's ID as verified. Refused
+   * when another account already has this ID verified, or when the
+   * profile's ID details or images changed after submission.
+   */
+  async approve(
+    submissionId: string,
+    adminId: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    const submission = await this.findForTransition(
+      submissionId,
+      KycStatus.APPROVED
+    );
+
+    const verifiedElsewhere = await KycSubmissionModelInstance.exists({
+      idType: submission.idType,
+      idNumber: submission.idNumber,
+      userId: { $ne: submission.userId },
+      status: KycStatus.APPROVED,
+    });
+
+    if (verifiedElsewhere) {
+      throw new Error(
+        "Cannot approve an ID number that is already verified on another account"
+      );
+    }
+
+    const owner = await this.resolveOwnerByProfile(
+      submission.ownerType,
+      submission.profileId
+    );
+    const current = owner.idDetails;
+    if (
+      !current ||
+      current.idType !== submission.idType ||
+      normalizeIdNumber(current.idType, current.idNumber) !==
+        submission.idNumber ||
+      !sameFiles(current.fileImage, submission.fileImage)
+    ) {
+      throw new Error(
+        "Cannot approve a submission whose ID details or images have since changed on the profile"
+      );
+    }
+
+    const before = auditLogService.snapshot(submission);
+    const now = new Date();
+    submission.status = KycStatus.APPROVED;
+    submission.reviewedBy = new Types.ObjectId(adminId);
+    submission.reviewedAt = now;
+    submission.reviewerNotes = notes;
+    submission.rejectionReason = undefined;
+    submission.rejectionDetails = undefined;
+    submission.history.push({
+      status: KycStatus.APPROVED,
+      changedBy: new Types.ObjectId(adminId),
+      changedAt: now,
+      note: notes,
+    });
+    await submission.save();
+
+    const path = idDetailsPath(submission.ownerType);
+    const model: any =
+      submission.ownerType === KycOwnerType.CLIENT
+        ? ClientModel
+        : ProviderModel;
+    await model.updateOne(
+      { _id: submission.profileId },
+      {
+        $set: {
+          [`${path}.idNumber`]: submission.idNumber,
+          [`${path}.verifiedAt`]: now,
+        },
+      }
+    );
+
+    if (submission.ownerType === KycOwnerType.CLIENT) {
+      await clientProfileService.updateVerificationStatus(
+        submission.profileId.toString(),
+        { idVerified: true },
+        audit
+      );
+    }
+
+    await this.audit(audit, before, submission);
+    this.announce(submission);
+
+    return submission;
+  }
+
+  private async decline(
+    submissionId: string,
+    status: KycStatus.REJECTED | KycStatus.NEEDS_RESUBMISSION,
+    adminId: string,
+    reason: KycRejectionReason,
+    details?: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    if (!Object.values(KycRejectionReason).includes(reason)) {
+      throw new Error(
+        `Invalid rejection reason. Must be one of: ${Object.values(
+          KycRejectionReason
+        ).join(", ")}`
+      );
+    }
+
+    const submission = await this.findForTransition(submissionId, status);
+
+    const before = auditLogService.snapshot(submission);
+    const now = new Date();
+    submission.status = status;
+    submission.reviewedBy = new Types.ObjectId(adminId);
+    submission.reviewedAt = now;
+    submission.reviewerNotes = notes;
+    submission.rejectionReason = reason;
+    submission.rejectionDetails = details;
+    submission.history.push({
+      status,
+      changedBy: new Types.ObjectId(adminId),
+      changedAt: now,
+      note: notes,
+    });
+    await submission.save();
+
+    await this.audit(audit, before, submission, { reason });
+    this.announce(submission);
+
+    return submission;
+  }
+
+  /**
+   * Refuse the document outright
+   */
+  async reject(
+    submissionId: string,
+    adminId: string,
+    reason: KycRejectionReason,
+    details?: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    return this.decline(
+      submissionId,
+      KycStatus.REJECTED,
+      adminId,
+      reason,
+      details,
+      notes,
+      audit
+    );
+  }
+
+  /**
+   * Ask the owner to fix their details or images and submit again
+   */
+  async requestResubmission(
+    submissionId: string,
+    adminId: string,
+    reason: KycRejectionReason,
+    details?: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    return this.decline(
+      submissionId,
+      KycStatus.NEEDS_RESUBMISSION,
+      adminId,
+      reason,
+      details,
+      notes,
+      audit
+    );
+  }
+
+  /**
+   * Approve a profile's pending submission, opening one on the owner's
+   * behalf from the profile's current ID details if there is none
+   */
+  async approveForProfile(
+    ownerType: KycOwnerType,
+    profileId: string,
+    adminId: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<KycSubmission> {
+    const open = await KycSubmissionModelInstance.findOne({
+      ownerType,
+      profileId: new Types.ObjectId(profileId),
+      status: { $in: OPEN_STATUSES },
+    }).select("_id");
+
+    const submissionId = open
+      ? open._id
+      : (
+          await this.create(
+            await this.resolveOwnerByProfile(ownerType, profileId),
+            new Types.ObjectId(adminId),
+            audit
+          )
+        )._id;
+
+    return this.approve(submissionId.toString(), adminId, notes, audit);
+  }
+}
+
+// Export singleton instance
+export const kycService = new KycService();
@@ -0,0 +1,336 @@
+// services/profiles/phone-verification.service.ts
+// One-time codes proving a client or provider owns their contact numbers
+
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import ProfileModel from "../../models/profiles/userProfile.model";
+import PhoneVerificationModelInstance from "../../models/phone-verification.model";
+import { AuditContext } from "../../types/audit-log.types";
+import {
+  PhoneContactField,
+  PhoneContactStatus,
+  PhoneOwner,
+  PhoneOwnerType,
+} from "../../types/phone-verification.types";
+import { maskPhone, normalizeGhanaPhone } from "../../utils/phone.utils";
+import {
+  NotificationService,
+  notificationService,
+} from "../notifications/notification.service";
+import { clientProfileService } from "./client.profile.service";
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CONFIRM_ATTEMPTS = 5;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_HOUR = 5;
+// Unconfirmed requests are cleaned up after a day
+const PURGE_AFTER_HOURS = 24;
+
+type ResolvedOwner = PhoneOwner & {
+  contacts: Record<PhoneContactField, string | undefined>;
+};
+
+const hashCode = (code: string) =>
+  crypto.createHash("sha256").update(code).digest("hex");
+
+export class PhoneVerificationService {
+  private notifications: NotificationService;
+
+  constructor(notifications: NotificationService = notificationService) {
+    this.notifications = notifications;
+  }
+
+  /**
+   * The current user's client or provider profile
+   */
+  private async resolveOwner(
+    userId: string,
+    ownerType: PhoneOwnerType
+  ): Promise<ResolvedOwner> {
+    const userProfile = await ProfileModel.findOne({
+      userId: new Types.ObjectId(userId),
+      isDeleted: false,
+    }).select("_id userId mobileNumber");
+
+    if (ownerType === PhoneOwnerType.CLIENT) {
+      const client = userProfile
+        ? await ClientModel.findOne({
+            profile: userProfile._id,
+            isDeleted: false,
+          }).select("_id clientContactInfo")
+        : null;
+
+      if (!userProfile || !client) {
+        throw new Error("Client profile not found");
+      }
+
+      return {
+        type: ownerType,
+        profileId: client._id,
+        userId: userProfile.userId,
+        contacts: {
+          [PhoneContactField.PRIMARY]: userProfile.mobileNumber,
+          [PhoneContactField.SECONDARY]:
+            client.clientContactInfo?.secondaryContact,
+        },
+      };
+    }
+
+    const provider = userProfile
+      ? await ProviderModel.findOne({
+          profile: userProfile._id,
+          isDeleted: false,
+        }).select("_id providerContactInfo")
+      : null;
+
+    if (!userProfile || !provider) {
+      throw new Error("Provider profile not found");
+    }
+
+    return {
+      type: ownerType,
+      profileId: provider._id,
+      userId: userProfile.userId,
+      contacts: {
+        [PhoneContactField.PRIMARY]:
+          provider.providerContactInfo?.primaryContact,
+        [PhoneContactField.SECONDARY]:
+          provider.providerContactInfo?.secondaryContact,
+      },
+    };
+  }
+
+  private resolvePhone(
+    contacts: Record<PhoneContactField, string | undefined>,
+    field: PhoneContactField
+  ): string {
+    if (!Object.values(PhoneContactField).includes(field)) {
+      throw new Error(
+        `Invalid contact field. Use one of: ${Object.values(PhoneContactField).join(", ")}`
+      );
+    }
+
+    const raw = contacts[field];
+    if (!raw) {
+      throw new Error(`No ${field} number on this profile`);
+    }
+
+    const phone = normalizeGhanaPhone(raw);
+    if (!phone) {
+      throw new Error(
+        `Invalid Ghana phone number for ${field}. Use +233XXXXXXXXX or 0XXXXXXXXX`
+      );
+    }
+
+    return phone;
+  }
+
+  private async statusFor(
+    owner: ResolvedOwner
+  ): Promise<PhoneContactStatus[]> {
+    const numbers = Object.values(PhoneContactField).map((field) => {
+      const raw = owner.contacts[field];
+      return { field, phone: raw ? normalizeGhanaPhone(raw) : null };
+    });
+
+    const verified = await PhoneVerificationModelInstance.find({
+      ownerType: owner.type,
+      profileId: owner.profileId,
+      phone: { $in: numbers.map((n) => n.phone).filter(Boolean) },
+      verifiedAt: { $ne: null },
+    }).lean();
+
+    return numbers.map(({ field, phone }) => {
+      const record = verified.find((v) => v.phone === phone);
+      return {
+        field,
+        phone,
+        verified: !!record,
+        verifiedAt: record?.verifiedAt,
+      };
+    });
+  }
+
+  /**
+   * Verification state of each of the profile's numbers. A number only
+   * counts as verified while it is still the one on the profile.
+   */
+  async getStatus(
+    userId: string,
+    ownerType: PhoneOwnerType
+  ): Promise<PhoneContactStatus[]> {
+    return this.statusFor(await this.resolveOwner(userId, ownerType));
+  }
+
+  /**
+   * Bring a client's phone check in line with the number now on their
+   * profile. Called whenever that number changes; users without a client
+   * profile are left alone.
+   */
+  async syncClientPhoneCheck(
+    userId: string,
+    audit?: AuditContext
+  ): Promise<void> {
+    let owner: ResolvedOwner;
+    try {
+      owner = await this.resolveOwner(userId, PhoneOwnerType.CLIENT);
+    } catch {
+      return;
+    }
+
+    const primary = (await this.statusFor(owner)).find(
+      (status) => status.field === PhoneContactField.PRIMARY
+    );
+
+    await clientProfileService.updateVerificationStatus(
+      owner.profileId.toString(),
+      { phoneVerified: !!primary?.verified },
+      audit
+    );
+  }
+
+  /**
+   * Text a fresh code to one of the profile's numbers
+   */
+  async requestCode(
+    userId: string,
+    ownerType: PhoneOwnerType,
+    field: PhoneContactField = PhoneContactField.PRIMARY
+  ): Promise<{ field: PhoneContactField; phone: string; expiresAt: Date }> {
+    const owner = await this.resolveOwner(userId, ownerType);
+    const phone = this.resolvePhone(owner.contacts, field);
+
+    const existing = await PhoneVerificationModelInstance.findOne({
+      ownerType,
+      profileId: owner.profileId,
+      phone,
+    });
+
+    if (existing?.verifiedAt) {
+      throw new Error("Phone number is already verified");
+    }
+
+    const now = new Date();
+
+    if (
+      existing?.lastSentAt &&
+      now.getTime() - existing.lastSentAt.getTime() <
+        RESEND_COOLDOWN_SECONDS * 1000
+    ) {
+      throw new Error(
+        `Please wait ${RESEND_COOLDOWN_SECONDS} seconds before requesting another code`
+      );
+    }
+
+    // Sends are counted per rolling hour
+    const windowOpen =
+      existing?.sendWindowStartedAt &&
+      now.getTime() - existing.sendWindowStartedAt.getTime() < 60 * 60 * 1000;
+    const sendCount = windowOpen ? existing!.sendCount : 0;
+
+    if (sendCount >= MAX_SENDS_PER_HOUR) {
+      throw new Error("Too many codes requested, please try again later");
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+    const expiresAt = new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000);
+
+    await PhoneVerificationModelInstance.findOneAndUpdate(
+      { ownerType, profileId: owner.profileId, phone },
+      {
+        $set: {
+          userId: owner.userId,
+          codeHash: hashCode(code),
+          codeExpiresAt: expiresAt,
+          attempts: 0,
+          lastSentAt: now,
+          sendCount: sendCount + 1,
+          sendWindowStartedAt: windowOpen
+            ? existing!.sendWindowStartedAt
+            : now,
+          purgeAt: new Date(
+            now.getTime() + PURGE_AFTER_HOURS * 60 * 60 * 1000
+          ),
+        },
+      },
+      { upsert: true }
+    );
+
+    await this.notifications.getSmsTransport().send({
+      to: phone,
+      text: `Your verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes. Don't share it with anyone.`,
+    });
+
+    return { field, phone: maskPhone(phone), expiresAt };
+  }
+
+  /**
+   * Check a code and mark the number verified
+   */
+  async confirmCode(
+    userId: string,
+    ownerType: PhoneOwnerType,
+    code: string,
+    field: PhoneContactField = PhoneContactField.PRIMARY
+  ): Promise<PhoneContactStatus> {
+    const owner = await this.resolveOwner(userId, ownerType);
+    const phone = this.resolvePhone(owner.contacts, field);
+
+    const verification = await PhoneVerificationModelInstance.findOne({
+      ownerType,
+      profileId: owner.profileId,
+      phone,
+    }).select("+codeHash");
+
+    if (verification?.verifiedAt) {
+      throw new Error("Phone number is already verified");
+    }
+
+    if (!verification?.codeHash || !verification.codeExpiresAt) {
+      throw new Error("No verification code requested for this number");
+    }
+
+    if (verification.codeExpiresAt < new Date()) {
+      throw new Error("Verification code has expired, request a new one");
+    }
+
+    if (verification.attempts >= MAX_CONFIRM_ATTEMPTS) {
+      throw new Error("Too many incorrect attempts, request a new code");
+    }
+
+    if (verification.codeHash !== hashCode(String(code).trim())) {
+      verification.attempts += 1;
+      await verification.save();
+      throw new Error("Invalid verification code");
+    }
+
+    verification.verifiedAt = new Date();
+    verification.codeHash = undefined;
+    verification.codeExpiresAt = undefined;
+    verification.purgeAt = undefined;
+    await verification.save();
+
+    // The client's own number backs the phone check on their profile
+    if (
+      ownerType === PhoneOwnerType.CLIENT &&
+      field === PhoneContactField.PRIMARY
+    ) {
+      await clientProfileService.updateVerificationStatus(
+        owner.profileId.toString(),
+        { phoneVerified: true }
+      );
+    }
+
+    return {
+      field,
+      phone,
+      verified: true,
+      verifiedAt: verification.verifiedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const phoneVerificationService = new PhoneVerificationService();
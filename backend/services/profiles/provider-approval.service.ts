@@ -0,0 +1,316 @@
+// services/profiles/provider-approval.service.ts
+// Admin review of provider profiles: approval, rejection, resubmission
+// and time-boxed suspensions
+
+import { Types } from "mongoose";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { DomainEventType } from "../../types/notification.types";
+import {
+  ProviderApprovalAction,
+  ProviderApprovalStatus,
+  ProviderProfile,
+} from "../../types/profiles/providerProfile.types";
+import { auditLogService } from "../audit/audit-log.service";
+import { domainEvents } from "../events/domain-event-bus";
+
+/**
+ * Query for providers customers may see and book: approved (or from
+ * before approval existed) and not under an active suspension
+ */
+export const listableProviderFilter = (
+  now: Date = new Date()
+): Record<string, any> => ({
+  "approval.status": {
+    $nin: [ProviderApprovalStatus.PENDING, ProviderApprovalStatus.REJECTED],
+  },
+  $nor: [
+    {
+      "suspension.suspendedAt": { $ne: null },
+      "suspension.liftedAt": null,
+      $or: [{ "suspension.endsAt": null }, { "suspension.endsAt": { $gt: now } }],
+    },
+  ],
+});
+
+export const isSuspended = (
+  provider: Pick<ProviderProfile, "suspension">,
+  now: Date = new Date()
+): boolean => {
+  const suspension = provider.suspension;
+  return (
+    !!suspension?.suspendedAt &&
+    !suspension.liftedAt &&
+    (!suspension.endsAt || suspension.endsAt > now)
+  );
+};
+
+// Profiles from before approval existed count as approved
+const approvalStatusOf = (provider: Pick<ProviderProfile, "approval">) =>
+  provider.approval?.status ?? ProviderApprovalStatus.APPROVED;
+
+export const isListable = (
+  provider: Pick<ProviderProfile, "approval" | "suspension">,
+  now: Date = new Date()
+): boolean =>
+  approvalStatusOf(provider) === ProviderApprovalStatus.APPROVED &&
+  !isSuspended(provider, now);
+
+/**
+ * Days from a suspension duration; null for open-ended
+ */
+const parseSuspensionDays = (duration?: number | string): number | null => {
+  if (duration === undefined || duration === null || duration === "") {
+    return null;
+  }
+  if (duration === "indefinite") return null;
+
+  const days = Number(duration);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(
+      "Invalid suspension duration. Use a number of days or \"indefinite\""
+    );
+  }
+
+  return days;
+};
+
+const AUDIT_ACTIONS: Record<ProviderApprovalAction, AuditAction> = {
+  [ProviderApprovalAction.APPROVED]: AuditAction.PROVIDER_APPROVED,
+  [ProviderApprovalAction.REJECTED]: AuditAction.PROVIDER_REJECTED,
+  [ProviderApprovalAction.RESUBMITTED]: AuditAction.PROVIDER_RESUBMITTED,
+  [ProviderApprovalAction.SUSPENDED]: AuditAction.PROVIDER_SUSPENDED,
+  [ProviderApprovalAction.UNSUSPENDED]: AuditAction.PROVIDER_UNSUSPENDED,
+};
+
+export class ProviderApprovalService {
+  private async findProvider(providerId: string) {
+    const provider = await ProviderModel.findOne({
+      _id: new Types.ObjectId(providerId),
+      isDeleted: false,
+    });
+
+    if (!provider) {
+      throw new Error("Provider profile not found");
+    }
+
+    return provider;
+  }
+
+  private announce(
+    providerId: Types.ObjectId,
+    action: ProviderApprovalAction,
+    extra: { reason?: string; suspendedUntil?: Date } = {}
+  ): void {
+    domainEvents.publish(DomainEventType.PROVIDER_APPROVAL_CHANGED, {
+      providerId,
+      action,
+      ...extra,
+    });
+  }
+
+  private async audit(
+    context: AuditContext | undefined,
+    action: ProviderApprovalAction,
+    before: Record<string, any> | null,
+    provider: ProviderProfile,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    await auditLogService.record(context, {
+      action: AUDIT_ACTIONS[action],
+      entityType: AuditEntityType.PROVIDER_PROFILE,
+      entityId: provider._id,
+      before,
+      after: provider,
+      fields: ["approval", "suspension"],
+      metadata,
+    });
+  }
+
+  /**
+   * Approve a pending profile
+   */
+  async approve(
+    providerId: string,
+    adminId: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<ProviderProfile> {
+    const provider = await this.findProvider(providerId);
+    const status = approvalStatusOf(provider);
+
+    if (status !== ProviderApprovalStatus.PENDING || !provider.approval) {
+      throw new Error(`Cannot approve a provider that is ${status}`);
+    }
+
+    const before = auditLogService.snapshot(provider);
+    provider.approval.status = ProviderApprovalStatus.APPROVED;
+    provider.approval.reviewedBy = new Types.ObjectId(adminId);
+    provider.approval.reviewedAt = new Date();
+    provider.approval.notes = notes;
+    provider.approval.rejectionReason = undefined;
+    await provider.save();
+
+    await this.audit(audit, ProviderApprovalAction.APPROVED, before, provider);
+    this.announce(provider._id, ProviderApprovalAction.APPROVED);
+
+    return provider;
+  }
+
+  /**
+   * Reject a pending profile; the provider can fix it and resubmit
+   */
+  async reject(
+    providerId: string,
+    adminId: string,
+    reason: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<ProviderProfile> {
+    const provider = await this.findProvider(providerId);
+    const status = approvalStatusOf(provider);
+
+    if (status !== ProviderApprovalStatus.PENDING || !provider.approval) {
+      throw new Error(`Cannot reject a provider that is ${status}`);
+    }
+
+    const before = auditLogService.snapshot(provider);
+    provider.approval.status = ProviderApprovalStatus.REJECTED;
+    provider.approval.reviewedBy = new Types.ObjectId(adminId);
+    provider.approval.reviewedAt = new Date();
+    provider.approval.notes = notes;
+    provider.approval.rejectionReason = reason;
+    await provider.save();
+
+    await this.audit(audit, ProviderApprovalAction.REJECTED, before, provider, {
+      reason,
+    });
+    this.announce(provider._id, ProviderApprovalAction.REJECTED, { reason });
+
+    return provider;
+  }
+
+  /**
+   * Send a rejected profile back for review after the provider updated it
+   */
+  async resubmit(
+    providerId: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<ProviderProfile> {
+    const provider = await this.findProvider(providerId);
+    const status = approvalStatusOf(provider);
+
+    if (status !== ProviderApprovalStatus.REJECTED || !provider.approval) {
+      throw new Error("Only rejected profiles can be resubmitted");
+    }
+
+    const before = auditLogService.snapshot(provider);
+    provider.approval.status = ProviderApprovalStatus.PENDING;
+    provider.approval.submittedAt = new Date();
+    provider.approval.resubmissionCount =
+      (provider.approval.resubmissionCount || 0) + 1;
+    provider.approval.resubmissionNotes = notes;
+    await provider.save();
+
+    await this.audit(audit, ProviderApprovalAction.RESUBMITTED, before, provider);
+    this.announce(provider._id, ProviderApprovalAction.RESUBMITTED);
+
+    return provider;
+  }
+
+  /**
+   * Hide an approved provider from customers, for a number of days
+   * or until lifted
+   */
+  async suspend(
+    providerId: string,
+    adminId: string,
+    reason: string,
+    duration?: number | string,
+    audit?: AuditContext
+  ): Promise<ProviderProfile> {
+    const days = parseSuspensionDays(duration);
+    const provider = await this.findProvider(providerId);
+    const status = approvalStatusOf(provider);
+
+    if (status !== ProviderApprovalStatus.APPROVED) {
+      throw new Error(`Cannot suspend a provider that is ${status}`);
+    }
+
+    if (isSuspended(provider)) {
+      throw new Error("Cannot suspend a provider that is already suspended");
+    }
+
+    const before = auditLogService.snapshot(provider);
+    const now = new Date();
+    provider.suspension = {
+      suspendedBy: new Types.ObjectId(adminId),
+      suspendedAt: now,
+      reason,
+      endsAt:
+        days === null
+          ? undefined
+          : new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+    };
+    await provider.save();
+
+    await this.audit(audit, ProviderApprovalAction.SUSPENDED, before, provider, {
+      reason,
+      duration: duration ?? "indefinite",
+    });
+    this.announce(provider._id, ProviderApprovalAction.SUSPENDED, {
+      reason,
+      suspendedUntil: provider.suspension.endsAt,
+    });
+
+    return provider;
+  }
+
+  /**
+   * Lift an active suspension early
+   */
+  async unsuspend(
+    providerId: string,
+    adminId: string,
+    notes?: string,
+    audit?: AuditContext
+  ): Promise<ProviderProfile> {
+    const provider = await this.findProvider(providerId);
+
+    if (!provider.suspension || !isSuspended(provider)) {
+      throw new Error("Cannot unsuspend a provider that is not suspended");
+    }
+
+    const before = auditLogService.snapshot(provider);
+    provider.suspension.liftedBy = new Types.ObjectId(adminId);
+    provider.suspension.liftedAt = new Date();
+    provider.suspension.liftNotes = notes;
+    await provider.save();
+
+    await this.audit(audit, ProviderApprovalAction.UNSUSPENDED, before, provider);
+    this.announce(provider._id, ProviderApprovalAction.UNSUSPENDED);
+
+    return provider;
+  }
+
+  /**
+   * Where the profile stands, for the provider or an admin
+   */
+  getApprovalState(provider: Pick<ProviderProfile, "approval" | "suspension">) {
+    return {
+      status: approvalStatusOf(provider),
+      approval: provider.approval ?? null,
+      suspended: isSuspended(provider),
+      suspension: provider.suspension ?? null,
+      listable: isListable(provider),
+    };
+  }
+}
+
+// Export singleton instance
+export const providerApprovalService = new ProviderApprovalService();
@@ -0,0 +1,456 @@
+// services/profiles/provider-availability.service.ts
+// Combines working hours, active bookings and blackout dates into a calendar
+
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import {
+  AddBlackoutDateRequestBody,
+  AvailabilityConflict,
+  DayAvailability,
+  ProviderAvailabilityResponse,
+  SlotAvailabilityResult,
+  TimeWindow,
+  WeekDay,
+} from "../../types/availability.types";
+import { BookingStatus } from "../../types/booking.types";
+import { ProviderProfile } from "../../types/profiles/providerProfile.types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that occupy a provider's calendar
+const BLOCKING_BOOKING_STATUSES = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+];
+
+// Window offered when a provider is always available
+const ALWAYS_AVAILABLE_WINDOW: TimeWindow = {
+  start: process.env.ALWAYS_AVAILABLE_START || "06:00",
+  end: process.env.ALWAYS_AVAILABLE_END || "22:00",
+};
+
+const WEEK_DAYS: WeekDay[] = [
+  WeekDay.SUNDAY,
+  WeekDay.MONDAY,
+  WeekDay.TUESDAY,
+  WeekDay.WEDNESDAY,
+  WeekDay.THURSDAY,
+  WeekDay.FRIDAY,
+  WeekDay.SATURDAY,
+];
+
+const MAX_RANGE_DAYS = 31;
+
+// Longest a booking may hold a provider's calendar while claiming a slot
+const CALENDAR_LOCK_MS = 30 * 1000;
+
+/**
+ * Provider availability service
+ *
+ * All dates are handled in UTC, which matches Ghana local time (GMT).
+ */
+export class ProviderAvailabilityService {
+  // ── Time helpers ────────────────────────────────────────────────────────
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private fromMinutes(total: number): string {
+    const hours = Math.floor(total / 60);
+    const minutes = total % 60;
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+  }
+
+  private overlaps(a: TimeWindow, b: TimeWindow): boolean {
+    return a.start < b.end && b.start < a.end;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    );
+  }
+
+  private toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  getDayOfWeek(date: Date): WeekDay {
+    return WEEK_DAYS[date.getUTCDay()];
+  }
+
+  /**
+   * Read a `workingHours` entry for a day.
+   * Accepts full (`monday`) or short (`mon`) keys in any case.
+   */
+  getWorkingWindow(
+    provider: Pick<ProviderProfile, "isAlwaysAvailable" | "workingHours">,
+    date: Date
+  ): TimeWindow | null {
+    if (provider.isAlwaysAvailable) {
+      return ALWAYS_AVAILABLE_WINDOW;
+    }
+
+    if (!provider.workingHours) {
+      return null;
+    }
+
+    const day = this.getDayOfWeek(date);
+    const entries =
+      provider.workingHours instanceof Map
+        ? Array.from(provider.workingHours.entries())
+        : Object.entries(provider.workingHours);
+
+    const match = entries.find(([key]) => {
+      const normalized = key.toLowerCase();
+      return normalized === day || normalized === day.slice(0, 3);
+    });
+
+    return match ? { start: match[1].start, end: match[1].end } : null;
+  }
+
+  private findBlackout(provider: Pick<ProviderProfile, "blackoutDates">, date: Date) {
+    const day = this.startOfDay(date).getTime();
+
+    return (provider.blackoutDates || []).find(
+      (blackout) =>
+        this.startOfDay(new Date(blackout.startDate)).getTime() <= day &&
+        this.startOfDay(new Date(blackout.endDate)).getTime() >= day
+    );
+  }
+
+  private async findBlockingBookings(
+    providerId: string | Types.ObjectId,
+    from: Date,
+    to: Date,
+    excludeBookingId?: string | Types.ObjectId
+  ) {
+    const query: any = {
+      providerId,
+      status: { $in: BLOCKING_BOOKING_STATUSES },
+      isDeleted: { $ne: true },
+      scheduledDate: { $gte: from, $lt: to },
+    };
+
+    if (excludeBookingId) {
+      query._id = { $ne: excludeBookingId };
+    }
+
+    return BookingModel.find(query)
+      .select("scheduledDate scheduledTimeSlot status")
+      .lean();
+  }
+
+  private async getProvider(providerId: string | Types.ObjectId) {
+    const provider = await ProviderModel.findOne({
+      _id: providerId,
+      isDeleted: { $ne: true },
+    })
+      .select("isAlwaysAvailable workingHours blackoutDates")
+      .lean();
+
+    if (!provider) {
+      throw new Error("Provider not found");
+    }
+
+    return provider;
+  }
+
+  /**
+   * A provider's working window on a date, or null if they don't work then
+   */
+  async getProviderWorkingWindow(
+    providerId: string | Types.ObjectId,
+    date: Date
+  ): Promise<TimeWindow | null> {
+    return this.getWorkingWindow(await this.getProvider(providerId), date);
+  }
+
+  // ── Slot checks ─────────────────────────────────────────────────────────
+
+  /**
+   * Run `claim` while holding a short lease on the provider's calendar,
+   * so checking a slot and booking it can't interleave with another
+   * booking for the same provider
+   */
+  async withCalendarLock<T>(
+    providerId: string | Types.ObjectId,
+    claim: () => Promise<T>
+  ): Promise<T> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + CALENDAR_LOCK_MS);
+
+    const locked = await ProviderModel.findOneAndUpdate(
+      {
+        _id: providerId,
+        $or: [
+          { calendarLockedUntil: { $lte: now } },
+          { calendarLockedUntil: null },
+        ],
+      },
+      { $set: { calendarLockedUntil: lockedUntil } }
+    );
+
+    if (!locked) {
+      if (!(await ProviderModel.exists({ _id: providerId }))) {
+        throw new Error("Provider not found");
+      }
+      throw new Error(
+        "Provider is not available right now: another booking is being confirmed, please try again"
+      );
+    }
+
+    try {
+      return await claim();
+    } finally {
+      await ProviderModel.updateOne(
+        { _id: providerId, calendarLockedUntil: lockedUntil },
+        { $set: { calendarLockedUntil: null } }
+      );
+    }
+  }
+
+  /**
+   * Check whether a provider can take a booking at the given date and slot
+   */
+  async checkSlotAvailability(
+    providerId: string | Types.ObjectId,
+    date: Date,
+    slot: TimeWindow,
+    excludeBookingId?: string | Types.ObjectId
+  ): Promise<SlotAvailabilityResult> {
+    const provider = await this.getProvider(providerId);
+    const conflicts: AvailabilityConflict[] = [];
+
+    const blackout = this.findBlackout(provider, date);
+    if (blackout) {
+      conflicts.push({
+        type: "blackout",
+        message: `Provider is unavailable on ${this.toDateKey(date)}${
+          blackout.reason ? ` (${blackout.reason})` : ""
+        }`,
+        blackoutId: blackout._id,
+      });
+    }
+
+    const window = this.getWorkingWindow(provider, date);
+    if (!window) {
+      conflicts.push({
+        type: "outside_working_hours",
+        message: `Provider does not work on ${this.getDayOfWeek(date)}s`,
+      });
+    } else if (slot.start < window.start || slot.end > window.end) {
+      conflicts.push({
+        type: "outside_working_hours",
+        message: `Requested slot ${slot.start}-${slot.end} is outside working hours ${window.start}-${window.end}`,
+      });
+    }
+
+    const dayStart = this.startOfDay(date);
+    const bookings = await this.findBlockingBookings(
+      providerId,
+      dayStart,
+      new Date(dayStart.getTime() + DAY_MS),
+      excludeBookingId
+    );
+
+    for (const booking of bookings) {
+      if (this.overlaps(slot, booking.scheduledTimeSlot)) {
+        conflicts.push({
+          type: "booking_overlap",
+          message: `Overlaps an existing booking from ${booking.scheduledTimeSlot.start} to ${booking.scheduledTimeSlot.end}`,
+          bookingId: booking._id,
+        });
+      }
+    }
+
+    return {
+      available: conflicts.length === 0,
+      conflicts,
+    };
+  }
+
+  /**
+   * Throw if the slot is not available
+   */
+  async assertSlotAvailable(
+    providerId: string | Types.ObjectId,
+    date: Date,
+    slot: TimeWindow,
+    excludeBookingId?: string | Types.ObjectId
+  ): Promise<void> {
+    const result = await this.checkSlotAvailability(
+      providerId,
+      date,
+      slot,
+      excludeBookingId
+    );
+
+    if (!result.available) {
+      throw new Error(
+        `Provider is not available for this time: ${result.conflicts
+          .map((c) => c.message)
+          .join("; ")}`
+      );
+    }
+  }
+
+  // ── Calendar ────────────────────────────────────────────────────────────
+
+  /**
+   * Build free slots per day between `from` and `to` (inclusive)
+   */
+  async getAvailability(
+    providerId: string | Types.ObjectId,
+    from: Date,
+    to: Date,
+    slotMinutes: number = 60
+  ): Promise<ProviderAvailabilityResponse> {
+    const rangeStart = this.startOfDay(from);
+    const rangeEnd = this.startOfDay(to);
+
+    if (rangeEnd < rangeStart) {
+      throw new Error("'to' must be on or after 'from'");
+    }
+
+    const dayCount = Math.round((rangeEnd.getTime() - rangeStart.getTime()) / DAY_MS) + 1;
+    if (dayCount > MAX_RANGE_DAYS) {
+      throw new Error(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    const provider = await this.getProvider(providerId);
+    const bookings = await this.findBlockingBookings(
+      providerId,
+      rangeStart,
+      new Date(rangeEnd.getTime() + DAY_MS)
+    );
+
+    const days: DayAvailability[] = [];
+
+    for (let i = 0; i < dayCount; i++) {
+      const date = new Date(rangeStart.getTime() + i * DAY_MS);
+      const dateKey = this.toDateKey(date);
+      const window = this.getWorkingWindow(provider, date);
+      const isBlackedOut = !!this.findBlackout(provider, date);
+
+      const busySlots = bookings
+        .filter((b) => this.toDateKey(new Date(b.scheduledDate)) === dateKey)
+        .map((b) => ({
+          start: b.scheduledTimeSlot.start,
+          end: b.scheduledTimeSlot.end,
+          bookingId: b._id,
+        }))
+        .sort((a, b) => a.start.localeCompare(b.start));
+
+      const freeSlots: TimeWindow[] = [];
+
+      if (window && !isBlackedOut) {
+        const windowEnd = this.toMinutes(window.end);
+        for (
+          let cursor = this.toMinutes(window.start);
+          cursor + slotMinutes <= windowEnd;
+          cursor += slotMinutes
+        ) {
+          const candidate = {
+            start: this.fromMinutes(cursor),
+            end: this.fromMinutes(cursor + slotMinutes),
+          };
+          if (!busySlots.some((busy) => this.overlaps(candidate, busy))) {
+            freeSlots.push(candidate);
+          }
+        }
+      }
+
+      days.push({
+        date: dateKey,
+        dayOfWeek: this.getDayOfWeek(date),
+        isWorkingDay: !!window,
+        isBlackedOut,
+        workingWindow: window || undefined,
+        busySlots,
+        freeSlots,
+      });
+    }
+
+    return {
+      providerId: new Types.ObjectId(providerId.toString()),
+      from: this.toDateKey(rangeStart),
+      to: this.toDateKey(rangeEnd),
+      slotMinutes,
+      isAlwaysAvailable: provider.isAlwaysAvailable,
+      days,
+    };
+  }
+
+  // ── Blackout dates ──────────────────────────────────────────────────────
+
+  async addBlackoutDate(
+    providerId: string | Types.ObjectId,
+    data: AddBlackoutDateRequestBody
+  ) {
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new Error("Invalid blackout start or end date");
+    }
+
+    if (this.startOfDay(endDate) < this.startOfDay(startDate)) {
+      throw new Error("Invalid blackout dates: end date is before start date");
+    }
+
+    const provider = await ProviderModel.findOne({
+      _id: providerId,
+      isDeleted: { $ne: true },
+    });
+
+    if (!provider) {
+      throw new Error("Provider not found");
+    }
+
+    if (!provider.blackoutDates) {
+      provider.blackoutDates = [];
+    }
+
+    provider.blackoutDates.push({
+      startDate: this.startOfDay(startDate),
+      endDate: this.startOfDay(endDate),
+      reason: data.reason,
+    });
+
+    await provider.save();
+    return provider.blackoutDates;
+  }
+
+  async removeBlackoutDate(
+    providerId: string | Types.ObjectId,
+    blackoutId: string
+  ) {
+    const provider = await ProviderModel.findOne({
+      _id: providerId,
+      isDeleted: { $ne: true },
+    });
+
+    if (!provider) {
+      throw new Error("Provider not found");
+    }
+
+    const before = provider.blackoutDates?.length || 0;
+    provider.blackoutDates = (provider.blackoutDates || []).filter(
+      (b) => b._id?.toString() !== blackoutId
+    );
+
+    if (provider.blackoutDates.length === before) {
+      throw new Error("Blackout date not found");
+    }
+
+    await provider.save();
+    return provider.blackoutDates;
+  }
+}
+
+// Export singleton instance
+export const providerAvailabilityService = new ProviderAvailabilityService();
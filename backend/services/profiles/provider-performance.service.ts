@@ -0,0 +1,220 @@
+// services/profiles/provider-performance.service.ts
+// Precomputes booking and request-response stats used by task matching
+
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import TaskModelInstance from "../../models/task.model";
+import { UserRole } from "../../types/base.types";
+import { BookingStatus } from "../../types/booking.types";
+import { ProviderPerformanceStats } from "../../types/profiles/providerProfile.types";
+
+const COMPLETED_STATUSES = [BookingStatus.VALIDATED, BookingStatus.COMPLETED];
+
+const ACTIVE_STATUSES = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.AWAITING_VALIDATION,
+];
+
+// Bookings that reached an outcome (completed, cancelled or stuck in dispute)
+const FINISHED_STATUSES = [
+  ...COMPLETED_STATUSES,
+  BookingStatus.CANCELLED,
+  BookingStatus.DISPUTED,
+];
+
+interface BookingCounts {
+  _id: Types.ObjectId;
+  totalBookings: number;
+  completedBookings: number;
+  cleanCompletions: number;
+  disputedBookings: number;
+  cancelledByProvider: number;
+  activeBookings: number;
+  finishedBookings: number;
+}
+
+interface ResponseCounts {
+  _id: Types.ObjectId;
+  respondedRequests: number;
+  avgResponseMs: number;
+}
+
+const ratio = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 1000 : undefined;
+
+export class ProviderPerformanceService {
+  /**
+   * Booking outcome counts per provider
+   */
+  private async aggregateBookings(
+    match: Record<string, any>
+  ): Promise<BookingCounts[]> {
+    return BookingModel.aggregate<BookingCounts>([
+      { $match: { ...match, isDeleted: { $ne: true } } },
+      {
+        $project: {
+          providerId: 1,
+          status: 1,
+          everDisputed: {
+            $in: [BookingStatus.DISPUTED, { $ifNull: ["$statusHistory.status", []] }],
+          },
+          providerCancelled: {
+            $gt: [
+              {
+                $size: {
+                  $filter: {
+                    input: { $ifNull: ["$statusHistory", []] },
+                    as: "entry",
+                    cond: {
+                      $and: [
+                        { $eq: ["$$entry.status", BookingStatus.CANCELLED] },
+                        { $eq: ["$$entry.actorRole", UserRole.PROVIDER] },
+                      ],
+                    },
+                  },
+                },
+              },
+              0,
+            ],
+          },
+        },
+      },
+      {
+        $project: {
+          providerId: 1,
+          everDisputed: 1,
+          providerCancelled: 1,
+          completed: { $in: ["$status", COMPLETED_STATUSES] },
+          active: { $in: ["$status", ACTIVE_STATUSES] },
+          finished: { $in: ["$status", FINISHED_STATUSES] },
+        },
+      },
+      {
+        $group: {
+          _id: "$providerId",
+          totalBookings: { $sum: 1 },
+          completedBookings: { $sum: { $cond: ["$completed", 1, 0] } },
+          cleanCompletions: {
+            $sum: {
+              $cond: [{ $and: ["$completed", { $not: ["$everDisputed"] }] }, 1, 0],
+            },
+          },
+          disputedBookings: { $sum: { $cond: ["$everDisputed", 1, 0] } },
+          cancelledByProvider: {
+            $sum: { $cond: ["$providerCancelled", 1, 0] },
+          },
+          activeBookings: { $sum: { $cond: ["$active", 1, 0] } },
+          finishedBookings: { $sum: { $cond: ["$finished", 1, 0] } },
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Average time from REQUESTED to the provider's answer
+   */
+  private async aggregateResponses(
+    match: Record<string, any>
+  ): Promise<ResponseCounts[]> {
+    return TaskModelInstance.aggregate<ResponseCounts>([
+      { $match: { "requestResponses.0": { $exists: true } } },
+      { $unwind: "$requestResponses" },
+      { $replaceRoot: { newRoot: "$requestResponses" } },
+      { $match: match },
+      {
+        $group: {
+          _id: "$providerId",
+          respondedRequests: { $sum: 1 },
+          avgResponseMs: {
+            $avg: { $subtract: ["$respondedAt", "$requestedAt"] },
+          },
+        },
+      },
+    ]);
+  }
+
+  private buildStats(
+    bookings?: BookingCounts,
+    responses?: ResponseCounts
+  ): ProviderPerformanceStats {
+    return {
+      totalBookings: bookings?.totalBookings ?? 0,
+      completedBookings: bookings?.completedBookings ?? 0,
+      cleanCompletions: bookings?.cleanCompletions ?? 0,
+      disputedBookings: bookings?.disputedBookings ?? 0,
+      cancelledByProvider: bookings?.cancelledByProvider ?? 0,
+      activeBookings: bookings?.activeBookings ?? 0,
+      completionRate: ratio(
+        bookings?.cleanCompletions ?? 0,
+        bookings?.finishedBookings ?? 0
+      ),
+      cancellationRate: ratio(
+        bookings?.cancelledByProvider ?? 0,
+        bookings?.totalBookings ?? 0
+      ),
+      respondedRequests: responses?.respondedRequests ?? 0,
+      avgResponseMinutes: responses
+        ? Math.round(responses.avgResponseMs / 60000)
+        : undefined,
+      computedAt: new Date(),
+    };
+  }
+
+  /**
+   * Recompute stats for the given providers, or for every provider
+   * with booking or request history when none are given
+   */
+  async refreshStats(
+    providerIds?: Array<string | Types.ObjectId>
+  ): Promise<number> {
+    const ids = providerIds?.map((id) => new Types.ObjectId(id.toString()));
+    const match = ids ? { providerId: { $in: ids } } : {};
+
+    const [bookingCounts, responseCounts] = await Promise.all([
+      this.aggregateBookings(match),
+      this.aggregateResponses(match),
+    ]);
+
+    const bookingsByProvider = new Map(
+      bookingCounts.map((c) => [c._id?.toString(), c])
+    );
+    const responsesByProvider = new Map(
+      responseCounts.map((c) => [c._id?.toString(), c])
+    );
+
+    const targetIds = new Set<string>(
+      ids?.map((id) => id.toString()) ?? [
+        ...bookingsByProvider.keys(),
+        ...responsesByProvider.keys(),
+      ]
+    );
+    targetIds.delete("undefined");
+
+    if (targetIds.size === 0) {
+      return 0;
+    }
+
+    const result = await ProviderModel.bulkWrite(
+      Array.from(targetIds).map((id) => ({
+        updateOne: {
+          filter: { _id: new Types.ObjectId(id) },
+          update: {
+            $set: {
+              performanceStats: this.buildStats(
+                bookingsByProvider.get(id),
+                responsesByProvider.get(id)
+              ),
+            },
+          },
+        },
+      }))
+    );
+
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const providerPerformanceService = new ProviderPerformanceService();
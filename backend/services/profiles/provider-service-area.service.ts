@@ -0,0 +1,477 @@
+// services/profiles/provider-service-area.service.ts
+// Provider service areas: which locations a provider covers, and at what travel fee
+
+import { Types } from "mongoose";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import { ServiceModel } from "../../models/service.model";
+import { toGeoPoint } from "../../models/shared-schemas/location.schema";
+import { UserLocation } from "../../types/base.types";
+import {
+  GeoPolygon,
+  ServiceArea,
+  ServiceAreaMatch,
+  ServiceAreaRequestBody,
+  ServiceAreaType,
+} from "../../types/service-area.types";
+import {
+  buildGeoNearStage,
+  GEO_DISTANCE_FIELD,
+  haversineKm,
+  isPointInPolygon,
+  metersToKm,
+} from "../../utils/geo.utils";
+
+// Largest radius a provider may declare around their base
+export const MAX_SERVICE_AREA_RADIUS_KM = Number(
+  process.env.MAX_SERVICE_AREA_RADIUS_KM || 100
+);
+
+// Farthest a search reaches from the location, whatever radius is asked for
+export const MAX_SEARCH_RADIUS_KM = Number(
+  process.env.MAX_SEARCH_RADIUS_KM || 200
+);
+
+const MAX_SERVICE_AREAS = 20;
+
+const sameName = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Query pattern matching a region, city or district name whatever its
+ * case or surrounding whitespace
+ */
+export const namePattern = (name: string): RegExp =>
+  new RegExp(
+    `^\\s*${name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`,
+    "i"
+  );
+
+export class ProviderServiceAreaService {
+  // ── Coverage ────────────────────────────────────────────────────────────
+
+  /**
+   * Whether a single area covers the location.
+   * `distanceKm` is the distance from the provider's base location.
+   */
+  private areaCovers(
+    area: ServiceArea,
+    location: Partial<UserLocation>,
+    distanceKm?: number
+  ): boolean {
+    if (area.isActive === false) return false;
+
+    switch (area.type) {
+      case ServiceAreaType.RADIUS:
+        return (
+          distanceKm !== undefined &&
+          area.radiusKm !== undefined &&
+          distanceKm <= area.radiusKm
+        );
+
+      case ServiceAreaType.NAMED:
+        return (
+          !!area.regions?.some((r) => sameName(r, location.region)) ||
+          !!area.cities?.some((c) => sameName(c, location.city)) ||
+          !!area.districts?.some((d) => sameName(d, location.district))
+        );
+
+      case ServiceAreaType.POLYGON:
+        return (
+          !!location.gpsCoordinates &&
+          !!area.polygon &&
+          isPointInPolygon(location.gpsCoordinates, area.polygon.coordinates)
+        );
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Cheapest declared area covering the location, if any
+   */
+  findCoveringArea(
+    provider: { locationData?: UserLocation; serviceAreas?: ServiceArea[] },
+    location: Partial<UserLocation>,
+    distanceKm?: number
+  ): ServiceAreaMatch | null {
+    const baseCoordinates = provider.locationData?.gpsCoordinates;
+    const distance =
+      distanceKm ??
+      (baseCoordinates && location.gpsCoordinates
+        ? haversineKm(baseCoordinates, location.gpsCoordinates)
+        : undefined);
+
+    const covering = (provider.serviceAreas || [])
+      .filter((area) => this.areaCovers(area, location, distance))
+      .sort((a, b) => (a.travelFee || 0) - (b.travelFee || 0));
+
+    if (covering.length === 0) return null;
+
+    return {
+      areaId: covering[0]._id,
+      name: covering[0].name,
+      type: covering[0].type,
+      travelFee: covering[0].travelFee || 0,
+    };
+  }
+
+  /**
+   * Providers whose base is within `baseRadiusKm` of the location, or whose
+   * declared service areas cover it. Each provider gets `distanceKm` (from
+   * base, when measurable) and `serviceArea` (the covering area, if any).
+   * Without GPS coordinates, falls back to matching locality/city/region names.
+   * Searches reach at most MAX_SEARCH_RADIUS_KM from the location.
+   */
+  async findProvidersCovering(
+    location: Partial<UserLocation>,
+    baseRadiusKm?: number,
+    filter: Record<string, any> = {}
+  ): Promise<any[]> {
+    const query = { ...filter, isDeleted: { $ne: true } };
+    const radiusKm = Math.min(
+      baseRadiusKm ?? MAX_SEARCH_RADIUS_KM,
+      MAX_SEARCH_RADIUS_KM
+    );
+    const found = new Map<string, any>();
+
+    const namedConditions = [
+      location.region && { regions: namePattern(location.region) },
+      location.city && { cities: namePattern(location.city) },
+      location.district && { districts: namePattern(location.district) },
+    ].filter(Boolean);
+
+    const baseConditions = [
+      location.locality && {
+        "locationData.locality": namePattern(location.locality),
+      },
+      location.city && { "locationData.city": namePattern(location.city) },
+      location.region && {
+        "locationData.region": namePattern(location.region),
+      },
+    ].filter(Boolean) as Record<string, any>[];
+
+    const lookups: Promise<any[]>[] = [];
+
+    if (location.gpsCoordinates) {
+      // Base location within range, or within a declared radius
+      lookups.push(
+        ProviderModel.aggregate([
+          buildGeoNearStage({
+            near: location.gpsCoordinates,
+            key: "locationData.geoPoint",
+            maxDistanceKm: Math.max(radiusKm, MAX_SERVICE_AREA_RADIUS_KM),
+            query,
+          }),
+        ])
+      );
+
+      // Declared polygons containing the location
+      lookups.push(
+        ProviderModel.find({
+          ...query,
+          "serviceAreas.polygon": {
+            $geoIntersects: { $geometry: toGeoPoint(location.gpsCoordinates) },
+          },
+        }).lean()
+      );
+    } else if (baseConditions.length > 0) {
+      lookups.push(
+        ProviderModel.find({
+          $and: [query, { $or: baseConditions }],
+        }).lean()
+      );
+    }
+
+    // Declared regions / cities / districts
+    if (namedConditions.length > 0) {
+      lookups.push(
+        ProviderModel.find({
+          $and: [query],
+          serviceAreas: {
+            $elemMatch: {
+              type: ServiceAreaType.NAMED,
+              isActive: true,
+              $or: namedConditions,
+            },
+          },
+        }).lean()
+      );
+    }
+
+    for (const providers of await Promise.all(lookups)) {
+      for (const provider of providers) {
+        const id = provider._id.toString();
+        if (found.has(id)) continue;
+
+        const measured = provider[GEO_DISTANCE_FIELD];
+        const baseCoordinates = provider.locationData?.gpsCoordinates;
+        const distanceKm =
+          typeof measured === "number"
+            ? metersToKm(measured)
+            : baseCoordinates && location.gpsCoordinates
+              ? haversineKm(baseCoordinates, location.gpsCoordinates)
+              : undefined;
+
+        const serviceArea = this.findCoveringArea(
+          provider,
+          location,
+          distanceKm
+        );
+
+        const withinBase =
+          distanceKm === undefined
+            ? !location.gpsCoordinates
+            : distanceKm <= radiusKm;
+
+        if (!withinBase && !serviceArea) continue;
+
+        found.set(id, { ...provider, distanceKm, serviceArea });
+      }
+    }
+
+    return Array.from(found.values()).sort(
+      (a, b) =>
+        (a.distanceKm ?? Number.MAX_VALUE) - (b.distanceKm ?? Number.MAX_VALUE)
+    );
+  }
+
+  /**
+   * Travel fee for a booking at this location.
+   * Zero unless the service charges travel and a declared area covers it.
+   */
+  async getTravelFee(
+    providerId: string | Types.ObjectId,
+    serviceId: string | Types.ObjectId,
+    location: UserLocation
+  ): Promise<number> {
+    const service = await ServiceModel.findById(serviceId)
+      .select("servicePricing.includeTravelFee")
+      .lean();
+
+    if (!service?.servicePricing?.includeTravelFee) {
+      return 0;
+    }
+
+    const provider = await ProviderModel.findById(providerId)
+      .select("locationData serviceAreas")
+      .lean();
+
+    if (!provider) {
+      return 0;
+    }
+
+    return this.findCoveringArea(provider, location)?.travelFee ?? 0;
+  }
+
+  // ── Managing areas ──────────────────────────────────────────────────────
+
+  private validatePolygon(polygon?: GeoPolygon) {
+    if (polygon?.type !== "Polygon" || !Array.isArray(polygon.coordinates)) {
+      throw new Error("Invalid service area polygon: expected a GeoJSON Polygon");
+    }
+
+    for (const ring of polygon.coordinates) {
+      if (!Array.isArray(ring) || ring.length < 4) {
+        throw new Error(
+          "Invalid service area polygon: each ring needs at least 4 positions"
+        );
+      }
+
+      for (const position of ring) {
+        const [lng, lat] = position || [];
+        if (
+          typeof lng !== "number" ||
+          typeof lat !== "number" ||
+          lng < -180 ||
+          lng > 180 ||
+          lat < -90 ||
+          lat > 90
+        ) {
+          throw new Error(
+            "Invalid service area polygon: positions must be [longitude, latitude]"
+          );
+        }
+      }
+
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        throw new Error(
+          "Invalid service area polygon: rings must be closed (first position = last)"
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate and normalize a request body into a service area
+   */
+  private buildArea(data: ServiceAreaRequestBody): ServiceArea {
+    if (!data.name?.trim()) {
+      throw new Error("Invalid service area: name is required");
+    }
+
+    if (!Object.values(ServiceAreaType).includes(data.type)) {
+      throw new Error(
+        `Invalid service area type. Must be one of: ${Object.values(
+          ServiceAreaType
+        ).join(", ")}`
+      );
+    }
+
+    const travelFee = data.travelFee ?? 0;
+    if (typeof travelFee !== "number" || travelFee < 0) {
+      throw new Error("Invalid service area: travelFee must be 0 or more");
+    }
+
+    const area: ServiceArea = {
+      name: data.name.trim(),
+      type: data.type,
+      travelFee,
+      isActive: data.isActive ?? true,
+    };
+
+    switch (data.type) {
+      case ServiceAreaType.RADIUS:
+        if (
+          typeof data.radiusKm !== "number" ||
+          data.radiusKm <= 0 ||
+          data.radiusKm > MAX_SERVICE_AREA_RADIUS_KM
+        ) {
+          throw new Error(
+            `Invalid service area: radiusKm must be between 0 and ${MAX_SERVICE_AREA_RADIUS_KM}`
+          );
+        }
+        area.radiusKm = data.radiusKm;
+        break;
+
+      case ServiceAreaType.NAMED: {
+        const clean = (names?: string[]) =>
+          Array.isArray(names)
+            ? names.map((n) => String(n).trim()).filter(Boolean)
+            : undefined;
+
+        area.regions = clean(data.regions);
+        area.cities = clean(data.cities);
+        area.districts = clean(data.districts);
+
+        if (
+          !area.regions?.length &&
+          !area.cities?.length &&
+          !area.districts?.length
+        ) {
+          throw new Error(
+            "Invalid service area: named areas need at least one region, city or district"
+          );
+        }
+        break;
+      }
+
+      case ServiceAreaType.POLYGON:
+        this.validatePolygon(data.polygon);
+        area.polygon = {
+          type: "Polygon",
+          coordinates: data.polygon!.coordinates,
+        };
+        break;
+    }
+
+    return area;
+  }
+
+  private async getProviderDocument(providerId: string | Types.ObjectId) {
+    const provider = await ProviderModel.findOne({
+      _id: providerId,
+      isDeleted: { $ne: true },
+    });
+
+    if (!provider) {
+      throw new Error("Provider not found");
+    }
+
+    return provider;
+  }
+
+  async getServiceAreas(providerId: string | Types.ObjectId) {
+    const provider = await ProviderModel.findOne({
+      _id: providerId,
+      isDeleted: { $ne: true },
+    })
+      .select("serviceAreas")
+      .lean();
+
+    if (!provider) {
+      throw new Error("Provider not found");
+    }
+
+    return provider.serviceAreas || [];
+  }
+
+  async addServiceArea(
+    providerId: string | Types.ObjectId,
+    data: ServiceAreaRequestBody
+  ) {
+    const area = this.buildArea(data);
+    const provider = await this.getProviderDocument(providerId);
+
+    if (!provider.serviceAreas) {
+      provider.serviceAreas = [];
+    }
+
+    if (provider.serviceAreas.length >= MAX_SERVICE_AREAS) {
+      throw new Error(
+        `Invalid service area: a provider can declare at most ${MAX_SERVICE_AREAS} areas`
+      );
+    }
+
+    provider.serviceAreas.push(area);
+    await provider.save();
+    return provider.serviceAreas;
+  }
+
+  async updateServiceArea(
+    providerId: string | Types.ObjectId,
+    areaId: string,
+    data: ServiceAreaRequestBody
+  ) {
+    const area = this.buildArea(data);
+    const provider = await this.getProviderDocument(providerId);
+
+    const index = (provider.serviceAreas || []).findIndex(
+      (a) => a._id?.toString() === areaId
+    );
+
+    if (index === -1) {
+      throw new Error("Service area not found");
+    }
+
+    provider.serviceAreas![index] = {
+      ...area,
+      _id: provider.serviceAreas![index]._id,
+    };
+    await provider.save();
+    return provider.serviceAreas;
+  }
+
+  async removeServiceArea(
+    providerId: string | Types.ObjectId,
+    areaId: string
+  ) {
+    const provider = await this.getProviderDocument(providerId);
+
+    const before = provider.serviceAreas?.length || 0;
+    provider.serviceAreas = (provider.serviceAreas || []).filter(
+      (a) => a._id?.toString() !== areaId
+    );
+
+    if (provider.serviceAreas.length === before) {
+      throw new Error("Service area not found");
+    }
+
+    await provider.save();
+    return provider.serviceAreas;
+  }
+}
+
+// Export singleton instance
+export const providerServiceAreaService = new ProviderServiceAreaService();
@@ -3,16 +3,40 @@ import { Types, PopulateOptions, Query } from "mongoose";
 import { ProviderModel } from "../../models/profiles/provider.model";
 import ProfileModel from "../../models/profiles/userProfile.model";
 import { ServiceModel } from "../../models/service.model";
-import { Coordinates, UserLocation } from "../../types/base.types";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { Coordinates, idType, UserLocation } from "../../types/base.types";
 import {
   ProviderProfile,
   CreateProviderProfileRequestBody,
   UpdateProviderProfileRequestBody,
   PopulationLevel,
+  ProviderApprovalStatus,
 } from "../../types/profiles/providerProfile.types";
+import { UpdateNotificationPreferencesRequestBody } from "../../types/notification.types";
+import { ServiceAreaType } from "../../types/service-area.types";
 import { ImageLinkingService } from "../../utils/controller-utils/ImageLinkingService";
+import {
+  buildGeoNearStage,
+  GEO_DISTANCE_FIELD,
+  metersToKm,
+} from "../../utils/geo.utils";
+import {
+  isValidIdType,
+  normalizeIdDetails,
+  normalizeIdNumber,
+} from "../../utils/id-document.utils";
+import { auditLogService } from "../audit/audit-log.service";
 import { MongoDBFileService } from "../files/mongodb.files.service";
 import { osmLocationService } from "./openstreetmap.location.service";
+import { listableProviderFilter } from "./provider-approval.service";
+import {
+  namePattern,
+  providerServiceAreaService,
+} from "./provider-service-area.service";
 
 interface NearestProviderResult {
   provider: ProviderProfile;
@@ -20,6 +44,11 @@ interface NearestProviderResult {
   distanceFormatted: string;
 }
 
+// Set only through the approval service
+type AdminControlledFields = Partial<
+  Pick<ProviderProfile, "approval" | "suspension">
+>;
+
 interface FindNearestProvidersOptions {
   maxDistance?: number;
   limit?: number;
@@ -124,7 +153,7 @@ export class ProviderProfileService {
           },
           {
             path: "IdDetails.fileImage",
-            select: "url fileName uploadedAt",
+            select: "url fileName uploadedAt visibility status",
           },
         ];
 
@@ -250,6 +279,13 @@ export class ProviderProfileService {
 
   // ── Image linking helpers ────────────────────────────────────────────────
 
+  /**
+   * A verified ID stays verified only while its images are unchanged
+   */
+  private revokeIdVerification(provider: Pick<ProviderProfile, "IdDetails">) {
+    if (provider.IdDetails) provider.IdDetails.verifiedAt = undefined;
+  }
+
   /**
    * Link orphaned ID images (uploaded before profile was created) to the provider.
    */
@@ -274,6 +310,11 @@ export class ProviderProfileService {
         userId
       );
 
+      // Uploaded under the user's ID; file them under the provider
+      await this.fileService.bulkUpdateFiles(fileIds, {
+        entityId: new Types.ObjectId(providerId),
+      });
+
       return fileIds;
     } catch (error) {
       console.error("Error linking orphaned ID images:", error);
@@ -305,6 +346,11 @@ export class ProviderProfileService {
         userId
       );
 
+      // Uploaded under the user's ID; file them under the provider
+      await this.fileService.bulkUpdateFiles(fileIds, {
+        entityId: new Types.ObjectId(providerId),
+      });
+
       return fileIds;
     } catch (error) {
       console.error("Error linking orphaned gallery images:", error);
@@ -383,20 +429,25 @@ export class ProviderProfileService {
         }
       }
 
+      // Approval is decided by admins, never by the request
+      const { approval, suspension, ...profileData } =
+        data as CreateProviderProfileRequestBody & AdminControlledFields;
+
       // Create profile — images are linked separately after save
       const providerProfile = new ProviderModel({
-        ...data,
+        ...profileData,
         profile: userProfile._id,
+        approval: {
+          status: ProviderApprovalStatus.PENDING,
+          submittedAt: new Date(),
+        },
         // Start with empty arrays; images and services are added through
         // their respective dedicated flows
         serviceOfferings: data.serviceOfferings ?? [],
         BusinessGalleryImages: [],
+        // Normalized so duplicate checks find the same document
         IdDetails: data.IdDetails
-          ? {
-              idType: data.IdDetails.idType,
-              idNumber: data.IdDetails.idNumber,
-              fileImage: [],
-            }
+          ? { ...normalizeIdDetails(data.IdDetails), fileImage: [] }
           : undefined,
       });
 
@@ -434,7 +485,8 @@ export class ProviderProfileService {
   async updateProviderProfile(
     providerId: string,
     data: UpdateProviderProfileRequestBody,
-    updatedBy?: string
+    updatedBy?: string,
+    audit?: AuditContext
   ): Promise<ProviderProfile> {
     try {
       const provider = await ProviderModel.findOne({
@@ -444,6 +496,8 @@ export class ProviderProfileService {
 
       if (!provider) throw new Error("Provider profile not found");
 
+      const before = auditLogService.snapshot(provider);
+
       // Re-enrich location if GPS data changed
       if (data.locationData) {
         const needsEnrichment =
@@ -493,12 +547,33 @@ export class ProviderProfileService {
         }
       }
 
-      // Images have dedicated update methods — never update them here
-      const { BusinessGalleryImages, IdDetails, ...updateData } = data;
+      // Images have dedicated update methods and approval is decided by
+      // admins — never update them here
+      const {
+        BusinessGalleryImages,
+        IdDetails,
+        approval,
+        suspension,
+        ...updateData
+      } = data as UpdateProviderProfileRequestBody & AdminControlledFields;
 
       Object.assign(provider, updateData);
       await provider.save();
 
+      // A moved business location is the change worth finding later
+      const locationChanged =
+        auditLogService.diff(before, provider, ["locationData"]).length > 0;
+
+      await auditLogService.record(audit, {
+        action: locationChanged
+          ? AuditAction.LOCATION_UPDATED
+          : AuditAction.PROVIDER_UPDATED,
+        entityType: AuditEntityType.PROVIDER_PROFILE,
+        entityId: provider._id,
+        before,
+        after: provider,
+      });
+
       return provider;
     } catch (error) {
       console.error("Error updating provider profile:", error);
@@ -649,6 +724,7 @@ export class ProviderProfileService {
       const existingIds = provider.IdDetails.fileImage ?? [];
       provider.IdDetails.fileImage = [...existingIds, ...newIdImageIds];
 
+      this.revokeIdVerification(provider);
       await provider.save();
       return provider;
     } catch (error) {
@@ -688,6 +764,7 @@ export class ProviderProfileService {
         provider.IdDetails.fileImage = newIdImageIds;
       }
 
+      this.revokeIdVerification(provider);
       await provider.save();
       return provider;
     } catch (error) {
@@ -714,6 +791,7 @@ export class ProviderProfileService {
         (id) => id.toString() !== imageId
       );
 
+      this.revokeIdVerification(provider);
       await provider.save();
       await this.fileService.archiveFile(imageId);
 
@@ -731,9 +809,17 @@ export class ProviderProfileService {
       idType: string;
       idNumber: string;
       replaceImages?: boolean;
-    }
+    },
+    audit?: AuditContext
   ): Promise<ProviderProfile> {
     try {
+      if (!isValidIdType(idDetails.idType)) {
+        throw new Error(
+          `Invalid ID type. Must be one of: ${Object.values(idType).join(", ")}`
+        );
+      }
+      const idNumber = normalizeIdNumber(idDetails.idType, idDetails.idNumber);
+
       const provider = await ProviderModel.findOne({
         _id: new Types.ObjectId(providerId),
         isDeleted: false,
@@ -741,6 +827,8 @@ export class ProviderProfileService {
 
       if (!provider) throw new Error("Provider profile not found");
 
+      const before = auditLogService.snapshot(provider);
+
       let imageIds: Types.ObjectId[] = [];
 
       if (idDetails.replaceImages) {
@@ -758,13 +846,30 @@ export class ProviderProfileService {
         imageIds = provider.IdDetails?.fileImage ?? [];
       }
 
+      // A verified ID stays verified only while it is unchanged
+      const unchanged =
+        !idDetails.replaceImages &&
+        provider.IdDetails?.idType === idDetails.idType &&
+        provider.IdDetails?.idNumber === idNumber;
+
       provider.IdDetails = {
-        idType: idDetails.idType as any,
-        idNumber: idDetails.idNumber,
+        idType: idDetails.idType,
+        idNumber,
         fileImage: imageIds,
+        verifiedAt: unchanged ? provider.IdDetails?.verifiedAt : undefined,
       };
 
       await provider.save();
+
+      await auditLogService.record(audit, {
+        action: AuditAction.ID_DETAILS_UPDATED,
+        entityType: AuditEntityType.PROVIDER_PROFILE,
+        entityId: provider._id,
+        before,
+        after: provider,
+        fields: ["IdDetails"],
+      });
+
       return provider;
     } catch (error) {
       console.error("Error updating ID details:", error);
@@ -772,6 +877,41 @@ export class ProviderProfileService {
     }
   }
 
+  async updateNotificationPreferences(
+    providerId: string,
+    preferences: UpdateNotificationPreferencesRequestBody
+  ): Promise<ProviderProfile> {
+    try {
+      const provider = await ProviderModel.findOne({
+        _id: new Types.ObjectId(providerId),
+        isDeleted: false,
+      });
+
+      if (!provider) throw new Error("Provider profile not found");
+
+      provider.notificationPreferences = {
+        emailNotifications:
+          preferences.emailNotifications ??
+          provider.notificationPreferences?.emailNotifications ??
+          true,
+        smsNotifications:
+          preferences.smsNotifications ??
+          provider.notificationPreferences?.smsNotifications ??
+          true,
+        pushNotifications:
+          preferences.pushNotifications ??
+          provider.notificationPreferences?.pushNotifications ??
+          true,
+      };
+
+      await provider.save();
+      return provider;
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      throw error;
+    }
+  }
+
   // ── Location-based queries ───────────────────────────────────────────────
 
   async findNearestProviders(
@@ -787,41 +927,58 @@ export class ProviderProfileService {
         populationLevel = PopulationLevel.STANDARD,
       } = options;
 
-      const query: any = {
-        isDeleted: false,
-        "locationData.gpsCoordinates": { $exists: true },
-      };
-
-      if (serviceId) query.serviceOfferings = new Types.ObjectId(serviceId);
-
-      let providerQuery = ProviderModel.find(query);
-      providerQuery = this.applyPopulation(providerQuery, populationLevel);
+      const query: any = { isDeleted: false, ...listableProviderFilter() };
+      const offeringFilters: any[] = [];
 
-      let providers = (await providerQuery.lean()) as ProviderProfile[];
+      if (serviceId) {
+        offeringFilters.push({ serviceOfferings: new Types.ObjectId(serviceId) });
+      }
 
       if (categoryId) {
-        providers = providers.filter((p) =>
-          p?.serviceOfferings?.some(
-            (s: any) => s.categoryId?.toString() === categoryId
-          )
-        );
+        const categoryServiceIds = await ServiceModel.find({
+          categoryId: new Types.ObjectId(categoryId),
+        }).distinct("_id");
+        offeringFilters.push({ serviceOfferings: { $in: categoryServiceIds } });
       }
 
-      return providers
-        .map((provider) => {
-          const distance = this.calculateDistance(
-            userLocation,
-            provider.locationData.gpsCoordinates!
-          );
+      if (offeringFilters.length) query.$and = offeringFilters;
+
+      // Nearest first, within range, using the 2dsphere index
+      const nearest = await ProviderModel.aggregate<{
+        _id: Types.ObjectId;
+        distanceMeters: number;
+      }>([
+        buildGeoNearStage({
+          near: userLocation,
+          key: "locationData.geoPoint",
+          maxDistanceKm: maxDistance,
+          query,
+        }),
+        { $limit: limit },
+        { $project: { [GEO_DISTANCE_FIELD]: 1 } },
+      ]);
+
+      if (nearest.length === 0) return [];
+
+      const providerQuery = this.applyPopulation(
+        ProviderModel.find({ _id: { $in: nearest.map((n) => n._id) } }),
+        populationLevel
+      );
+      const providers = (await providerQuery.lean()) as ProviderProfile[];
+      const providersById = new Map(
+        providers.map((p) => [p._id.toString(), p])
+      );
+
+      return nearest
+        .filter((n) => providersById.has(n._id.toString()))
+        .map((n) => {
+          const distance = metersToKm(n.distanceMeters);
           return {
-            provider,
+            provider: providersById.get(n._id.toString())!,
             distanceKm: distance,
             distanceFormatted: this.formatDistance(distance),
           };
-        })
-        .filter((p) => p.distanceKm <= maxDistance)
-        .sort((a, b) => a.distanceKm - b.distanceKm)
-        .slice(0, limit);
+        });
     } catch (error) {
       console.error("Error finding nearest providers:", error);
       throw new Error("Failed to find nearest providers");
@@ -907,9 +1064,43 @@ export class ProviderProfileService {
     try {
       const { populationLevel = PopulationLevel.STANDARD, ...restParams } = params;
 
-      const query: any = { isDeleted: false };
-      if (restParams.region) query["locationData.region"] = restParams.region;
-      if (restParams.city) query["locationData.city"] = restParams.city;
+      // Only approved providers who aren't suspended show up in search
+      const query: any = { isDeleted: false, ...listableProviderFilter() };
+      const conditions: Record<string, any>[] = [];
+
+      // Region / city match the base location or a declared named area
+      if (restParams.region) {
+        conditions.push({
+          $or: [
+            { "locationData.region": namePattern(restParams.region) },
+            {
+              serviceAreas: {
+                $elemMatch: {
+                  type: ServiceAreaType.NAMED,
+                  isActive: true,
+                  regions: namePattern(restParams.region),
+                },
+              },
+            },
+          ],
+        });
+      }
+      if (restParams.city) {
+        conditions.push({
+          $or: [
+            { "locationData.city": namePattern(restParams.city) },
+            {
+              serviceAreas: {
+                $elemMatch: {
+                  type: ServiceAreaType.NAMED,
+                  isActive: true,
+                  cities: namePattern(restParams.city),
+                },
+              },
+            },
+          ],
+        });
+      }
 
       if (restParams.serviceIds?.length) {
         query.serviceOfferings = {
@@ -917,54 +1108,68 @@ export class ProviderProfileService {
         };
       }
 
+      // Category is matched in the query so pages and totals agree
+      if (restParams.categoryId) {
+        const categoryServiceIds = await ServiceModel.find({
+          categoryId: new Types.ObjectId(restParams.categoryId),
+        }).distinct("_id");
+        conditions.push({
+          serviceOfferings: { $in: categoryServiceIds },
+        });
+      }
+
+      if (conditions.length) query.$and = conditions;
+
       if (restParams.isCompanyTrained !== undefined)
         query.isCompanyTrained = restParams.isCompanyTrained;
       if (restParams.requireInitialDeposit !== undefined)
         query.requireInitialDeposit = restParams.requireInitialDeposit;
 
-      const providerQuery = this.applyPopulation(
-        ProviderModel.find(query)
-          .skip(restParams.skip ?? 0)
-          .limit(restParams.limit ?? 20),
-        populationLevel
-      );
-
-      let providers = (await providerQuery.lean()) as ProviderProfile[];
-      const total = await ProviderModel.countDocuments(query);
+      // Near a point: providers within maxDistance of their base, or whose
+      // service areas cover the point - paginated nearest first
+      if (restParams.userLocation) {
+        const covering = await providerServiceAreaService.findProvidersCovering(
+          { gpsCoordinates: restParams.userLocation },
+          restParams.maxDistance,
+          query
+        );
 
-      // Post-filter by category (requires populated serviceOfferings)
-      if (restParams.categoryId) {
-        providers = providers.filter((p: any) =>
-          p?.serviceOfferings?.some(
-            (s: any) => s.categoryId?.toString() === restParams.categoryId
-          )
+        const skip = restParams.skip ?? 0;
+        const page = covering.slice(skip, skip + (restParams.limit ?? 20));
+        const order = new Map(
+          page.map((p: any, index: number) => [p._id.toString(), index])
         );
-      }
 
-      if (restParams.userLocation) {
-        type WithDistance = ProviderProfile & {
-          distance: number;
-          distanceFormatted: string;
-        };
+        const pageProviders = (await this.applyPopulation(
+          ProviderModel.find({ _id: { $in: page.map((p: any) => p._id) } }),
+          populationLevel
+        ).lean()) as ProviderProfile[];
 
-        const withDistance: WithDistance[] = providers
-          .filter((p: any) => p.locationData.gpsCoordinates)
+        const withDistance = pageProviders
           .map((p: any) => {
-            const distance = this.calculateDistance(
-              restParams.userLocation!,
-              p.locationData.gpsCoordinates!
-            );
-            return { ...p, distance, distanceFormatted: this.formatDistance(distance) };
+            const distance = page[order.get(p._id.toString())!].distanceKm;
+            return distance === undefined
+              ? p
+              : { ...p, distance, distanceFormatted: this.formatDistance(distance) };
           })
-          .filter(
-            (p: any) =>
-              !restParams.maxDistance || p.distance <= restParams.maxDistance
-          )
-          .sort((a: any, b: any) => a.distance - b.distance);
+          .sort(
+            (a: any, b: any) =>
+              order.get(a._id.toString())! - order.get(b._id.toString())!
+          );
 
-        return { providers: withDistance, total };
+        return { providers: withDistance, total: covering.length };
       }
 
+      const providerQuery = this.applyPopulation(
+        ProviderModel.find(query)
+          .skip(restParams.skip ?? 0)
+          .limit(restParams.limit ?? 20),
+        populationLevel
+      );
+
+      const providers = (await providerQuery.lean()) as ProviderProfile[];
+      const total = await ProviderModel.countDocuments(query);
+
       return { providers, total };
     } catch (error) {
       console.error("Error searching providers:", error);
@@ -976,7 +1181,8 @@ export class ProviderProfileService {
 
   async deleteProviderProfile(
     providerId: string,
-    deletedBy: string
+    deletedBy: string,
+    audit?: AuditContext
   ): Promise<void> {
     try {
       const provider = await ProviderModel.findById(providerId);
@@ -1000,14 +1206,27 @@ export class ProviderProfileService {
         }
       }
 
+      const before = auditLogService.snapshot(provider);
       await provider.softDelete(deletedBy);
+
+      await auditLogService.record(audit, {
+        action: AuditAction.PROVIDER_DELETED,
+        entityType: AuditEntityType.PROVIDER_PROFILE,
+        entityId: provider._id,
+        before,
+        after: provider,
+        fields: ["isDeleted", "deletedAt", "deletedBy"],
+      });
     } catch (error) {
       console.error("Error deleting provider profile:", error);
       throw error;
     }
   }
 
-  async restoreProviderProfile(providerId: string): Promise<void> {
+  async restoreProviderProfile(
+    providerId: string,
+    audit?: AuditContext
+  ): Promise<void> {
     try {
       const provider = await ProviderModel.findById(providerId);
       if (!provider) throw new Error("Provider profile not found");
@@ -1030,7 +1249,17 @@ export class ProviderProfileService {
         }
       }
 
+      const before = auditLogService.snapshot(provider);
       await provider.restore();
+
+      await auditLogService.record(audit, {
+        action: AuditAction.PROVIDER_RESTORED,
+        entityType: AuditEntityType.PROVIDER_PROFILE,
+        entityId: provider._id,
+        before,
+        after: provider,
+        fields: ["isDeleted", "deletedAt", "deletedBy"],
+      });
     } catch (error) {
       console.error("Error restoring provider profile:", error);
       throw error;
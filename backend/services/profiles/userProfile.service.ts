@@ -1,7 +1,14 @@
 // services/profiles/userProfile.service.ts
 import { Types } from "mongoose";
 import { ProfileModel } from "../../models/profiles/userProfile.model";
+import { auditLogService } from "../audit/audit-log.service";
 import { MongoDBFileService } from "../files/mongodb.files.service";
+import { phoneVerificationService } from "./phone-verification.service";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
 import {
   CreateProfileRequestBody,
   IUserProfile,
@@ -127,14 +134,18 @@ export class UserProfileService {
    */
   async updateProfile(
     userId: string,
-    updates: Partial<CreateProfileRequestBody>
+    updates: Partial<CreateProfileRequestBody>,
+    audit?: AuditContext
   ): Promise<IUserProfile | null> {
     try {
+      const filter = {
+        userId: new Types.ObjectId(userId),
+        isDeleted: false,
+      };
+      const before = await ProfileModel.findOne(filter).lean();
+
       const profile = await ProfileModel.findOneAndUpdate(
-        {
-          userId: new Types.ObjectId(userId),
-          isDeleted: false,
-        },
+        filter,
         {
           ...updates,
           lastModified: new Date(),
@@ -146,6 +157,21 @@ export class UserProfileService {
         throw new Error("Profile not found");
       }
 
+      await auditLogService.record(audit, {
+        action: AuditAction.USER_PROFILE_UPDATED,
+        entityType: AuditEntityType.USER_PROFILE,
+        entityId: profile._id,
+        before,
+        after: profile,
+      });
+
+      if (before?.mobileNumber !== profile.mobileNumber) {
+        await phoneVerificationService.syncClientPhoneCheck(
+          profile.userId.toString(),
+          audit
+        );
+      }
+
       return profile;
     } catch (error) {
       throw error;
@@ -157,18 +183,22 @@ export class UserProfileService {
    */
   async updateProfileById(
     profileId: string,
-    updates: Partial<CreateProfileRequestBody>
+    updates: Partial<CreateProfileRequestBody>,
+    audit?: AuditContext
   ): Promise<IUserProfile | null> {
     try {
       if (!Types.ObjectId.isValid(profileId)) {
         throw new Error("Invalid profile ID");
       }
 
+      const filter = {
+        _id: new Types.ObjectId(profileId),
+        isDeleted: false,
+      };
+      const before = await ProfileModel.findOne(filter).lean();
+
       const profile = await ProfileModel.findOneAndUpdate(
-        {
-          _id: new Types.ObjectId(profileId),
-          isDeleted: false,
-        },
+        filter,
         {
           ...updates,
           lastModified: new Date(),
@@ -180,6 +210,21 @@ export class UserProfileService {
         throw new Error("Profile not found");
       }
 
+      await auditLogService.record(audit, {
+        action: AuditAction.USER_PROFILE_UPDATED,
+        entityType: AuditEntityType.USER_PROFILE,
+        entityId: profile._id,
+        before,
+        after: profile,
+      });
+
+      if (before?.mobileNumber !== profile.mobileNumber) {
+        await phoneVerificationService.syncClientPhoneCheck(
+          profile.userId.toString(),
+          audit
+        );
+      }
+
       return profile;
     } catch (error) {
       throw error;
@@ -261,7 +306,10 @@ export class UserProfileService {
    * Permanently delete profile (hard delete)
    * WARNING: This action cannot be undone
    */
-  async permanentlyDeleteProfile(userId: string): Promise<boolean> {
+  async permanentlyDeleteProfile(
+    userId: string,
+    audit?: AuditContext
+  ): Promise<boolean> {
     try {
       const profile = await ProfileModel.findOne({
         userId: new Types.ObjectId(userId),
@@ -284,6 +332,13 @@ export class UserProfileService {
       // Permanently delete
       await ProfileModel.deleteOne({ _id: profile._id });
 
+      await auditLogService.record(audit, {
+        action: AuditAction.USER_PROFILE_PERMANENTLY_DELETED,
+        entityType: AuditEntityType.USER_PROFILE,
+        entityId: profile._id,
+        before: profile,
+      });
+
       return true;
     } catch (error) {
       throw error;
@@ -513,22 +568,47 @@ export class UserProfileService {
    */
   async bulkUpdateProfiles(
     userIds: string[],
-    updates: Partial<CreateProfileRequestBody>
+    updates: Partial<CreateProfileRequestBody>,
+    audit?: AuditContext
   ): Promise<{ modifiedCount: number }> {
     try {
       const objectIds = userIds.map((id) => new Types.ObjectId(id));
+      const filter = { userId: { $in: objectIds }, isDeleted: false };
 
-      const result = await ProfileModel.updateMany(
-        {
-          userId: { $in: objectIds },
-          isDeleted: false,
-        },
-        {
-          ...updates,
-          lastModified: new Date(),
-        }
+      const before = await ProfileModel.find(filter).lean();
+      const result = await ProfileModel.updateMany(filter, {
+        ...updates,
+        lastModified: new Date(),
+      });
+      const after = await ProfileModel.find({
+        _id: { $in: before.map((profile) => profile._id) },
+      }).lean();
+
+      await Promise.all(
+        before.map((previous) =>
+          auditLogService.record(audit, {
+            action: AuditAction.USER_PROFILE_UPDATED,
+            entityType: AuditEntityType.USER_PROFILE,
+            entityId: previous._id,
+            before: previous,
+            after: after.find((profile) => profile._id.equals(previous._id)),
+            metadata: { bulk: true },
+          })
+        )
       );
 
+      for (const previous of before) {
+        const current = after.find((profile) =>
+          profile._id.equals(previous._id)
+        );
+        if (current && current.mobileNumber !== previous.mobileNumber) {
+          await phoneVerificationService.syncClientPhoneCheck(
+            current.userId.toString(),
+            audit
+          );
+        }
+      }
+
       return { modifiedCount: result.modifiedCount };
     } catch (error) {
       throw error;
@@ -0,0 +1,114 @@
+// services/rate-limit/login-attempt.service.ts
+// Failed login tracking per account and per IP, with temporary lockout
+
+import { User } from "../../models/user.model";
+import { IUser } from "../../types/user.types";
+import { sendEmail } from "../../utils/sendEmail";
+import { getAccountLockedEmailTemplate } from "../../utils/useEmailTemplate";
+import {
+  RateLimitService,
+  rateLimitService,
+  secondsUntil,
+} from "./rate-limit.service";
+
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES || 5);
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_IP_FAILURES || 20);
+const FAILURE_WINDOW_MINUTES = 15;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+
+const accountKey = (email: string) =>
+  `login-fail:account:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `login-fail:ip:${ip}`;
+
+const tooManyAttempts = (code: string, retryAfter: number) => {
+  const error: any = new Error(code);
+  error.retryAfter = retryAfter;
+  return error;
+};
+
+export class LoginAttemptService {
+  private limiter: RateLimitService;
+
+  constructor(limiter: RateLimitService = rateLimitService) {
+    this.limiter = limiter;
+  }
+
+  /**
+   * Refuse the attempt outright if its IP has failed too often
+   * or the account is locked
+   */
+  async assertCanAttempt(
+    ip: string | undefined,
+    user?: Pick<IUser, "security"> | null
+  ): Promise<void> {
+    if (ip) {
+      const standing = await this.limiter.peek(ipKey(ip), MAX_IP_FAILURES);
+      if (standing && standing.count >= MAX_IP_FAILURES) {
+        throw tooManyAttempts("TOO_MANY_LOGIN_ATTEMPTS", standing.retryAfter);
+      }
+    }
+
+    const lockedUntil = user?.security?.lockedUntil;
+    if (lockedUntil && lockedUntil > new Date()) {
+      throw tooManyAttempts("ACCOUNT_LOCKED", secondsUntil(lockedUntil));
+    }
+  }
+
+  /**
+   * Count a wrong password. Locks the account once it reaches the limit
+   * and lets the owner know by email.
+   */
+  async recordFailure(
+    email: string,
+    ip: string | undefined,
+    user?: IUser | null
+  ): Promise<void> {
+    const [account] = await Promise.all([
+      this.limiter.hit(
+        accountKey(email),
+        FAILURE_WINDOW_MINUTES * 60 * 1000,
+        MAX_ACCOUNT_FAILURES
+      ),
+      ip
+        ? this.limiter.hit(
+            ipKey(ip),
+            FAILURE_WINDOW_MINUTES * 60 * 1000,
+            MAX_IP_FAILURES
+          )
+        : undefined,
+    ]);
+
+    if (!user || account.count < MAX_ACCOUNT_FAILURES) return;
+
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { "security.lockedUntil": lockedUntil } }
+    );
+    await this.limiter.reset(accountKey(email));
+
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: "Your Account Has Been Temporarily Locked",
+        text: `We locked your account for ${LOCKOUT_MINUTES} minutes after several failed sign-in attempts. If this wasn't you, reset your password.`,
+        html: getAccountLockedEmailTemplate(user.name, LOCKOUT_MINUTES),
+      });
+    } catch (emailError) {
+      console.error("Failed to send account locked email:", emailError);
+      // Don't throw - the lock still applies
+    }
+
+    throw tooManyAttempts("ACCOUNT_LOCKED", LOCKOUT_MINUTES * 60);
+  }
+
+  /**
+   * Forget earlier failures once the right password is given
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.limiter.reset(accountKey(email));
+  }
+}
+
+// Export singleton instance
+export const loginAttemptService = new LoginAttemptService();
@@ -0,0 +1,86 @@
+// services/rate-limit/rate-limit.service.ts
+// Fixed-window hit counting behind a pluggable store
+
+import {
+  RateLimitCounter,
+  RateLimitStore,
+} from "../../types/rate-limit.types";
+import {
+  MemoryRateLimitStore,
+  MEMORY_RATE_LIMIT_STORE,
+} from "./stores/memory.store";
+import { MongoRateLimitStore } from "./stores/mongo.store";
+
+export interface RateLimitResult extends RateLimitCounter {
+  limit: number;
+  remaining: number;
+  limited: boolean;
+  // Seconds until the window resets, for Retry-After
+  retryAfter: number;
+}
+
+export const secondsUntil = (date: Date) =>
+  Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+export class RateLimitService {
+  private stores = new Map<string, RateLimitStore>();
+  private defaultStore: string;
+
+  constructor(defaultStore: string = process.env.RATE_LIMIT_STORE || MEMORY_RATE_LIMIT_STORE) {
+    this.defaultStore = defaultStore;
+  }
+
+  // ── Stores ──────────────────────────────────────────────────────────────
+
+  registerStore(store: RateLimitStore): void {
+    this.stores.set(store.name, store);
+  }
+
+  getStore(name: string = this.defaultStore): RateLimitStore {
+    const store = this.stores.get(name);
+
+    if (!store) {
+      throw new Error(`Rate limit store not found: ${name}`);
+    }
+
+    return store;
+  }
+
+  // ── Counting ────────────────────────────────────────────────────────────
+
+  /**
+   * Record a hit against a key and report whether it is over the limit
+   */
+  async hit(key: string, windowMs: number, max: number): Promise<RateLimitResult> {
+    const counter = await this.getStore().increment(key, windowMs);
+    return this.toResult(counter, max);
+  }
+
+  /**
+   * Current standing of a key without recording a hit
+   */
+  async peek(key: string, max: number): Promise<RateLimitResult | null> {
+    const counter = await this.getStore().get(key);
+    return counter ? this.toResult(counter, max) : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.getStore().reset(key);
+  }
+
+  private toResult(counter: RateLimitCounter, max: number): RateLimitResult {
+    return {
+      ...counter,
+      limit: max,
+      remaining: Math.max(0, max - counter.count),
+      limited: counter.count > max,
+      retryAfter: secondsUntil(counter.resetAt),
+    };
+  }
+}
+
+// Export singleton instance with the built-in stores registered
+export const rateLimitService = new RateLimitService();
+
+rateLimitService.registerStore(new MemoryRateLimitStore());
+rateLimitService.registerStore(new MongoRateLimitStore());
@@ -0,0 +1,56 @@
+// services/rate-limit/stores/memory.store.ts
+// Per-process counters; fine for a single instance and for development
+
+import {
+  RateLimitCounter,
+  RateLimitStore,
+} from "../../../types/rate-limit.types";
+
+export const MEMORY_RATE_LIMIT_STORE = "memory";
+
+// How often finished windows are swept out
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = MEMORY_RATE_LIMIT_STORE;
+  private counters = new Map<string, RateLimitCounter>();
+  private sweeper?: NodeJS.Timeout;
+
+  private startSweeper() {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt.getTime() <= now) this.counters.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    this.startSweeper();
+
+    const now = Date.now();
+    const current = this.counters.get(key);
+
+    if (!current || current.resetAt.getTime() <= now) {
+      const counter = { count: 1, resetAt: new Date(now + windowMs) };
+      this.counters.set(key, counter);
+      return { ...counter };
+    }
+
+    current.count++;
+    return { ...current };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const current = this.counters.get(key);
+    if (!current || current.resetAt.getTime() <= Date.now()) return null;
+    return { ...current };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
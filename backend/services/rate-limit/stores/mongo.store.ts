@@ -0,0 +1,61 @@
+// services/rate-limit/stores/mongo.store.ts
+// Counters in MongoDB so limits hold across every instance
+
+import RateLimitModelInstance from "../../../models/rate-limit.model";
+import {
+  RateLimitCounter,
+  RateLimitStore,
+} from "../../../types/rate-limit.types";
+
+export const MONGO_RATE_LIMIT_STORE = "mongo";
+
+const DUPLICATE_KEY = 11000;
+
+export class MongoRateLimitStore implements RateLimitStore {
+  readonly name = MONGO_RATE_LIMIT_STORE;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = new Date();
+
+    // Count against the open window, if there is one
+    const open = await RateLimitModelInstance.findOneAndUpdate(
+      { _id: key, resetAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true }
+    ).lean();
+
+    if (open) {
+      return { count: open.count, resetAt: open.resetAt };
+    }
+
+    // Otherwise start a new one, replacing a finished window
+    try {
+      const started = await RateLimitModelInstance.findOneAndUpdate(
+        { _id: key, resetAt: { $lte: now } },
+        { $set: { count: 1, resetAt: new Date(now.getTime() + windowMs) } },
+        { new: true, upsert: true }
+      ).lean();
+
+      return { count: started!.count, resetAt: started!.resetAt };
+    } catch (error: any) {
+      // Another instance opened the window first
+      if (error?.code === DUPLICATE_KEY) {
+        return this.increment(key, windowMs);
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const entry = await RateLimitModelInstance.findOne({
+      _id: key,
+      resetAt: { $gt: new Date() },
+    }).lean();
+
+    return entry ? { count: entry.count, resetAt: entry.resetAt } : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimitModelInstance.deleteOne({ _id: key });
+  }
+}
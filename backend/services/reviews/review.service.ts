@@ -0,0 +1,396 @@
+// services/reviews/review.service.ts
+// Reviews on completed bookings, with denormalized rating stats
+
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
+import { ProviderModel } from "../../models/profiles/provider.model";
+import ReviewModelInstance from "../../models/review.model";
+import { ServiceModel } from "../../models/service.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { RatingStats, UserRole } from "../../types/base.types";
+import { BookingStatus } from "../../types/booking.types";
+import {
+  ReviewDirection,
+  ReviewListResponse,
+  ReviewStatus,
+} from "../../types/review.types";
+import { auditLogService } from "../audit/audit-log.service";
+
+// Bookings that can be reviewed
+const REVIEWABLE_STATUSES = [BookingStatus.VALIDATED, BookingStatus.COMPLETED];
+
+type StatsTarget = "providerId" | "serviceId" | "clientId";
+
+const emptyStats = (): RatingStats => ({
+  averageRating: 0,
+  totalReviews: 0,
+  distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+});
+
+export class ReviewService {
+  // ── Stats ───────────────────────────────────────────────────────────────
+
+  /**
+   * Aggregate published reviews into a star summary
+   */
+  async computeStats(
+    target: StatsTarget,
+    id: string | Types.ObjectId,
+    direction: ReviewDirection
+  ): Promise<RatingStats> {
+    const groups = await ReviewModelInstance.aggregate<{
+      _id: 1 | 2 | 3 | 4 | 5;
+      count: number;
+    }>([
+      {
+        $match: {
+          [target]: new Types.ObjectId(id.toString()),
+          direction,
+          status: ReviewStatus.PUBLISHED,
+        },
+      },
+      { $group: { _id: "$rating", count: { $sum: 1 } } },
+    ]);
+
+    const stats = emptyStats();
+    let ratingSum = 0;
+
+    for (const group of groups) {
+      stats.distribution[group._id] = group.count;
+      stats.totalReviews += group.count;
+      ratingSum += group._id * group.count;
+    }
+
+    stats.averageRating = stats.totalReviews
+      ? Math.round((ratingSum / stats.totalReviews) * 100) / 100
+      : 0;
+
+    return stats;
+  }
+
+  /**
+   * Refresh denormalized stats for everything a review touches
+   */
+  private async refreshStats(review: {
+    direction: ReviewDirection;
+    providerId: Types.ObjectId;
+    serviceId: Types.ObjectId;
+    clientId: Types.ObjectId;
+  }) {
+    if (review.direction === ReviewDirection.PROVIDER_TO_CLIENT) {
+      const clientStats = await this.computeStats(
+        "clientId",
+        review.clientId,
+        review.direction
+      );
+      await ClientModel.updateOne(
+        { _id: review.clientId },
+        { $set: { ratingStats: clientStats } }
+      );
+      return;
+    }
+
+    const [providerStats, serviceStats] = await Promise.all([
+      this.computeStats("providerId", review.providerId, review.direction),
+      this.computeStats("serviceId", review.serviceId, review.direction),
+    ]);
+
+    await Promise.all([
+      ProviderModel.updateOne(
+        { _id: review.providerId },
+        { $set: { ratingStats: providerStats } }
+      ),
+      ServiceModel.updateOne(
+        { _id: review.serviceId },
+        { $set: { ratingStats: serviceStats } }
+      ),
+    ]);
+  }
+
+  // ── Writing reviews ─────────────────────────────────────────────────────
+
+  /**
+   * Create a review for a booking.
+   * Customers review the provider/service; providers rate the client.
+   */
+  async createReview(
+    bookingId: string | Types.ObjectId,
+    reviewerRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    reviewerId: string | Types.ObjectId,
+    rating: number,
+    comment?: string
+  ) {
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const partyId =
+      reviewerRole === UserRole.CUSTOMER ? booking.clientId : booking.providerId;
+
+    if (partyId.toString() !== reviewerId.toString()) {
+      throw new Error("Only the customer or provider can review this booking");
+    }
+
+    if (!REVIEWABLE_STATUSES.includes(booking.status)) {
+      throw new Error(
+        `Only validated or completed bookings can be reviewed. Current status: ${booking.status}`
+      );
+    }
+
+    const direction =
+      reviewerRole === UserRole.CUSTOMER
+        ? ReviewDirection.CUSTOMER_TO_PROVIDER
+        : ReviewDirection.PROVIDER_TO_CLIENT;
+
+    const existing = await ReviewModelInstance.findOne({
+      bookingId: booking._id,
+      direction,
+    });
+
+    if (existing) {
+      throw new Error("You have already reviewed this booking");
+    }
+
+    const review = await ReviewModelInstance.create({
+      bookingId: booking._id,
+      taskId: booking.taskId,
+      direction,
+      reviewerId: new Types.ObjectId(reviewerId.toString()),
+      providerId: booking.providerId,
+      clientId: booking.clientId,
+      serviceId: booking.serviceId,
+      rating,
+      comment,
+      status: ReviewStatus.PUBLISHED,
+    });
+
+    // Keep the booking's own fields in step with the customer review
+    if (
+      direction === ReviewDirection.CUSTOMER_TO_PROVIDER &&
+      !booking.customerRating
+    ) {
+      booking.customerRating = rating;
+      booking.customerReview = comment;
+      await booking.save();
+    }
+
+    await this.refreshStats(review);
+    return review;
+  }
+
+  /**
+   * Turn the rating given at validation into a review (idempotent)
+   */
+  async createFromValidation(booking: {
+    _id?: Types.ObjectId;
+    taskId: any;
+    clientId: any;
+    providerId: any;
+    serviceId: any;
+    customerRating?: number;
+    customerReview?: string;
+  }) {
+    if (!booking.customerRating) {
+      return null;
+    }
+
+    const toId = (field: any): Types.ObjectId => field?._id ?? field;
+
+    const existing = await ReviewModelInstance.findOne({
+      bookingId: booking._id,
+      direction: ReviewDirection.CUSTOMER_TO_PROVIDER,
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const review = await ReviewModelInstance.create({
+      bookingId: booking._id,
+      taskId: toId(booking.taskId),
+      direction: ReviewDirection.CUSTOMER_TO_PROVIDER,
+      reviewerId: toId(booking.clientId),
+      providerId: toId(booking.providerId),
+      clientId: toId(booking.clientId),
+      serviceId: toId(booking.serviceId),
+      rating: booking.customerRating,
+      comment: booking.customerReview,
+      status: ReviewStatus.PUBLISHED,
+    });
+
+    await this.refreshStats(review);
+    return review;
+  }
+
+  /**
+   * Provider posts their one public response
+   */
+  async respondToReview(
+    reviewId: string | Types.ObjectId,
+    providerId: string | Types.ObjectId,
+    message: string
+  ) {
+    const review = await ReviewModelInstance.findById(reviewId);
+
+    if (!review || review.status === ReviewStatus.REMOVED) {
+      throw new Error("Review not found");
+    }
+
+    if (review.direction !== ReviewDirection.CUSTOMER_TO_PROVIDER) {
+      throw new Error("Only reviews of providers can receive a response");
+    }
+
+    if (review.providerId.toString() !== providerId.toString()) {
+      throw new Error("Only the reviewed provider can respond to this review");
+    }
+
+    if (review.providerResponse) {
+      throw new Error("You have already responded to this review");
+    }
+
+    review.providerResponse = {
+      message,
+      respondedAt: new Date(),
+      respondedBy: new Types.ObjectId(providerId.toString()),
+    };
+    await review.save();
+
+    return review;
+  }
+
+  // ── Moderation ──────────────────────────────────────────────────────────
+
+  async moderateReview(
+    reviewId: string | Types.ObjectId,
+    adminId: string | Types.ObjectId,
+    status: ReviewStatus,
+    reason?: string,
+    audit?: AuditContext
+  ) {
+    const review = await ReviewModelInstance.findById(reviewId);
+
+    if (!review) {
+      throw new Error("Review not found");
+    }
+
+    const before = auditLogService.snapshot(review);
+    review.status = status;
+    review.moderation = {
+      moderatedBy: new Types.ObjectId(adminId.toString()),
+      moderatedAt: new Date(),
+      reason,
+    };
+    await review.save();
+
+    await auditLogService.record(audit, {
+      action: AuditAction.REVIEW_MODERATED,
+      entityType: AuditEntityType.REVIEW,
+      entityId: review._id,
+      before,
+      after: review,
+      fields: ["status", "moderation"],
+    });
+
+    await this.refreshStats(review);
+    return review;
+  }
+
+  async listForModeration(filters: {
+    status?: ReviewStatus;
+    direction?: ReviewDirection;
+    maxRating?: number;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const query: any = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.direction) query.direction = filters.direction;
+    if (filters.maxRating) query.rating = { $lte: filters.maxRating };
+
+    const [reviews, total] = await Promise.all([
+      ReviewModelInstance.find(query)
+        .populate("providerId", "businessName")
+        .populate("serviceId", "title")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ReviewModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // ── Public listings ─────────────────────────────────────────────────────
+
+  private async listPublished(
+    target: "providerId" | "serviceId",
+    id: string | Types.ObjectId,
+    page: number,
+    limit: number
+  ): Promise<ReviewListResponse> {
+    const query = {
+      [target]: new Types.ObjectId(id.toString()),
+      direction: ReviewDirection.CUSTOMER_TO_PROVIDER,
+      status: ReviewStatus.PUBLISHED,
+    };
+
+    const [reviews, total, summary] = await Promise.all([
+      ReviewModelInstance.find(query)
+        .select("-moderation -reviewerId -clientId")
+        .populate("serviceId", "title slug")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ReviewModelInstance.countDocuments(query),
+      this.computeStats(target, id, ReviewDirection.CUSTOMER_TO_PROVIDER),
+    ]);
+
+    return {
+      reviews,
+      summary,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getProviderReviews(
+    providerId: string | Types.ObjectId,
+    page: number = 1,
+    limit: number = 10
+  ) {
+    return this.listPublished("providerId", providerId, page, limit);
+  }
+
+  async getServiceReviews(
+    serviceId: string | Types.ObjectId,
+    page: number = 1,
+    limit: number = 10
+  ) {
+    return this.listPublished("serviceId", serviceId, page, limit);
+  }
+}
+
+// Export singleton instance
+export const reviewService = new ReviewService();
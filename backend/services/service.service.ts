@@ -7,6 +7,13 @@ import { ProviderModel } from "../models/profiles/provider.model";
 import slugify from "slugify";
 import { MongoDBFileService } from "./files/mongodb.files.service";
 import { ImageLinkingService } from "../utils/controller-utils/ImageLinkingService";
+import { listableProviderFilter } from "./profiles/provider-approval.service";
+import { auditLogService } from "./audit/audit-log.service";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../types/audit-log.types";
 
 // Constants
 const DEFAULT_PAGE_SIZE = 20;
@@ -391,8 +398,19 @@ class ServiceService {
     pagination?: PaginationOptions,
     populationLevel: PopulationLevel = PopulationLevel.STANDARD
   ): Promise<ServiceQueryResult> {
+    // Hide services of providers who are unapproved or suspended;
+    // catalog services without a provider stay listed
+    const hiddenProviderIds = await ProviderModel.distinct("_id", {
+      $nor: [listableProviderFilter()],
+    });
+
     return this.queryServices(
-      { isActive: true, deletedAt: null, isPrivate: false },
+      {
+        isActive: true,
+        deletedAt: null,
+        isPrivate: false,
+        $and: [{ providerId: { $nin: hiddenProviderIds } }],
+      },
       filters,
       pagination,
       populationLevel
@@ -626,7 +644,8 @@ class ServiceService {
 
   async approveService(
     serviceId: string,
-    approverId: string
+    approverId: string,
+    audit?: AuditContext
   ): Promise<Service | null> {
     try {
       const service = await ServiceModel.findOne({
@@ -635,7 +654,17 @@ class ServiceService {
       });
 
       if (!service) return null;
+      const before = auditLogService.snapshot(service);
       await service.approve(approverId);
+
+      await auditLogService.record(audit, {
+        action: AuditAction.SERVICE_APPROVED,
+        entityType: AuditEntityType.SERVICE,
+        entityId: service._id,
+        before,
+        after: service,
+      });
+
       return service.toObject();
     } catch (error) {
       throw new Error(
@@ -649,7 +678,8 @@ class ServiceService {
   async rejectService(
     serviceId: string,
     approverId: string,
-    reason: string
+    reason: string,
+    audit?: AuditContext
   ): Promise<Service | null> {
     try {
       const service = await ServiceModel.findOne({
@@ -658,7 +688,18 @@ class ServiceService {
       });
 
       if (!service) return null;
+      const before = auditLogService.snapshot(service);
       await service.reject(approverId, reason);
+
+      await auditLogService.record(audit, {
+        action: AuditAction.SERVICE_REJECTED,
+        entityType: AuditEntityType.SERVICE,
+        entityId: service._id,
+        before,
+        after: service,
+        metadata: { reason },
+      });
+
       return service.toObject();
     } catch (error) {
       throw new Error(
@@ -674,7 +715,10 @@ class ServiceService {
   /**
    * Soft-delete a service and remove it from the provider's `serviceOfferings`.
    */
-  async deleteService(serviceId: string): Promise<boolean> {
+  async deleteService(
+    serviceId: string,
+    audit?: AuditContext
+  ): Promise<boolean> {
     try {
       const service = await ServiceModel.findOne({
         _id: serviceId,
@@ -690,7 +734,17 @@ class ServiceService {
         });
       }
 
+      const before = auditLogService.snapshot(service);
       await service.softDelete();
+
+      await auditLogService.record(audit, {
+        action: AuditAction.SERVICE_DELETED,
+        entityType: AuditEntityType.SERVICE,
+        entityId: service._id,
+        before,
+        after: service,
+      });
+
       return true;
     } catch (error) {
       throw new Error(
@@ -704,14 +758,26 @@ class ServiceService {
   /**
    * Restore a soft-deleted service and re-add it to the provider's `serviceOfferings`.
    */
-  async restoreService(serviceId: string): Promise<Service | null> {
+  async restoreService(
+    serviceId: string,
+    audit?: AuditContext
+  ): Promise<Service | null> {
     try {
       const service = await ServiceModel.findById(serviceId);
 
       if (!service || !service.deletedAt) return null;
 
+      const before = auditLogService.snapshot(service);
       await service.restore();
 
+      await auditLogService.record(audit, {
+        action: AuditAction.SERVICE_RESTORED,
+        entityType: AuditEntityType.SERVICE,
+        entityId: service._id,
+        before,
+        after: service,
+      });
+
       // Re-link to provider
       if (service.providerId) {
         await ProviderModel.findByIdAndUpdate(service.providerId, {
@@ -757,16 +823,34 @@ class ServiceService {
 
   async bulkUpdateServices(
     serviceIds: string[],
-    update: UpdateQuery<Service>
+    update: UpdateQuery<Service>,
+    audit?: AuditContext
   ): Promise<number> {
     try {
-      const result = await ServiceModel.updateMany(
-        {
-          _id: { $in: serviceIds.map((id) => new Types.ObjectId(id)) },
-          deletedAt: null,
-        },
-        update
+      const filter = {
+        _id: { $in: serviceIds.map((id) => new Types.ObjectId(id)) },
+        deletedAt: null,
+      };
+
+      const before = await ServiceModel.find(filter).lean();
+      const result = await ServiceModel.updateMany(filter, update);
+      const after = await ServiceModel.find({
+        _id: { $in: before.map((service) => service._id) },
+      }).lean();
+
+      await Promise.all(
+        before.map((previous) =>
+          auditLogService.record(audit, {
+            action: AuditAction.SERVICE_UPDATED,
+            entityType: AuditEntityType.SERVICE,
+            entityId: previous._id,
+            before: previous,
+            after: after.find((service) => service._id.equals(previous._id)),
+            metadata: { bulk: true },
+          })
+        )
       );
+
       return result.modifiedCount;
     } catch (error) {
       throw new Error(
@@ -0,0 +1,281 @@
+// services/session.service.ts
+import crypto from "crypto";
+import { Types } from "mongoose";
+import SessionModelInstance from "../models/session.model";
+import {
+  AuthSession,
+  SessionMetadata,
+  SessionRevokeReason,
+} from "../types/session.types";
+
+// Refresh tokens live this long after their last use
+export const REFRESH_TOKEN_TTL_DAYS = Number(
+  process.env.REFRESH_TOKEN_TTL_DAYS || 30
+);
+
+// Earlier refresh tokens remembered per session for reuse detection
+const MAX_ROTATED_HASHES = 20;
+
+const hashToken = (secret: string) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const newExpiry = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Refresh tokens are "<sessionId>.<secret>"
+ */
+const parseRefreshToken = (
+  refreshToken: string
+): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret] = refreshToken.split(".");
+
+  if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+    return null;
+  }
+
+  return { sessionId, secret };
+};
+
+/**
+ * Short label such as "Chrome on Windows" from a user-agent string
+ */
+const describeDevice = (userAgent?: string): string | undefined => {
+  if (!userAgent) return undefined;
+
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+    ? "Android"
+    : /Windows/.test(userAgent)
+    ? "Windows"
+    : /Mac OS X|Macintosh/.test(userAgent)
+    ? "macOS"
+    : /Linux/.test(userAgent)
+    ? "Linux"
+    : undefined;
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\/|Opera/.test(userAgent)
+    ? "Opera"
+    : /Chrome\//.test(userAgent)
+    ? "Chrome"
+    : /Firefox\//.test(userAgent)
+    ? "Firefox"
+    : /Safari\//.test(userAgent)
+    ? "Safari"
+    : undefined;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 100);
+};
+
+export class SessionService {
+  private issueSecret(): { secret: string; hash: string } {
+    const secret = crypto.randomBytes(48).toString("hex");
+    return { secret, hash: hashToken(secret) };
+  }
+
+  /**
+   * Start a session at login; returns the first refresh token
+   */
+  async createSession(
+    userId: string | Types.ObjectId,
+    metadata: SessionMetadata = {}
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const { secret, hash } = this.issueSecret();
+
+    const session = await SessionModelInstance.create({
+      userId,
+      refreshTokenHash: hash,
+      device: metadata.device || describeDevice(metadata.userAgent),
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      lastUsedAt: new Date(),
+      expiresAt: newExpiry(),
+    });
+
+    return { session, refreshToken: `${session._id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that was
+   * already rotated revokes the session, since it may have been stolen.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    metadata: SessionMetadata = {}
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error("INVALID_REFRESH_TOKEN");
+    }
+
+    const session = await SessionModelInstance.findById(
+      parsed.sessionId
+    ).select("+refreshTokenHash +rotatedTokenHashes");
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new Error("INVALID_REFRESH_TOKEN");
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+
+    if (session.rotatedTokenHashes.includes(presentedHash)) {
+      await this.revokeSessionById(session._id, SessionRevokeReason.TOKEN_REUSE);
+      throw new Error("REFRESH_TOKEN_REUSED");
+    }
+
+    if (session.refreshTokenHash !== presentedHash) {
+      throw new Error("INVALID_REFRESH_TOKEN");
+    }
+
+    const { secret, hash } = this.issueSecret();
+
+    // Only rotate if nobody else rotated this token in the meantime
+    const rotated = await SessionModelInstance.findOneAndUpdate(
+      {
+        _id: session._id,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+      },
+      {
+        $set: {
+          refreshTokenHash: hash,
+          lastUsedAt: new Date(),
+          expiresAt: newExpiry(),
+          ...(metadata.ip && { ip: metadata.ip }),
+          ...(metadata.userAgent && { userAgent: metadata.userAgent }),
+        },
+        $push: {
+          rotatedTokenHashes: {
+            $each: [presentedHash],
+            $slice: -MAX_ROTATED_HASHES,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!rotated) {
+      await this.revokeSessionById(session._id, SessionRevokeReason.TOKEN_REUSE);
+      throw new Error("REFRESH_TOKEN_REUSED");
+    }
+
+    return { session: rotated, refreshToken: `${rotated._id}.${secret}` };
+  }
+
+  /**
+   * Whether an access token's session is still live
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+
+    const session = await SessionModelInstance.exists({
+      _id: sessionId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+
+    return !!session;
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to, if the token is
+   * genuine. Returns the session, or null if nothing was revoked.
+   */
+  async revokeByRefreshToken(
+    refreshToken: string,
+    reason: SessionRevokeReason
+  ): Promise<AuthSession | null> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+
+    const session = await SessionModelInstance.findById(
+      parsed.sessionId
+    ).select("+refreshTokenHash +rotatedTokenHashes");
+    if (!session) return null;
+
+    const presentedHash = hashToken(parsed.secret);
+    if (
+      session.refreshTokenHash !== presentedHash &&
+      !session.rotatedTokenHashes.includes(presentedHash)
+    ) {
+      return null;
+    }
+
+    return this.revokeSessionById(session._id, reason);
+  }
+
+  async revokeSessionById(
+    sessionId: string | Types.ObjectId,
+    reason: SessionRevokeReason
+  ): Promise<AuthSession | null> {
+    return SessionModelInstance.findOneAndUpdate(
+      { _id: sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+      { new: true }
+    );
+  }
+
+  /**
+   * A user's live sessions, most recently used first
+   */
+  async listActiveSessions(userId: string): Promise<AuthSession[]> {
+    return SessionModelInstance.find({
+      userId: new Types.ObjectId(userId),
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason = SessionRevokeReason.USER_REVOKED
+  ): Promise<AuthSession> {
+    const session = await SessionModelInstance.findOneAndUpdate(
+      {
+        _id: sessionId,
+        userId: new Types.ObjectId(userId),
+        revokedAt: null,
+      },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+      { new: true }
+    );
+
+    if (!session) {
+      throw new Error("SESSION_NOT_FOUND");
+    }
+
+    return session;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one.
+   * Returns how many were revoked.
+   */
+  async revokeAllSessions(
+    userId: string | Types.ObjectId,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const query: Record<string, any> = {
+      userId: new Types.ObjectId(userId.toString()),
+      revokedAt: null,
+    };
+    if (exceptSessionId) query._id = { $ne: new Types.ObjectId(exceptSessionId) };
+
+    const result = await SessionModelInstance.updateMany(query, {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.modifiedCount;
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,353 @@
+// services/tasks/booking-dispute.service.ts
+// Dispute cases for bookings the customer rejected at validation
+
+import { Types } from "mongoose";
+import { BookingModel } from "../../models/booking.model";
+import DisputeCaseModelInstance from "../../models/dispute.model";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+} from "../../types/audit-log.types";
+import { UserRole } from "../../types/base.types";
+import { BookingStatus } from "../../types/booking.types";
+import { DisputeOutcome, DisputeStatus } from "../../types/dispute.types";
+import {
+  CreateFileData,
+  MongoDBFileService,
+} from "../files/mongodb.files.service";
+import { auditLogService } from "../audit/audit-log.service";
+import { paymentService } from "../payments/payment.service";
+
+export const DISPUTE_ENTITY_TYPE = "dispute";
+export const DISPUTE_EVIDENCE_LABEL = "dispute_evidence";
+
+type DisputeParty = UserRole.CUSTOMER | UserRole.PROVIDER;
+
+// Bookings are often loaded with parties populated
+const toObjectId = (field: any): Types.ObjectId => field?._id ?? field;
+
+export type DisputeEvidenceUpload = Omit<
+  CreateFileData,
+  "entityType" | "entityId" | "label"
+>;
+
+export class BookingDisputeService {
+  private fileService: MongoDBFileService;
+
+  constructor(fileService: MongoDBFileService = new MongoDBFileService()) {
+    this.fileService = fileService;
+  }
+
+  /**
+   * Open a case for a disputed booking (idempotent)
+   */
+  async openDispute(booking: {
+    _id?: Types.ObjectId;
+    taskId: any;
+    clientId: any;
+    providerId: any;
+    disputeReason?: string;
+    disputedAt?: Date;
+  }) {
+    const existing = await DisputeCaseModelInstance.findOne({
+      bookingId: booking._id,
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return DisputeCaseModelInstance.create({
+      bookingId: booking._id,
+      taskId: toObjectId(booking.taskId),
+      clientId: toObjectId(booking.clientId),
+      providerId: toObjectId(booking.providerId),
+      reason: booking.disputeReason || "No reason provided",
+      openedBy: toObjectId(booking.clientId),
+      openedAt: booking.disputedAt || new Date(),
+      status: DisputeStatus.OPEN,
+    });
+  }
+
+  /**
+   * Get the case for a booking, opening one for bookings that were
+   * disputed before cases existed
+   */
+  async getDisputeForBooking(bookingId: string | Types.ObjectId) {
+    const dispute = await DisputeCaseModelInstance.findOne({ bookingId });
+
+    if (dispute) {
+      return dispute;
+    }
+
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    if (booking.status !== BookingStatus.DISPUTED) {
+      throw new Error("No dispute found for this booking");
+    }
+
+    return this.openDispute(booking);
+  }
+
+  private assertParty(
+    dispute: { clientId: Types.ObjectId; providerId: Types.ObjectId },
+    role: DisputeParty,
+    actorId: string | Types.ObjectId
+  ) {
+    const partyId =
+      role === UserRole.CUSTOMER ? dispute.clientId : dispute.providerId;
+
+    if (partyId.toString() !== actorId.toString()) {
+      throw new Error("Only the customer or provider can access this dispute");
+    }
+  }
+
+  /**
+   * Get a case with evidence files, for one of its parties
+   */
+  async getDisputeForParty(
+    bookingId: string | Types.ObjectId,
+    role: DisputeParty,
+    actorId: string | Types.ObjectId
+  ) {
+    const dispute = await this.getDisputeForBooking(bookingId);
+    this.assertParty(dispute, role, actorId);
+
+    return dispute.populate(
+      "statements.evidence",
+      "url fileName mimeType fileSize thumbnailUrl visibility status"
+    );
+  }
+
+  /**
+   * Add a statement with optional evidence files
+   */
+  async addStatement(
+    bookingId: string | Types.ObjectId,
+    role: DisputeParty,
+    actorId: string | Types.ObjectId,
+    message: string,
+    evidence: DisputeEvidenceUpload[] = []
+  ) {
+    const dispute = await this.getDisputeForBooking(bookingId);
+    this.assertParty(dispute, role, actorId);
+
+    if (dispute.status === DisputeStatus.RESOLVED) {
+      throw new Error("Dispute is already resolved");
+    }
+
+    const fileIds: Types.ObjectId[] = [];
+
+    for (const upload of evidence) {
+      const file = await this.fileService.createFile({
+        ...upload,
+        entityType: DISPUTE_ENTITY_TYPE,
+        entityId: dispute._id,
+        label: DISPUTE_EVIDENCE_LABEL,
+      });
+      fileIds.push(file._id);
+    }
+
+    await dispute.addStatement(
+      new Types.ObjectId(actorId.toString()),
+      role,
+      message,
+      fileIds
+    );
+
+    return dispute.populate(
+      "statements.evidence",
+      "url fileName mimeType fileSize thumbnailUrl visibility status"
+    );
+  }
+
+  // ── Admin ───────────────────────────────────────────────────────────────
+
+  /**
+   * Admin queue, oldest first
+   */
+  async listDisputes(filters: {
+    status?: DisputeStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const query: any = {};
+    if (filters.status) {
+      query.status = filters.status;
+    } else {
+      query.status = { $ne: DisputeStatus.RESOLVED };
+    }
+
+    const [disputes, total] = await Promise.all([
+      DisputeCaseModelInstance.find(query)
+        .populate(
+          "bookingId",
+          "bookingNumber status paymentStatus estimatedPrice finalPrice currency scheduledDate"
+        )
+        .populate("providerId", "businessName")
+        .sort({ openedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      DisputeCaseModelInstance.countDocuments(query),
+    ]);
+
+    return {
+      disputes,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Full case detail for an admin
+   */
+  async getDisputeDetail(bookingId: string | Types.ObjectId) {
+    const dispute = await this.getDisputeForBooking(bookingId);
+
+    return dispute.populate([
+      { path: "bookingId" },
+      { path: "taskId", select: "title description" },
+      { path: "providerId", select: "businessName" },
+      {
+        path: "statements.evidence",
+        select: "url fileName mimeType fileSize thumbnailUrl visibility status",
+      },
+    ]);
+  }
+
+  /**
+   * Admin picks a case up
+   */
+  async markUnderReview(
+    bookingId: string | Types.ObjectId,
+    adminId: string | Types.ObjectId,
+    audit?: AuditContext
+  ) {
+    const dispute = await this.getDisputeForBooking(bookingId);
+    const before = auditLogService.snapshot(dispute);
+    await dispute.markUnderReview(new Types.ObjectId(adminId.toString()));
+
+    await auditLogService.record(audit, {
+      action: AuditAction.DISPUTE_REVIEWED,
+      entityType: AuditEntityType.BOOKING,
+      entityId: dispute.bookingId,
+      before,
+      after: dispute,
+      fields: ["status", "reviewedBy", "reviewedAt"],
+      metadata: { disputeId: dispute._id.toString() },
+    });
+
+    return dispute;
+  }
+
+  /**
+   * Admin settles a case; updates the booking's status and price, and
+   * refunds what the customer paid beyond the settled price through the
+   * payment ledger
+   */
+  async resolveDispute(
+    bookingId: string | Types.ObjectId,
+    adminId: string | Types.ObjectId,
+    outcome: DisputeOutcome,
+    finalPrice?: number,
+    note?: string,
+    audit?: AuditContext
+  ) {
+    const dispute = await this.getDisputeForBooking(bookingId);
+
+    if (dispute.status === DisputeStatus.RESOLVED) {
+      throw new Error("Dispute is already resolved");
+    }
+
+    const booking = await BookingModel.findById(bookingId);
+
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const before = auditLogService.snapshot(booking);
+    const adminObjectId = new Types.ObjectId(adminId.toString());
+    const originalPrice = booking.finalPrice ?? booking.estimatedPrice;
+
+    await booking.resolveDispute(outcome, adminObjectId, finalPrice, note);
+
+    // Refunds come from what was actually collected, not the quoted price
+    const summary = await paymentService.getPaymentSummary(booking);
+    let refundAmount: number | undefined;
+    if (outcome === DisputeOutcome.CANCEL_AND_REFUND) {
+      refundAmount = summary.refundable;
+    } else if (outcome === DisputeOutcome.PARTIAL_REFUND) {
+      const overpaid = summary.collected - summary.refunded - summary.totalDue;
+      refundAmount =
+        Math.round(Math.max(0, Math.min(summary.refundable, overpaid)) * 100) /
+        100;
+    }
+
+    let refundError: string | undefined;
+    if (refundAmount) {
+      try {
+        await paymentService.refundBooking(
+          booking._id,
+          adminObjectId,
+          `Dispute resolved: ${outcome}`,
+          refundAmount,
+          audit
+        );
+      } catch (error: any) {
+        // The dispute is settled either way; admins can retry the refund
+        console.error(
+          `Dispute refund failed for booking ${booking._id}:`,
+          error
+        );
+        refundError = error.message;
+      }
+    }
+
+    const synced = await paymentService.syncBookingPaymentStatus(booking._id);
+
+    dispute.status = DisputeStatus.RESOLVED;
+    dispute.resolution = {
+      outcome,
+      resolvedBy: adminObjectId,
+      resolvedAt: new Date(),
+      note,
+      originalPrice,
+      adjustedPrice: booking.finalPrice,
+      refundAmount,
+    };
+    await dispute.save();
+
+    await auditLogService.record(audit, {
+      action: AuditAction.DISPUTE_RESOLVED,
+      entityType: AuditEntityType.BOOKING,
+      entityId: booking._id,
+      before,
+      after: synced ?? booking,
+      fields: ["status", "finalPrice", "paymentStatus"],
+      metadata: {
+        disputeId: dispute._id.toString(),
+        outcome,
+        refundAmount,
+        ...(refundError && { refundError }),
+        note,
+      },
+    });
+
+    return { dispute, booking: synced ?? booking };
+  }
+}
+
+// Export singleton instance
+export const bookingDisputeService = new BookingDisputeService();
@@ -4,6 +4,11 @@ import { Types } from "mongoose";
 import { ProviderModel } from "../../models/profiles/provider.model";
 import { ServiceModel } from "../../models/service.model";
 import { UserLocation } from "../../types/base.types";
+import {
+  isListable,
+  listableProviderFilter,
+} from "../profiles/provider-approval.service";
+import { providerServiceAreaService } from "../profiles/provider-service-area.service";
 import {
   TaskMatchingConfig,
   Task,
@@ -11,6 +16,22 @@ import {
   TaskStatus,
 } from "../../types/tasks.types";
 
+// Share of a signal's weight given to providers with no history yet
+const NEUTRAL_SIGNAL = 0.5;
+
+// Pulls averages from a handful of reviews towards a neutral rating
+const RATING_PRIOR_MEAN = 3.5;
+const RATING_PRIOR_REVIEWS = 3;
+
+// Full response score at or under the fast mark, none at the slow mark
+const FAST_RESPONSE_MINUTES = 60;
+const SLOW_RESPONSE_MINUTES = 24 * 60;
+
+// Active bookings at which the workload score reaches zero
+const FULL_WORKLOAD_BOOKINGS = Number(
+  process.env.MATCHING_FULL_WORKLOAD_BOOKINGS || 5
+);
+
 /**
  * Service responsible for matching tasks to providers
  */
@@ -19,13 +40,21 @@ export class TaskMatchingService {
     maxDistanceKm: 20,
     prioritizeNearby: true,
     weights: {
-      titleMatch: 30,
-      descriptionMatch: 25,
-      tagMatch: 25,
-      categoryMatch: 15,
+      titleMatch: 22,
+      descriptionMatch: 18,
+      tagMatch: 18,
+      categoryMatch: 12,
       locationProximity: 5,
+      rating: 10,
+      completionRate: 6,
+      cancellationRate: 4,
+      responseLatency: 3,
+      workload: 2,
     },
-    minimumMatchScore: 40,
+    // Applied to task fit only (40% of the 75 points title, description,
+    // tags, category and location can score); rating and performance
+    // rank the providers that clear it but can't lift one over it
+    minimumMatchScore: 30,
     maxProvidersToReturn: 20,
     fallbackToLocationOnly: true,
     fallbackThreshold: 3,
@@ -144,7 +173,8 @@ export class TaskMatchingService {
     // Get providers in customer's location
     const providers = await this.getProvidersInLocation(
       Array.from(servicesByProvider.keys()),
-      task.customerLocation!
+      task.customerLocation!,
+      config
     );
 
     // Calculate match scores for each provider
@@ -159,7 +189,7 @@ export class TaskMatchingService {
           config
         );
       })
-      .filter((m) => m.matchScore >= config.minimumMatchScore!)
+      .filter((m) => this.taskFitScore(m) >= config.minimumMatchScore!)
       .sort((a, b) => b.matchScore - a.matchScore)
       .slice(0, config.maxProvidersToReturn);
 
@@ -176,14 +206,10 @@ export class TaskMatchingService {
     matches: ProviderMatchResult[];
   }> {
     // Get all providers in customer's location
-    const providers = await ProviderModel.find({
-      $or: [
-        { "locationData.locality": task.customerLocation?.locality },
-        { "locationData.city": task.customerLocation?.city },
-        { "locationData.region": task.customerLocation?.region },
-      ],
-      isDeleted: { $ne: true },
-    }).lean();
+    const providers = await this.findProvidersNear(
+      task.customerLocation!,
+      config
+    );
 
     // Calculate simple location-based scores
     const matches = providers
@@ -338,7 +364,8 @@ export class TaskMatchingService {
    */
   private async getProvidersInLocation(
     providerIds: string[],
-    customerLocation: UserLocation
+    customerLocation: UserLocation,
+    config: TaskMatchingConfig
   ): Promise<any[]> {
     // ✅ Added validation for provider IDs
     const validProviderIds = providerIds.filter(id => id && id.length === 24);
@@ -348,15 +375,49 @@ export class TaskMatchingService {
       return [];
     }
 
-    return ProviderModel.find({
-      _id: { $in: validProviderIds },
-      $or: [
-        { "locationData.locality": customerLocation.locality },
-        { "locationData.city": customerLocation.city },
-        { "locationData.region": customerLocation.region },
-      ],
-      isDeleted: { $ne: true },
-    }).lean();
+    return this.findProvidersNear(customerLocation, config, {
+      _id: { $in: validProviderIds.map((id) => new Types.ObjectId(id)) },
+    });
+  }
+
+  /**
+   * Providers within maxDistanceKm of the customer, or whose declared
+   * service areas cover the customer's location, nearest first.
+   * Each provider gets `distanceKm` when measured and `serviceArea`
+   * when a declared area covers the location.
+   */
+  private async findProvidersNear(
+    customerLocation: UserLocation,
+    config: TaskMatchingConfig,
+    filter: Record<string, any> = {}
+  ): Promise<any[]> {
+    if (!customerLocation) {
+      return [];
+    }
+
+    // Unapproved and suspended providers are never matched
+    return providerServiceAreaService.findProvidersCovering(
+      customerLocation,
+      config.maxDistanceKm,
+      { ...filter, ...listableProviderFilter() }
+    );
+  }
+
+  /**
+   * Points a match earned from the task itself (title, description, tags,
+   * category, location), leaving out the provider's rating and performance
+   */
+  private taskFitScore(match: ProviderMatchResult): number {
+    const scores = match.scoreBreakdown;
+    if (!scores) return match.matchScore;
+
+    return Math.round(
+      scores.titleScore +
+        scores.descriptionScore +
+        scores.tagScore +
+        scores.categoryScore +
+        scores.locationScore
+    );
   }
 
   /**
@@ -375,6 +436,7 @@ export class TaskMatchingService {
       tagScore: 0,
       categoryScore: 0,
       locationScore: 0,
+      ...this.calculatePerformanceScores(provider, weights),
     };
 
     // Title matching (check if service titles contain task keywords)
@@ -423,8 +485,9 @@ export class TaskMatchingService {
     // Location proximity scoring
     scores.locationScore = this.calculateLocationScore(
       task.customerLocation!,
-      provider.locationData,
-      weights.locationProximity
+      provider,
+      weights.locationProximity,
+      config.maxDistanceKm
     );
 
     // Calculate total score
@@ -433,7 +496,12 @@ export class TaskMatchingService {
         scores.descriptionScore +
         scores.tagScore +
         scores.categoryScore +
-        scores.locationScore
+        scores.locationScore +
+        scores.ratingScore +
+        scores.completionScore +
+        scores.cancellationScore +
+        scores.responseScore +
+        scores.workloadScore
     );
 
     // Build match reasons
@@ -449,11 +517,74 @@ export class TaskMatchingService {
       matchScore: Math.min(totalScore, 100),
       matchedServices: services.map((s) => s._id),
       matchReasons,
-      distance: undefined, // Can be calculated if GPS coordinates available
+      distance: provider.distanceKm,
       scoreBreakdown: scores,
     };
   }
 
+  /**
+   * Score precomputed provider stats (ratingStats, performanceStats)
+   * Providers without history get a neutral share of each weight
+   */
+  private calculatePerformanceScores(
+    provider: any,
+    weights: TaskMatchingConfig["weights"]
+  ) {
+    const ratingStats = provider.ratingStats;
+    const performance = provider.performanceStats;
+
+    // Rating: smoothed average on a 1-5 scale
+    let ratingShare = NEUTRAL_SIGNAL;
+    if (ratingStats?.totalReviews > 0) {
+      const smoothedRating =
+        (ratingStats.averageRating * ratingStats.totalReviews +
+          RATING_PRIOR_MEAN * RATING_PRIOR_REVIEWS) /
+        (ratingStats.totalReviews + RATING_PRIOR_REVIEWS);
+      ratingShare = (smoothedRating - 1) / 4;
+    }
+
+    // Completion: bookings finished without cancellation or dispute
+    const completionShare =
+      performance?.completionRate ?? NEUTRAL_SIGNAL;
+
+    // Cancellation: fewer provider-side cancellations score higher
+    const cancellationShare =
+      performance?.cancellationRate !== undefined &&
+      performance?.cancellationRate !== null
+        ? 1 - performance.cancellationRate
+        : NEUTRAL_SIGNAL;
+
+    // Response latency to REQUESTED tasks
+    let responseShare = NEUTRAL_SIGNAL;
+    if (typeof performance?.avgResponseMinutes === "number") {
+      const minutes = performance.avgResponseMinutes;
+      responseShare =
+        minutes <= FAST_RESPONSE_MINUTES
+          ? 1
+          : Math.max(
+              0,
+              1 -
+                (minutes - FAST_RESPONSE_MINUTES) /
+                  (SLOW_RESPONSE_MINUTES - FAST_RESPONSE_MINUTES)
+            );
+    }
+
+    // Workload: fewer active bookings leaves more room for this task
+    const activeBookings = performance?.activeBookings ?? 0;
+    const workloadShare = Math.max(
+      0,
+      1 - activeBookings / FULL_WORKLOAD_BOOKINGS
+    );
+
+    return {
+      ratingScore: ratingShare * weights.rating,
+      completionScore: completionShare * weights.completionRate,
+      cancellationScore: cancellationShare * weights.cancellationRate,
+      responseScore: responseShare * weights.responseLatency,
+      workloadScore: workloadShare * weights.workload,
+    };
+  }
+
   /**
    * Calculate location-based match score
    */
@@ -471,18 +602,21 @@ export class TaskMatchingService {
     };
 
     // Location match (100% of score)
-    if (provider.locationData?.locality === task.customerLocation?.locality) {
-      scores.locationScore = 100;
-    } else if (provider.locationData?.city === task.customerLocation?.city) {
-      scores.locationScore = 70;
-    } else if (
-      provider.locationData?.region === task.customerLocation?.region
-    ) {
-      scores.locationScore = 50;
-    }
+    scores.locationScore = this.calculateLocationScore(
+      task.customerLocation!,
+      provider,
+      100,
+      config.maxDistanceKm
+    );
 
     const matchReasons = ["Available in your area"];
 
+    if (typeof provider.distanceKm === "number") {
+      matchReasons.push(`${provider.distanceKm.toFixed(1)}km from you`);
+    }
+
+    matchReasons.push(...this.buildServiceAreaReasons(provider));
+
     // Add bonus reasons
     if (provider.isCompanyTrained) {
       matchReasons.push("Company trained");
@@ -499,19 +633,34 @@ export class TaskMatchingService {
       matchScore: Math.round(scores.locationScore),
       matchedServices: [],
       matchReasons,
-      distance: undefined,
+      distance: provider.distanceKm,
       scoreBreakdown: scores,
     };
   }
 
   /**
    * Calculate location proximity score
+   * Measured distance scales from full points (same spot) to 50% (at the
+   * edge of maxDistanceKm); otherwise a covering service area or
+   * locality/city/region equality is used
    */
   private calculateLocationScore(
     customerLocation: UserLocation,
-    providerLocation: any,
-    maxScore: number
+    provider: any,
+    maxScore: number,
+    maxDistanceKm: number
   ): number {
+    if (typeof provider.distanceKm === "number") {
+      const proximity = 1 - Math.min(provider.distanceKm / maxDistanceKm, 1);
+      return maxScore * (0.5 + 0.5 * proximity);
+    }
+
+    if (provider.serviceArea) {
+      return maxScore * 0.7; // Declared service area = 70%
+    }
+
+    const providerLocation = provider.locationData;
+
     if (providerLocation?.locality === customerLocation.locality) {
       return maxScore; // Same locality = full points
     } else if (providerLocation?.city === customerLocation.city) {
@@ -522,6 +671,19 @@ export class TaskMatchingService {
     return 0;
   }
 
+  /**
+   * Reasons from the declared service area covering the customer
+   */
+  private buildServiceAreaReasons(provider: any): string[] {
+    if (!provider.serviceArea) return [];
+
+    const reasons = [`Serves ${provider.serviceArea.name}`];
+    if (provider.serviceArea.travelFee > 0) {
+      reasons.push(`Travel fee of ${provider.serviceArea.travelFee} may apply`);
+    }
+    return reasons;
+  }
+
   /**
    * Build human-readable match reasons
    */
@@ -539,11 +701,11 @@ export class TaskMatchingService {
     }
 
     // Score-based reasons
-    if (scores.titleScore > 15) {
+    if (scores.titleScore > 11) {
       reasons.push("Service titles match your needs");
     }
 
-    if (scores.tagScore > 10) {
+    if (scores.tagScore > 7) {
       reasons.push("Service tags match your requirements");
     }
 
@@ -552,6 +714,12 @@ export class TaskMatchingService {
     }
 
     // Location reasons
+    if (typeof provider.distanceKm === "number") {
+      reasons.push(`${provider.distanceKm.toFixed(1)}km from you`);
+    }
+
+    reasons.push(...this.buildServiceAreaReasons(provider));
+
     if (provider.locationData?.locality === customerLocation.locality) {
       reasons.push(`Located in ${customerLocation.locality}`);
     } else if (provider.locationData?.city === customerLocation.city) {
@@ -573,6 +741,43 @@ export class TaskMatchingService {
       reasons.push("Verified address");
     }
 
+    // Track record
+    const ratingStats = provider.ratingStats;
+    const performance = provider.performanceStats;
+
+    if (ratingStats?.totalReviews > 0 && ratingStats.averageRating >= 4) {
+      reasons.push(
+        `Rated ${ratingStats.averageRating.toFixed(1)}/5 from ${ratingStats.totalReviews} review(s)`
+      );
+    }
+
+    if (
+      performance?.completedBookings >= 3 &&
+      performance.completionRate >= 0.9
+    ) {
+      reasons.push(
+        `Completed ${Math.round(performance.completionRate * 100)}% of bookings without issues`
+      );
+    }
+
+    if (
+      performance?.totalBookings >= 3 &&
+      performance.cancellationRate === 0
+    ) {
+      reasons.push("Never cancels bookings");
+    }
+
+    if (
+      performance?.respondedRequests > 0 &&
+      performance.avgResponseMinutes <= FAST_RESPONSE_MINUTES
+    ) {
+      reasons.push("Usually responds within an hour");
+    }
+
+    if (performance?.totalBookings > 0 && performance.activeBookings === 0) {
+      reasons.push("Free to take on new work");
+    }
+
     return reasons.length > 0 ? reasons : ["Available in your area"];
   }
 
@@ -644,6 +849,13 @@ export class TaskMatchingService {
       };
     }
 
+    if (!isListable(provider)) {
+      return {
+        suitable: false,
+        reasons: ["Provider is not approved or is suspended"],
+      };
+    }
+
     // Check if already in matched or interested list
     const isMatched = task.matchedProviders?.some(
       (mp) => mp.providerId.toString() === providerId.toString()
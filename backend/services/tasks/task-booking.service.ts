@@ -7,10 +7,81 @@ import TaskModelInstance from "../../models/task.model";
 import { ProviderModel } from "../../models/profiles/provider.model";
 import { ServiceModel } from "../../models/service.model";
 import { UserRole } from "../../types/base.types";
-import { BookingStatus, PaymentStatus } from "../../types/booking.types";
-import { TaskStatus } from "../../types/tasks.types";
+import {
+  BookingStatus,
+  PaymentStatus,
+  RescheduleProposalStatus,
+} from "../../types/booking.types";
+import { DomainEventType } from "../../types/notification.types";
+import { TaskRequestResponse, TaskStatus } from "../../types/tasks.types";
+import { domainEvents } from "../events/domain-event-bus";
+import { providerAvailabilityService } from "../profiles/provider-availability.service";
+import { providerServiceAreaService } from "../profiles/provider-service-area.service";
+import { reviewService } from "../reviews/review.service";
+import { bookingDisputeService } from "./booking-dispute.service";
+
+// Hours a customer has to pay a required deposit before auto-cancellation
+export const DEPOSIT_GRACE_PERIOD_HOURS = Number(
+  process.env.DEPOSIT_GRACE_PERIOD_HOURS || 24
+);
 
 export class TaskBookingService {
+  /**
+   * Work out the deposit for a new booking from the provider's settings
+   * and the service base price
+   */
+  private static async calculateDeposit(
+    providerId: string | Types.ObjectId,
+    serviceId: Types.ObjectId,
+    estimatedPrice?: number
+  ): Promise<{ depositAmount?: number; estimatedPrice?: number }> {
+    const provider = await ProviderModel.findById(providerId)
+      .select("requireInitialDeposit percentageDeposit")
+      .lean();
+
+    if (!provider?.requireInitialDeposit || !provider.percentageDeposit) {
+      return { estimatedPrice };
+    }
+
+    const service = await ServiceModel.findById(serviceId)
+      .select("servicePricing.serviceBasePrice")
+      .lean();
+
+    const basePrice =
+      service?.servicePricing?.serviceBasePrice ?? estimatedPrice;
+
+    if (!basePrice) {
+      return { estimatedPrice };
+    }
+
+    const price = estimatedPrice ?? basePrice;
+    const deposit =
+      Math.round(basePrice * provider.percentageDeposit) / 100;
+
+    return {
+      estimatedPrice: price,
+      // Deposit can never exceed what the customer expects to pay
+      depositAmount: Math.min(deposit, price),
+    };
+  }
+
+  /**
+   * Common fields for booking events (works on populated bookings too)
+   */
+  private static bookingEventBase(booking: {
+    _id: Types.ObjectId;
+    bookingNumber: string;
+    clientId: any;
+    providerId: any;
+  }) {
+    return {
+      bookingId: booking._id,
+      bookingNumber: booking.bookingNumber,
+      clientId: booking.clientId?._id ?? booking.clientId,
+      providerId: booking.providerId?._id ?? booking.providerId,
+    };
+  }
+
   /**
    * ✅ FIXED: Provider accepts a task - creates booking
    * This is the main handoff point from discovery to execution
@@ -133,55 +204,97 @@ export class TaskBookingService {
     const bookingNumber = await BookingModel.generateBookingNumber();
     console.log("✅ Generated booking number:", bookingNumber);
 
+    // ✅ FIX 3: Ensure valid scheduled date
+    let scheduledDate = task.schedule.preferredDate;
+    if (!scheduledDate || scheduledDate < new Date()) {
+      console.log("⚠️ No valid scheduled date, using tomorrow");
+      scheduledDate = new Date();
+      scheduledDate.setUTCDate(scheduledDate.getUTCDate() + 1);
+      scheduledDate.setUTCHours(9, 0, 0, 0);
+    }
+
     // ✅ FIX 2: Ensure proper time slot with validation
     let timeSlot = task.schedule.timeSlot;
     if (!timeSlot || !timeSlot.start || !timeSlot.end) {
-      console.log("⚠️ No valid time slot, using default business hours");
-      timeSlot = {
+      console.log("⚠️ No valid time slot, using the provider's hours");
+      timeSlot = (await providerAvailabilityService.getProviderWorkingWindow(
+        providerId,
+        scheduledDate
+      )) || {
         start: "09:00",
         end: "17:00",
       };
     }
 
-    // ✅ FIX 3: Ensure valid scheduled date
-    let scheduledDate = task.schedule.preferredDate;
-    if (!scheduledDate || scheduledDate < new Date()) {
-      console.log("⚠️ No valid scheduled date, using tomorrow");
-      scheduledDate = new Date();
-      scheduledDate.setDate(scheduledDate.getDate() + 1);
-      scheduledDate.setHours(9, 0, 0, 0);
-    }
+    // Deposit from provider settings, if required
+    const { depositAmount, estimatedPrice } = await this.calculateDeposit(
+      providerId,
+      serviceId,
+      task.estimatedBudget?.max || task.estimatedBudget?.min
+    );
 
-    // ✅ Create the booking with proper enum values and validation
-    const booking = await BookingModel.create({
-      bookingNumber,
-      taskId: task._id,
-      clientId: task.customerId,
-      providerId: providerId,
-      serviceId: serviceId,
-      serviceLocation: task.customerLocation,
-      scheduledDate: scheduledDate,
-      scheduledTimeSlot: timeSlot,
-      serviceDescription: task.description,
-      specialInstructions: providerMessage,
-      estimatedPrice: task.estimatedBudget?.max || task.estimatedBudget?.min,
-      currency: task.estimatedBudget?.currency || "GHS",
-      status: BookingStatus.CONFIRMED,
-      paymentStatus: PaymentStatus.PENDING,
-      statusHistory: [
-        {
+    // Travel fee for the provider's service area covering the customer
+    const travelFee = await providerServiceAreaService.getTravelFee(
+      providerId,
+      serviceId,
+      task.customerLocation
+    );
+
+    // The slot check and the new booking hold the provider's calendar,
+    // so two accepts can't claim the same slot
+    const booking = await providerAvailabilityService.withCalendarLock(
+      providerId,
+      async () => {
+        // Refuse if the slot clashes with working hours, blackouts or
+        // other bookings
+        await providerAvailabilityService.assertSlotAvailable(
+          providerId,
+          scheduledDate,
+          timeSlot as { start: string; end: string }
+        );
+
+        // ✅ Create the booking with proper enum values and validation
+        return BookingModel.create({
+          bookingNumber,
+          taskId: task._id,
+          clientId: task.customerId,
+          providerId: providerId,
+          serviceId: serviceId,
+          serviceLocation: task.customerLocation,
+          scheduledDate: scheduledDate,
+          scheduledTimeSlot: timeSlot,
+          serviceDescription: task.description,
+          specialInstructions: providerMessage,
+          estimatedPrice:
+            estimatedPrice !== undefined
+              ? estimatedPrice + travelFee
+              : undefined,
+          travelFee: travelFee || undefined,
+          depositAmount,
+          depositPaid: false,
+          depositDueBy: depositAmount
+            ? new Date(Date.now() + DEPOSIT_GRACE_PERIOD_HOURS * 60 * 60 * 1000)
+            : undefined,
+          currency: task.estimatedBudget?.currency || "GHS",
           status: BookingStatus.CONFIRMED,
-          timestamp: new Date(),
-          actor: new Types.ObjectId(providerId.toString()),
-          actorRole: UserRole.PROVIDER,
-          message: providerMessage || "Provider accepted the task",
-        },
-      ],
-    });
+          paymentStatus: PaymentStatus.PENDING,
+          statusHistory: [
+            {
+              status: BookingStatus.CONFIRMED,
+              timestamp: new Date(),
+              actor: new Types.ObjectId(providerId.toString()),
+              actorRole: UserRole.PROVIDER,
+              message: providerMessage || "Provider accepted the task",
+            },
+          ],
+        });
+      }
+    );
 
     console.log("✅ Booking created:", booking._id);
 
     // Update task to CONVERTED status
+    task.recordRequestResponse(TaskRequestResponse.ACCEPTED);
     task.status = TaskStatus.CONVERTED;
     task.acceptedProvider = {
       providerId: new Types.ObjectId(providerId.toString()),
@@ -192,6 +305,17 @@ export class TaskBookingService {
     task.convertedAt = new Date();
     await task.save();
 
+    domainEvents.publish(DomainEventType.TASK_REQUEST_ACCEPTED, {
+      taskId: task._id,
+      taskTitle: task.title,
+      // customerId is populated on this task
+      customerId: task.customerId._id ?? task.customerId,
+      providerId,
+      bookingId: booking._id,
+      bookingNumber: booking.bookingNumber,
+      message: providerMessage,
+    });
+
     console.log("✅ Task converted to booking");
 
     // Populate and return
@@ -232,6 +356,8 @@ export class TaskBookingService {
       throw new Error("Only the requested provider can reject this task");
     }
 
+    task.recordRequestResponse(TaskRequestResponse.REJECTED);
+
     // Move back to previous status
     if (task.matchedProviders && task.matchedProviders.length > 0) {
       task.status = TaskStatus.MATCHED;
@@ -248,6 +374,14 @@ export class TaskBookingService {
     task.cancellationReason = rejectionReason;
 
     await task.save();
+
+    domainEvents.publish(DomainEventType.TASK_REQUEST_REJECTED, {
+      taskId: task._id,
+      taskTitle: task.title,
+      customerId: task.customerId,
+      providerId,
+      reason: rejectionReason,
+    });
     return task;
   }
 
@@ -343,6 +477,15 @@ export class TaskBookingService {
     task.cancelledBy = cancelledBy;
 
     await task.save();
+
+    domainEvents.publish(DomainEventType.TASK_CANCELLED, {
+      taskId: task._id,
+      taskTitle: task.title,
+      customerId: task.customerId,
+      cancelledBy,
+      requestedProviderId: task.requestedProvider?.providerId,
+      reason,
+    });
     return task;
   }
 
@@ -385,6 +528,13 @@ export class TaskBookingService {
     }
 
     await booking.cancel(reason, cancelledBy, userId as Types.ObjectId);
+
+    domainEvents.publish(DomainEventType.BOOKING_CANCELLED, {
+      ...this.bookingEventBase(booking),
+      cancelledBy,
+      reason,
+    });
+
     return booking;
   }
 
@@ -716,8 +866,17 @@ export class TaskBookingService {
       throw new Error("Only confirmed bookings can be started");
     }
 
+    if (booking.requiresDeposit && !booking.depositPaid) {
+      throw new Error("Deposit must be paid before the service can start");
+    }
+
     await booking.startService(providerId as Types.ObjectId);
 
+    domainEvents.publish(
+      DomainEventType.BOOKING_STARTED,
+      this.bookingEventBase(booking)
+    );
+
     return booking;
   }
 
@@ -746,18 +905,35 @@ export class TaskBookingService {
     // ✅ This now moves booking to AWAITING_VALIDATION status
     await booking.complete(finalPrice, providerId as Types.ObjectId);
 
+    domainEvents.publish(DomainEventType.BOOKING_COMPLETED, {
+      ...this.bookingEventBase(booking),
+      finalPrice,
+    });
+
     return booking;
   }
 
   /**
-   * ✅ NEW: Reschedule a booking
+   * Verify the actor is the customer or provider on this booking
    */
-  static async rescheduleBooking(
-    bookingId: string | Types.ObjectId,
-    newDate: Date,
-    newTimeSlot?: { start: string; end: string },
-    userId?: string | Types.ObjectId,
-    userRole?: UserRole
+  private static assertBookingParty(
+    booking: { clientId: Types.ObjectId; providerId: Types.ObjectId },
+    actorRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    actorId: string | Types.ObjectId
+  ) {
+    const partyId =
+      actorRole === UserRole.CUSTOMER ? booking.clientId : booking.providerId;
+
+    if (partyId.toString() !== actorId.toString()) {
+      throw new Error("Only the customer or provider can reschedule this booking");
+    }
+  }
+
+  /**
+   * Load a booking for rescheduling, expiring a stale proposal on the way
+   */
+  private static async getBookingForReschedule(
+    bookingId: string | Types.ObjectId
   ) {
     const booking = await BookingModel.findById(bookingId);
 
@@ -765,15 +941,137 @@ export class TaskBookingService {
       throw new Error("Booking not found");
     }
 
-    if (booking.status !== BookingStatus.CONFIRMED) {
-      throw new Error("Only confirmed bookings can be rescheduled");
+    if (
+      booking.rescheduleProposal?.status === RescheduleProposalStatus.PENDING &&
+      booking.rescheduleProposal.expiresAt < new Date()
+    ) {
+      await booking.expireRescheduleProposal();
     }
 
-    await booking.reschedule(
+    return booking;
+  }
+
+  /**
+   * Get the current reschedule proposal for a booking
+   */
+  static async getRescheduleProposal(
+    bookingId: string | Types.ObjectId,
+    actorRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    actorId: string | Types.ObjectId
+  ) {
+    const booking = await this.getBookingForReschedule(bookingId);
+    this.assertBookingParty(booking, actorRole, actorId);
+
+    return {
+      proposal: booking.rescheduleProposal || null,
+      rescheduleCount: booking.rescheduleCount || 0,
+      reschedulesRemaining: booking.reschedulesRemaining,
+    };
+  }
+
+  /**
+   * Propose a new date/slot - the other party must accept before it applies
+   */
+  static async proposeReschedule(
+    bookingId: string | Types.ObjectId,
+    actorRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    actorId: string | Types.ObjectId,
+    newDate: Date,
+    newTimeSlot?: { start: string; end: string },
+    reason?: string
+  ) {
+    const booking = await this.getBookingForReschedule(bookingId);
+    this.assertBookingParty(booking, actorRole, actorId);
+
+    await providerAvailabilityService.assertSlotAvailable(
+      booking.providerId,
+      newDate,
+      newTimeSlot || booking.scheduledTimeSlot,
+      booking._id
+    );
+
+    await booking.proposeReschedule(
+      new Types.ObjectId(actorId.toString()),
+      actorRole,
       newDate,
       newTimeSlot,
-      userId as Types.ObjectId,
-      userRole
+      reason
+    );
+
+    domainEvents.publish(DomainEventType.BOOKING_RESCHEDULE_PROPOSED, {
+      ...this.bookingEventBase(booking),
+      proposedBy: actorRole,
+      proposedDate: newDate,
+      reason,
+    });
+
+    return booking;
+  }
+
+  /**
+   * Accept or decline the other party's reschedule proposal
+   */
+  static async respondToReschedule(
+    bookingId: string | Types.ObjectId,
+    actorRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    actorId: string | Types.ObjectId,
+    accept: boolean,
+    message?: string
+  ) {
+    const booking = await this.getBookingForReschedule(bookingId);
+    this.assertBookingParty(booking, actorRole, actorId);
+
+    const respond = () =>
+      booking.respondToReschedule(
+        new Types.ObjectId(actorId.toString()),
+        actorRole,
+        accept,
+        message
+      );
+
+    const proposal = booking.rescheduleProposal;
+    if (accept && proposal?.status === RescheduleProposalStatus.PENDING) {
+      // Slot may have been taken since the proposal was made; hold the
+      // calendar so nothing claims it between the check and the move
+      await providerAvailabilityService.withCalendarLock(
+        booking.providerId,
+        async () => {
+          await providerAvailabilityService.assertSlotAvailable(
+            booking.providerId,
+            proposal.proposedDate,
+            proposal.proposedTimeSlot,
+            booking._id
+          );
+          return respond();
+        }
+      );
+    } else {
+      await respond();
+    }
+
+    domainEvents.publish(DomainEventType.BOOKING_RESCHEDULE_ANSWERED, {
+      ...this.bookingEventBase(booking),
+      answeredBy: actorRole,
+      accepted: accept,
+    });
+
+    return booking;
+  }
+
+  /**
+   * Withdraw a reschedule proposal (proposer only)
+   */
+  static async withdrawReschedule(
+    bookingId: string | Types.ObjectId,
+    actorRole: UserRole.CUSTOMER | UserRole.PROVIDER,
+    actorId: string | Types.ObjectId
+  ) {
+    const booking = await this.getBookingForReschedule(bookingId);
+    this.assertBookingParty(booking, actorRole, actorId);
+
+    await booking.withdrawReschedule(
+      new Types.ObjectId(actorId.toString()),
+      actorRole
     );
 
     return booking;
@@ -817,6 +1115,25 @@ export class TaskBookingService {
       disputeReason
     );
 
+    // Rejected completion opens a case for admin review
+    if (!approved) {
+      await bookingDisputeService.openDispute(booking);
+    } else if (rating) {
+      await reviewService.createFromValidation(booking);
+    }
+
+    if (approved) {
+      domainEvents.publish(DomainEventType.BOOKING_VALIDATED, {
+        ...this.bookingEventBase(booking),
+        rating,
+      });
+    } else {
+      domainEvents.publish(DomainEventType.BOOKING_DISPUTED, {
+        ...this.bookingEventBase(booking),
+        reason: disputeReason,
+      });
+    }
+
     return booking;
   }
 }
\ No newline at end of file
@@ -14,6 +14,8 @@ import {
   RequestProviderRequestBody,
   ProviderResponseRequestBody,
 } from "../../types/tasks.types";
+import { DomainEventType } from "../../types/notification.types";
+import { domainEvents } from "../events/domain-event-bus";
 import { taskMatchingService } from "./provider-matching.service";
 import { TaskBookingService } from "./task-booking.service";
 
@@ -37,6 +39,25 @@ export class TaskService {
     };
   }
 
+  /**
+   * Tell matched providers about the task
+   */
+  private publishMatched(task: {
+    _id: Types.ObjectId;
+    title: string;
+    customerId: Types.ObjectId;
+    matchedProviders?: { providerId: Types.ObjectId }[];
+  }) {
+    if (!task.matchedProviders?.length) return;
+
+    domainEvents.publish(DomainEventType.TASK_MATCHED, {
+      taskId: task._id,
+      taskTitle: task.title,
+      customerId: task.customerId,
+      providerIds: task.matchedProviders.map((m) => m.providerId),
+    });
+  }
+
   /**
    * Create a new task and automatically attempt matching
    */
@@ -81,6 +102,7 @@ export class TaskService {
       };
 
       await task.save();
+      this.publishMatched(task);
 
       // ✅ FIXED: Three-level population
       await task.populate([
@@ -537,6 +559,14 @@ export class TaskService {
 
       await task.addProviderInterest(providerId, data.message);
 
+      domainEvents.publish(DomainEventType.TASK_INTEREST_EXPRESSED, {
+        taskId: task._id,
+        taskTitle: task.title,
+        customerId: task.customerId,
+        providerId,
+        message: data.message,
+      });
+
       await task.populate([
         { path: "customerId", select: "name email" },
         {
@@ -592,6 +622,14 @@ export class TaskService {
         data.message
       );
 
+      domainEvents.publish(DomainEventType.TASK_PROVIDER_REQUESTED, {
+        taskId: task._id,
+        taskTitle: task.title,
+        customerId: task.customerId,
+        providerId: data.providerId,
+        message: data.message,
+      });
+
       await task.populate([
         { path: "customerId", select: "name email" },
         {
@@ -651,6 +689,14 @@ export class TaskService {
       } else {
         await task.rejectTask(new Types.ObjectId(providerId), data.message);
 
+        domainEvents.publish(DomainEventType.TASK_REQUEST_REJECTED, {
+          taskId: task._id,
+          taskTitle: task.title,
+          customerId: task.customerId,
+          providerId,
+          reason: data.message,
+        });
+
         await task.populate([
           { path: "customerId", select: "name email" },
           {
@@ -731,8 +777,21 @@ export class TaskService {
         }
       }
 
+      const requestedProviderId = task.requestedProvider?.providerId;
+
       await task.cancelTask(reason, userRole);
 
+      if (userRole === UserRole.CUSTOMER || userRole === UserRole.PROVIDER) {
+        domainEvents.publish(DomainEventType.TASK_CANCELLED, {
+          taskId: task._id,
+          taskTitle: task.title,
+          customerId: task.customerId,
+          cancelledBy: userRole,
+          requestedProviderId,
+          reason,
+        });
+      }
+
       await task.populate([
         { path: "customerId", select: "name email" },
         {
@@ -895,6 +954,7 @@ export class TaskService {
 
       task.matchingAttemptedAt = new Date();
       await task.save();
+      this.publishMatched(task);
 
       await task.populate([
         { path: "customerId", select: "name email" },
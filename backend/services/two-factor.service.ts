@@ -0,0 +1,393 @@
+// services/two-factor.service.ts
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { User } from "../models/user.model";
+import { AuthProvider } from "../types/base.types";
+import { IUser, TwoFactorMethod, UserTwoFactor } from "../types/user.types";
+import { sendEmail } from "../utils/sendEmail";
+import {
+  buildOtpAuthUrl,
+  generateTotpSecret,
+  matchTotpStep,
+} from "../utils/totp.utils";
+import { getLoginCodeEmailTemplate } from "../utils/useEmailTemplate";
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || "Service Platform";
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const EMAIL_OTP_TTL_MINUTES = 10;
+const BACKUP_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const SECRET_FIELDS = [
+  "+twoFactor.totpSecret",
+  "+twoFactor.pendingTotpSecret",
+  "+twoFactor.lastTotpStep",
+  "+twoFactor.backupCodeHashes",
+  "+twoFactor.emailOtpHash",
+  "+twoFactor.emailOtpExpires",
+].join(" ");
+
+const hash = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+// Backup codes are compared without dashes or case
+const normalizeBackupCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+// Challenge tokens are signed with their own key so they can never be
+// used as access tokens
+const challengeSecret = () => `${process.env.JWT_SECRET}:two-factor`;
+
+// TOTP secrets are encrypted at rest with AES-256-GCM
+const encryptionKey = () =>
+  crypto
+    .createHash("sha256")
+    .update(
+      process.env.TWO_FACTOR_ENCRYPTION_KEY || (process.env.JWT_SECRET as string)
+    )
+    .digest();
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("hex"))
+    .join(".");
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "hex"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
+
+export class TwoFactorService {
+  /**
+   * Admins must have a second factor, however they sign in
+   */
+  isRequiredFor(user: Pick<IUser, "isAdmin" | "isSuperAdmin">) {
+    return !!(user.isAdmin || user.isSuperAdmin);
+  }
+
+  /**
+   * Check an authenticator code. Each code is accepted once: codes from
+   * the last accepted time step, or earlier, are refused.
+   */
+  private acceptTotp(
+    twoFactor: UserTwoFactor,
+    encryptedSecret: string,
+    code: string
+  ): boolean {
+    const step = matchTotpStep(decryptSecret(encryptedSecret), code);
+    if (step === null) return false;
+
+    const last = twoFactor.lastTotpStep;
+    if (last !== undefined && last !== null && step <= last) return false;
+
+    twoFactor.lastTotpStep = step;
+    return true;
+  }
+
+  private generateBackupCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(4).toString("hex");
+      return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map((code) => hash(normalizeBackupCode(code))),
+    };
+  }
+
+  private async findWithSecrets(userId: string) {
+    const user = await User.findById(userId).select(SECRET_FIELDS);
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+    if (!user.twoFactor) user.twoFactor = { enabled: false };
+    return user;
+  }
+
+  // ── Enrollment ──────────────────────────────────────────────────────────
+
+  async getStatus(userId: string) {
+    const user = await User.findById(userId).select(
+      "+twoFactor.backupCodeHashes"
+    );
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+
+    return {
+      enabled: !!user.twoFactor?.enabled,
+      enabledAt: user.twoFactor?.enabledAt,
+      required: this.isRequiredFor(user),
+      backupCodesRemaining: user.twoFactor?.backupCodeHashes?.length ?? 0,
+    };
+  }
+
+  /**
+   * Generate a secret for the user to add to an authenticator app.
+   * Nothing changes until a code from it is confirmed.
+   */
+  async startTotpSetup(userId: string) {
+    const user = await this.findWithSecrets(userId);
+
+    // OAuth accounts rely on their provider, except admins
+    if (
+      user.authProvider !== AuthProvider.CREDENTIALS &&
+      !this.isRequiredFor(user)
+    ) {
+      throw new Error("OAUTH_NO_TWO_FACTOR");
+    }
+
+    if (user.twoFactor!.enabled) {
+      throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor!.pendingTotpSecret = encryptSecret(secret);
+    await user.save();
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email, ISSUER),
+    };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the app; returns backup codes,
+   * which are only ever shown once
+   */
+  async confirmTotpSetup(userId: string, code: string) {
+    const user = await this.findWithSecrets(userId);
+    const twoFactor = user.twoFactor!;
+
+    if (twoFactor.enabled) {
+      throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+    }
+
+    if (!twoFactor.pendingTotpSecret) {
+      throw new Error("TWO_FACTOR_SETUP_NOT_STARTED");
+    }
+
+    if (!this.acceptTotp(twoFactor, twoFactor.pendingTotpSecret, code)) {
+      throw new Error("INVALID_TWO_FACTOR_CODE");
+    }
+
+    const { codes, hashes } = this.generateBackupCodes();
+
+    twoFactor.enabled = true;
+    twoFactor.enabledAt = new Date();
+    twoFactor.totpSecret = twoFactor.pendingTotpSecret;
+    twoFactor.pendingTotpSecret = undefined;
+    twoFactor.backupCodeHashes = hashes;
+    twoFactor.failedAttempts = 0;
+    twoFactor.lockedUntil = undefined;
+    await user.save();
+
+    return { backupCodes: codes };
+  }
+
+  async regenerateBackupCodes(userId: string, code: string) {
+    const user = await this.findWithSecrets(userId);
+    const twoFactor = user.twoFactor!;
+
+    if (!twoFactor.enabled || !twoFactor.totpSecret) {
+      throw new Error("TWO_FACTOR_NOT_ENABLED");
+    }
+
+    if (!this.acceptTotp(twoFactor, twoFactor.totpSecret, code)) {
+      throw new Error("INVALID_TWO_FACTOR_CODE");
+    }
+
+    const { codes, hashes } = this.generateBackupCodes();
+    twoFactor.backupCodeHashes = hashes;
+    await user.save();
+
+    return { backupCodes: codes };
+  }
+
+  /**
+   * Turn 2FA off with the password and a current code or backup code
+   */
+  async disable(userId: string, password: string, code: string) {
+    const user = await User.findById(userId).select(
+      `+password ${SECRET_FIELDS}`
+    );
+    if (!user) {
+      throw new Error("USER_NOT_FOUND");
+    }
+
+    if (!user.twoFactor?.enabled) {
+      throw new Error("TWO_FACTOR_NOT_ENABLED");
+    }
+
+    if (this.isRequiredFor(user)) {
+      throw new Error("TWO_FACTOR_REQUIRED_FOR_ADMIN");
+    }
+
+    if (!user.password || !(await bcrypt.compare(password, user.password))) {
+      throw new Error("INVALID_CURRENT_PASSWORD");
+    }
+
+    const valid =
+      this.acceptTotp(user.twoFactor, user.twoFactor.totpSecret!, code) ||
+      (user.twoFactor.backupCodeHashes || []).includes(
+        hash(normalizeBackupCode(code))
+      );
+
+    if (!valid) {
+      throw new Error("INVALID_TWO_FACTOR_CODE");
+    }
+
+    user.twoFactor = { enabled: false, failedAttempts: 0 };
+    await user.save();
+  }
+
+  // ── Login ───────────────────────────────────────────────────────────────
+
+  /**
+   * Second step token handed out after the password checks out
+   */
+  createLoginChallenge(user: Pick<IUser, "_id">) {
+    const challengeToken = jwt.sign(
+      { userId: user._id.toString() },
+      challengeSecret(),
+      { expiresIn: CHALLENGE_TTL_SECONDS }
+    );
+
+    return {
+      challengeToken,
+      twoFactorMethods: [
+        TwoFactorMethod.TOTP,
+        TwoFactorMethod.BACKUP_CODE,
+        TwoFactorMethod.EMAIL,
+      ],
+    };
+  }
+
+  private readChallenge(challengeToken: string): string {
+    try {
+      const decoded = jwt.verify(challengeToken, challengeSecret()) as {
+        userId: string;
+      };
+      return decoded.userId;
+    } catch {
+      throw new Error("INVALID_TWO_FACTOR_CHALLENGE");
+    }
+  }
+
+  /**
+   * Email a one-time code as a fallback to the authenticator app
+   */
+  async sendLoginEmailCode(challengeToken: string): Promise<void> {
+    const user = await this.findWithSecrets(this.readChallenge(challengeToken));
+
+    if (!user.twoFactor!.enabled) {
+      throw new Error("TWO_FACTOR_NOT_ENABLED");
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+    user.twoFactor!.emailOtpHash = hash(code);
+    user.twoFactor!.emailOtpExpires = new Date(
+      Date.now() + EMAIL_OTP_TTL_MINUTES * 60 * 1000
+    );
+    await user.save();
+
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: "Your Sign-in Code",
+        text: `Your sign-in code is ${code}. It expires in ${EMAIL_OTP_TTL_MINUTES} minutes.`,
+        html: getLoginCodeEmailTemplate(user.name, code, EMAIL_OTP_TTL_MINUTES),
+      });
+    } catch (emailError) {
+      console.error("Failed to send sign-in code email:", emailError);
+      throw new Error("EMAIL_SEND_FAILED");
+    }
+  }
+
+  /**
+   * Finish a two-step login; returns the user on success
+   */
+  async verifyLoginChallenge(
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod = TwoFactorMethod.TOTP
+  ) {
+    const user = await this.findWithSecrets(this.readChallenge(challengeToken));
+    const twoFactor = user.twoFactor!;
+
+    if (!twoFactor.enabled) {
+      throw new Error("TWO_FACTOR_NOT_ENABLED");
+    }
+
+    if (twoFactor.lockedUntil && twoFactor.lockedUntil > new Date()) {
+      throw new Error("TWO_FACTOR_LOCKED");
+    }
+
+    let valid = false;
+
+    switch (method) {
+      case TwoFactorMethod.TOTP:
+        valid =
+          !!twoFactor.totpSecret &&
+          this.acceptTotp(twoFactor, twoFactor.totpSecret, code);
+        break;
+
+      case TwoFactorMethod.BACKUP_CODE: {
+        const codeHash = hash(normalizeBackupCode(code));
+        const remaining = twoFactor.backupCodeHashes || [];
+        valid = remaining.includes(codeHash);
+        // Each backup code works once
+        if (valid) {
+          twoFactor.backupCodeHashes = remaining.filter((h) => h !== codeHash);
+        }
+        break;
+      }
+
+      case TwoFactorMethod.EMAIL:
+        valid =
+          !!twoFactor.emailOtpHash &&
+          !!twoFactor.emailOtpExpires &&
+          twoFactor.emailOtpExpires > new Date() &&
+          twoFactor.emailOtpHash === hash(code.trim());
+        if (valid) {
+          twoFactor.emailOtpHash = undefined;
+          twoFactor.emailOtpExpires = undefined;
+        }
+        break;
+    }
+
+    if (!valid) {
+      twoFactor.failedAttempts = (twoFactor.failedAttempts || 0) + 1;
+      if (twoFactor.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        twoFactor.failedAttempts = 0;
+        twoFactor.lockedUntil = new Date(
+          Date.now() + LOCKOUT_MINUTES * 60 * 1000
+        );
+      }
+      await user.save();
+      throw new Error("INVALID_TWO_FACTOR_CODE");
+    }
+
+    twoFactor.failedAttempts = 0;
+    twoFactor.lockedUntil = undefined;
+    user.security.lastLogin = new Date();
+    await user.save();
+
+    return user;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,173 @@
+// types/audit-log.types.ts
+
+import { Model, Types } from "mongoose";
+import { SystemRole } from "./base.types";
+
+/**
+ * What was done. Admin actions and sensitive self-service changes.
+ */
+export enum AuditAction {
+  // Users
+  USER_ROLE_CHANGED = "user.role_changed",
+  USER_DELETED = "user.deleted",
+  USER_RESTORED = "user.restored",
+  USER_PROFILE_UPDATED = "user_profile.updated",
+  USER_PROFILE_PERMANENTLY_DELETED = "user_profile.permanently_deleted",
+
+  // Services
+  SERVICE_APPROVED = "service.approved",
+  SERVICE_REJECTED = "service.rejected",
+  SERVICE_UPDATED = "service.updated",
+  SERVICE_DELETED = "service.deleted",
+  SERVICE_RESTORED = "service.restored",
+
+  // Categories
+  CATEGORY_CREATED = "category.created",
+  CATEGORY_UPDATED = "category.updated",
+  CATEGORY_DELETED = "category.deleted",
+  CATEGORY_RESTORED = "category.restored",
+  CATEGORY_PERMANENTLY_DELETED = "category.permanently_deleted",
+
+  // Provider moderation
+  PROVIDER_APPROVED = "provider.approved",
+  PROVIDER_REJECTED = "provider.rejected",
+  PROVIDER_SUSPENDED = "provider.suspended",
+  PROVIDER_UNSUSPENDED = "provider.unsuspended",
+  PROVIDER_RESUBMITTED = "provider.resubmitted",
+  PROVIDER_UPDATED = "provider.updated",
+  PROVIDER_DELETED = "provider.deleted",
+  PROVIDER_RESTORED = "provider.restored",
+
+  // Client moderation
+  CLIENT_UPDATED = "client.updated",
+  CLIENT_VERIFICATION_UPDATED = "client.verification_updated",
+  CLIENT_DELETED = "client.deleted",
+  CLIENT_RESTORED = "client.restored",
+
+  // Sensitive profile changes
+  ID_DETAILS_UPDATED = "profile.id_details_updated",
+  PAYMENT_METHOD_ADDED = "profile.payment_method_added",
+  PAYMENT_METHOD_REMOVED = "profile.payment_method_removed",
+  LOCATION_UPDATED = "profile.location_updated",
+  ADDRESS_ADDED = "profile.address_added",
+  ADDRESS_UPDATED = "profile.address_updated",
+  ADDRESS_REMOVED = "profile.address_removed",
+
+  // Identity verification
+  KYC_SUBMITTED = "kyc.submitted",
+  KYC_REVIEW_STARTED = "kyc.review_started",
+  KYC_APPROVED = "kyc.approved",
+  KYC_REJECTED = "kyc.rejected",
+  KYC_RESUBMISSION_REQUESTED = "kyc.resubmission_requested",
+
+  // Money and bookings
+  BOOKING_REFUNDED = "booking.refunded",
+  BOOKING_PAID_OUT = "booking.paid_out",
+  DISPUTE_REVIEWED = "dispute.reviewed",
+  DISPUTE_RESOLVED = "dispute.resolved",
+
+  // Reviews
+  REVIEW_MODERATED = "review.moderated",
+
+  // Files
+  FILE_MALWARE_DETECTED = "file.malware_detected",
+  FILE_RESCANNED = "file.rescanned",
+  FILE_QUARANTINE_DELETED = "file.quarantine_deleted",
+
+  // Operations
+  JOB_TRIGGERED = "job.triggered",
+}
+
+/**
+ * Kind of record an audit entry is about
+ */
+export enum AuditEntityType {
+  USER = "user",
+  USER_PROFILE = "user_profile",
+  CLIENT_PROFILE = "client_profile",
+  PROVIDER_PROFILE = "provider_profile",
+  KYC_SUBMISSION = "kyc_submission",
+  SERVICE = "service",
+  CATEGORY = "category",
+  BOOKING = "booking",
+  REVIEW = "review",
+  FILE = "file",
+  JOB = "job",
+}
+
+/**
+ * Who did it and from where. Entries without an actor were made by
+ * the system, e.g. a scheduled job.
+ */
+export interface AuditContext {
+  actorId?: string;
+  actorRole?: SystemRole;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * One changed field; nested fields use dotted paths
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Audit Log Entry (Model)
+ * Append-only; entries are never updated
+ */
+export interface AuditLogEntry {
+  _id: Types.ObjectId;
+  actorId?: Types.ObjectId;
+  actorRole?: SystemRole;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: AuditChange[];
+  metadata?: Record<string, unknown>; // Reason, notes and other context
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export interface AuditLogEntryModel extends Model<AuditLogEntry> {}
+
+/**
+ * What a service passes to record an entry. `before` and `after` are
+ * snapshots of the entity; only the fields that differ are stored.
+ */
+export interface AuditRecordInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | Types.ObjectId;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  fields?: string[]; // Limit the diff to these top-level fields
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Filters for the admin audit log endpoints
+ */
+export interface AuditLogFilters {
+  actorId?: string;
+  actions?: AuditAction[];
+  entityType?: AuditEntityType;
+  entityId?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogListResponse {
+  entries: AuditLogEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
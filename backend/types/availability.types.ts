@@ -0,0 +1,92 @@
+// types/availability.types.ts
+
+import { Types } from "mongoose";
+
+/**
+ * Day keys used in `ProviderProfile.workingHours`
+ */
+export enum WeekDay {
+  SUNDAY = "sunday",
+  MONDAY = "monday",
+  TUESDAY = "tuesday",
+  WEDNESDAY = "wednesday",
+  THURSDAY = "thursday",
+  FRIDAY = "friday",
+  SATURDAY = "saturday",
+}
+
+/**
+ * Time window in HH:MM (24-hour) format
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Provider-declared period with no availability (leave, holidays, etc.)
+ */
+export interface BlackoutDate {
+  _id?: Types.ObjectId;
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Reason a requested slot is not available
+ */
+export type AvailabilityConflictType =
+  | "outside_working_hours"
+  | "blackout"
+  | "booking_overlap";
+
+export interface AvailabilityConflict {
+  type: AvailabilityConflictType;
+  message: string;
+  bookingId?: Types.ObjectId;
+  blackoutId?: Types.ObjectId;
+}
+
+/**
+ * Result of checking a single date + slot
+ */
+export interface SlotAvailabilityResult {
+  available: boolean;
+  conflicts: AvailabilityConflict[];
+}
+
+/**
+ * Availability for one calendar day
+ */
+export interface DayAvailability {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: WeekDay;
+  isWorkingDay: boolean;
+  isBlackedOut: boolean;
+  workingWindow?: TimeWindow;
+  busySlots: Array<TimeWindow & { bookingId: Types.ObjectId }>;
+  freeSlots: TimeWindow[];
+}
+
+/**
+ * Provider availability over a date range
+ */
+export interface ProviderAvailabilityResponse {
+  providerId: Types.ObjectId;
+  from: string;
+  to: string;
+  slotMinutes: number;
+  isAlwaysAvailable: boolean;
+  days: DayAvailability[];
+}
+
+/**
+ * Request Body: Add Blackout Date
+ */
+export interface AddBlackoutDateRequestBody {
+  startDate: string | Date;
+  endDate: string | Date;
+  reason?: string;
+}
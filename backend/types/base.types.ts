@@ -18,6 +18,14 @@ export interface Coordinates {
   longitude: number;
 }
 
+/**
+ * GeoJSON point - coordinates are [longitude, latitude]
+ */
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
 export interface UserLocation {
   // Core (User-provided)
   ghanaPostGPS: string; // e.g. "GA-123-4567"
@@ -33,6 +41,7 @@ export interface UserLocation {
 
   // Technical / Validation
   gpsCoordinates?: Coordinates; // auto-filled from lookup
+  geoPoint?: GeoPoint; // derived from gpsCoordinates, 2dsphere indexed
   isAddressVerified?: boolean; // true when verified via API lookup
   sourceProvider?: "openstreetmap" | "google" | "ghanapost"; // helpful for debugging
 
@@ -41,6 +50,24 @@ export interface UserLocation {
   updatedAt?: Date;
 }
 
+/**
+ * Denormalized review aggregates
+ */
+export interface RatingStats {
+  averageRating: number;
+  totalReviews: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+/**
+ * Which channels a user wants notifications on
+ */
+export interface CommunicationPreferences {
+  emailNotifications: boolean;
+  smsNotifications: boolean;
+  pushNotifications: boolean;
+}
+
 export interface SocialMediaHandle {
   nameOfSocial: string;
   userName: string;
@@ -74,6 +101,7 @@ export interface IdDetails {
   idType: idType;
   idNumber: string;
   fileImage: Types.ObjectId[];
+  verifiedAt?: Date; // Set by an approved KYC review, cleared when the details change
 }
 
 // Enums
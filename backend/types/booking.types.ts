@@ -1,6 +1,7 @@
 // types/booking.types.ts - UPDATED WITH VALIDATION WORKFLOW
 
 import { Types, Model, HydratedDocument } from "mongoose";
+import { DisputeOutcome } from "./dispute.types";
 
 /**
  * Booking Status - EXECUTION PHASE WITH VALIDATION WORKFLOW
@@ -24,9 +25,65 @@ export enum PaymentStatus {
   PARTIALLY_PAID = "PARTIALLY_PAID",
   PAID = "PAID",
   REFUNDED = "REFUNDED",
+  PARTIALLY_REFUNDED = "PARTIALLY_REFUNDED",
   FAILED = "FAILED",
 }
 
+/**
+ * Reschedule Proposal Status
+ */
+export enum RescheduleProposalStatus {
+  PENDING = "PENDING",
+  ACCEPTED = "ACCEPTED",
+  DECLINED = "DECLINED",
+  WITHDRAWN = "WITHDRAWN",
+  EXPIRED = "EXPIRED",
+}
+
+/**
+ * Reschedule Proposal - one party proposes, the other accepts or declines
+ */
+export interface RescheduleProposal {
+  status: RescheduleProposalStatus;
+  proposedBy: Types.ObjectId;
+  proposedByRole: string;
+  proposedDate: Date;
+  proposedTimeSlot: {
+    start: string;
+    end: string;
+  };
+  previousDate: Date;
+  previousTimeSlot: {
+    start: string;
+    end: string;
+  };
+  reason?: string;
+  proposedAt: Date;
+  expiresAt: Date;
+  respondedBy?: Types.ObjectId;
+  respondedAt?: Date;
+  responseMessage?: string;
+}
+
+/**
+ * Request body: propose a new date/slot
+ */
+export interface ProposeRescheduleRequestBody {
+  newDate: string | Date;
+  newTimeSlot?: {
+    start: string;
+    end: string;
+  };
+  reason?: string;
+}
+
+/**
+ * Request body: accept or decline a proposal
+ */
+export interface RespondRescheduleRequestBody {
+  message?: string;
+}
+
 /**
  * Status History Entry
  */
@@ -68,9 +125,11 @@ export interface Booking {
   serviceDescription: string;
   specialInstructions?: string;
   estimatedPrice?: number;
+  travelFee?: number; // From the provider's service area, included in estimatedPrice
   finalPrice?: number;
   depositAmount?: number;
   depositPaid?: boolean;
+  depositDueBy?: Date; // Unpaid deposits past this are auto-cancelled
   currency: string;
   status: BookingStatus;
   paymentStatus: PaymentStatus;
@@ -83,6 +142,10 @@ export interface Booking {
   customerRating?: number;
   customerReview?: string;
 
+  // Rescheduling
+  rescheduleProposal?: RescheduleProposal;
+  rescheduleCount?: number;
+
   // Soft delete
   isDeleted?: boolean;
   deletedAt?: Date;
@@ -113,6 +176,8 @@ export interface Booking {
   readonly requiresDeposit?: boolean;
   readonly depositRemaining?: number;
   readonly balanceRemaining?: number;
+  readonly hasPendingReschedule?: boolean;
+  readonly reschedulesRemaining?: number;
 }
 
 /**
@@ -154,11 +219,34 @@ export interface BookingMethods {
     actorId?: Types.ObjectId
   ): Promise<HydratedDocument<Booking, BookingMethods>>;
   
-  reschedule(
+  proposeReschedule(
+    actorId: Types.ObjectId,
+    actorRole: string,
     newDate: Date,
     newTimeSlot?: { start: string; end: string },
-    actorId?: Types.ObjectId,
-    actorRole?: string
+    reason?: string
+  ): Promise<HydratedDocument<Booking, BookingMethods>>;
+
+  respondToReschedule(
+    actorId: Types.ObjectId,
+    actorRole: string,
+    accept: boolean,
+    message?: string
+  ): Promise<HydratedDocument<Booking, BookingMethods>>;
+
+  withdrawReschedule(
+    actorId: Types.ObjectId,
+    actorRole: string
+  ): Promise<HydratedDocument<Booking, BookingMethods>>;
+
+  expireRescheduleProposal(): Promise<HydratedDocument<Booking, BookingMethods>>;
+
+  // Admin settles a DISPUTED booking
+  resolveDispute(
+    outcome: DisputeOutcome,
+    adminId: Types.ObjectId,
+    finalPrice?: number,
+    note?: string
   ): Promise<HydratedDocument<Booking, BookingMethods>>;
 }
 
@@ -0,0 +1,100 @@
+// types/dispute.types.ts
+
+import { Types, Model, HydratedDocument } from "mongoose";
+
+/**
+ * Dispute Case Status
+ */
+export enum DisputeStatus {
+  OPEN = "OPEN", // Raised by customer, awaiting admin
+  UNDER_REVIEW = "UNDER_REVIEW", // Admin has picked it up
+  RESOLVED = "RESOLVED",
+}
+
+/**
+ * Admin resolution outcomes
+ */
+export enum DisputeOutcome {
+  MARK_COMPLETED = "MARK_COMPLETED", // Provider paid in full
+  PARTIAL_REFUND = "PARTIAL_REFUND", // Completed at an adjusted finalPrice
+  CANCEL_AND_REFUND = "CANCEL_AND_REFUND", // Booking cancelled, customer refunded
+}
+
+/**
+ * Statement added by the customer or provider
+ */
+export interface DisputeStatement {
+  _id?: Types.ObjectId;
+  authorId: Types.ObjectId;
+  authorRole: string;
+  message: string;
+  evidence: Types.ObjectId[]; // File IDs
+  createdAt: Date;
+}
+
+/**
+ * Admin resolution record
+ */
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  resolvedBy: Types.ObjectId;
+  resolvedAt: Date;
+  note?: string;
+  originalPrice?: number;
+  adjustedPrice?: number;
+  refundAmount?: number;
+}
+
+/**
+ * Dispute Case (Model)
+ * One case per disputed booking
+ */
+export interface DisputeCase {
+  _id: Types.ObjectId;
+  bookingId: Types.ObjectId;
+  taskId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  providerId: Types.ObjectId;
+  status: DisputeStatus;
+  reason: string;
+  openedBy?: Types.ObjectId;
+  openedAt: Date;
+  statements: DisputeStatement[];
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  resolution?: DisputeResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DisputeCaseMethods {
+  addStatement(
+    authorId: Types.ObjectId,
+    authorRole: string,
+    message: string,
+    evidence?: Types.ObjectId[]
+  ): Promise<HydratedDocument<DisputeCase, DisputeCaseMethods>>;
+
+  markUnderReview(
+    adminId: Types.ObjectId
+  ): Promise<HydratedDocument<DisputeCase, DisputeCaseMethods>>;
+}
+
+export interface DisputeCaseModel
+  extends Model<DisputeCase, {}, DisputeCaseMethods> {}
+
+/**
+ * Request body: add a statement (multipart; files under `evidence`)
+ */
+export interface AddDisputeStatementRequestBody {
+  message: string;
+}
+
+/**
+ * Request body: admin resolves a dispute
+ */
+export interface ResolveDisputeRequestBody {
+  outcome: DisputeOutcome;
+  finalPrice?: number; // Required for PARTIAL_REFUND
+  note?: string;
+}
@@ -5,6 +5,8 @@ declare global {
     interface Request {
       userId?: string;
       user?: IUser;
+      sessionId?: string;
+      rawBody?: Buffer; // Unparsed JSON body, for verifying callback signatures
     }
   }
 }
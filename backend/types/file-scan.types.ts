@@ -0,0 +1,39 @@
+// types/file-scan.types.ts
+
+import { Readable } from "stream";
+
+/**
+ * Scanner that checks uploads. "none" stores everything unscanned.
+ */
+export type FileScannerName = "clamav" | "none";
+
+export enum ScanVerdict {
+  CLEAN = "clean",
+  INFECTED = "infected",
+  ERROR = "error", // The scan could not complete; the file is quarantined
+  SKIPPED = "skipped", // No scanner is configured
+}
+
+export interface ScanResult {
+  verdict: ScanVerdict;
+  scanner: FileScannerName;
+  signature?: string; // Name of what was found, for infected files
+  reason?: string; // Why the scan failed, for errors
+}
+
+/**
+ * A malware scanner. Scanners report failures as an ERROR verdict
+ * rather than throwing.
+ */
+export interface FileScanner {
+  readonly name: FileScannerName;
+  scan(body: Buffer | Readable): Promise<ScanResult>;
+}
+
+/**
+ * Outcome of the last scan, kept in File.metadata.scan
+ */
+export interface FileScanRecord extends ScanResult {
+  scannedAt: Date;
+  attempts: number;
+}
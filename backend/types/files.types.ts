@@ -1,4 +1,17 @@
-import { Types } from "mongoose";
+import { Model, Types } from "mongoose";
+import { SystemRole } from "./base.types";
+
+/**
+ * Public files are served straight from storage; private ones only
+ * through signed, expiring URLs or the authenticated content route
+ */
+export type FileVisibility = "public" | "private";
+
+/**
+ * Quarantined files could not be scanned for malware yet. They can't
+ * be read until a rescan passes.
+ */
+export type FileStatus = "active" | "archived" | "quarantined";
 
 /**
  * File document interface with instance methods
@@ -14,6 +27,8 @@ export interface File {
   fileSize?: number;
   mimeType?: string;
   storageProvider: "local" | "s3" | "cloudinary" | "gcs" | "mega";
+  storageKey?: string; // Object key within the storage provider
+  visibility: FileVisibility;
 
   // Additional fields
   metadata?: Record<string, any>;
@@ -26,7 +41,7 @@ export interface File {
   label?: string;
 
   // File status
-  status: "active" | "archived";
+  status: FileStatus;
 
   // Access tracking
   lastAccessedAt?: Date;
@@ -35,3 +50,57 @@ export interface File {
   uploadedAt: Date;
   deletedAt?: Date;
 }
+
+/**
+ * Who is acting on an entity's attachments
+ */
+export interface AttachmentActor {
+  userId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * How a private file was reached
+ */
+export enum FileAccessMethod {
+  SIGNED_URL = "signed_url",
+  STREAM = "stream",
+}
+
+/**
+ * Why access to a private file was allowed
+ */
+export enum FileAccessGrant {
+  ADMIN = "admin",
+  UPLOADER = "uploader",
+  OWNER = "owner",
+  COUNTERPARTY = "counterparty",
+}
+
+/**
+ * One read of a private file
+ */
+export interface FileAccessLogEntry {
+  _id: Types.ObjectId;
+  fileId: Types.ObjectId;
+  userId: Types.ObjectId;
+  userRole?: SystemRole;
+  method: FileAccessMethod;
+  grant: FileAccessGrant;
+  entityType?: string;
+  entityId?: Types.ObjectId;
+  label?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export type FileAccessLogModel = Model<FileAccessLogEntry>;
+
+/**
+ * Request bodies
+ */
+export interface UpdateAttachmentRequestBody {
+  description?: string;
+  tags?: string[];
+}
@@ -0,0 +1,104 @@
+// types/jobs.types.ts
+
+import { Types, Model } from "mongoose";
+import { TaskStatus } from "./tasks.types";
+
+/**
+ * Job Run Status
+ */
+export enum JobRunStatus {
+  RUNNING = "RUNNING",
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED",
+  SKIPPED = "SKIPPED", // Lock held by another instance
+}
+
+/**
+ * How a job run was started
+ */
+export enum JobTrigger {
+  SCHEDULE = "SCHEDULE",
+  MANUAL = "MANUAL",
+}
+
+/**
+ * A single entity state change performed by a job
+ */
+export interface JobTransition {
+  entityType: "Task" | "Booking";
+  entityId: Types.ObjectId;
+  fromStatus: string;
+  toStatus: string;
+  reason?: string;
+  timestamp: Date;
+}
+
+/**
+ * Job Run (Model)
+ */
+export interface JobRun {
+  _id: Types.ObjectId;
+  jobName: string;
+  status: JobRunStatus;
+  trigger: JobTrigger;
+  triggeredBy?: Types.ObjectId;
+  instanceId: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  processedCount: number;
+  transitions: JobTransition[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobRunModel extends Model<JobRun> {}
+
+/**
+ * Job Lock (Model)
+ * One document per job name; `_id` is the job name
+ */
+export interface JobLock {
+  _id: string;
+  lockedBy?: string;
+  lockedAt?: Date;
+  lockedUntil?: Date;
+}
+
+export interface JobLockModel extends Model<JobLock> {}
+
+/**
+ * Context passed to a job handler on each run
+ */
+export interface JobContext {
+  runId: Types.ObjectId;
+  trigger: JobTrigger;
+  recordTransition(transition: Omit<JobTransition, "timestamp">): void;
+}
+
+/**
+ * Result returned by a job handler
+ */
+export interface JobResult {
+  processedCount: number;
+}
+
+/**
+ * Job Definition registered with the runner
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  lockTtlMs: number;
+  handler(context: JobContext): Promise<JobResult>;
+}
+
+/**
+ * Task lifecycle job configuration
+ */
+export interface TaskLifecycleJobConfig {
+  expirableStatuses: TaskStatus[];
+  matchedFloatAfterHours: number;
+}
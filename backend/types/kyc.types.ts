@@ -0,0 +1,105 @@
+// types/kyc.types.ts
+
+import { Model, Types } from "mongoose";
+import { BaseEntity, idType } from "./base.types";
+
+/**
+ * Whose identity document is under review
+ */
+export enum KycOwnerType {
+  CLIENT = "client",
+  PROVIDER = "provider",
+}
+
+/**
+ * Review lifecycle of a submission. Approved, rejected and
+ * needs_resubmission are final; the owner submits again after the
+ * last two.
+ */
+export enum KycStatus {
+  SUBMITTED = "submitted",
+  IN_REVIEW = "in_review",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  NEEDS_RESUBMISSION = "needs_resubmission",
+}
+
+export enum KycRejectionReason {
+  ILLEGIBLE_IMAGE = "illegible_image",
+  MISSING_IMAGES = "missing_images",
+  EXPIRED_DOCUMENT = "expired_document",
+  NAME_MISMATCH = "name_mismatch",
+  ID_NUMBER_MISMATCH = "id_number_mismatch",
+  DUPLICATE_ID = "duplicate_id",
+  SUSPECTED_FRAUD = "suspected_fraud",
+  OTHER = "other",
+}
+
+/**
+ * Another account holding the same ID number
+ */
+export interface KycDuplicateMatch {
+  ownerType: KycOwnerType;
+  profileId: Types.ObjectId;
+  userId?: Types.ObjectId;
+  source: "profile" | "submission";
+  submissionId?: Types.ObjectId;
+  status?: KycStatus; // Of the matching submission
+}
+
+export interface KycStatusChange {
+  status: KycStatus;
+  changedBy?: Types.ObjectId; // User ID; the owner on submission, else an admin
+  changedAt: Date;
+  note?: string;
+}
+
+/**
+ * One review of a client's or provider's ID document (Model). The ID
+ * details are copied at submission so later profile edits don't change
+ * what was reviewed.
+ */
+export interface KycSubmission extends BaseEntity {
+  ownerType: KycOwnerType;
+  profileId: Types.ObjectId; // ClientProfile or ProviderProfile
+  userId: Types.ObjectId;
+
+  idType: idType;
+  idNumber: string; // Normalized
+  fileImage: Types.ObjectId[];
+
+  status: KycStatus;
+  submittedAt: Date;
+  attempt: number; // 1 for the first submission on this profile
+
+  reviewedBy?: Types.ObjectId; // Admin who picked it up or decided
+  reviewStartedAt?: Date;
+  reviewedAt?: Date;
+  reviewerNotes?: string;
+  rejectionReason?: KycRejectionReason;
+  rejectionDetails?: string; // Shown to the owner
+
+  duplicates: KycDuplicateMatch[];
+  history: KycStatusChange[];
+}
+
+export interface KycSubmissionModel extends Model<KycSubmission> {}
+
+export interface KycQueueFilters {
+  statuses?: KycStatus[]; // Defaults to submitted and in_review
+  ownerType?: KycOwnerType;
+  idType?: idType;
+  duplicatesOnly?: boolean;
+}
+
+// ── Request bodies ────────────────────────────────────────────────────────
+
+export interface ApproveKycRequestBody {
+  notes?: string;
+}
+
+export interface RejectKycRequestBody {
+  reason: KycRejectionReason;
+  details?: string;
+  notes?: string;
+}
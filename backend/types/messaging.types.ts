@@ -0,0 +1,86 @@
+// types/messaging.types.ts
+
+import { Model, Types } from "mongoose";
+import { UserRole } from "./base.types";
+
+/**
+ * Message Type
+ */
+export enum MessageType {
+  TEXT = "TEXT", // Written by the customer or provider
+  SYSTEM = "SYSTEM", // Posted automatically on status changes
+}
+
+/**
+ * Who wrote a message. System messages have no sender.
+ */
+export type MessageSenderRole = UserRole.CUSTOMER | UserRole.PROVIDER | "system";
+
+/**
+ * Read receipt for one participant
+ */
+export interface MessageReceipt {
+  userId: Types.ObjectId;
+  readAt: Date;
+}
+
+/**
+ * Conversation (Model)
+ * One thread per task and provider, carried over to the booking
+ * when the task converts
+ */
+export interface Conversation {
+  _id: Types.ObjectId;
+  taskId: Types.ObjectId;
+  bookingId?: Types.ObjectId;
+  customerId: Types.ObjectId; // User ID (as on Task)
+  providerId: Types.ObjectId; // ProviderProfile ID
+  participants: Types.ObjectId[]; // User IDs of the customer and provider
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationModel extends Model<Conversation> {}
+
+/**
+ * Message (Model)
+ */
+export interface Message {
+  _id: Types.ObjectId;
+  conversationId: Types.ObjectId;
+  type: MessageType;
+  senderId?: Types.ObjectId; // User ID; absent for system messages
+  senderRole: MessageSenderRole;
+  body: string;
+  attachments: Types.ObjectId[]; // File IDs
+  readBy: MessageReceipt[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MessageModel extends Model<Message> {}
+
+/**
+ * Caller of the messaging API
+ */
+export interface ConversationViewer {
+  userId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Request body: open a task conversation.
+ * Customers name the provider; providers open their own thread.
+ */
+export interface OpenTaskConversationRequestBody {
+  providerId?: string;
+}
+
+/**
+ * Request body: send a message (multipart; files under `attachments`)
+ */
+export interface SendMessageRequestBody {
+  body?: string;
+}
@@ -0,0 +1,287 @@
+// types/notification.types.ts
+
+import { Model, Types } from "mongoose";
+import { CommunicationPreferences, UserRole } from "./base.types";
+import { BookingStatus } from "./booking.types";
+import { ScanResult } from "./file-scan.types";
+import {
+  KycOwnerType,
+  KycRejectionReason,
+  KycStatus,
+} from "./kyc.types";
+import { ProviderApprovalAction } from "./profiles/providerProfile.types";
+import { TaskStatus } from "./tasks.types";
+
+// ── Domain events ─────────────────────────────────────────────────────────
+
+/**
+ * Things that happen to tasks, bookings, provider accounts, ID checks
+ * and uploaded files that other parts of the system (notifications, analytics) react to
+ */
+export enum DomainEventType {
+  // Discovery phase
+  TASK_MATCHED = "task.matched",
+  TASK_INTEREST_EXPRESSED = "task.interest_expressed",
+  TASK_PROVIDER_REQUESTED = "task.provider_requested",
+  TASK_REQUEST_ACCEPTED = "task.request_accepted",
+  TASK_REQUEST_REJECTED = "task.request_rejected",
+  TASK_CANCELLED = "task.cancelled",
+  TASK_STATUS_CHANGED = "task.status_changed",
+
+  // Execution phase
+  BOOKING_STARTED = "booking.started",
+  BOOKING_COMPLETED = "booking.completed",
+  BOOKING_VALIDATED = "booking.validated",
+  BOOKING_DISPUTED = "booking.disputed",
+  BOOKING_CANCELLED = "booking.cancelled",
+  BOOKING_RESCHEDULE_PROPOSED = "booking.reschedule_proposed",
+  BOOKING_RESCHEDULE_ANSWERED = "booking.reschedule_answered",
+  BOOKING_STATUS_CHANGED = "booking.status_changed",
+
+  // Provider account
+  PROVIDER_APPROVAL_CHANGED = "provider.approval_changed",
+
+  // Identity verification
+  KYC_REVIEWED = "kyc.reviewed",
+
+  // Uploaded files
+  FILE_SCAN_FAILED = "file.scan_failed",
+}
+
+type Id = Types.ObjectId | string;
+
+interface TaskEventBase {
+  taskId: Id;
+  taskTitle: string;
+  customerId: Id; // User ID
+}
+
+interface BookingEventBase {
+  bookingId: Id;
+  bookingNumber: string;
+  clientId: Id;
+  providerId: Id; // ProviderProfile ID
+}
+
+/**
+ * Payload carried by each event
+ */
+export interface DomainEventPayloads {
+  [DomainEventType.TASK_MATCHED]: TaskEventBase & {
+    providerIds: Id[];
+  };
+  [DomainEventType.TASK_INTEREST_EXPRESSED]: TaskEventBase & {
+    providerId: Id;
+    message?: string;
+  };
+  [DomainEventType.TASK_PROVIDER_REQUESTED]: TaskEventBase & {
+    providerId: Id;
+    message?: string;
+  };
+  [DomainEventType.TASK_REQUEST_ACCEPTED]: TaskEventBase & {
+    providerId: Id;
+    bookingId: Id;
+    bookingNumber: string;
+    message?: string;
+  };
+  [DomainEventType.TASK_REQUEST_REJECTED]: TaskEventBase & {
+    providerId: Id;
+    reason?: string;
+  };
+  [DomainEventType.TASK_CANCELLED]: TaskEventBase & {
+    cancelledBy: UserRole.CUSTOMER | UserRole.PROVIDER;
+    requestedProviderId?: Id;
+    reason?: string;
+  };
+  [DomainEventType.TASK_STATUS_CHANGED]: TaskEventBase & {
+    fromStatus?: TaskStatus; // Absent when the task was just created
+    toStatus: TaskStatus;
+    matchedProviderIds: Id[];
+    requestedProviderId?: Id;
+    acceptedProviderId?: Id;
+  };
+  [DomainEventType.BOOKING_STARTED]: BookingEventBase;
+  [DomainEventType.BOOKING_COMPLETED]: BookingEventBase & {
+    finalPrice?: number;
+  };
+  [DomainEventType.BOOKING_VALIDATED]: BookingEventBase & {
+    rating?: number;
+  };
+  [DomainEventType.BOOKING_DISPUTED]: BookingEventBase & {
+    reason?: string;
+  };
+  [DomainEventType.BOOKING_CANCELLED]: BookingEventBase & {
+    cancelledBy: UserRole.CUSTOMER | UserRole.PROVIDER;
+    reason?: string;
+  };
+  [DomainEventType.BOOKING_RESCHEDULE_PROPOSED]: BookingEventBase & {
+    proposedBy: UserRole.CUSTOMER | UserRole.PROVIDER;
+    proposedDate: Date;
+    reason?: string;
+  };
+  [DomainEventType.BOOKING_RESCHEDULE_ANSWERED]: BookingEventBase & {
+    answeredBy: UserRole.CUSTOMER | UserRole.PROVIDER;
+    accepted: boolean;
+  };
+  [DomainEventType.BOOKING_STATUS_CHANGED]: BookingEventBase & {
+    fromStatus?: BookingStatus; // Absent when the booking was just created
+    toStatus: BookingStatus;
+    actorRole?: string; // Who made the change, from the status history
+  };
+  [DomainEventType.PROVIDER_APPROVAL_CHANGED]: {
+    providerId: Id; // ProviderProfile ID
+    action: ProviderApprovalAction;
+    reason?: string;
+    suspendedUntil?: Date;
+  };
+  [DomainEventType.KYC_REVIEWED]: {
+    submissionId: Id;
+    ownerType: KycOwnerType;
+    profileId: Id; // ClientProfile or ProviderProfile ID
+    status: KycStatus; // The decision
+    reason?: KycRejectionReason;
+    details?: string;
+  };
+  [DomainEventType.FILE_SCAN_FAILED]: {
+    fileId?: Id; // Absent when an infected upload was refused
+    fileName: string;
+    label?: string;
+    uploaderId?: Id; // User ID
+    result: ScanResult; // Infected, or the scan could not complete
+  };
+}
+
+export type DomainEvent<E extends DomainEventType = DomainEventType> = {
+  type: E;
+  payload: DomainEventPayloads[E];
+  occurredAt: Date;
+};
+
+export type DomainEventListener<E extends DomainEventType> = (
+  event: DomainEvent<E>
+) => void | Promise<void>;
+
+// ── Notifications ─────────────────────────────────────────────────────────
+
+export enum NotificationChannel {
+  EMAIL = "email",
+  SMS = "sms",
+  PUSH = "push",
+}
+
+/**
+ * Who to notify. Customers may be given by User ID or ClientProfile ID,
+ * providers by ProviderProfile ID.
+ */
+export interface NotificationTarget {
+  role: UserRole.CUSTOMER | UserRole.PROVIDER;
+  id: Id;
+}
+
+/**
+ * A notification target resolved to contact details and preferences
+ */
+export interface NotificationRecipient {
+  userId: Types.ObjectId;
+  role: UserRole.CUSTOMER | UserRole.PROVIDER;
+  name?: string;
+  email?: string;
+  phone?: string;
+  preferences: CommunicationPreferences;
+}
+
+/**
+ * Channel-agnostic notification content
+ */
+export interface NotificationMessage {
+  event: DomainEventType;
+  title: string; // Email subject / push title
+  body: string; // Plain text, short enough for SMS
+  data?: Record<string, string>; // Deep-link data for push / in-app
+}
+
+// ── Transport contracts ───────────────────────────────────────────────────
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface PushMessage {
+  userId: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  send(message: PushMessage): Promise<void>;
+}
+
+// ── In-app inbox ──────────────────────────────────────────────────────────
+
+export enum NotificationEntityType {
+  TASK = "task",
+  BOOKING = "booking",
+}
+
+/**
+ * Persisted inbox entry (Model)
+ */
+export interface InAppNotification {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId; // User the entry belongs to
+  role: UserRole.CUSTOMER | UserRole.PROVIDER;
+  event: DomainEventType;
+  title: string;
+  body: string;
+  entityType: NotificationEntityType;
+  entityId: Types.ObjectId;
+  status?: string; // Task or booking status the entry is about
+  data?: Record<string, string>;
+  readAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InAppNotificationModel extends Model<InAppNotification> {}
+
+/**
+ * Paginated inbox listing
+ */
+export interface NotificationListResponse {
+  notifications: InAppNotification[];
+  unreadCount: number;
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Event sent over the real-time stream
+ */
+export enum NotificationStreamEvent {
+  NOTIFICATION = "notification",
+  UNREAD_COUNT = "unread-count",
+  DASHBOARD = "dashboard",
+  MESSAGE = "message",
+  MESSAGES_READ = "messages-read",
+}
+
+/**
+ * Request Body: Update Notification Preferences
+ */
+export interface UpdateNotificationPreferencesRequestBody {
+  emailNotifications?: boolean;
+  smsNotifications?: boolean;
+  pushNotifications?: boolean;
+}
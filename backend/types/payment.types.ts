@@ -0,0 +1,177 @@
+// types/payment.types.ts
+
+import { Types, Model } from "mongoose";
+
+/**
+ * Ledger entry type
+ * DEPOSIT/BALANCE are collections from the customer;
+ * REFUND/PAYOUT are disbursements to the customer/provider
+ */
+export enum PaymentTransactionType {
+  DEPOSIT = "DEPOSIT",
+  BALANCE = "BALANCE",
+  REFUND = "REFUND",
+  PAYOUT = "PAYOUT",
+}
+
+export enum PaymentTransactionStatus {
+  PENDING = "PENDING", // Sent to gateway, awaiting callback
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED",
+}
+
+export enum MobileMoneyNetwork {
+  MTN = "MTN",
+  VODAFONE = "VODAFONE",
+  AIRTELTIGO = "AIRTELTIGO",
+}
+
+export const COLLECTION_TYPES = [
+  PaymentTransactionType.DEPOSIT,
+  PaymentTransactionType.BALANCE,
+];
+
+/**
+ * Gateway callback recorded on a transaction (for idempotency/audit)
+ */
+export interface PaymentCallbackEvent {
+  eventId: string;
+  status: PaymentTransactionStatus;
+  receivedAt: Date;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Payment Transaction (Model)
+ * Append-only ledger of money moving for a booking
+ */
+export interface PaymentTransaction {
+  _id: Types.ObjectId;
+  reference: string; // Our reference, sent to the gateway
+  bookingId: Types.ObjectId;
+  type: PaymentTransactionType;
+  status: PaymentTransactionStatus;
+  amount: number;
+  currency: string;
+
+  // Commission split (collections and payouts)
+  commissionRate?: number;
+  commissionAmount?: number;
+  providerAmount?: number;
+
+  // Gateway
+  gateway: string;
+  network?: MobileMoneyNetwork;
+  msisdn?: string;
+  gatewayReference?: string;
+  failureReason?: string;
+  callbackEvents: PaymentCallbackEvent[];
+
+  initiatedBy?: Types.ObjectId;
+  reason?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentTransactionModel extends Model<PaymentTransaction> {}
+
+// ── Gateway contract ──────────────────────────────────────────────────────
+
+/**
+ * Request to pull money from a customer wallet
+ */
+export interface GatewayCollectionRequest {
+  reference: string;
+  amount: number;
+  currency: string;
+  network: MobileMoneyNetwork;
+  msisdn: string;
+  description?: string;
+}
+
+/**
+ * Request to push money to a wallet (refunds, payouts)
+ */
+export interface GatewayDisbursementRequest {
+  reference: string;
+  amount: number;
+  currency: string;
+  network: MobileMoneyNetwork;
+  msisdn: string;
+  description?: string;
+}
+
+export interface GatewayInitiationResult {
+  gatewayReference: string;
+  status: PaymentTransactionStatus;
+  failureReason?: string;
+}
+
+/**
+ * Normalised callback from a gateway
+ */
+export interface GatewayCallback {
+  eventId: string;
+  reference: string;
+  gatewayReference?: string;
+  status: PaymentTransactionStatus.SUCCEEDED | PaymentTransactionStatus.FAILED;
+  failureReason?: string;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Pluggable payment gateway
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  initiateCollection(
+    request: GatewayCollectionRequest
+  ): Promise<GatewayInitiationResult>;
+  initiateDisbursement(
+    request: GatewayDisbursementRequest
+  ): Promise<GatewayInitiationResult>;
+  /**
+   * Verify and normalise a callback; throws if the signature is invalid
+   */
+  parseCallback(
+    headers: Record<string, string | string[] | undefined>,
+    body: any,
+    rawBody?: Buffer
+  ): GatewayCallback;
+}
+
+// ── API shapes ────────────────────────────────────────────────────────────
+
+export interface InitiateBookingPaymentRequestBody {
+  type: PaymentTransactionType.DEPOSIT | PaymentTransactionType.BALANCE;
+  network: MobileMoneyNetwork;
+  phoneNumber: string;
+}
+
+export interface RefundBookingRequestBody {
+  amount?: number; // Defaults to everything refundable
+  reason: string;
+}
+
+export interface PayoutProviderRequestBody {
+  network: MobileMoneyNetwork;
+  phoneNumber: string;
+}
+
+/**
+ * Ledger totals for a booking
+ */
+export interface BookingPaymentSummary {
+  currency: string;
+  totalDue: number;
+  depositDue: number;
+  collected: number;
+  refunded: number;
+  paidOut: number;
+  outstanding: number;
+  refundable: number;
+  commissionRate: number;
+  providerShare: number;
+  pending: number;
+}
@@ -0,0 +1,71 @@
+// types/phone-verification.types.ts
+
+import { Model, Types } from "mongoose";
+import { BaseEntity } from "./base.types";
+
+/**
+ * Whose contact number is being verified
+ */
+export enum PhoneOwnerType {
+  CLIENT = "client",
+  PROVIDER = "provider",
+}
+
+/**
+ * Which of the profile's numbers. For clients the primary number is the
+ * user profile's mobile number.
+ */
+export enum PhoneContactField {
+  PRIMARY = "primaryContact",
+  SECONDARY = "secondaryContact",
+}
+
+export interface PhoneOwner {
+  type: PhoneOwnerType;
+  profileId: Types.ObjectId;
+  userId: Types.ObjectId;
+}
+
+/**
+ * One number's OTP state and, once confirmed, proof of ownership (Model)
+ */
+export interface PhoneVerification extends BaseEntity {
+  ownerType: PhoneOwnerType;
+  profileId: Types.ObjectId; // ClientProfile or ProviderProfile
+  userId: Types.ObjectId;
+  phone: string; // E.164, e.g. +233241234567
+
+  // Pending code, stored hashed
+  codeHash?: string;
+  codeExpiresAt?: Date;
+  attempts: number;
+
+  // Resend throttling
+  lastSentAt?: Date;
+  sendCount: number;
+  sendWindowStartedAt?: Date;
+
+  verifiedAt?: Date;
+  // Unconfirmed requests are removed after this
+  purgeAt?: Date;
+}
+
+export interface PhoneVerificationModel extends Model<PhoneVerification> {}
+
+export interface PhoneContactStatus {
+  field: PhoneContactField;
+  phone: string | null; // Normalized; null if missing or not a Ghana mobile number
+  verified: boolean;
+  verifiedAt?: Date;
+}
+
+// ── Request bodies ────────────────────────────────────────────────────────
+
+export interface RequestPhoneCodeRequestBody {
+  field?: PhoneContactField;
+}
+
+export interface ConfirmPhoneCodeRequestBody {
+  field?: PhoneContactField;
+  code: string;
+}
@@ -3,7 +3,9 @@ import { Types, Model, HydratedDocument } from "mongoose";
 import {
   BaseEntity,
   ClientContactDetails,
+  CommunicationPreferences,
   IdDetails,
+  RatingStats,
   SoftDeletable,
   UserLocation,
 } from "../base.types";
@@ -34,11 +36,7 @@ export interface ClientProfile extends BaseEntity, SoftDeletable {
    */
   preferences?: {
     preferredCategories?: Types.ObjectId[]; // Reference to Service Categories
-    communicationPreferences?: {
-      emailNotifications: boolean;
-      smsNotifications: boolean;
-      pushNotifications: boolean;
-    };
+    communicationPreferences?: CommunicationPreferences;
     languagePreference?: string;
   };
 
@@ -70,6 +68,11 @@ export interface ClientProfile extends BaseEntity, SoftDeletable {
     verifiedAt?: Date;
   };
 
+  /**
+   * Ratings from providers (denormalized)
+   */
+  ratingStats?: RatingStats;
+
   /**
    * Emergency Contact (Optional)
    */
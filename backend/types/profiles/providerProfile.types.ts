@@ -2,11 +2,15 @@
 import { Types, Model } from "mongoose";
 import {
   BaseEntity,
+  CommunicationPreferences,
   ContactDetails,
   IdDetails,
+  RatingStats,
   SoftDeletable,
   UserLocation,
 } from "../base.types";
+import { BlackoutDate } from "../availability.types";
+import { ServiceArea } from "../service-area.types";
 
 export enum PopulationLevel {
   NONE = "none",
@@ -15,6 +19,69 @@ export enum PopulationLevel {
   DETAILED = "detailed",
 }
 
+/**
+ * Provider Performance Stats (precomputed for matching)
+ * Rates are fractions between 0 and 1
+ */
+export interface ProviderPerformanceStats {
+  totalBookings: number;
+  completedBookings: number; // VALIDATED or COMPLETED
+  cleanCompletions: number; // Completed without ever being disputed
+  disputedBookings: number;
+  cancelledByProvider: number;
+  activeBookings: number; // CONFIRMED, IN_PROGRESS or AWAITING_VALIDATION
+  completionRate?: number; // cleanCompletions / finished bookings
+  cancellationRate?: number; // cancelledByProvider / totalBookings
+  respondedRequests: number;
+  avgResponseMinutes?: number; // REQUESTED -> accepted/rejected
+  computedAt?: Date;
+}
+
+/**
+ * Where a provider is in admin review
+ */
+export enum ProviderApprovalStatus {
+  PENDING = "pending",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+}
+
+/**
+ * Admin decisions and provider actions in the approval lifecycle
+ */
+export enum ProviderApprovalAction {
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  RESUBMITTED = "resubmitted",
+  SUSPENDED = "suspended",
+  UNSUSPENDED = "unsuspended",
+}
+
+export interface ProviderApproval {
+  status: ProviderApprovalStatus;
+  submittedAt?: Date; // Created or last resubmitted
+  reviewedBy?: Types.ObjectId; // Admin User ID
+  reviewedAt?: Date;
+  notes?: string; // Admin notes from the last review
+  rejectionReason?: string;
+  resubmissionCount?: number;
+  resubmissionNotes?: string; // Provider's note on what they changed
+}
+
+/**
+ * Latest suspension; in force until endsAt (open-ended when absent)
+ * or until lifted
+ */
+export interface ProviderSuspension {
+  suspendedBy: Types.ObjectId;
+  suspendedAt: Date;
+  reason: string;
+  endsAt?: Date;
+  liftedBy?: Types.ObjectId;
+  liftedAt?: Date;
+  liftNotes?: string;
+}
+
 /**
  * Primary Provider Profile Entity
  */
@@ -39,7 +106,8 @@ export interface ProviderProfile extends BaseEntity, SoftDeletable {
    * Contact & Location
    */
   providerContactInfo: ContactDetails;
-  locationData: UserLocation;
+  locationData: UserLocation; // Base location
+  serviceAreas?: ServiceArea[]; // Extra zones the provider travels to
 
   /**
    * Availability & Scheduling
@@ -53,12 +121,36 @@ export interface ProviderProfile extends BaseEntity, SoftDeletable {
       end: string;
     }
   >;
+  blackoutDates?: BlackoutDate[];
+  calendarLockedUntil?: Date; // Held while a booking claims a slot
 
   /**
    * Payments & Deposits
    */
   requireInitialDeposit: boolean;
   percentageDeposit?: number;
+
+  /**
+   * Notifications
+   */
+  notificationPreferences?: CommunicationPreferences;
+
+  /**
+   * Reviews (denormalized)
+   */
+  ratingStats?: RatingStats;
+
+  /**
+   * Booking performance (denormalized, refreshed by background job)
+   */
+  performanceStats?: ProviderPerformanceStats;
+
+  /**
+   * Admin approval and suspension. Profiles created before approval
+   * existed have no approval record and are treated as approved.
+   */
+  approval?: ProviderApproval;
+  suspension?: ProviderSuspension;
 }
 
 /**
@@ -84,14 +176,20 @@ export interface ProviderProfileModel
  * Request Body: Create Provider Profile
  */
 export interface CreateProviderProfileRequestBody
-  extends Omit<ProviderProfile, "_id" | "createdAt" | "updatedAt"> {}
+  extends Omit<
+    ProviderProfile,
+    "_id" | "createdAt" | "updatedAt" | "approval" | "suspension"
+  > {}
 
 /**
  * Request Body: Update Provider Profile
  */
 export interface UpdateProviderProfileRequestBody
   extends Partial<
-    Omit<ProviderProfile, "_id" | "createdAt" | "updatedAt" | "profile">
+    Omit<
+      ProviderProfile,
+      "_id" | "createdAt" | "updatedAt" | "profile" | "approval" | "suspension"
+    >
   > {}
 
 /**
@@ -103,4 +201,30 @@ export interface ProviderProfileResponse {
   error?: string;
 }
 
+/**
+ * Request Body: Admin review decisions
+ */
+export interface ApproveProviderRequestBody {
+  notes?: string;
+}
+
+export interface RejectProviderRequestBody {
+  reason: string;
+  notes?: string;
+}
+
+export interface SuspendProviderRequestBody {
+  reason: string;
+  duration?: number | string; // Days; omitted or "indefinite" for open-ended
+}
 
+export interface UnsuspendProviderRequestBody {
+  notes?: string;
+}
+
+/**
+ * Request Body: Provider resubmitting after rejection
+ */
+export interface ResubmitProviderRequestBody {
+  notes?: string;
+}
@@ -0,0 +1,51 @@
+// types/rate-limit.types.ts
+
+import { Request } from "express";
+import { Model } from "mongoose";
+
+/**
+ * Hits recorded for a key in its current window
+ */
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where counters are kept. Use a shared store (Mongo) when running
+ * more than one instance.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /** Record a hit, starting a new window if the last one ended */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /** Current window without recording a hit; null if none is open */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * How one route (or group of routes) is throttled
+ */
+export interface RateLimitPolicy {
+  name: string;
+  windowMs: number;
+  max: number;
+  // What to count by; return null to skip limiting the request
+  key: (req: Request) => string | null;
+  message?: string;
+}
+
+/**
+ * Stored counter (Model, Mongo store)
+ */
+export interface RateLimitEntry {
+  _id: string; // Policy-scoped key
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitEntryModel extends Model<RateLimitEntry> {}
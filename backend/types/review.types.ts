@@ -0,0 +1,91 @@
+// types/review.types.ts
+
+import { Types, Model } from "mongoose";
+import { RatingStats } from "./base.types";
+
+/**
+ * Who is reviewing whom
+ */
+export enum ReviewDirection {
+  CUSTOMER_TO_PROVIDER = "CUSTOMER_TO_PROVIDER", // Public
+  PROVIDER_TO_CLIENT = "PROVIDER_TO_CLIENT", // Only feeds client rating stats
+}
+
+/**
+ * Moderation status - only PUBLISHED reviews count and are shown
+ */
+export enum ReviewStatus {
+  PUBLISHED = "PUBLISHED",
+  HIDDEN = "HIDDEN", // Hidden by admin pending review
+  REMOVED = "REMOVED", // Removed by admin (abusive, fake, etc.)
+}
+
+/**
+ * Provider's single public reply
+ */
+export interface ReviewResponse {
+  message: string;
+  respondedAt: Date;
+  respondedBy: Types.ObjectId;
+}
+
+/**
+ * Admin moderation record
+ */
+export interface ReviewModeration {
+  moderatedBy: Types.ObjectId;
+  moderatedAt: Date;
+  reason?: string;
+}
+
+/**
+ * Review (Model)
+ * One review per booking per direction
+ */
+export interface Review {
+  _id: Types.ObjectId;
+  bookingId: Types.ObjectId;
+  taskId: Types.ObjectId;
+  direction: ReviewDirection;
+  reviewerId: Types.ObjectId; // ClientProfile or ProviderProfile
+  providerId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  serviceId: Types.ObjectId;
+  rating: number;
+  comment?: string;
+  providerResponse?: ReviewResponse;
+  status: ReviewStatus;
+  moderation?: ReviewModeration;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReviewModel extends Model<Review> {}
+
+/**
+ * Paginated reviews with star summary
+ */
+export interface ReviewListResponse {
+  reviews: Review[];
+  summary: RatingStats;
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface CreateReviewRequestBody {
+  rating: number;
+  comment?: string;
+}
+
+export interface RespondToReviewRequestBody {
+  message: string;
+}
+
+export interface ModerateReviewRequestBody {
+  status: ReviewStatus;
+  reason?: string;
+}
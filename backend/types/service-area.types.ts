@@ -0,0 +1,61 @@
+// types/service-area.types.ts
+
+import { Types } from "mongoose";
+
+/**
+ * How a service area is described
+ */
+export enum ServiceAreaType {
+  RADIUS = "RADIUS", // Distance around the provider's base location
+  NAMED = "NAMED", // Named regions / cities / districts
+  POLYGON = "POLYGON", // Custom GeoJSON polygon
+}
+
+/**
+ * GeoJSON polygon - rings of [longitude, latitude] positions
+ */
+export interface GeoPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+/**
+ * Provider-declared zone they travel to, with its own travel fee
+ */
+export interface ServiceArea {
+  _id?: Types.ObjectId;
+  name: string; // e.g. "East Legon"
+  type: ServiceAreaType;
+  radiusKm?: number; // RADIUS
+  regions?: string[]; // NAMED
+  cities?: string[]; // NAMED
+  districts?: string[]; // NAMED
+  polygon?: GeoPolygon; // POLYGON
+  travelFee: number; // Charged when the service has includeTravelFee
+  isActive: boolean;
+}
+
+/**
+ * The declared area a location falls in
+ */
+export interface ServiceAreaMatch {
+  areaId?: Types.ObjectId;
+  name: string;
+  type: ServiceAreaType;
+  travelFee: number;
+}
+
+/**
+ * Request Body: Add / Update Service Area
+ */
+export interface ServiceAreaRequestBody {
+  name: string;
+  type: ServiceAreaType;
+  radiusKm?: number;
+  regions?: string[];
+  cities?: string[];
+  districts?: string[];
+  polygon?: GeoPolygon;
+  travelFee?: number;
+  isActive?: boolean;
+}
@@ -1,6 +1,6 @@
 // types/service.types.ts
 import { Types, Model, HydratedDocument } from "mongoose";
-import { BaseEntity, SoftDeletable } from "./base.types";
+import { BaseEntity, RatingStats, SoftDeletable } from "./base.types";
 
 export interface Service extends BaseEntity, SoftDeletable {
   // Core service details
@@ -30,6 +30,9 @@ export interface Service extends BaseEntity, SoftDeletable {
 
   isPrivate: boolean;
 
+  // Reviews (denormalized)
+  ratingStats?: RatingStats;
+
   // Moderation fields
   submittedBy?: Types.ObjectId;
   approvedBy?: Types.ObjectId;
@@ -0,0 +1,49 @@
+// types/session.types.ts
+
+import { Model, Types } from "mongoose";
+
+/**
+ * Why a session ended early
+ */
+export enum SessionRevokeReason {
+  LOGOUT = "logout",
+  USER_REVOKED = "user_revoked", // Signed out from the sessions list
+  PASSWORD_CHANGED = "password_changed",
+  TOKEN_REUSE = "token_reuse", // A rotated refresh token was presented again
+  ACCOUNT_DELETED = "account_deleted",
+}
+
+/**
+ * Where a session was started from
+ */
+export interface SessionMetadata {
+  device?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Auth Session (Model)
+ * One per login; the refresh token rotates on every use
+ */
+export interface AuthSession extends SessionMetadata {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 of the current refresh token
+  rotatedTokenHashes: string[]; // Earlier tokens, kept for reuse detection
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AuthSessionModel extends Model<AuthSession> {}
+
+/**
+ * Request body: refresh tokens (the cookie is used when omitted)
+ */
+export interface RefreshTokenRequestBody {
+  refreshToken?: string;
+}
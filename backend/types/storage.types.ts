@@ -0,0 +1,142 @@
+// types/storage.types.ts
+
+import { Readable } from "stream";
+import { FileScanRecord } from "./file-scan.types";
+
+/**
+ * Where a file's bytes live. Matches `File.storageProvider`.
+ */
+export type StorageDriverName = "local" | "s3" | "cloudinary" | "gcs" | "mega";
+
+export interface StoragePutOptions {
+  contentType: string;
+  fileName?: string; // Original name, kept for downloads
+  isPublic?: boolean; // Defaults to true
+  metadata?: Record<string, string>;
+}
+
+/**
+ * How a driver should treat an existing object. Drivers that keep
+ * public and private objects apart, or need a resource type, use these.
+ */
+export interface StorageObjectOptions {
+  contentType?: string;
+  isPublic?: boolean;
+  extension?: string; // For drivers whose keys carry no extension
+}
+
+export interface StorageSignedUrlOptions extends StorageObjectOptions {
+  expiresInSeconds?: number;
+  downloadName?: string; // Served as an attachment with this name
+}
+
+/**
+ * A resized copy stored next to an image
+ */
+export interface StoredVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+/**
+ * Result of storing an object
+ */
+export interface StoredObject {
+  driver: StorageDriverName;
+  key: string; // Object key, or the public ID on Cloudinary
+  url: string; // Public URL, or the object's address if it is private
+  size: number;
+  contentType: string;
+  isPublic: boolean;
+  extension?: string;
+  etag?: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  variants?: Record<string, StoredVariant>; // Resized copies by size name
+  scan?: FileScanRecord; // Malware scan of the upload
+  extra?: Record<string, unknown>; // Driver-specific details worth keeping
+}
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+  etag?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * An object's bytes, read as a stream
+ */
+export interface StorageObjectStream {
+  body: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+export interface StorageListOptions {
+  limit?: number;
+  cursor?: string; // From a previous page's nextCursor
+}
+
+export interface StorageListResult {
+  objects: StorageObjectInfo[];
+  nextCursor?: string;
+}
+
+/**
+ * A storage backend. Keys are "/"-separated paths chosen by the caller.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  put(
+    key: string,
+    body: Buffer,
+    options: StoragePutOptions
+  ): Promise<StoredObject>;
+
+  delete(key: string, options?: StorageObjectOptions): Promise<void>;
+
+  /**
+   * Time-limited URL for reading the object, public or not
+   */
+  getSignedUrl(
+    key: string,
+    options?: StorageSignedUrlOptions
+  ): Promise<string>;
+
+  /**
+   * Read the object through the server, or null if it doesn't exist
+   */
+  getStream(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectStream | null>;
+
+  /**
+   * Object details, or null if it doesn't exist
+   */
+  head(
+    key: string,
+    options?: StorageObjectOptions
+  ): Promise<StorageObjectInfo | null>;
+
+  list(prefix: string, options?: StorageListOptions): Promise<StorageListResult>;
+
+  /**
+   * Move the object to public or private delivery, returning its URL.
+   * Objects already there are left alone; drivers whose buckets decide
+   * access only report the URL.
+   */
+  setVisibility(
+    key: string,
+    isPublic: boolean,
+    options?: StorageObjectOptions
+  ): Promise<string>;
+}
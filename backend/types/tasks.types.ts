@@ -27,6 +27,14 @@ export enum TaskStatus {
   CANCELLED = "CANCELLED", // Cancelled during discovery
 }
 
+/**
+ * Provider's answer to a customer request
+ */
+export enum TaskRequestResponse {
+  ACCEPTED = "ACCEPTED",
+  REJECTED = "REJECTED",
+}
+
 /**
  * Provider Match Result
  */
@@ -42,6 +50,12 @@ export interface ProviderMatchResult {
     tagScore: number;
     categoryScore: number;
     locationScore: number;
+    // Provider performance signals (intelligent matching)
+    ratingScore?: number;
+    completionScore?: number;
+    cancellationScore?: number;
+    responseScore?: number;
+    workloadScore?: number;
   };
 }
 
@@ -57,6 +71,11 @@ export interface TaskMatchingConfig {
     tagMatch: number;
     categoryMatch: number;
     locationProximity: number;
+    rating: number;
+    completionRate: number;
+    cancellationRate: number;
+    responseLatency: number;
+    workload: number;
   };
   minimumMatchScore: number;
   maxProvidersToReturn: number;
@@ -119,6 +138,13 @@ export interface Task {
     acceptedAt: Date;
     providerMessage?: string;
   };
+  // One entry per answered request; feeds provider response latency
+  requestResponses?: Array<{
+    providerId: Types.ObjectId;
+    requestedAt: Date;
+    respondedAt: Date;
+    response: TaskRequestResponse;
+  }>;
   convertedToBookingId?: Types.ObjectId;
   convertedAt?: Date;
   cancelledAt?: Date;
@@ -161,6 +187,7 @@ export interface TaskMethods {
     providerId: Types.ObjectId,
     message?: string
   ): Promise<HydratedDocument<Task, TaskMethods>>;
+  recordRequestResponse(response: TaskRequestResponse): void;
   acceptTask(providerId: Types.ObjectId, message?: string): Promise<any>;
   rejectTask(
     providerId: Types.ObjectId,
@@ -14,6 +14,30 @@ export interface UserSecurity {
   lastLogin?: Date;
   lastLoggedOut?: Date;
   passwordChangedAt?: Date;
+  lockedUntil?: Date; // Set after repeated failed logins
+}
+
+/**
+ * Second factors accepted at login
+ */
+export enum TwoFactorMethod {
+  TOTP = "totp",
+  BACKUP_CODE = "backup_code",
+  EMAIL = "email",
+}
+
+// Two-factor authentication state; secrets are never selected by default
+export interface UserTwoFactor {
+  enabled: boolean;
+  enabledAt?: Date;
+  totpSecret?: string; // Encrypted
+  pendingTotpSecret?: string; // Encrypted, until the first code is confirmed
+  lastTotpStep?: number; // Time step of the last accepted code
+  backupCodeHashes?: string[];
+  emailOtpHash?: string;
+  emailOtpExpires?: Date;
+  failedAttempts?: number;
+  lockedUntil?: Date;
 }
 
 export interface IUser extends BaseEntity, SoftDeletable {
@@ -42,6 +66,7 @@ export interface IUser extends BaseEntity, SoftDeletable {
 
   // Enhanced security
   security: UserSecurity;
+  twoFactor?: UserTwoFactor;
 }
 
 // Instance methods interface
@@ -89,6 +114,25 @@ export interface LoginRequestBody {
   password: string;
 }
 
+export interface TwoFactorLoginRequestBody {
+  challengeToken: string;
+  code: string;
+  method?: TwoFactorMethod; // Defaults to TOTP
+}
+
+export interface TwoFactorChallengeRequestBody {
+  challengeToken: string;
+}
+
+export interface TwoFactorCodeRequestBody {
+  code: string;
+}
+
+export interface DisableTwoFactorRequestBody {
+  password: string;
+  code: string;
+}
+
 export interface ResetPasswordRequestBody {
   email: string;
 }
@@ -122,6 +166,7 @@ export interface AuthenticatedRequest extends Request {
   userId?: string;
   profile?: IUserProfile | null;
   user?: IUser;
+  sessionId?: string;
 }
 
 export interface AuthResponse {
@@ -130,7 +175,11 @@ export interface AuthResponse {
   profile?: Partial<IUserProfile> | null;
   hasProfile?: boolean;
   token?: string;
+  refreshToken?: string;
   requiresVerification?: boolean;
+  requiresTwoFactor?: boolean;
+  challengeToken?: string;
+  twoFactorMethods?: TwoFactorMethod[];
   email?: string;
   error?: string;
 }
@@ -0,0 +1,28 @@
+// utils/batch.utils.ts
+import { Types } from "mongoose";
+
+/**
+ * Walk documents in _id order, `batchSize` at a time. Each batch is
+ * fetched after the last _id seen, so documents the caller skips or
+ * fails on never stop later ones from being reached.
+ *
+ * `fetchBatch` receives the _id condition to merge into its filter and
+ * must sort by _id and limit to `batchSize`.
+ */
+export async function* inIdOrder<T extends { _id: Types.ObjectId }>(
+  fetchBatch: (after: { _id?: { $gt: Types.ObjectId } }) => PromiseLike<T[]>,
+  batchSize: number
+): AsyncGenerator<T> {
+  let lastId: Types.ObjectId | undefined;
+
+  while (true) {
+    const batch = await fetchBatch(lastId ? { _id: { $gt: lastId } } : {});
+
+    for (const doc of batch) {
+      lastId = doc._id;
+      yield doc;
+    }
+
+    if (batch.length < batchSize) return;
+  }
+}
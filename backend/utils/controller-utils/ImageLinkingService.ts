@@ -5,6 +5,7 @@ import ProfileModel from "../../models/profiles/userProfile.model";
 import { ServiceModel } from "../../models/service.model";
 import { MongoDBFileService } from "../../services/files/mongodb.files.service";
 import { ProviderModel } from "../../models/profiles/provider.model";
+import { ClientModel } from "../../models/profiles/clientProfileModel";
 
 /**
  * Generic Image Linking Service
@@ -16,19 +17,151 @@ import { ProviderModel } from "../../models/profiles/provider.model";
  * - user: Profile pictures
  * - category: Category cover images
  * - service: Service images
- * - provider: Provider business gallery images
+ * - provider: Provider business gallery and ID images
+ * - client: Client ID images
  * - product: Product images (can be extended)
  */
 
-type EntityType = "user" | "category" | "service" | "provider" | "product";
-type Label =
+export type EntityType =
+  | "user"
+  | "category"
+  | "service"
+  | "provider"
+  | "client"
+  | "product";
+export type Label =
   | "profile_picture"
   | "category_cover"
   | "service_cover"
   | "provider_gallery"
   | "provider_id_image"
+  | "client_id_image"
   | "product_image";
 
+/**
+ * Rules for one kind of attachment. Adding an entry to
+ * ATTACHMENT_POLICIES is all a new kind needs.
+ */
+export interface AttachmentPolicy {
+  entityType: EntityType;
+  label: Label;
+  imageFieldName: string; // Field on the entity holding the file ID(s)
+  multiple: boolean; // imageFieldName is an array
+  maxCount: number; // Active files per entity
+  allowedMimeTypes: string[]; // Exact types, or "image/*"
+  maxSize: number; // Bytes
+  isPublic: boolean;
+  folderPrefix: string;
+  ownerOnly?: boolean; // Entity owner (and admins) manage it; admins only otherwise
+  resetOnChange?: Record<string, unknown>; // Set on the entity whenever a file is linked or unlinked
+}
+
+const MB = 1024 * 1024;
+const ID_DOCUMENT_TYPES = ["image/*", "application/pdf"];
+
+export const ATTACHMENT_POLICIES: Partial<Record<Label, AttachmentPolicy>> = {
+  profile_picture: {
+    entityType: "user",
+    label: "profile_picture",
+    imageFieldName: "profilePictureId",
+    multiple: false,
+    maxCount: 1,
+    allowedMimeTypes: ["image/*"],
+    maxSize: 5 * MB,
+    isPublic: true,
+    folderPrefix: "users",
+    ownerOnly: true,
+  },
+  category_cover: {
+    entityType: "category",
+    label: "category_cover",
+    imageFieldName: "catCoverId",
+    multiple: false,
+    maxCount: 1,
+    allowedMimeTypes: ["image/*"],
+    maxSize: 10 * MB,
+    isPublic: true,
+    folderPrefix: "categories",
+  },
+  service_cover: {
+    entityType: "service",
+    label: "service_cover",
+    imageFieldName: "coverImage",
+    multiple: false,
+    maxCount: 1,
+    allowedMimeTypes: ["image/*"],
+    maxSize: 10 * MB,
+    isPublic: true,
+    folderPrefix: "services",
+    ownerOnly: true,
+  },
+  provider_gallery: {
+    entityType: "provider",
+    label: "provider_gallery",
+    imageFieldName: "BusinessGalleryImages",
+    multiple: true,
+    maxCount: 20,
+    allowedMimeTypes: ["image/*"],
+    maxSize: 8 * MB,
+    isPublic: true,
+    folderPrefix: "providers",
+    ownerOnly: true,
+  },
+  provider_id_image: {
+    entityType: "provider",
+    label: "provider_id_image",
+    imageFieldName: "IdDetails.fileImage",
+    multiple: true,
+    maxCount: 5,
+    allowedMimeTypes: ID_DOCUMENT_TYPES,
+    maxSize: 10 * MB,
+    isPublic: false,
+    folderPrefix: "providers",
+    ownerOnly: true,
+    // Verification covered the images as they were at review
+    resetOnChange: { "IdDetails.verifiedAt": null },
+  },
+  client_id_image: {
+    entityType: "client",
+    label: "client_id_image",
+    imageFieldName: "idDetails.fileImage",
+    multiple: true,
+    maxCount: 5,
+    allowedMimeTypes: ID_DOCUMENT_TYPES,
+    maxSize: 10 * MB,
+    isPublic: false,
+    folderPrefix: "clients",
+    ownerOnly: true,
+    resetOnChange: {
+      "idDetails.verifiedAt": null,
+      "verificationDetails.idVerified": false,
+      isVerified: false,
+    },
+  },
+};
+
+/**
+ * Policy for a label on an entity type, or undefined if that
+ * combination isn't registered
+ */
+export const getAttachmentPolicy = (
+  entityType: string,
+  label: string
+): AttachmentPolicy | undefined => {
+  const policy = ATTACHMENT_POLICIES[label as Label];
+  return policy && policy.entityType === entityType ? policy : undefined;
+};
+
+export const isMimeTypeAllowed = (
+  policy: AttachmentPolicy,
+  mimeType: string
+): boolean =>
+  policy.allowedMimeTypes.some((allowed) =>
+    allowed.endsWith("/*")
+      ? mimeType.startsWith(allowed.slice(0, -1))
+      : mimeType === allowed
+  );
+
 interface LinkImageConfig {
   entityType: EntityType;
   entityId: string;
@@ -66,6 +199,8 @@ export class ImageLinkingService {
         return ServiceModel as Model<any>;
       case "provider":
         return ProviderModel as Model<any>;
+      case "client":
+        return ClientModel as Model<any>;
       // case "product":
       //   return ProductModel as Model<any>;
       default:
@@ -91,6 +226,130 @@ export class ImageLinkingService {
     }
   }
 
+  /**
+   * Filter excluding soft-deleted entities; services use deletedAt
+   */
+  private getActiveFilter(entityType: EntityType): Record<string, any> {
+    return entityType === "service" ? { deletedAt: null } : { isDeleted: false };
+  }
+
+  /**
+   * Find a live entity by the ID attachments use for it
+   * (the user ID for "user", the document ID otherwise)
+   */
+  async findEntity(entityType: EntityType, entityId: string) {
+    if (!Types.ObjectId.isValid(entityId)) return null;
+
+    const Model = this.getEntityModel(entityType);
+    return Model.findOne({
+      [this.getEntityIdField(entityType)]: new Types.ObjectId(entityId),
+      ...this.getActiveFilter(entityType),
+    });
+  }
+
+  private lastModifiedUpdate(
+    entityType: EntityType,
+    lastModifiedBy?: string
+  ): Record<string, any> {
+    return entityType === "user"
+      ? { lastModified: new Date() }
+      : {
+          lastModifiedBy: lastModifiedBy
+            ? new Types.ObjectId(lastModifiedBy)
+            : undefined,
+        };
+  }
+
+  /**
+   * Reference an uploaded attachment from its entity: sets single-file
+   * fields, adds to array fields. Array fields inside a subdocument
+   * (e.g. idDetails.fileImage) are only updated once it exists.
+   */
+  async linkAttachment(
+    policy: AttachmentPolicy,
+    entityId: string,
+    fileId: Types.ObjectId,
+    lastModifiedBy?: string
+  ): Promise<ImageLinkResult> {
+    try {
+      const entity = await this.findEntity(policy.entityType, entityId);
+      if (!entity) return { linked: false };
+
+      const field = policy.imageFieldName;
+      const parentPath = field.includes(".")
+        ? field.slice(0, field.lastIndexOf("."))
+        : undefined;
+
+      if (parentPath && !entity.get(parentPath)) {
+        return { linked: false, entityId: entity._id };
+      }
+
+      const Model = this.getEntityModel(policy.entityType);
+      await Model.findByIdAndUpdate(
+        entity._id,
+        {
+          ...(policy.multiple
+            ? { $addToSet: { [field]: fileId } }
+            : { [field]: fileId }),
+          ...policy.resetOnChange,
+          ...this.lastModifiedUpdate(policy.entityType, lastModifiedBy),
+        },
+        { runValidators: false }
+      );
+
+      return { linked: true, entityId: entity._id, fileId };
+    } catch (error) {
+      console.error(
+        `Error linking ${policy.label} to ${policy.entityType}:`,
+        error
+      );
+      return {
+        linked: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Drop an attachment reference from its entity
+   */
+  async unlinkAttachment(
+    policy: AttachmentPolicy,
+    entityId: string,
+    fileId: Types.ObjectId,
+    lastModifiedBy?: string
+  ): Promise<{ unlinked: boolean; error?: string }> {
+    try {
+      const entity = await this.findEntity(policy.entityType, entityId);
+      if (!entity) return { unlinked: false };
+
+      const field = policy.imageFieldName;
+      const Model = this.getEntityModel(policy.entityType);
+      const result = await Model.findOneAndUpdate(
+        { _id: entity._id, [field]: fileId },
+        {
+          ...(policy.multiple
+            ? { $pull: { [field]: fileId } }
+            : { $unset: { [field]: 1 } }),
+          ...policy.resetOnChange,
+          ...this.lastModifiedUpdate(policy.entityType, lastModifiedBy),
+        },
+        { runValidators: false }
+      );
+
+      return { unlinked: !!result };
+    } catch (error) {
+      console.error(
+        `Error unlinking ${policy.label} from ${policy.entityType}:`,
+        error
+      );
+      return {
+        unlinked: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   /**
    * Link image to entity (called after image upload or entity creation)
    * Returns true if successfully linked, false if entity doesn't exist yet
@@ -1,6 +1,8 @@
 import { Types } from "mongoose";
 import { Request, Response } from "express";
 import { SystemRole } from "../../types/base.types";
+import { AuditContext } from "../../types/audit-log.types";
+import { isInlineType } from "../file-type.utils";
 // Extended request interface to include authenticated user
 export interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -45,3 +47,29 @@ export const applySuperAdminProperties = (userDoc: any) => {
   return userDoc;
 };
 
+
+// Who is making a request and from where, for the audit log
+export const getAuditContext = (req: AuthenticatedRequest): AuditContext => ({
+  actorId: req.user?._id?.toString() || req.userId,
+  actorRole: req.user?.systemRole,
+  ip: req.ip,
+  userAgent: req.get("user-agent") || undefined,
+});
+
+/**
+ * Type and disposition headers for serving an uploaded file. Only raster
+ * images are shown in place; anything else is downloaded, and browsers
+ * must not sniff a different type.
+ */
+export const setFileHeaders = (
+  res: Response,
+  contentType: string | undefined,
+  options: { fileName?: string; download?: boolean } = {}
+) => {
+  // attachment() guesses Content-Type from the name, so set ours after it
+  if (options.download || !isInlineType(contentType)) {
+    res.attachment(options.fileName);
+  }
+  res.setHeader("Content-Type", contentType || "application/octet-stream");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+};
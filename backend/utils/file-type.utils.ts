@@ -0,0 +1,266 @@
+// utils/file-type.utils.ts
+// What an upload really is, from its first bytes. The type a client
+// declares is only a claim; these checks hold it to the content.
+
+import path from "path";
+
+// Enough to get past long comment headers in SVGs
+const HEAD_BYTES = 16 * 1024;
+
+const OLE_STORAGE = "application/x-ole-storage"; // Pre-2007 Office files
+
+// ISO base media brands (bytes 8-12 after "ftyp")
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis"]);
+const HEIF_BRANDS = new Set(["mif1", "msf1"]);
+
+// Top-level atoms QuickTime files may start with instead of "ftyp"
+const QUICKTIME_ATOMS = new Set(["moov", "mdat", "wide", "free", "skip", "pnot"]);
+
+// Tags, comments and processing instructions; "a<b" in a CSV is not one
+const MARKUP = /<(?:[!?]|\/?[a-z][\w:-]*(?:\s|\/?>))/i;
+
+// Text is only accepted under a plain text name, so nothing renders it
+const TEXT_EXTENSIONS = new Set([".txt", ".csv"]);
+
+const SVG_START =
+  /^\s*(?:<\?xml[^>]*>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>\s*)*<svg[\s>]/i;
+
+/**
+ * Detected types each declared type may have. Office formats from
+ * 2007 on are zip archives; older ones are OLE compound files.
+ */
+const ACCEPTED_CONTENT: Record<string, string[]> = {
+  "image/jpeg": ["image/jpeg"],
+  "image/jpg": ["image/jpeg"],
+  "image/png": ["image/png"],
+  "image/gif": ["image/gif"],
+  "image/webp": ["image/webp"],
+  "image/tiff": ["image/tiff"],
+  "image/avif": ["image/avif", "image/heif"],
+  "image/heic": ["image/heic", "image/heif"],
+  "image/heif": ["image/heic", "image/heif", "image/avif"],
+  "image/svg+xml": ["image/svg+xml"],
+  "application/pdf": ["application/pdf"],
+  "application/msword": [OLE_STORAGE],
+  "application/vnd.ms-excel": [OLE_STORAGE],
+  "application/vnd.ms-powerpoint": [OLE_STORAGE],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    "application/zip",
+  ],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+    "application/zip",
+  ],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    ["application/zip"],
+  "application/zip": ["application/zip"],
+  "application/x-rar-compressed": ["application/x-rar-compressed"],
+  "application/x-7z-compressed": ["application/x-7z-compressed"],
+  "text/plain": ["text/plain"],
+  "text/csv": ["text/plain"],
+  "video/mp4": ["video/mp4", "video/quicktime"],
+  "video/quicktime": ["video/quicktime", "video/mp4"],
+  "video/mpeg": ["video/mpeg"],
+  "video/x-msvideo": ["video/x-msvideo"],
+  "video/webm": ["video/webm"],
+  "audio/webm": ["video/webm"],
+  "audio/mpeg": ["audio/mpeg"],
+  "audio/wav": ["audio/wav"],
+  "audio/ogg": ["audio/ogg"],
+};
+
+/**
+ * Extension stored with each accepted type. Storage keys never take the
+ * uploader's own extension, since servers pick Content-Type from it.
+ */
+const TYPE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/jpg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/tiff": ".tif",
+  "image/avif": ".avif",
+  "image/heic": ".heic",
+  "image/heif": ".heif",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.ms-powerpoint": ".ppt",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    ".docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    ".pptx",
+  "application/zip": ".zip",
+  "application/x-rar-compressed": ".rar",
+  "application/x-7z-compressed": ".7z",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+  "video/mpeg": ".mpeg",
+  "video/x-msvideo": ".avi",
+  "video/webm": ".webm",
+  "audio/webm": ".weba",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/ogg": ".ogg",
+};
+
+/**
+ * Raster images are the only uploads browsers may show in place; SVGs
+ * and everything else are served as downloads
+ */
+export const isInlineType = (contentType?: string): boolean =>
+  !!contentType &&
+  contentType.toLowerCase().startsWith("image/") &&
+  !contentType.toLowerCase().startsWith("image/svg");
+
+const INLINE_EXTENSIONS = new Set(
+  Object.entries(TYPE_EXTENSIONS)
+    .filter(([contentType]) => isInlineType(contentType))
+    .map(([, extension]) => extension)
+);
+
+/**
+ * Extension for a (verified) content type, with its dot; empty if unknown
+ */
+export const extensionForType = (contentType: string): string =>
+  TYPE_EXTENSIONS[contentType.toLowerCase()] ?? "";
+
+/**
+ * Same as isInlineType, for files served by extension
+ */
+export const isInlineExtension = (extension: string): boolean =>
+  INLINE_EXTENSIONS.has(extension.toLowerCase());
+
+const hasBytes = (head: Buffer, bytes: number[], offset = 0): boolean =>
+  head.length >= offset + bytes.length &&
+  bytes.every((byte, i) => head[offset + i] === byte);
+
+const ascii = (head: Buffer, start: number, end: number): string =>
+  head.length >= end ? head.toString("latin1", start, end) : "";
+
+const detectIsoMedia = (head: Buffer): string | null => {
+  if (ascii(head, 4, 8) !== "ftyp") {
+    return QUICKTIME_ATOMS.has(ascii(head, 4, 8)) ? "video/quicktime" : null;
+  }
+
+  const brand = ascii(head, 8, 12);
+  if (AVIF_BRANDS.has(brand)) return "image/avif";
+  if (HEIC_BRANDS.has(brand)) return "image/heic";
+  if (HEIF_BRANDS.has(brand)) return "image/heif";
+  if (brand === "qt  ") return "video/quicktime";
+  return "video/mp4";
+};
+
+const detectRiff = (head: Buffer): string | null => {
+  if (ascii(head, 0, 4) !== "RIFF") return null;
+
+  switch (ascii(head, 8, 12)) {
+    case "WEBP":
+      return "image/webp";
+    case "WAVE":
+      return "audio/wav";
+    case "AVI ":
+      return "video/x-msvideo";
+    default:
+      return null;
+  }
+};
+
+/**
+ * Type of a file from its content, or null if it isn't one we know.
+ * Content that is none of the binary formats, has no NUL bytes and no
+ * markup counts as text.
+ */
+export const detectContentType = (body: Buffer): string | null => {
+  const head = body.subarray(0, HEAD_BYTES);
+
+  if (hasBytes(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (hasBytes(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (["GIF87a", "GIF89a"].includes(ascii(head, 0, 6))) return "image/gif";
+  if (
+    hasBytes(head, [0x49, 0x49, 0x2a, 0x00]) ||
+    hasBytes(head, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "image/tiff";
+  }
+
+  const riff = detectRiff(head);
+  if (riff) return riff;
+
+  const isoMedia = detectIsoMedia(head);
+  if (isoMedia) return isoMedia;
+
+  // Some writers put junk before the header; readers look in the first 1KB
+  const pdfStart = head.indexOf("%PDF-");
+  if (pdfStart !== -1 && pdfStart < 1024) return "application/pdf";
+
+  if (
+    hasBytes(head, [0x50, 0x4b, 0x03, 0x04]) ||
+    hasBytes(head, [0x50, 0x4b, 0x05, 0x06])
+  ) {
+    return "application/zip";
+  }
+  if (hasBytes(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return OLE_STORAGE;
+  }
+  if (hasBytes(head, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07])) {
+    return "application/x-rar-compressed";
+  }
+  if (hasBytes(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+    return "application/x-7z-compressed";
+  }
+
+  if (hasBytes(head, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (ascii(head, 0, 4) === "OggS") return "audio/ogg";
+  if (
+    ascii(head, 0, 3) === "ID3" ||
+    (head.length >= 2 && head[0] === 0xff && (head[1] & 0xe0) === 0xe0)
+  ) {
+    return "audio/mpeg";
+  }
+  if (
+    hasBytes(head, [0x00, 0x00, 0x01, 0xba]) ||
+    hasBytes(head, [0x00, 0x00, 0x01, 0xb3])
+  ) {
+    return "video/mpeg";
+  }
+
+  if (head.includes(0x00)) return null;
+
+  const text = head.toString("utf8").replace(/^\uFEFF/, "");
+  if (SVG_START.test(text)) return "image/svg+xml";
+
+  // Text is checked in full; HTML past the first bytes is still HTML
+  if (body.includes(0x00) || MARKUP.test(body.toString("utf8"))) return null;
+  return "text/plain";
+};
+
+/**
+ * Whether a file's content is what its declared type says. Text must
+ * also be named .txt or .csv.
+ */
+export const contentMatchesType = (
+  body: Buffer,
+  declaredType: string,
+  fileName: string
+): boolean => {
+  const declared = declaredType.toLowerCase();
+  const detected = detectContentType(body);
+  if (!detected) return false;
+
+  if (
+    detected === "text/plain" &&
+    !TEXT_EXTENSIONS.has(path.extname(fileName).toLowerCase())
+  ) {
+    return false;
+  }
+
+  return (ACCEPTED_CONTENT[declared] ?? [declared]).includes(detected);
+};
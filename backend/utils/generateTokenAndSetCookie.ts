@@ -1,13 +1,35 @@
 // utils/generateTokenAndSetCookie.ts
 import jwt from "jsonwebtoken";
-import { Response } from "express";
+import { Request, Response } from "express";
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  sessionService,
+} from "../services/session.service";
+import { SessionMetadata } from "../types/session.types";
 
 interface TokenOptions {
   isEmailVerified?: boolean;
   isAdmin?: boolean;
   isSuperAdmin?: boolean;
+  sessionId?: string;
 }
 
+// Access tokens are short-lived; clients renew them with the refresh token
+export const ACCESS_TOKEN_TTL_MINUTES = Number(
+  process.env.ACCESS_TOKEN_TTL_MINUTES || 15
+);
+
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+};
+
+// Only sent to the auth routes that read it
+const refreshCookieOptions = { ...cookieOptions, path: "/api/auth" };
+
 export const generateTokenAndSetCookie = (
   res: Response,
   userId: string,
@@ -16,6 +38,7 @@ export const generateTokenAndSetCookie = (
   // Create JWT payload with all necessary fields
   const payload = {
     userId,
+    sessionId: options?.sessionId,
     isEmailVerified: options?.isEmailVerified || false,
     isAdmin: options?.isAdmin || false,
     isSuperAdmin: options?.isSuperAdmin || false,
@@ -27,17 +50,65 @@ export const generateTokenAndSetCookie = (
     payload,
     process.env.JWT_SECRET as string,
     {
-      expiresIn: "7d",
+      expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
     }
   );
 
   res.cookie("token", token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "strict",
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    ...cookieOptions,
+    maxAge: ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
   });
 
   return token;
 };
 
+export const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  });
+};
+
+export const clearAuthCookies = (res: Response) => {
+  res.clearCookie("token", cookieOptions);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, refreshCookieOptions);
+};
+
+/**
+ * Device, IP and user agent of the request starting or renewing a session.
+ * Apps can name the device with an `X-Device-Name` header.
+ */
+export const getSessionMetadata = (req: Request): SessionMetadata => ({
+  device: req.get("x-device-name") || undefined,
+  ip: req.ip,
+  userAgent: req.get("user-agent") || undefined,
+});
+
+/**
+ * Start a session for a user who just signed in and set both cookies
+ */
+export const startSessionAndSetCookies = async (
+  req: Request<any, any, any, any>,
+  res: Response,
+  user: {
+    _id: { toString(): string };
+    isEmailVerified?: boolean;
+    isAdmin?: boolean;
+    isSuperAdmin?: boolean;
+  }
+): Promise<{ token: string; refreshToken: string }> => {
+  const { session, refreshToken } = await sessionService.createSession(
+    user._id.toString(),
+    getSessionMetadata(req)
+  );
+
+  const token = generateTokenAndSetCookie(res, user._id.toString(), {
+    isEmailVerified: user.isEmailVerified,
+    isAdmin: user.isAdmin,
+    isSuperAdmin: user.isSuperAdmin,
+    sessionId: session._id.toString(),
+  });
+  setRefreshTokenCookie(res, refreshToken);
+
+  return { token, refreshToken };
+};
@@ -0,0 +1,79 @@
+// utils/geo.utils.ts
+import { PipelineStage } from "mongoose";
+import { Coordinates } from "../types/base.types";
+import { toGeoPoint } from "../models/shared-schemas/location.schema";
+
+export const METERS_PER_KM = 1000;
+
+// Field $geoNear writes the distance to (meters)
+export const GEO_DISTANCE_FIELD = "distanceMeters";
+
+/**
+ * Build a $geoNear stage against a 2dsphere-indexed GeoJSON point field.
+ * Must be the first stage of the pipeline.
+ */
+export const buildGeoNearStage = (params: {
+  near: Coordinates;
+  key: string;
+  maxDistanceKm?: number;
+  query?: Record<string, any>;
+}): PipelineStage.GeoNear => ({
+  $geoNear: {
+    near: toGeoPoint(params.near),
+    key: params.key,
+    distanceField: GEO_DISTANCE_FIELD,
+    spherical: true,
+    ...(params.maxDistanceKm !== undefined && {
+      maxDistance: params.maxDistanceKm * METERS_PER_KM,
+    }),
+    ...(params.query && { query: params.query }),
+  },
+});
+
+export const metersToKm = (meters: number): number => meters / METERS_PER_KM;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+/**
+ * Great-circle distance between two coordinates (km)
+ */
+export const haversineKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Whether a point lies inside a GeoJSON polygon (outer ring minus holes).
+ * Planar ray casting - fine for city-sized service areas.
+ */
+export const isPointInPolygon = (
+  point: Coordinates,
+  rings: number[][][]
+): boolean => {
+  const inRing = (ring: number[][]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      const crosses =
+        yi > point.latitude !== yj > point.latitude &&
+        point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+      if (crosses) inside = !inside;
+    }
+    return inside;
+  };
+
+  const [outer, ...holes] = rings;
+  return !!outer && inRing(outer) && !holes.some(inRing);
+};
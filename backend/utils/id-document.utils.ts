@@ -0,0 +1,58 @@
+// utils/id-document.utils.ts
+// ID document numbers. Ghana Card (national ID) numbers look like GHA-XXXXXXXXX-X.
+
+import { idType } from "../types/base.types";
+
+/**
+ * Normalize a Ghana Card number to GHA-XXXXXXXXX-X, accepting lower
+ * case and spaces or missing dashes. Returns null if it isn't one.
+ */
+export const normalizeGhanaCardNumber = (input: string): string | null => {
+  if (typeof input !== "string") return null;
+
+  const compact = input.trim().toUpperCase().replace(/[\s-]/g, "");
+  const match = /^GHA(\d{9})(\d)$/.exec(compact);
+  if (!match) return null;
+
+  return `GHA-${match[1]}-${match[2]}`;
+};
+
+/**
+ * Normalize an ID number for its type so the same document always
+ * compares equal. Throws if a Ghana Card number is malformed.
+ */
+export const normalizeIdNumber = (type: string, input: string): string => {
+  if (type === idType.NATIONAL_ID) {
+    const cardNumber = normalizeGhanaCardNumber(input);
+    if (!cardNumber) {
+      throw new Error(
+        "Invalid Ghana Card number. Use the format GHA-XXXXXXXXX-X"
+      );
+    }
+    return cardNumber;
+  }
+
+  return String(input).trim().toUpperCase().replace(/\s+/g, " ");
+};
+
+export const isValidIdType = (type: string): type is idType =>
+  Object.values(idType).includes(type as idType);
+
+/**
+ * Checked ID type and normalized number, as profiles store them
+ */
+export const normalizeIdDetails = (details: {
+  idType: string;
+  idNumber: string;
+}): { idType: idType; idNumber: string } => {
+  if (!isValidIdType(details.idType)) {
+    throw new Error(
+      `Invalid ID type. Must be one of: ${Object.values(idType).join(", ")}`
+    );
+  }
+
+  return {
+    idType: details.idType,
+    idNumber: normalizeIdNumber(details.idType, details.idNumber),
+  };
+};
@@ -0,0 +1,63 @@
+// utils/phone.utils.ts
+// Ghana phone numbers: +233XXXXXXXXX, 233XXXXXXXXX, 00233XXXXXXXXX or 0XXXXXXXXX
+
+const COUNTRY_CODE = "233";
+
+// Mobile network prefixes (MTN, Telecel, AirtelTigo) without the leading 0
+const MOBILE_PREFIXES = [
+  "20",
+  "23",
+  "24",
+  "25",
+  "26",
+  "27",
+  "28",
+  "50",
+  "53",
+  "54",
+  "55",
+  "56",
+  "57",
+  "59",
+];
+
+/**
+ * Normalize a Ghana mobile number to E.164 (+233XXXXXXXXX).
+ * Returns null if it isn't a valid Ghana mobile number.
+ */
+export const normalizeGhanaPhone = (input: string): string | null => {
+  if (typeof input !== "string") return null;
+
+  // Drop spaces, dashes, dots and brackets
+  let digits = input.trim().replace(/[\s\-.()]/g, "");
+
+  if (digits.startsWith("+")) digits = digits.slice(1);
+  else if (digits.startsWith("00")) digits = digits.slice(2);
+
+  if (!/^\d+$/.test(digits)) return null;
+
+  let national: string;
+  if (digits.startsWith(COUNTRY_CODE) && digits.length === 12) {
+    national = digits.slice(3);
+  } else if (digits.startsWith("0") && digits.length === 10) {
+    national = digits.slice(1);
+  } else {
+    return null;
+  }
+
+  // +233 0XX... is a common typo for +233 XX...
+  if (national.startsWith("0")) return null;
+
+  if (!MOBILE_PREFIXES.includes(national.slice(0, 2))) return null;
+
+  return `+${COUNTRY_CODE}${national}`;
+};
+
+export const isValidGhanaPhone = (input: string): boolean =>
+  normalizeGhanaPhone(input) !== null;
+
+/**
+ * Show only the last digits, e.g. "+233 *** *** 567"
+ */
+export const maskPhone = (phone: string): string =>
+  `${phone.slice(0, 4)} *** *** ${phone.slice(-3)}`;
@@ -0,0 +1,162 @@
+// utils/svg.utils.ts
+// Uploaded SVGs are markup a browser will run. Only drawing elements and
+// attributes are kept; scripts, stylesheets, event handlers, embedded
+// HTML and links to other documents are removed.
+
+// Lowercase names; SVG names are case-sensitive, so output keeps the original
+const ALLOWED_ELEMENTS = new Set([
+  "svg", "g", "defs", "symbol", "use", "title", "desc", "switch",
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon",
+  "text", "tspan", "textpath", "image",
+  "lineargradient", "radialgradient", "stop", "pattern", "clippath", "mask", "marker",
+  "filter", "feblend", "fecolormatrix", "fecomponenttransfer", "fecomposite",
+  "feconvolvematrix", "fediffuselighting", "fedisplacementmap", "fedistantlight",
+  "fedropshadow", "feflood", "fefunca", "fefuncb", "fefuncg", "fefuncr",
+  "fegaussianblur", "feimage", "femerge", "femergenode", "femorphology",
+  "feoffset", "fepointlight", "fespecularlighting", "fespotlight", "fetile",
+  "feturbulence",
+]);
+
+// Elements that may embed a picture inline
+const IMAGE_ELEMENTS = new Set(["image", "feimage"]);
+
+const ALLOWED_PREFIXES = new Set(["xmlns", "xlink", "xml"]);
+
+const ATTRIBUTE_NAME = /^[a-zA-Z_][\w.-]*(?::[\w.-]+)?$/;
+const INLINE_IMAGE = /^data:image\/(?:png|jpe?g|gif|webp);/;
+const EXTERNAL_URL = /url\(\s*['"]?(?!#)/;
+const SCRIPT_URL = /(?:java|vb)script:|data:text\/html|expression\(|@import/;
+
+// Comments, CDATA, doctypes (with any entity declarations), other
+// declarations, processing instructions, end tags, start tags, text,
+// and a stray "<"
+const TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<![^>]*>?|<\?[\s\S]*?(?:\?>|$)|<\/\s*([a-zA-Z][\w:.-]*)\s*>|<([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>"']+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>|[^<]+|</g;
+
+const ATTRIBUTE =
+  /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const escapeText = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * An attribute value as a browser reads it, for checking only:
+ * character references decoded, whitespace and controls removed
+ */
+const normalizeValue = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16) || 0)
+    )
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(Number(dec) || 0))
+    .replace(/&colon;/gi, ":")
+    .replace(/&lpar;/gi, "(")
+    .replace(/&tab;|&newline;/gi, "")
+    .replace(/[\s\u0000-\u001f]/g, "")
+    .toLowerCase();
+
+const isAllowedAttribute = (
+  element: string,
+  name: string,
+  value: string
+): boolean => {
+  if (!ATTRIBUTE_NAME.test(name)) return false;
+
+  const [prefix, localName] = name.includes(":")
+    ? name.toLowerCase().split(":")
+    : [null, name.toLowerCase()];
+
+  if (prefix && !ALLOWED_PREFIXES.has(prefix)) return false;
+  if (localName.startsWith("on")) return false;
+
+  const normalized = normalizeValue(value);
+  if (SCRIPT_URL.test(normalized) || EXTERNAL_URL.test(normalized)) {
+    return false;
+  }
+
+  if (localName === "href") {
+    return (
+      normalized.startsWith("#") ||
+      (IMAGE_ELEMENTS.has(element) && INLINE_IMAGE.test(normalized))
+    );
+  }
+
+  return true;
+};
+
+const buildAttributes = (element: string, source: string): string => {
+  let attributes = "";
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1];
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+
+    if (isAllowedAttribute(element, name, value)) {
+      attributes += ` ${name}="${value
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;")}"`;
+    }
+  }
+
+  return attributes;
+};
+
+/**
+ * Markup reduced to the allowed SVG elements and attributes. Disallowed
+ * elements are dropped with everything inside them, and unclosed
+ * elements are closed so the result is well-formed.
+ */
+export const sanitizeSvg = (svg: string): string => {
+  const output: string[] = [];
+  // Open elements; `kept` is false from the first disallowed one down
+  const open: Array<{ name: string; kept: boolean }> = [];
+  const keeping = () => open.length === 0 || open[open.length - 1].kept;
+
+  for (const match of svg.matchAll(TOKEN)) {
+    const [token, cdata, endName, startName, attributes, selfClosing] = match;
+
+    if (startName) {
+      const element = startName.toLowerCase();
+      const kept = keeping() && ALLOWED_ELEMENTS.has(element);
+
+      if (kept) {
+        output.push(
+          `<${startName}${buildAttributes(element, attributes)}${
+            selfClosing ? " />" : ">"
+          }`
+        );
+      }
+      if (!selfClosing) open.push({ name: startName, kept });
+      continue;
+    }
+
+    if (endName) {
+      const index = open.map((entry) => entry.name).lastIndexOf(endName);
+      if (index === -1) continue;
+
+      // Close anything left open inside it as well
+      for (const entry of open.splice(index).reverse()) {
+        if (entry.kept) output.push(`</${entry.name}>`);
+      }
+      continue;
+    }
+
+    // Text outside the root element isn't allowed in XML
+    if (open.length === 0 || !keeping()) continue;
+
+    if (cdata !== undefined) {
+      output.push(escapeText(cdata));
+    } else if (token === "<") {
+      output.push("&lt;");
+    } else if (!token.startsWith("<")) {
+      output.push(token);
+    }
+    // Comments, declarations and processing instructions are dropped
+  }
+
+  for (const entry of open.reverse()) {
+    if (entry.kept) output.push(`</${entry.name}>`);
+  }
+
+  return output.join("");
+};
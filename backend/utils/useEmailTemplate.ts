@@ -45,3 +45,71 @@ export const getResetPasswordEmailTemplate = (
     </div>
   `;
 };
+
+export const getNotificationEmailTemplate = (
+  name: string,
+  title: string,
+  body: string,
+  actionPath?: string
+): string => {
+  const actionUrl = actionPath ? `${process.env.CLIENT_URL}${actionPath}` : null;
+
+  return `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <h2 style="color: #333;">${title}</h2>
+      <p>Hi ${name},</p>
+      <p>${body}</p>
+      ${
+        actionUrl
+          ? `<div style="text-align: center; margin: 30px 0;">
+        <a href="${actionUrl}"
+           style="background-color: #007bff; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+          View Details
+        </a>
+      </div>`
+          : ""
+      }
+      <p><small>You can change which notifications you receive in your account settings.</small></p>
+    </div>
+  `;
+};
+
+export const getLoginCodeEmailTemplate = (
+  name: string,
+  code: string,
+  expiresInMinutes: number
+): string => {
+  return `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <h2 style="color: #333;">Your Sign-in Code</h2>
+      <p>Hi ${name},</p>
+      <p>Use this code to finish signing in:</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <span style="font-size: 32px; letter-spacing: 8px; font-weight: bold; color: #333;">${code}</span>
+      </div>
+      <p><small>This code will expire in ${expiresInMinutes} minutes. If you didn't try to sign in, change your password.</small></p>
+    </div>
+  `;
+};
+
+export const getAccountLockedEmailTemplate = (
+  name: string,
+  lockedForMinutes: number
+): string => {
+  const resetUrl = `${process.env.CLIENT_URL}/forgot-password`;
+
+  return `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <h2 style="color: #333;">Account Temporarily Locked</h2>
+      <p>Hi ${name},</p>
+      <p>We noticed several failed attempts to sign in to your account, so we've locked it for ${lockedForMinutes} minutes.</p>
+      <p>If this was you, wait and try again. If it wasn't, we recommend resetting your password:</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${resetUrl}"
+           style="background-color: #dc3545; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+          Reset Password
+        </a>
+      </div>
+    </div>
+  `;
+};